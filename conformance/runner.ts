@@ -1,6 +1,6 @@
 import anyTest from 'ava'
 import type { Macro, TestFn } from 'ava'
-import { importJWK, type JWK, calculateJwkThumbprint, exportJWK, compactDecrypt } from 'jose'
+import { importJWK, type JWK, calculateJwkThumbprint, exportJWK } from 'jose'
 import * as undici from 'undici'
 import { inspect } from 'node:util'
 
@@ -174,17 +174,10 @@ export const flow = (options?: MacroOptions) => {
 
       t.log('AS Metadata discovered for', as.issuer)
 
-      const decoder = new TextDecoder()
-      const decrypt: oauth.JweDecryptFunction = async (jwe) => {
-        const { plaintext } = await compactDecrypt(
-          jwe,
-          await importPrivateKey('RSA-OAEP', configuration.client.jwks.keys[0]),
-          { keyManagementAlgorithms: ['RSA-OAEP'] },
-        ).catch((cause) => {
-          throw new oauth.OperationProcessingError('failed to decrypt', { cause })
-        })
-        return decoder.decode(plaintext)
-      }
+      const decrypt = oauth.JweDecrypt(
+        await importPrivateKey('RSA-OAEP', configuration.client.jwks.keys[0]),
+        { keyManagementAlgorithms: ['RSA-OAEP'] },
+      )
       const client: oauth.Client = {
         client_id: configuration.client.client_id,
         use_mtls_endpoint_aliases: configuration.client.use_mtls_endpoint_aliases,
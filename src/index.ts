@@ -44,10 +44,9 @@ function looseInstanceOf<T extends {}>(input: unknown, expected: Constructor<T>)
   }
 
   try {
-    return (
-      input instanceof expected ||
-      Object.getPrototypeOf(input)[Symbol.toStringTag] === expected.prototype[Symbol.toStringTag]
-    )
+    // typed array prototypes only expose their tag on instances, hence the fallback to the name
+    const tag = expected.prototype[Symbol.toStringTag] ?? expected.name
+    return input instanceof expected || Object.prototype.toString.call(input) === `[object ${tag}]`
   } catch {
     return false
   }
@@ -85,6 +84,52 @@ export interface PrivateKey {
   kid?: string
 }
 
+/**
+ * Interface to sign with an asymmetric private key that is not available as a CryptoKey, e.g. one
+ * held by an HSM or a cloud KMS. It is accepted wherever a {@link PrivateKey} is used for signing.
+ *
+ * @example
+ *
+ * ```ts
+ * let kms!: { sign(keyId: string, data: Uint8Array): Promise<Uint8Array> }
+ *
+ * let signer: oauth.Signer = {
+ *   alg: 'ES256',
+ *   kid: 'key-1',
+ *   sign: (data) => kms.sign('key-1', data),
+ * }
+ *
+ * let clientAuth = oauth.PrivateKeyJwt(signer)
+ * ```
+ */
+export interface Signer {
+  /**
+   * JWS `alg` Algorithm identifier of the signatures produced by {@link Signer.sign}.
+   */
+  alg: string
+
+  /**
+   * JWK Key ID to add to JOSE headers when this signer is used. When not provided no `kid` (JWK Key
+   * ID) will be added to the JOSE Header.
+   */
+  kid?: string
+
+  /**
+   * Signs the JWS Signing Input and resolves with the raw JWS Signature. ECDSA signatures must be
+   * in the fixed-length `R || S` format rather than DER.
+   */
+  sign(data: Uint8Array): Promise<Uint8Array | ArrayBuffer>
+}
+
+/**
+ * Interface to pass a public key together with a {@link Signer} for its private half, e.g. to
+ * {@link DPoP}.
+ */
+export interface SignerKeyPair {
+  privateKey: Signer
+  publicKey: CryptoKey
+}
+
 const ERR_INVALID_ARG_VALUE = 'ERR_INVALID_ARG_VALUE'
 const ERR_INVALID_ARG_TYPE = 'ERR_INVALID_ARG_TYPE'
 
@@ -365,9 +410,27 @@ export const modifyAssertion: unique symbol = Symbol()
  * - Encrypted JWT Introspection responses
  * - Encrypted JARM Responses
  *
+ * {@link JweDecrypt} returns a WebCrypto based implementation, a custom one may be used instead.
+ *
+ * @example
+ *
+ * Decrypting JARM responses using {@link JweDecrypt}
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let key!: oauth.CryptoKey | oauth.PrivateKey
+ * let currentUrl!: URL
+ * let state!: string | undefined
+ *
+ * let params = await oauth.validateJwtAuthResponse(as, client, currentUrl, state, {
+ *   [oauth.jweDecrypt]: oauth.JweDecrypt(key),
+ * })
+ * ```
+ *
  * @example
  *
- * Decrypting JARM responses
+ * Decrypting JARM responses using a custom implementation
  *
  * ```ts
  * import * as jose from 'jose'
@@ -401,6 +464,30 @@ export const modifyAssertion: unique symbol = Symbol()
  */
 export const jweDecrypt: unique symbol = Symbol()
 
+/**
+ * Use to opt in to verifying `HS256`, `HS384`, and `HS512` JWS signed ID Tokens and JARM responses
+ * using a key derived from the Client Secret. By default only asymmetric JWS algorithms with keys
+ * obtained from the {@link AuthorizationServer.jwks_uri `as.jwks_uri`} are supported.
+ *
+ * Note: HMAC signed JWTs are only appropriate for confidential clients, the same secret is shared
+ * between the client and the authorization server.
+ *
+ * @example
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let clientSecret!: string
+ * let currentUrl!: URL
+ * let state!: string | undefined
+ *
+ * let params = await oauth.validateJwtAuthResponse(as, client, currentUrl, state, {
+ *   [oauth.hmacSecret]: clientSecret,
+ * })
+ * ```
+ */
+export const hmacSecret: unique symbol = Symbol()
+
 /**
  * DANGER ZONE - This option has security implications that must be understood, assessed for
  * applicability, and accepted before use. It is critical that the JSON Web Key Set cache only be
@@ -641,6 +728,11 @@ export interface AuthorizationServer {
    * supports.
    */
   readonly display_values_supported?: string[]
+  /**
+   * JSON array containing a list of the `prompt` parameter values that the authorization server
+   * supports.
+   */
+  readonly prompt_values_supported?: string[]
   /**
    * JSON array containing a list of the Claim Types that the authorization server supports.
    */
@@ -834,6 +926,17 @@ export interface Client {
    * and fall back to `RS256` when the authorization server metadata is not set.
    */
   introspection_signed_response_alg?: string
+  /**
+   * JWE `alg` algorithm the Client uses to encrypt Request Objects sent to the authorization
+   * server. See {@link IssueRequestObjectOptions.encryption}.
+   */
+  request_object_encryption_alg?: string
+  /**
+   * JWE `enc` algorithm the Client uses to encrypt Request Objects sent to the authorization
+   * server. Default is `A128CBC-HS256` when
+   * {@link Client.request_object_encryption_alg `client.request_object_encryption_alg`} is set.
+   */
+  request_object_encryption_enc?: string
   /**
    * Default Maximum Authentication Age.
    */
@@ -1339,3012 +1442,8350 @@ export async function processDiscoveryResponse(
   return json
 }
 
-function assertApplicationJson(response: Response): void {
-  assertContentType(response, 'application/json')
-}
-
-function notJson(response: Response, ...types: string[]) {
-  let msg = '"response" content-type must be '
-  if (types.length > 2) {
-    const last = types.pop()
-    msg += `${types.join(', ')}, or ${last}`
-  } else if (types.length === 2) {
-    msg += `${types[0]} or ${types[1]}`
-  } else {
-    msg += types[0]
-  }
-  return OPE(msg, RESPONSE_IS_NOT_JSON, response)
-}
-
-function assertContentTypes(response: Response, ...types: string[]): void {
-  if (!types.includes(getContentType(response)!)) {
-    throw notJson(response, ...types)
-  }
-}
+export interface ValidateSignedMetadataOptions {
+  /**
+   * Expected `iss` (issuer) claim value of the signed metadata JWT, i.e. the party attesting to the
+   * metadata values. Default is {@link AuthorizationServer.issuer `as.issuer`}.
+   */
+  expectedIssuer?: string
 
-function assertContentType(response: Response, contentType: string): void {
-  if (getContentType(response) !== contentType) {
-    throw notJson(response, contentType)
-  }
-}
+  /**
+   * Supported (or expected) JWT "alg" header parameter values. Default is all
+   * {@link JWSAlgorithm supported JWS Algorithms}.
+   */
+  signingAlgorithms?: string[]
 
-/**
- * Generates 32 random bytes and encodes them using base64url.
- */
-function randomBytes(): string {
-  return b64u(crypto.getRandomValues(new Uint8Array(32)))
-}
+  /**
+   * See {@link clockSkew}.
+   */
+  [clockSkew]?: number
 
-/**
- * Generate random `code_verifier` value.
- *
- * @group Utilities
- * @group Authorization Code Grant
- * @group Authorization Code Grant w/ OpenID Connect (OIDC)
- * @group Proof Key for Code Exchange (PKCE)
- *
- * @see [RFC 7636 - Proof Key for Code Exchange (PKCE)](https://www.rfc-editor.org/rfc/rfc7636.html#section-4)
- */
-export function generateRandomCodeVerifier(): string {
-  return randomBytes()
+  /**
+   * See {@link clockTolerance}.
+   */
+  [clockTolerance]?: number
 }
 
 /**
- * Generate random `state` value.
+ * Verifies the {@link AuthorizationServer.signed_metadata `as.signed_metadata`} JWT using
+ * caller-supplied trusted keys and returns Authorization Server Metadata where the signed metadata
+ * values take precedence over the corresponding plain JSON values.
  *
- * @group Utilities
+ * @example
  *
- * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.1.1)
- */
-export function generateRandomState(): string {
-  return randomBytes()
-}
-
-/**
- * Generate random `nonce` value.
+ * ```ts
+ * let issuer!: URL
+ * let trustedJwks!: oauth.JWKS
  *
- * @group Utilities
+ * let as = await oauth
+ *   .discoveryRequest(issuer)
+ *   .then((response) => oauth.processDiscoveryResponse(issuer, response))
+ *   .then((as) => oauth.validateSignedMetadata(as, trustedJwks))
+ * ```
  *
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#IDToken)
- */
-export function generateRandomNonce(): string {
-  return randomBytes()
-}
-
-/**
- * Calculates the PKCE `code_challenge` value to send with an authorization request using the S256
- * PKCE Code Challenge Method transformation.
+ * @param as Authorization Server Metadata, as returned by {@link processDiscoveryResponse}.
+ * @param keys Trusted JSON Web Key Set or a public {@link !CryptoKey} to verify the signed metadata
+ *   with.
  *
- * @param codeVerifier `code_verifier` value generated e.g. from {@link generateRandomCodeVerifier}.
+ * @returns Resolves with the Authorization Server Metadata with the signed values applied.
  *
- * @group Authorization Code Grant
- * @group Authorization Code Grant w/ OpenID Connect (OIDC)
- * @group Proof Key for Code Exchange (PKCE)
+ * @group Authorization Server Metadata
  *
- * @see [RFC 7636 - Proof Key for Code Exchange (PKCE)](https://www.rfc-editor.org/rfc/rfc7636.html#section-4)
+ * @see [RFC 8414 - OAuth 2.0 Authorization Server Metadata](https://www.rfc-editor.org/rfc/rfc8414.html#section-2.1)
  */
-export async function calculatePKCECodeChallenge(codeVerifier: string): Promise<string> {
-  assertString(codeVerifier, 'codeVerifier')
+export async function validateSignedMetadata(
+  as: AuthorizationServer,
+  keys: JWKS | CryptoKey,
+  options?: ValidateSignedMetadataOptions,
+): Promise<AuthorizationServer> {
+  assertAs(as)
 
-  return b64u(await crypto.subtle.digest('SHA-256', buf(codeVerifier)))
-}
+  if (keys instanceof CryptoKey) {
+    assertPublicKey(keys, '"keys"')
+  } else if (!isJsonObject<JWKS>(keys) || !Array.isArray(keys.keys)) {
+    throw CodedTypeError(
+      '"keys" must be a JSON Web Key Set or a public CryptoKey',
+      ERR_INVALID_ARG_TYPE,
+    )
+  }
 
-interface NormalizedKeyInput {
-  key?: CryptoKey
-  kid?: string
-}
+  const expectedIssuer = options?.expectedIssuer ?? as.issuer
+  assertString(expectedIssuer, '"options.expectedIssuer"')
 
-function getKeyAndKid(input: CryptoKey | PrivateKey | undefined): NormalizedKeyInput {
-  if (input instanceof CryptoKey) {
-    return { key: input }
+  if (as.signed_metadata === undefined) {
+    throw OPE(
+      'authorization server metadata does not contain a valid "as.signed_metadata"',
+      MISSING_SERVER_METADATA,
+      { attribute: 'signed_metadata' },
+    )
   }
 
-  if (!(input?.key instanceof CryptoKey)) {
-    return {}
-  }
+  assertString(as.signed_metadata, '"as.signed_metadata"', INVALID_SERVER_METADATA, {
+    attribute: 'signed_metadata',
+  })
 
-  if (input.kid !== undefined) {
-    assertString(input.kid, '"kid"')
-  }
+  const { claims, header, jwt } = await validateJwt(
+    as.signed_metadata,
+    checkSigningAlgorithm.bind(undefined, options?.signingAlgorithms, undefined, supported),
+    getClockSkew(options),
+    getClockTolerance(options),
+    undefined,
+  )
+    .then(validatePresence.bind(undefined, ['iss']))
+    .then(validateIssuer.bind(undefined, { issuer: expectedIssuer } as AuthorizationServer))
 
-  return {
-    key: input.key,
-    kid: input.kid,
-  }
-}
+  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = jwt.split('.')
 
-export interface DPoPRequestOptions {
-  /**
-   * DPoP handle, obtained from {@link DPoP}
-   */
-  DPoP?: DPoPHandle
-}
+  const key = keys instanceof CryptoKey ? keys : await selectVerificationKey(keys, header)
 
-export interface PushedAuthorizationRequestOptions
-  extends HttpRequestOptions<'POST', URLSearchParams>,
-    DPoPRequestOptions {}
+  await validateJwsSignature(protectedHeader, payload, key, b64u(encodedSignature))
 
-/**
- * Determines an RSASSA-PSS algorithm identifier from CryptoKey instance properties.
- */
-function psAlg(key: CryptoKey): string {
-  switch ((key.algorithm as RsaHashedKeyAlgorithm).hash.name) {
-    case 'SHA-256':
-      return 'PS256'
-    case 'SHA-384':
-      return 'PS384'
-    case 'SHA-512':
-      return 'PS512'
-    default:
-      throw new UnsupportedOperationError('unsupported RsaHashedKeyAlgorithm hash name', {
-        cause: key,
-      })
+  const metadata: Record<string, JsonValue | undefined> = { ...claims }
+  for (const claim of ['iss', 'sub', 'aud', 'exp', 'nbf', 'iat', 'jti']) {
+    delete metadata[claim]
   }
-}
 
-/**
- * Determines an RSASSA-PKCS1-v1_5 algorithm identifier from CryptoKey instance properties.
- */
-function rsAlg(key: CryptoKey): string {
-  switch ((key.algorithm as RsaHashedKeyAlgorithm).hash.name) {
-    case 'SHA-256':
-      return 'RS256'
-    case 'SHA-384':
-      return 'RS384'
-    case 'SHA-512':
-      return 'RS512'
-    default:
-      throw new UnsupportedOperationError('unsupported RsaHashedKeyAlgorithm hash name', {
-        cause: key,
-      })
+  if (metadata.issuer !== undefined && metadata.issuer !== as.issuer) {
+    throw OPE(
+      'signed metadata "issuer" value does not match the authorization server metadata',
+      JSON_ATTRIBUTE_COMPARISON,
+      { expected: as.issuer, claims, attribute: 'issuer' },
+    )
   }
-}
 
-/**
- * Determines an ECDSA algorithm identifier from CryptoKey instance properties.
- */
-function esAlg(key: CryptoKey): string {
-  switch ((key.algorithm as EcKeyAlgorithm).namedCurve) {
-    case 'P-256':
-      return 'ES256'
-    case 'P-384':
-      return 'ES384'
-    case 'P-521':
-      return 'ES512'
-    default:
-      throw new UnsupportedOperationError('unsupported EcKeyAlgorithm namedCurve', { cause: key })
-  }
+  return { ...as, ...metadata } as AuthorizationServer
 }
 
 /**
- * Determines a supported JWS `alg` identifier from CryptoKey instance properties.
+ * Protected Resource Metadata
+ *
+ * @group Protected Resource Metadata
+ *
+ * @see [RFC 9728 - OAuth 2.0 Protected Resource Metadata](https://www.rfc-editor.org/rfc/rfc9728.html#name-protected-resource-metadata)
  */
-function keyToJws(key: CryptoKey) {
-  switch (key.algorithm.name) {
-    case 'RSA-PSS':
-      return psAlg(key)
-    case 'RSASSA-PKCS1-v1_5':
-      return rsAlg(key)
-    case 'ECDSA':
-      return esAlg(key)
-    case 'Ed25519': // Fall through
-    case 'EdDSA':
-      return 'Ed25519'
-    default:
-      throw new UnsupportedOperationError('unsupported CryptoKey algorithm name', { cause: key })
-  }
-}
-
-function getClockSkew(client?: Pick<Client, typeof clockSkew>) {
-  const skew = client?.[clockSkew]
+export interface ResourceServer {
+  /**
+   * Protected resource's resource identifier URL.
+   */
+  readonly resource: string
+  /**
+   * JSON array containing a list of OAuth authorization server issuer identifiers for authorization
+   * servers that can be used with this protected resource.
+   */
+  readonly authorization_servers?: string[]
+  /**
+   * URL of the protected resource's JWK Set document.
+   */
+  readonly jwks_uri?: string
+  /**
+   * JSON array containing a list of the OAuth 2.0 `scope` values that are used in authorization
+   * requests to request access to this protected resource.
+   */
+  readonly scopes_supported?: string[]
+  /**
+   * JSON array containing a list of the supported methods of sending an OAuth 2.0 bearer token to
+   * the protected resource. Defined values are `header`, `body`, and `query`.
+   */
+  readonly bearer_methods_supported?: string[]
+  /**
+   * JSON array containing a list of the JWS signing algorithms supported by the protected resource
+   * for signing resource responses.
+   */
+  readonly resource_signing_alg_values_supported?: string[]
+  /**
+   * Human-readable name of the protected resource intended for display to the end user.
+   */
+  readonly resource_name?: string
+  /**
+   * URL of a page containing human-readable information that developers might want or need to know
+   * when using the protected resource.
+   */
+  readonly resource_documentation?: string
+  /**
+   * URL of a page containing human-readable information about the protected resource's requirements
+   * on how the client can use the data provided by the protected resource.
+   */
+  readonly resource_policy_uri?: string
+  /**
+   * URL of a page containing human-readable information about the protected resource's terms of
+   * service.
+   */
+  readonly resource_tos_uri?: string
+  /**
+   * Boolean value indicating protected resource support for mutual-TLS client certificate-bound
+   * access tokens.
+   */
+  readonly tls_client_certificate_bound_access_tokens?: boolean
+  /**
+   * JSON array containing a list of the authorization details `type` values supported by the
+   * resource server when the `authorization_details` request parameter is used.
+   */
+  readonly authorization_details_types_supported?: string[]
+  /**
+   * JSON array containing a list of the JWS `alg` values supported by the resource server for
+   * validating DPoP proof JWTs.
+   */
+  readonly dpop_signing_alg_values_supported?: string[]
+  /**
+   * Boolean value specifying whether the protected resource always requires the use of DPoP-bound
+   * access tokens.
+   */
+  readonly dpop_bound_access_tokens_required?: boolean
+  /**
+   * Signed JWT containing metadata parameters about the protected resource as claims.
+   */
+  readonly signed_metadata?: string
 
-  return typeof skew === 'number' && Number.isFinite(skew) ? skew : 0
+  readonly [metadata: string]: JsonValue | undefined
 }
 
-function getClockTolerance(client?: Pick<Client, typeof clockTolerance>) {
-  const tolerance = client?.[clockTolerance]
-
-  return typeof tolerance === 'number' && Number.isFinite(tolerance) && Math.sign(tolerance) !== -1
-    ? tolerance
-    : 30
+export interface ResourceDiscoveryRequestOptions extends HttpRequestOptions<'GET'> {
+  /**
+   * URL of the protected resource metadata to use instead of the one derived from the
+   * `resourceIdentifier` argument, e.g. the
+   * {@link WWWAuthenticateChallengeError.resource_metadata `resource_metadata`} WWW-Authenticate
+   * challenge parameter.
+   */
+  resourceMetadata?: URL | string
 }
 
 /**
- * Returns the current unix timestamp in seconds.
+ * Performs a protected resource metadata discovery by inserting the
+ * `/.well-known/oauth-protected-resource` well-known URI suffix between the host and path
+ * components of the `resourceIdentifier` argument.
+ *
+ * @example
+ *
+ * Discovering the authorization servers protecting a resource from a 401 challenge.
+ *
+ * ```ts
+ * let resource!: URL
+ * let err!: oauth.WWWAuthenticateChallengeError
+ *
+ * let rs = await oauth
+ *   .resourceDiscoveryRequest(resource, { resourceMetadata: err.resource_metadata })
+ *   .then((response) => oauth.processResourceDiscoveryResponse(resource, response))
+ *
+ * let issuer = new URL(rs.authorization_servers![0])
+ * ```
+ *
+ * @param resourceIdentifier Resource Identifier to resolve the well-known discovery URI for.
+ *
+ * @group Protected Resource Metadata
+ *
+ * @see [RFC 9728 - OAuth 2.0 Protected Resource Metadata](https://www.rfc-editor.org/rfc/rfc9728.html#name-obtaining-protected-resourc)
  */
-function epochTime() {
-  return Math.floor(Date.now() / 1000)
-}
-
-function assertAs(as: AuthorizationServer): asserts as is AuthorizationServer {
-  if (typeof as !== 'object' || as === null) {
-    throw CodedTypeError('"as" must be an object', ERR_INVALID_ARG_TYPE)
+export async function resourceDiscoveryRequest(
+  resourceIdentifier: URL,
+  options?: ResourceDiscoveryRequestOptions,
+): Promise<Response> {
+  if (!(resourceIdentifier instanceof URL)) {
+    throw CodedTypeError('"resourceIdentifier" must be an instance of URL', ERR_INVALID_ARG_TYPE)
   }
 
-  assertString(as.issuer, '"as.issuer"')
-}
+  checkProtocol(resourceIdentifier, options?.[allowInsecureRequests] !== true)
 
-function assertClient(client: Client): asserts client is Client {
-  if (typeof client !== 'object' || client === null) {
-    throw CodedTypeError('"client" must be an object', ERR_INVALID_ARG_TYPE)
+  let url: URL | null
+  if (options?.resourceMetadata !== undefined) {
+    const { resourceMetadata } = options
+    url =
+      resourceMetadata instanceof URL
+        ? new URL(resourceMetadata.href)
+        : URLParse(String(resourceMetadata))
+    if (!url) {
+      throw CodedTypeError('"options.resourceMetadata" must be a valid URL', ERR_INVALID_ARG_VALUE)
+    }
+    checkProtocol(url, options[allowInsecureRequests] !== true)
+  } else {
+    url = new URL(resourceIdentifier.href)
+    url.search = ''
+    if (url.pathname === '/') {
+      url.pathname = '.well-known/oauth-protected-resource'
+    } else {
+      url.pathname = `.well-known/oauth-protected-resource/${url.pathname}`.replace('//', '/')
+    }
   }
 
-  assertString(client.client_id, '"client.client_id"')
-}
+  const headers = prepareHeaders(options?.headers)
+  headers.set('accept', 'application/json')
 
-/**
- * The client identifier is encoded using the `application/x-www-form-urlencoded` encoding algorithm
- * per Appendix B, and the encoded value is used as the username; the client password is encoded
- * using the same algorithm and used as the password.
- */
-function formUrlEncode(token: string) {
-  return encodeURIComponent(token).replace(/(?:[-_.!~*'()]|%20)/g, (substring) => {
-    switch (substring) {
-      case '-':
-      case '_':
-      case '.':
-      case '!':
-      case '~':
-      case '*':
-      case "'":
-      case '(':
-      case ')':
-        return `%${substring.charCodeAt(0).toString(16).toUpperCase()}`
-      case '%20':
-        return '+'
-      default:
-        throw new Error()
-    }
+  return (options?.[customFetch] || fetch)(url.href, {
+    body: undefined,
+    headers: Object.fromEntries(headers.entries()),
+    method: 'GET',
+    redirect: 'manual',
+    signal: options?.signal ? signal(options.signal) : undefined,
   })
 }
 
 /**
- * Implementation of the Client's Authentication Method at the Authorization Server.
- *
- * @see {@link ClientSecretPost}
- * @see {@link ClientSecretBasic}
- * @see {@link PrivateKeyJwt}
- * @see {@link None}
- * @see {@link TlsClientAuth}
- * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
- */
-export type ClientAuth = (
-  as: AuthorizationServer,
-  client: Client,
-  body: URLSearchParams,
-  headers: Headers,
-) => void | Promise<void>
-
-/**
- * **`client_secret_post`** uses the HTTP request body to send `client_id` and `client_secret` as
- * `application/x-www-form-urlencoded` body parameters
- *
- * @example
+ * Validates {@link !Response} instance to be one coming from the protected resource's well-known
+ * metadata endpoint.
  *
- * ```ts
- * let clientSecret!: string
- *
- * let clientAuth = oauth.ClientSecretPost(clientSecret)
- * ```
+ * @param expectedResourceIdentifier Expected Resource Identifier value, i.e. the one used in
+ *   {@link resourceDiscoveryRequest}.
+ * @param response Resolved value from {@link resourceDiscoveryRequest}.
  *
- * @param clientSecret
+ * @returns Resolves with the discovered Protected Resource Metadata.
  *
- * @group Client Authentication
+ * @group Protected Resource Metadata
  *
- * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
- * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-2.3)
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#ClientAuthentication)
+ * @see [RFC 9728 - OAuth 2.0 Protected Resource Metadata](https://www.rfc-editor.org/rfc/rfc9728.html#name-protected-resource-metadata-r)
  */
-export function ClientSecretPost(clientSecret: string): ClientAuth {
-  assertString(clientSecret, '"clientSecret"')
-  return (_as, client, body, _headers) => {
-    body.set('client_id', client.client_id)
-    body.set('client_secret', clientSecret)
+export async function processResourceDiscoveryResponse(
+  expectedResourceIdentifier: URL,
+  response: Response,
+): Promise<ResourceServer> {
+  if (!(expectedResourceIdentifier instanceof URL)) {
+    throw CodedTypeError(
+      '"expectedResourceIdentifier" must be an instance of URL',
+      ERR_INVALID_ARG_TYPE,
+    )
+  }
+
+  if (!looseInstanceOf(response, Response)) {
+    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
+  }
+
+  if (response.status !== 200) {
+    throw OPE(
+      '"response" is not a conform Protected Resource Metadata response (unexpected HTTP status code)',
+      RESPONSE_IS_NOT_CONFORM,
+      response,
+    )
+  }
+
+  assertReadableResponse(response)
+  assertApplicationJson(response)
+  let json: JsonValue
+  try {
+    json = await response.json()
+  } catch (cause) {
+    throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
+  }
+
+  if (!isJsonObject<ResourceServer>(json)) {
+    throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
+  }
+
+  assertString(json.resource, '"response" body "resource" property', INVALID_RESPONSE, {
+    body: json,
+  })
+
+  if (new URL(json.resource).href !== expectedResourceIdentifier.href) {
+    throw OPE(
+      '"response" body "resource" property does not match the expected value',
+      JSON_ATTRIBUTE_COMPARISON,
+      { expected: expectedResourceIdentifier.href, body: json, attribute: 'resource' },
+    )
+  }
+
+  if (
+    json.authorization_servers !== undefined &&
+    (!Array.isArray(json.authorization_servers) ||
+      !json.authorization_servers.every((issuer) => typeof issuer === 'string'))
+  ) {
+    throw OPE(
+      '"response" body "authorization_servers" property must be an array of strings',
+      INVALID_RESPONSE,
+      { body: json },
+    )
   }
+
+  return json
 }
 
 /**
- * **`client_secret_basic`** uses the HTTP `Basic` authentication scheme to send `client_id` and
- * `client_secret` in an `Authorization` HTTP Header.
- *
- * @example
- *
- * ```ts
- * let clientSecret!: string
- *
- * let clientAuth = oauth.ClientSecretBasic(clientSecret)
- * ```
- *
- * @param clientSecret
+ * OpenID Federation Trust Anchor.
  *
- * @group Client Authentication
- *
- * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
- * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-2.3)
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#ClientAuthentication)
+ * @group OpenID Federation
  */
-export function ClientSecretBasic(clientSecret: string): ClientAuth {
-  assertString(clientSecret, '"clientSecret"')
-  return (_as, client, _body, headers) => {
-    const username = formUrlEncode(client.client_id)
-    const password = formUrlEncode(clientSecret)
-    const credentials = btoa(`${username}:${password}`)
-    headers.set('authorization', `Basic ${credentials}`)
-  }
+export interface TrustAnchor {
+  /**
+   * Entity Identifier of the Trust Anchor.
+   */
+  entity_id: string
+  /**
+   * The Trust Anchor's Federation Entity Keys, obtained out-of-band.
+   */
+  jwks: JWKS
 }
 
-export interface ModifyAssertionOptions {
+export interface ResolveTrustChainOptions extends HttpRequestOptions<'GET'> {
   /**
-   * Use to modify a JWT assertion payload or header right before it is signed.
-   *
-   * @see {@link modifyAssertion}
+   * Trust Anchors to resolve the Trust Chain to.
    */
-  [modifyAssertion]?: ModifyAssertionFunction
+  trustAnchors: TrustAnchor[]
+
+  /**
+   * Maximum number of Intermediate Entities between the resolved Entity and a Trust Anchor. Default
+   * is `5`.
+   */
+  maxPathLength?: number
+
+  /**
+   * See {@link clockSkew}.
+   */
+  [clockSkew]?: number
+
+  /**
+   * See {@link clockTolerance}.
+   */
+  [clockTolerance]?: number
 }
 
-function clientAssertionPayload(as: AuthorizationServer, client: Client) {
-  const now = epochTime() + getClockSkew(client)
-  return {
-    jti: randomBytes(),
-    aud: as.issuer,
-    exp: now + 60,
-    iat: now,
-    nbf: now,
-    iss: client.client_id,
-    sub: client.client_id,
-  }
+interface EntityStatement {
+  readonly iss: string
+  readonly sub: string
+  readonly jwks: JWKS
+  readonly authority_hints?: string[]
+  readonly metadata?: Record<string, JsonObject | undefined>
+  readonly metadata_policy?: Record<string, MetadataPolicy | undefined>
+  readonly constraints?: TrustChainConstraints
 }
 
-/**
- * **`private_key_jwt`** uses the HTTP request body to send `client_id`, `client_assertion_type`,
- * and `client_assertion` as `application/x-www-form-urlencoded` body parameters. Digital signature
- * is used for the assertion's authenticity and integrity.
- *
- * @example
- *
- * ```ts
- * let key!: oauth.CryptoKey | oauth.PrivateKey
- *
- * let clientAuth = oauth.PrivateKeyJwt(key)
- * ```
- *
- * @param clientPrivateKey
- *
- * @group Client Authentication
- *
- * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#ClientAuthentication)
- */
-export function PrivateKeyJwt(
-  clientPrivateKey: CryptoKey | PrivateKey,
-  options?: ModifyAssertionOptions,
-): ClientAuth {
-  const { key, kid } = getKeyAndKid(clientPrivateKey)
-  assertPrivateKey(key, '"clientPrivateKey.key"')
-  return async (as, client, body, _headers) => {
-    const header = { alg: keyToJws(key), kid }
-    const payload = clientAssertionPayload(as, client)
-
-    options?.[modifyAssertion]?.(header, payload)
+type MetadataPolicy = Record<string, JsonObject>
 
-    body.set('client_id', client.client_id)
-    body.set('client_assertion_type', 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer')
-    body.set('client_assertion', await signJwt(header, payload, key))
+interface TrustChainConstraints {
+  readonly max_path_length?: number
+  readonly naming_constraints?: {
+    readonly permitted?: string[]
+    readonly excluded?: string[]
   }
 }
 
-/**
- * **`client_secret_jwt`** uses the HTTP request body to send `client_id`, `client_assertion_type`,
- * and `client_assertion` as `application/x-www-form-urlencoded` body parameters. HMAC is used for
- * the assertion's authenticity and integrity.
- *
- * @example
- *
- * ```ts
- * let clientSecret!: string
- *
- * let clientAuth = oauth.ClientSecretJwt(clientSecret)
- * ```
- *
- * @param clientSecret
- * @param options
- *
- * @group Client Authentication
- *
- * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#ClientAuthentication)
- */
-export function ClientSecretJwt(
-  clientSecret: string,
-  options?: ModifyAssertionOptions,
-): ClientAuth {
-  assertString(clientSecret, '"clientSecret"')
-  const modify = options?.[modifyAssertion]
-  let key: CryptoKey
-  return async (as, client, body, _headers) => {
-    key ||= await crypto.subtle.importKey(
-      'raw',
-      buf(clientSecret),
-      { hash: 'SHA-256', name: 'HMAC' },
-      false,
-      ['sign'],
-    )
-
-    const header = { alg: 'HS256' }
-    const payload = clientAssertionPayload(as, client)
-
-    modify?.(header, payload)
-
-    const data = `${b64u(buf(JSON.stringify(header)))}.${b64u(buf(JSON.stringify(payload)))}`
-    const hmac = await crypto.subtle.sign(key.algorithm, key, buf(data))
+function isStringArray(input: unknown): input is string[] {
+  return Array.isArray(input) && input.every((entry) => typeof entry === 'string')
+}
 
-    body.set('client_id', client.client_id)
-    body.set('client_assertion_type', 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer')
-    body.set('client_assertion', `${data}.${b64u(new Uint8Array(hmac))}`)
+function checkConstraints(claims: JWTPayload) {
+  const { constraints } = claims
+  if (constraints === undefined) {
+    return
   }
-}
 
-/**
- * **`none`** (public client) uses the HTTP request body to send only `client_id` as
- * `application/x-www-form-urlencoded` body parameter.
- *
- * ```ts
- * let clientAuth = oauth.None()
- * ```
- *
- * @group Client Authentication
- *
- * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#ClientAuthentication)
- */
-export function None(): ClientAuth {
-  return (_as, client, body, _headers) => {
-    body.set('client_id', client.client_id)
+  if (
+    !isJsonObject<Record<string, JsonValue>>(constraints) ||
+    (constraints.max_path_length !== undefined &&
+      (!Number.isInteger(constraints.max_path_length) ||
+        (constraints.max_path_length as number) < 0)) ||
+    (constraints.naming_constraints !== undefined &&
+      (!isJsonObject(constraints.naming_constraints) ||
+        (constraints.naming_constraints.permitted !== undefined &&
+          !isStringArray(constraints.naming_constraints.permitted)) ||
+        (constraints.naming_constraints.excluded !== undefined &&
+          !isStringArray(constraints.naming_constraints.excluded))))
+  ) {
+    throw OPE('unexpected JWT "constraints" claim value', INVALID_RESPONSE, { claims })
   }
 }
 
-/**
- * **`tls_client_auth`** uses the HTTP request body to send only `client_id` as
- * `application/x-www-form-urlencoded` body parameter and the mTLS key and certificate is configured
- * through {@link customFetch}.
- *
- * ```ts
- * let clientAuth = oauth.TlsClientAuth()
- * ```
- *
- * @group Client Authentication
- *
- * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
- * @see [RFC 8705 - OAuth 2.0 Mutual-TLS Client Authentication (PKI Mutual-TLS Method)](https://www.rfc-editor.org/rfc/rfc8705.html#name-pki-mutual-tls-method)
- */
-export function TlsClientAuth(): ClientAuth {
-  return None()
+function federationRequest(url: URL, options: ResolveTrustChainOptions) {
+  checkProtocol(url, options[allowInsecureRequests] !== true)
+
+  const headers = prepareHeaders(options.headers)
+  headers.set('accept', 'application/entity-statement+jwt')
+
+  return (options[customFetch] || fetch)(url.href, {
+    body: undefined,
+    headers: Object.fromEntries(headers.entries()),
+    method: 'GET',
+    redirect: 'manual',
+    signal: options.signal ? signal(options.signal) : undefined,
+  })
 }
 
-/**
- * Minimal JWT sign() implementation.
- */
-async function signJwt(
-  header: CompactJWSHeaderParameters,
-  payload: Record<string, unknown>,
-  key: CryptoKey,
-) {
-  if (!key.usages.includes('sign')) {
-    throw CodedTypeError(
-      'CryptoKey instances used for signing assertions must include "sign" in their "usages"',
-      ERR_INVALID_ARG_VALUE,
+async function processFederationResponse(response: Response) {
+  if (response.status !== 200) {
+    throw OPE(
+      '"response" is not a conform Entity Statement response (unexpected HTTP status code)',
+      RESPONSE_IS_NOT_CONFORM,
+      response,
     )
   }
-  const input = `${b64u(buf(JSON.stringify(header)))}.${b64u(buf(JSON.stringify(payload)))}`
-  const signature = b64u(await crypto.subtle.sign(keyToSubtle(key), key, buf(input)))
-  return `${input}.${signature}`
-}
 
-/**
- * Generates a signed JWT-Secured Authorization Request (JAR).
- *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param privateKey Private key to sign the Request Object with.
- *
- * @group Authorization Code Grant
- * @group Authorization Code Grant w/ OpenID Connect (OIDC)
- * @group JWT-Secured Authorization Request (JAR)
- *
- * @see [RFC 9101 - The OAuth 2.0 Authorization Framework: JWT-Secured Authorization Request (JAR)](https://www.rfc-editor.org/rfc/rfc9101.html#name-request-object-2)
- */
-export async function issueRequestObject(
-  as: AuthorizationServer,
-  client: Client,
-  parameters: URLSearchParams | Record<string, string> | string[][],
-  privateKey: CryptoKey | PrivateKey,
-  options?: ModifyAssertionOptions,
-): Promise<string> {
-  assertAs(as)
-  assertClient(client)
+  assertReadableResponse(response)
+  assertContentType(response, 'application/entity-statement+jwt')
 
-  parameters = new URLSearchParams(parameters)
+  return response.text()
+}
 
-  const { key, kid } = getKeyAndKid(privateKey)
-  assertPrivateKey(key, '"privateKey.key"')
+async function validateEntityStatement(
+  jwt: string,
+  expectedIssuer: string,
+  expectedSubject: string,
+  jwks: JWKS | undefined,
+  options: ResolveTrustChainOptions,
+): Promise<EntityStatement> {
+  const { claims } = await validateJwt(
+    jwt,
+    checkSigningAlgorithm.bind(undefined, undefined, undefined, supported),
+    getClockSkew(options),
+    getClockTolerance(options),
+    undefined,
+  )
+    .then(checkJwtType.bind(undefined, 'entity-statement+jwt'))
+    .then(validatePresence.bind(undefined, ['iss', 'sub', 'iat', 'exp', 'jwks']))
+    .then(validateIssuer.bind(undefined, { issuer: expectedIssuer } as AuthorizationServer))
 
-  parameters.set('client_id', client.client_id)
+  if (claims.sub !== expectedSubject) {
+    throw OPE('unexpected JWT "sub" (subject) claim value', JWT_CLAIM_COMPARISON, {
+      expected: expectedSubject,
+      claims,
+      claim: 'sub',
+    })
+  }
 
-  const now = epochTime() + getClockSkew(client)
-  const claims: Record<string, JsonValue> = {
-    ...Object.fromEntries(parameters.entries()),
-    jti: randomBytes(),
-    aud: as.issuer,
-    exp: now + 60,
-    iat: now,
-    nbf: now,
-    iss: client.client_id,
+  if (!isJsonObject<JWKS>(claims.jwks) || !Array.isArray(claims.jwks.keys)) {
+    throw OPE('unexpected JWT "jwks" (jwk set) claim type', INVALID_RESPONSE, { claims })
   }
 
-  let resource: string[]
   if (
-    parameters.has('resource') &&
-    (resource = parameters.getAll('resource')) &&
-    resource.length > 1
+    claims.authority_hints !== undefined &&
+    (!Array.isArray(claims.authority_hints) ||
+      !claims.authority_hints.every((hint) => typeof hint === 'string'))
   ) {
-    claims.resource = resource
+    throw OPE('unexpected JWT "authority_hints" claim type', INVALID_RESPONSE, { claims })
   }
 
-  {
-    let value = parameters.get('max_age')
-    if (value !== null) {
-      claims.max_age = parseInt(value, 10)
-
-      assertNumber(claims.max_age, true, '"max_age" parameter')
-    }
+  if (
+    claims.metadata_policy !== undefined &&
+    (!isJsonObject(claims.metadata_policy) ||
+      !Object.values(claims.metadata_policy).every(
+        (parameters) => isJsonObject(parameters) && Object.values(parameters).every(isJsonObject),
+      ))
+  ) {
+    throw OPE('unexpected JWT "metadata_policy" claim type', INVALID_RESPONSE, { claims })
   }
 
-  {
-    let value = parameters.get('claims')
-    if (value !== null) {
-      try {
-        claims.claims = JSON.parse(value)
-      } catch (cause) {
-        throw OPE('failed to parse the "claims" parameter as JSON', PARSE_ERROR, cause)
-      }
+  checkConstraints(claims)
 
-      if (!isJsonObject(claims.claims)) {
-        throw CodedTypeError(
-          '"claims" parameter must be a JSON with a top level object',
-          ERR_INVALID_ARG_VALUE,
-        )
-      }
-    }
+  if (claims.metadata_policy_crit !== undefined) {
+    throw new UnsupportedOperationError('no "metadata_policy_crit" extensions are supported', {
+      cause: { claims },
+    })
   }
 
-  {
-    let value = parameters.get('authorization_details')
-    if (value !== null) {
-      try {
-        claims.authorization_details = JSON.parse(value)
-      } catch (cause) {
-        throw OPE(
-          'failed to parse the "authorization_details" parameter as JSON',
-          PARSE_ERROR,
-          cause,
-        )
-      }
+  await validateEntityStatementSignature(jwt, jwks ?? (claims.jwks as JWKS))
 
-      if (!Array.isArray(claims.authorization_details)) {
-        throw CodedTypeError(
-          '"authorization_details" parameter must be a JSON with a top level array',
-          ERR_INVALID_ARG_VALUE,
-        )
-      }
-    }
-  }
+  return claims as unknown as EntityStatement
+}
 
-  const header = {
-    alg: keyToJws(key),
-    typ: 'oauth-authz-req+jwt',
-    kid,
-  }
+async function validateEntityStatementSignature(jwt: string, jwks: JWKS) {
+  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = jwt.split('.')
+  const header: CompactJWSHeaderParameters = JSON.parse(buf(b64u(protectedHeader)))
+  const key = await selectVerificationKey(jwks, header)
+  await validateJwsSignature(protectedHeader, payload, key, b64u(encodedSignature))
+}
 
-  options?.[modifyAssertion]?.(header, claims)
+async function fetchEntityConfiguration(
+  entityId: string,
+  jwks: JWKS | undefined,
+  options: ResolveTrustChainOptions,
+) {
+  const url = new URL(entityId)
+  url.pathname = `${url.pathname}/.well-known/openid-federation`.replace('//', '/')
 
-  return signJwt(header, claims, key)
-}
+  const jwt = await federationRequest(url, options).then(processFederationResponse)
+  const claims = await validateEntityStatement(jwt, entityId, entityId, jwks, options)
 
-let jwkCache: WeakMap<CryptoKey, JWK>
+  return { jwt, claims }
+}
 
-async function getSetPublicJwkCache(key: CryptoKey) {
-  const { kty, e, n, x, y, crv } = await crypto.subtle.exportKey('jwk', key)
-  const jwk = { kty, e, n, x, y, crv }
-  jwkCache.set(key, jwk)
-  return jwk
+async function fetchSubordinateStatement(
+  superior: EntityStatement,
+  subordinate: string,
+  options: ResolveTrustChainOptions,
+) {
+  const endpoint = superior.metadata?.federation_entity?.federation_fetch_endpoint
+  let url: URL | null
+  if (typeof endpoint !== 'string' || !(url = URLParse(endpoint))) {
+    throw OPE(
+      'superior entity configuration does not contain a valid "federation_fetch_endpoint"',
+      INVALID_RESPONSE,
+      { claims: superior },
+    )
+  }
+
+  url.searchParams.set('sub', subordinate)
+
+  const jwt = await federationRequest(url, options).then(processFederationResponse)
+
+  return validateEntityStatement(jwt, superior.iss, subordinate, superior.jwks, options)
 }
 
 /**
- * Exports an asymmetric crypto key as bare JWK
+ * Resolves the subordinate statements of a trust chain, starting with the one issued by the
+ * entity's immediate superior and ending with the one issued by a trust anchor.
  */
-async function publicJwk(key: CryptoKey) {
-  jwkCache ||= new WeakMap()
-  return jwkCache.get(key) || getSetPublicJwkCache(key)
-}
+async function resolveSubordinateStatements(
+  entityId: string,
+  configuration: { jwt: string; claims: EntityStatement },
+  pathLength: number,
+  visited: Set<string>,
+  options: ResolveTrustChainOptions,
+): Promise<EntityStatement[]> {
+  const errors: unknown[] = []
+
+  for (const hint of configuration.claims.authority_hints ?? []) {
+    if (visited.has(hint)) {
+      continue
+    }
 
-// @ts-ignore
-const URLParse: (url: string | URL, base?: string | URL) => URL | null = URL.parse
-  ? // @ts-ignore
-    (url, base) => URL.parse(url, base)
-  : (url, base) => {
-      try {
-        return new URL(url, base)
-      } catch {
-        return null
+    try {
+      const anchor = options.trustAnchors.find((anchor) => anchor.entity_id === hint)
+      if (!anchor && pathLength >= (options.maxPathLength ?? 5)) {
+        throw OPE('maximum trust chain path length exceeded', INVALID_RESPONSE, { hint })
       }
-    }
 
-/**
- * @ignore
- */
-export function checkProtocol(url: URL, enforceHttps: boolean | undefined) {
-  if (enforceHttps && url.protocol !== 'https:') {
-    throw OPE('only requests to HTTPS are allowed', HTTP_REQUEST_FORBIDDEN, url)
-  }
+      const superior = await fetchEntityConfiguration(hint, anchor?.jwks, options)
+      const statement = await fetchSubordinateStatement(superior.claims, entityId, options)
 
-  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
-    throw OPE('only HTTP and HTTPS requests are allowed', REQUEST_PROTOCOL_FORBIDDEN, url)
-  }
-}
+      // the subordinate's entity configuration must be verifiable with the keys its superior
+      // vouches for
+      await validateEntityStatementSignature(configuration.jwt, statement.jwks)
 
-function validateEndpoint(
-  value: unknown,
-  endpoint: keyof AuthorizationServer,
-  useMtlsAlias: boolean | undefined,
-  enforceHttps: boolean | undefined,
-) {
-  let url: URL | null
-  if (typeof value !== 'string' || !(url = URLParse(value))) {
-    throw OPE(
-      `authorization server metadata does not contain a valid ${useMtlsAlias ? `"as.mtls_endpoint_aliases.${endpoint}"` : `"as.${endpoint}"`}`,
-      value === undefined ? MISSING_SERVER_METADATA : INVALID_SERVER_METADATA,
-      { attribute: useMtlsAlias ? `mtls_endpoint_aliases.${endpoint}` : endpoint },
-    )
+      if (anchor) {
+        return [statement]
+      }
+
+      return [
+        statement,
+        ...(await resolveSubordinateStatements(
+          hint,
+          superior,
+          pathLength + 1,
+          new Set([...visited, hint]),
+          options,
+        )),
+      ]
+    } catch (err) {
+      errors.push(err)
+    }
   }
 
-  checkProtocol(url, enforceHttps)
+  throw OPE(
+    'could not resolve a trust chain to any of the configured trust anchors',
+    INVALID_RESPONSE,
+    { entity_id: entityId, errors },
+  )
+}
 
-  return url
+function jsonEquals(a: JsonValue | undefined, b: JsonValue | undefined) {
+  return JSON.stringify(a) === JSON.stringify(b)
 }
 
-/**
- * @ignore
- */
-export function resolveEndpoint(
-  as: AuthorizationServer,
-  endpoint: keyof AuthorizationServer,
-  useMtlsAlias: boolean | undefined,
-  enforceHttps: boolean | undefined,
-): URL {
-  if (useMtlsAlias && as.mtls_endpoint_aliases && endpoint in as.mtls_endpoint_aliases) {
-    return validateEndpoint(
-      as.mtls_endpoint_aliases[endpoint],
-      endpoint,
-      useMtlsAlias,
-      enforceHttps,
-    )
+function jsonIncludes(list: JsonValue[], entry: JsonValue) {
+  return list.some((item) => jsonEquals(item, entry))
+}
+
+function policyOperand(operators: JsonObject, operator: string): JsonValue[] | undefined {
+  const value = operators[operator]
+  if (value === undefined) {
+    return undefined
   }
+  return Array.isArray(value) ? value : [value]
+}
 
-  return validateEndpoint(as[endpoint], endpoint, useMtlsAlias, enforceHttps)
+function policyConflict(operator: string, parameter: string, operators: JsonObject) {
+  return OPE(
+    `metadata policy "${operator}" operator conflict for "${parameter}"`,
+    INVALID_RESPONSE,
+    { parameter, operators },
+  )
 }
 
 /**
- * Performs a Pushed Authorization Request at the
- * {@link AuthorizationServer.pushed_authorization_request_endpoint `as.pushed_authorization_request_endpoint`}.
- *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param clientAuthentication Client Authentication Method.
- * @param parameters Authorization Request parameters.
- *
- * @group Pushed Authorization Requests (PAR)
- *
- * @see [RFC 9126 - OAuth 2.0 Pushed Authorization Requests (PAR)](https://www.rfc-editor.org/rfc/rfc9126.html#name-pushed-authorization-reques)
- * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-with-pushed-authorizat)
+ * Merges a subordinate's metadata policy into the policy of its superiors, a subordinate may only
+ * further restrict what its superiors allow.
  */
-export async function pushedAuthorizationRequest(
-  as: AuthorizationServer,
-  client: Client,
-  clientAuthentication: ClientAuth,
-  parameters: URLSearchParams | Record<string, string> | string[][],
-  options?: PushedAuthorizationRequestOptions,
-): Promise<Response> {
-  assertAs(as)
-  assertClient(client)
+function mergeMetadataPolicies(superior: MetadataPolicy, subordinate: MetadataPolicy) {
+  const merged: MetadataPolicy = { ...superior }
 
-  const url = resolveEndpoint(
-    as,
-    'pushed_authorization_request_endpoint',
-    client.use_mtls_endpoint_aliases,
-    options?.[allowInsecureRequests] !== true,
-  )
+  for (const [parameter, operators] of Object.entries(subordinate)) {
+    const result: JsonObject = { ...merged[parameter] }
 
-  const body = new URLSearchParams(parameters)
-  body.set('client_id', client.client_id)
+    for (const [operator, value] of Object.entries(operators)) {
+      const current = result[operator]
+      if (current === undefined) {
+        result[operator] = value
+        continue
+      }
 
-  const headers = prepareHeaders(options?.headers)
-  headers.set('accept', 'application/json')
+      switch (operator) {
+        case 'value': // Fall through
+        case 'default':
+          if (!jsonEquals(current, value)) {
+            throw policyConflict(operator, parameter, { superior: current, subordinate: value! })
+          }
+          break
+        case 'add': // Fall through
+        case 'superset_of': {
+          const union = [...policyOperand(result, operator)!]
+          for (const entry of policyOperand(operators, operator)!) {
+            if (!jsonIncludes(union, entry)) {
+              union.push(entry)
+            }
+          }
+          result[operator] = union
+          break
+        }
+        case 'one_of': // Fall through
+        case 'subset_of': {
+          const operand = policyOperand(operators, operator)!
+          const intersection = policyOperand(result, operator)!.filter((entry) =>
+            jsonIncludes(operand, entry),
+          )
+          if (operator === 'one_of' && !intersection.length) {
+            throw policyConflict(operator, parameter, { superior: current, subordinate: value! })
+          }
+          result[operator] = intersection
+          break
+        }
+        case 'essential':
+          result.essential = current === true || value === true
+          break
+      }
+    }
 
-  if (options?.DPoP !== undefined) {
-    assertDPoP(options.DPoP)
-    await options.DPoP.addProof(url, headers, 'POST')
+    merged[parameter] = result
   }
 
-  const response = await authenticatedRequest(
-    as,
-    client,
-    clientAuthentication,
-    url,
-    body,
-    headers,
-    options,
-  )
-  options?.DPoP?.cacheNonce(response)
-  return response
+  return merged
 }
 
 /**
- * DPoP handle, obtained from {@link DPoP}
+ * Checks that the operators of a merged metadata policy parameter can be combined.
  */
-export interface DPoPHandle {
-  /**
-   * This is not part of the public API.
-   *
-   * @private
-   *
-   * @ignore
-   *
-   * @internal
-   */
-  addProof(url: URL, headers: Headers, htm: string, accessToken?: string): Promise<void>
-  /**
-   * This is not part of the public API.
-   *
-   * @private
-   *
-   * @ignore
-   *
-   * @internal
-   */
-  cacheNonce(response: Response): void
-}
-
-class DPoPHandler implements DPoPHandle {
-  #header?: CompactJWSHeaderParameters
-  #privateKey: CryptoKey
-  #publicKey: CryptoKey
-  #clockSkew: number
-  #modifyAssertion?: ModifyAssertionFunction
-  #map?: Map<string, string>
+function checkPolicyOperators(parameter: string, operators: JsonObject) {
+  const add = policyOperand(operators, 'add')
+  const oneOf = policyOperand(operators, 'one_of')
+  const subsetOf = policyOperand(operators, 'subset_of')
+  const supersetOf = policyOperand(operators, 'superset_of')
 
-  constructor(client: Client, keyPair: CryptoKeyPair, options?: ModifyAssertionOptions) {
-    assertPrivateKey(keyPair?.privateKey, '"DPoP.privateKey"')
-    assertPublicKey(keyPair?.publicKey, '"DPoP.publicKey"')
+  if (oneOf && (add || subsetOf || supersetOf)) {
+    throw policyConflict('one_of', parameter, operators)
+  }
 
-    if (!keyPair.publicKey.extractable) {
-      throw CodedTypeError('"DPoP.publicKey.extractable" must be true', ERR_INVALID_ARG_VALUE)
+  if (operators.value === null) {
+    if (operators.essential === true || operators.default !== undefined) {
+      throw policyConflict('value', parameter, operators)
+    }
+  } else if (operators.value !== undefined) {
+    const { value } = operators
+    const values = Array.isArray(value) ? value : [value]
+    if (add && !add.every((entry) => jsonIncludes(values, entry))) {
+      throw policyConflict('add', parameter, operators)
+    }
+    if (oneOf && !jsonIncludes(oneOf, value)) {
+      throw policyConflict('one_of', parameter, operators)
+    }
+    if (subsetOf && !values.every((entry) => jsonIncludes(subsetOf, entry))) {
+      throw policyConflict('subset_of', parameter, operators)
     }
+    if (supersetOf && !supersetOf.every((entry) => jsonIncludes(values, entry))) {
+      throw policyConflict('superset_of', parameter, operators)
+    }
+  }
 
-    this.#modifyAssertion = options?.[modifyAssertion]
-    this.#clockSkew = getClockSkew(client)
-    this.#privateKey = keyPair.privateKey
-    this.#publicKey = keyPair.publicKey
-    branded.add(this)
+  if (add && subsetOf && !add.every((entry) => jsonIncludes(subsetOf, entry))) {
+    throw policyConflict('add', parameter, operators)
   }
 
-  #get(key: string) {
-    this.#map ||= new Map()
-    let item = this.#map.get(key)
-    if (item) {
-      this.#map.delete(key)
-      this.#map.set(key, item)
-    }
-    return item
+  if (subsetOf && supersetOf && !supersetOf.every((entry) => jsonIncludes(subsetOf, entry))) {
+    throw policyConflict('superset_of', parameter, operators)
   }
+}
 
-  #set(key: string, val: string) {
-    this.#map ||= new Map()
-    this.#map.delete(key)
-    if (this.#map.size === 100) {
-      this.#map.delete(this.#map.keys().next().value!)
+function applyMetadataPolicy(
+  metadata: Record<string, JsonValue | undefined>,
+  policy: MetadataPolicy,
+) {
+  for (const [parameter, operators] of Object.entries(policy)) {
+    checkPolicyOperators(parameter, operators)
+
+    let value = metadata[parameter]
+
+    if (operators.value !== undefined) {
+      value = operators.value === null ? undefined : operators.value
     }
-    this.#map.set(key, val)
-  }
 
-  async addProof(url: URL, headers: Headers, htm: string, accessToken?: string): Promise<void> {
-    this.#header ||= {
-      alg: keyToJws(this.#privateKey),
-      typ: 'dpop+jwt',
-      jwk: await publicJwk(this.#publicKey),
+    const add = policyOperand(operators, 'add')
+    if (add) {
+      const current = value === undefined ? [] : Array.isArray(value) ? value : [value]
+      value = [...current, ...add.filter((entry) => !jsonIncludes(current, entry))]
     }
 
-    const nonce = this.#get(url.origin)
+    if (operators.default !== undefined && value === undefined) {
+      value = operators.default
+    }
 
-    const now = epochTime() + this.#clockSkew
-    const payload = {
-      iat: now,
-      jti: randomBytes(),
-      htm,
-      nonce,
-      htu: `${url.origin}${url.pathname}`,
-      ath: accessToken ? b64u(await crypto.subtle.digest('SHA-256', buf(accessToken))) : undefined,
+    const oneOf = policyOperand(operators, 'one_of')
+    if (oneOf && value !== undefined && !jsonIncludes(oneOf, value)) {
+      throw OPE(`metadata policy "one_of" check failed for "${parameter}"`, INVALID_RESPONSE, {
+        parameter,
+        value,
+        operators,
+      })
     }
 
-    this.#modifyAssertion?.(this.#header, payload)
+    const subsetOf = policyOperand(operators, 'subset_of')
+    if (subsetOf && value !== undefined) {
+      value = (Array.isArray(value) ? value : [value]).filter((entry) =>
+        jsonIncludes(subsetOf, entry),
+      )
+      if (!value.length) {
+        value = undefined
+      }
+    }
 
-    headers.set('dpop', await signJwt(this.#header, payload, this.#privateKey))
-  }
+    const supersetOf = policyOperand(operators, 'superset_of')
+    if (
+      supersetOf &&
+      value !== undefined &&
+      !supersetOf.every((entry) => jsonIncludes(Array.isArray(value) ? value : [value!], entry))
+    ) {
+      throw OPE(`metadata policy "superset_of" check failed for "${parameter}"`, INVALID_RESPONSE, {
+        parameter,
+        value,
+        operators,
+      })
+    }
 
-  cacheNonce(response: Response): void {
-    try {
-      const nonce = response.headers.get('dpop-nonce')
-      if (nonce) {
-        this.#set(new URL(response.url).origin, nonce)
-      }
-    } catch {}
+    if (operators.essential === true && value === undefined) {
+      throw OPE(`metadata policy "essential" check failed for "${parameter}"`, INVALID_RESPONSE, {
+        parameter,
+        operators,
+      })
+    }
+
+    if (value === undefined) {
+      delete metadata[parameter]
+    } else {
+      metadata[parameter] = value
+    }
   }
 }
 
+function hostMatchesNamingConstraint(hostname: string, constraint: string) {
+  return constraint.startsWith('.') ? hostname.endsWith(constraint) : hostname === constraint
+}
+
 /**
- * Used to determine if a rejected error indicates the need to retry the request due to an
- * expired/missing nonce.
- *
- * @group DPoP
+ * Enforces the `constraints` of each subordinate statement, they apply to all the entities below
+ * the statement's issuer, ending with the trust chain subject.
  */
-export function isDPoPNonceError(err: unknown): boolean {
-  if (err instanceof WWWAuthenticateChallengeError) {
-    const { 0: challenge, length } = err.cause
-    return (
-      length === 1 && challenge.scheme === 'dpop' && challenge.parameters.error === 'use_dpop_nonce'
-    )
-  }
+function checkTrustChainConstraints(statements: EntityStatement[]) {
+  for (const [index, { constraints }] of statements.entries()) {
+    if (constraints === undefined) {
+      continue
+    }
 
-  if (err instanceof ResponseBodyError) {
-    return err.error === 'use_dpop_nonce'
-  }
+    if (constraints.max_path_length !== undefined && index > constraints.max_path_length) {
+      throw OPE('trust chain "max_path_length" constraint exceeded', INVALID_RESPONSE, {
+        constraints,
+        statement: statements[index],
+      })
+    }
 
-  return false
+    const { permitted, excluded } = constraints.naming_constraints ?? {}
+    for (const { sub } of statements.slice(0, index + 1)) {
+      const { hostname } = new URL(sub)
+      if (
+        (permitted && !permitted.some((name) => hostMatchesNamingConstraint(hostname, name))) ||
+        excluded?.some((name) => hostMatchesNamingConstraint(hostname, name))
+      ) {
+        throw OPE(
+          `entity identifier "${sub}" violates the trust chain naming constraints`,
+          INVALID_RESPONSE,
+          { constraints, statement: statements[index] },
+        )
+      }
+    }
+  }
 }
 
 /**
- * Returns a wrapper / handle around a {@link CryptoKeyPair} that is used for negotiating and proving
- * proof-of-possession to sender-constrain OAuth 2.0 tokens via DPoP at the Authorization Server and
- * Resource Server.
- *
- * This wrapper / handle also keeps track of server-issued nonces, allowing requests to be retried
- * with a fresh nonce when the server indicates the need to use one. {@link isDPoPNonceError} can be
- * used to determine if a rejected error indicates the need to retry the request due to an
- * expired/missing nonce.
+ * Resolves the Authorization Server Metadata of an OpenID Federation Entity by fetching its Entity
+ * Configuration, walking its `authority_hints` up to one of the configured Trust Anchors, verifying
+ * each Entity Statement's signature, enforcing the Subordinate Statements' `constraints`, and
+ * applying the Trust Chain's merged metadata policy to the Entity's `openid_provider` (or
+ * `oauth_authorization_server`) metadata.
  *
  * @example
  *
  * ```ts
- * let client!: oauth.Client
- * let keyPair!: oauth.CryptoKeyPair
+ * let entityId!: URL
+ * let trustAnchor!: oauth.TrustAnchor
  *
- * let DPoP = oauth.DPoP(client, keyPair)
+ * let as = await oauth.resolveFederatedAuthorizationServer(entityId, {
+ *   trustAnchors: [trustAnchor],
+ * })
  * ```
  *
- * @param keyPair Public/private key pair to sign the DPoP Proof JWT with
+ * @param entityIdentifier Entity Identifier of the authorization server.
  *
- * @group DPoP
+ * @returns Resolves with the resolved Authorization Server Metadata.
  *
- * @see {@link !DPoP RFC 9449 - OAuth 2.0 Demonstrating Proof of Possession (DPoP)}
+ * @group OpenID Federation
+ *
+ * @see [OpenID Federation 1.0](https://openid.net/specs/openid-federation-1_0.html#name-resolving-the-trust-chain-a)
  */
-export function DPoP(
-  client: Client,
-  keyPair: CryptoKeyPair,
-  options?: ModifyAssertionOptions,
-): DPoPHandle {
-  return new DPoPHandler(client, keyPair, options)
+export async function resolveFederatedAuthorizationServer(
+  entityIdentifier: URL,
+  options: ResolveTrustChainOptions,
+): Promise<AuthorizationServer> {
+  if (!(entityIdentifier instanceof URL)) {
+    throw CodedTypeError('"entityIdentifier" must be an instance of URL', ERR_INVALID_ARG_TYPE)
+  }
+
+  if (!Array.isArray(options?.trustAnchors) || !options.trustAnchors.length) {
+    throw CodedTypeError('"options.trustAnchors" must be a non-empty array', ERR_INVALID_ARG_TYPE)
+  }
+
+  for (const anchor of options.trustAnchors) {
+    assertString(anchor?.entity_id, '"options.trustAnchors[].entity_id"')
+    if (!isJsonObject<JWKS>(anchor.jwks) || !Array.isArray(anchor.jwks.keys)) {
+      throw CodedTypeError(
+        '"options.trustAnchors[].jwks" must be a JSON Web Key Set',
+        ERR_INVALID_ARG_TYPE,
+      )
+    }
+  }
+
+  if (
+    options.maxPathLength !== undefined &&
+    (!Number.isInteger(options.maxPathLength) || options.maxPathLength < 0)
+  ) {
+    throw CodedTypeError(
+      '"options.maxPathLength" must be a non-negative integer',
+      ERR_INVALID_ARG_VALUE,
+    )
+  }
+
+  const entityId = entityIdentifier.href.replace(/\/$/, '')
+  const anchor = options.trustAnchors.find((anchor) => anchor.entity_id === entityId)
+  const configuration = await fetchEntityConfiguration(entityId, anchor?.jwks, options)
+
+  const statements = anchor
+    ? []
+    : await resolveSubordinateStatements(entityId, configuration, 0, new Set([entityId]), options)
+
+  let type: string
+  if (isJsonObject(configuration.claims.metadata?.openid_provider)) {
+    type = 'openid_provider'
+  } else if (isJsonObject(configuration.claims.metadata?.oauth_authorization_server)) {
+    type = 'oauth_authorization_server'
+  } else {
+    throw OPE(
+      'entity configuration does not contain "openid_provider" or "oauth_authorization_server" metadata',
+      INVALID_RESPONSE,
+      { claims: configuration.claims },
+    )
+  }
+
+  const metadata: Record<string, JsonValue | undefined> = {
+    ...configuration.claims.metadata![type],
+    ...statements[0]?.metadata?.[type],
+  }
+
+  checkTrustChainConstraints(statements)
+
+  // policies are merged starting with the one issued by the trust anchor and applied once
+  let policy: MetadataPolicy = {}
+  for (const statement of [...statements].reverse()) {
+    policy = mergeMetadataPolicies(policy, statement.metadata_policy?.[type] ?? {})
+  }
+  applyMetadataPolicy(metadata, policy)
+
+  metadata.issuer ??= entityId
+  assertString(metadata.issuer, '"issuer" metadata', INVALID_RESPONSE, { metadata })
+
+  if (new URL(metadata.issuer).href !== entityIdentifier.href) {
+    throw OPE('"issuer" metadata does not match the entity identifier', JSON_ATTRIBUTE_COMPARISON, {
+      expected: entityIdentifier.href,
+      metadata,
+      attribute: 'issuer',
+    })
+  }
+
+  return metadata as unknown as AuthorizationServer
 }
 
-export interface PushedAuthorizationResponse {
-  readonly request_uri: string
-  readonly expires_in: number
+function assertApplicationJson(response: Response): void {
+  assertContentType(response, 'application/json')
+}
 
-  readonly [parameter: string]: JsonValue | undefined
+function notJson(response: Response, ...types: string[]) {
+  let msg = '"response" content-type must be '
+  if (types.length > 2) {
+    const last = types.pop()
+    msg += `${types.join(', ')}, or ${last}`
+  } else if (types.length === 2) {
+    msg += `${types[0]} or ${types[1]}`
+  } else {
+    msg += types[0]
+  }
+  return OPE(msg, RESPONSE_IS_NOT_JSON, response)
 }
 
-export interface OAuth2Error {
-  readonly error: string
-  readonly error_description?: string
-  readonly error_uri?: string
-  readonly algs?: string
-  readonly scope?: string
+function assertContentTypes(response: Response, ...types: string[]): void {
+  if (!types.includes(getContentType(response)!)) {
+    throw notJson(response, ...types)
+  }
+}
 
-  readonly [parameter: string]: JsonValue | undefined
+function assertContentType(response: Response, contentType: string): void {
+  if (getContentType(response) !== contentType) {
+    throw notJson(response, contentType)
+  }
 }
 
 /**
- * Throw when a server responds with an "OAuth-style" error JSON body
+ * Generates 32 random bytes and encodes them using base64url.
+ */
+function randomBytes(): string {
+  return b64u(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+/**
+ * Generate random `code_verifier` value.
  *
- * @example
+ * @group Utilities
+ * @group Authorization Code Grant
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ * @group Proof Key for Code Exchange (PKCE)
  *
- * ```http
- * HTTP/1.1 400 Bad Request
- * Content-Type: application/json;charset=UTF-8
- * Cache-Control: no-store
- * Pragma: no-cache
+ * @see [RFC 7636 - Proof Key for Code Exchange (PKCE)](https://www.rfc-editor.org/rfc/rfc7636.html#section-4)
+ */
+export function generateRandomCodeVerifier(): string {
+  return randomBytes()
+}
+
+/**
+ * Generate random `state` value.
  *
- * {
- *   "error": "invalid_request"
- * }
- * ```
+ * @group Utilities
  *
- * @group Errors
+ * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.1.1)
  */
-export class ResponseBodyError extends Error {
-  /**
-   * The parsed JSON response body
-   */
-  override cause: Record<string, JsonValue | undefined>
-
-  code: typeof RESPONSE_BODY_ERROR
-
-  /**
-   * Error code given in the JSON response
-   */
-  error: string
-
-  /**
-   * HTTP Status Code of the response
-   */
-  status: number
-
-  /**
-   * Human-readable text providing additional information, used to assist the developer in
-   * understanding the error that occurred, given in the JSON response
-   */
-  error_description?: string
-
-  /**
-   * The "OAuth-style" error {@link !Response}, its {@link !Response.bodyUsed} is `false` and the JSON
-   * body is available in {@link ResponseBodyError.cause}
-   */
-  response!: Response
-
-  /**
-   * @ignore
-   */
-  constructor(
-    message: string,
-    options: {
-      cause: OAuth2Error
-      response: Response
-    },
-  ) {
-    super(message, options)
-    this.name = this.constructor.name
-    this.code = RESPONSE_BODY_ERROR
-    this.cause = options.cause
-    this.error = options.cause.error
-    this.status = options.response.status
-    this.error_description = options.cause.error_description
-    Object.defineProperty(this, 'response', { enumerable: false, value: options.response })
+export function generateRandomState(): string {
+  return randomBytes()
+}
 
-    // @ts-ignore
-    Error.captureStackTrace?.(this, this.constructor)
-  }
+/**
+ * Generate random `nonce` value.
+ *
+ * @group Utilities
+ *
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#IDToken)
+ */
+export function generateRandomNonce(): string {
+  return randomBytes()
 }
 
 /**
- * Thrown when OAuth 2.0 Authorization Error Response is encountered.
+ * Calculates the PKCE `code_challenge` value to send with an authorization request using the S256
+ * PKCE Code Challenge Method transformation.
  *
- * @example
+ * @param codeVerifier `code_verifier` value generated e.g. from {@link generateRandomCodeVerifier}.
  *
- * ```http
- * HTTP/1.1 302 Found
- * Location: https://client.example.com/cb?error=access_denied&state=xyz
- * ```
+ * @group Authorization Code Grant
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ * @group Proof Key for Code Exchange (PKCE)
  *
- * @group Errors
+ * @see [RFC 7636 - Proof Key for Code Exchange (PKCE)](https://www.rfc-editor.org/rfc/rfc7636.html#section-4)
  */
-export class AuthorizationResponseError extends Error {
-  /**
-   * Authorization Response parameters as {@link !URLSearchParams}
-   */
-  override cause: URLSearchParams
+export async function calculatePKCECodeChallenge(codeVerifier: string): Promise<string> {
+  assertString(codeVerifier, 'codeVerifier')
 
-  code: typeof AUTHORIZATION_RESPONSE_ERROR
+  return b64u(await crypto.subtle.digest('SHA-256', buf(codeVerifier)))
+}
 
-  /**
-   * Error code given in the Authorization Response
-   */
-  error: string
+function isSigner(input: unknown): input is Signer {
+  return !(input instanceof CryptoKey) && typeof (input as Signer | undefined)?.sign === 'function'
+}
 
-  /**
-   * Human-readable text providing additional information, used to assist the developer in
-   * understanding the error that occurred, given in the Authorization Response
-   */
-  error_description?: string
+function getSigningKeyAndKid(input: CryptoKey | PrivateKey | Signer | undefined): {
+  key?: CryptoKey | Signer
+  kid?: string
+} {
+  if (!isSigner(input)) {
+    return getKeyAndKid(input)
+  }
 
-  /**
-   * @ignore
-   */
-  constructor(
-    message: string,
-    options: {
-      cause: URLSearchParams
-    },
-  ) {
-    super(message, options)
-    this.name = this.constructor.name
-    this.code = AUTHORIZATION_RESPONSE_ERROR
-    this.cause = options.cause
-    this.error = options.cause.get('error')!
-    this.error_description = options.cause.get('error_description') ?? undefined
+  assertString(input.alg, '"alg"')
 
-    // @ts-ignore
-    Error.captureStackTrace?.(this, this.constructor)
+  if (input.kid !== undefined) {
+    assertString(input.kid, '"kid"')
+  }
+
+  return { key: input, kid: input.kid }
+}
+
+function assertSigningKey(key: unknown, it: string): asserts key is CryptoKey | Signer {
+  if (!isSigner(key)) {
+    assertPrivateKey(key, it)
   }
 }
 
 /**
- * Thrown when a server responds with WWW-Authenticate challenges, typically because of expired
- * tokens, or bad client authentication
- *
- * @example
- *
- * ```http
- * HTTP/1.1 401 Unauthorized
- * WWW-Authenticate: Bearer error="invalid_token",
- *                          error_description="The access token expired"
- * ```
- *
- * @group Errors
+ * Determines the JWS `alg` identifier for a CryptoKey or a {@link Signer}.
  */
-export class WWWAuthenticateChallengeError extends Error {
-  /**
-   * The parsed WWW-Authenticate HTTP Header challenges
-   */
-  override cause: WWWAuthenticateChallenge[]
+function signingAlg(key: CryptoKey | Signer) {
+  return isSigner(key) ? key.alg : keyToJws(key)
+}
 
-  code: typeof WWW_AUTHENTICATE_CHALLENGE
+interface NormalizedKeyInput {
+  key?: CryptoKey
+  kid?: string
+}
 
-  /**
-   * The {@link !Response} that included a WWW-Authenticate HTTP Header challenges, its
-   * {@link !Response.bodyUsed} is `true`
-   */
-  response: Response
+function getKeyAndKid(input: CryptoKey | PrivateKey | undefined): NormalizedKeyInput {
+  if (input instanceof CryptoKey) {
+    return { key: input }
+  }
 
-  /**
-   * HTTP Status Code of the response
-   */
-  status: number
+  if (!(input?.key instanceof CryptoKey)) {
+    return {}
+  }
 
-  /**
-   * @ignore
-   */
-  constructor(message: string, options: { cause: WWWAuthenticateChallenge[]; response: Response }) {
-    super(message, options)
-    this.name = this.constructor.name
-    this.code = WWW_AUTHENTICATE_CHALLENGE
-    this.cause = options.cause
-    this.status = options.response.status
-    this.response = options.response
-    Object.defineProperty(this, 'response', { enumerable: false })
+  if (input.kid !== undefined) {
+    assertString(input.kid, '"kid"')
+  }
 
-    // @ts-ignore
-    Error.captureStackTrace?.(this, this.constructor)
+  return {
+    key: input.key,
+    kid: input.kid,
   }
 }
 
-export interface WWWAuthenticateChallengeParameters {
-  readonly realm?: string
-  readonly error?: string
-  readonly error_description?: string
-  readonly error_uri?: string
-  readonly algs?: string
-  readonly scope?: string
-
+export interface DPoPRequestOptions {
   /**
-   * NOTE: because the parameter names are case insensitive they are always returned lowercased
+   * DPoP handle, obtained from {@link DPoP}
    */
-  readonly [parameter: Lowercase<string>]: string | undefined
+  DPoP?: DPoPHandle
 }
 
-export interface WWWAuthenticateChallenge {
-  /**
-   * NOTE: because the value is case insensitive it is always returned lowercased
-   */
-  readonly scheme: Lowercase<string>
-  readonly parameters: WWWAuthenticateChallengeParameters
-}
+export interface PushedAuthorizationRequestOptions
+  extends HttpRequestOptions<'POST', URLSearchParams>,
+    DPoPRequestOptions {}
 
-function unquote(value: string) {
-  if (value.length >= 2 && value[0] === '"' && value[value.length - 1] === '"') {
-    return value.slice(1, -1)
+/**
+ * Determines an RSASSA-PSS algorithm identifier from CryptoKey instance properties.
+ */
+function psAlg(key: CryptoKey): string {
+  switch ((key.algorithm as RsaHashedKeyAlgorithm).hash.name) {
+    case 'SHA-256':
+      return 'PS256'
+    case 'SHA-384':
+      return 'PS384'
+    case 'SHA-512':
+      return 'PS512'
+    default:
+      throw new UnsupportedOperationError('unsupported RsaHashedKeyAlgorithm hash name', {
+        cause: key,
+      })
   }
-
-  return value
 }
 
-const SPLIT_REGEXP = /((?:,|, )?[0-9a-zA-Z!#$%&'*+-.^_`|~]+=)/
-const SCHEMES_REGEXP = /(?:^|, ?)([0-9a-zA-Z!#$%&'*+\-.^_`|~]+)(?=$|[ ,])/g
-
-function wwwAuth(scheme: string, params: string): WWWAuthenticateChallenge {
-  const arr = params.split(SPLIT_REGEXP).slice(1)
-  if (!arr.length) {
-    return { scheme: scheme.toLowerCase() as Lowercase<string>, parameters: {} }
-  }
-  arr[arr.length - 1] = arr[arr.length - 1].replace(/,$/, '')
-  const parameters: WWWAuthenticateChallenge['parameters'] = {}
-  for (let i = 1; i < arr.length; i += 2) {
-    const idx = i
-    if (arr[idx][0] === '"') {
-      while (arr[idx].slice(-1) !== '"' && ++i < arr.length) {
-        arr[idx] += arr[i]
-      }
-    }
-    const key = arr[idx - 1].replace(/^(?:, ?)|=$/g, '').toLowerCase() as Lowercase<string>
-    // @ts-expect-error
-    parameters[key] = unquote(arr[idx])
+/**
+ * Determines an RSASSA-PKCS1-v1_5 algorithm identifier from CryptoKey instance properties.
+ */
+function rsAlg(key: CryptoKey): string {
+  switch ((key.algorithm as RsaHashedKeyAlgorithm).hash.name) {
+    case 'SHA-256':
+      return 'RS256'
+    case 'SHA-384':
+      return 'RS384'
+    case 'SHA-512':
+      return 'RS512'
+    default:
+      throw new UnsupportedOperationError('unsupported RsaHashedKeyAlgorithm hash name', {
+        cause: key,
+      })
   }
+}
 
-  return {
-    scheme: scheme.toLowerCase() as Lowercase<string>,
-    parameters,
+/**
+ * Determines an ECDSA algorithm identifier from CryptoKey instance properties.
+ */
+function esAlg(key: CryptoKey): string {
+  switch ((key.algorithm as EcKeyAlgorithm).namedCurve) {
+    case 'P-256':
+      return 'ES256'
+    case 'P-384':
+      return 'ES384'
+    case 'P-521':
+      return 'ES512'
+    default:
+      throw new UnsupportedOperationError('unsupported EcKeyAlgorithm namedCurve', { cause: key })
   }
 }
 
-function parseWwwAuthenticateChallenges(
-  response: Response,
-): WWWAuthenticateChallenge[] | undefined {
-  if (!looseInstanceOf(response, Response)) {
-    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
+/**
+ * Determines a supported JWS `alg` identifier from CryptoKey instance properties.
+ */
+function keyToJws(key: CryptoKey) {
+  switch (key.algorithm.name) {
+    case 'RSA-PSS':
+      return psAlg(key)
+    case 'RSASSA-PKCS1-v1_5':
+      return rsAlg(key)
+    case 'ECDSA':
+      return esAlg(key)
+    case 'Ed25519': // Fall through
+    case 'EdDSA':
+      return 'Ed25519'
+    default:
+      throw new UnsupportedOperationError('unsupported CryptoKey algorithm name', { cause: key })
   }
+}
 
-  const header = response.headers.get('www-authenticate')
-  if (header === null) {
-    return undefined
-  }
+function getClockSkew(client?: Pick<Client, typeof clockSkew>) {
+  const skew = client?.[clockSkew]
 
-  const result: [string, number][] = []
-  for (const { 1: scheme, index } of header.matchAll(SCHEMES_REGEXP)) {
-    result.push([scheme, index!])
+  return typeof skew === 'number' && Number.isFinite(skew) ? skew : 0
+}
+
+function getClockTolerance(client?: Pick<Client, typeof clockTolerance>) {
+  const tolerance = client?.[clockTolerance]
+
+  return typeof tolerance === 'number' && Number.isFinite(tolerance) && Math.sign(tolerance) !== -1
+    ? tolerance
+    : 30
+}
+
+/**
+ * Returns the current unix timestamp in seconds.
+ */
+function epochTime() {
+  return Math.floor(Date.now() / 1000)
+}
+
+function assertAs(as: AuthorizationServer): asserts as is AuthorizationServer {
+  if (typeof as !== 'object' || as === null) {
+    throw CodedTypeError('"as" must be an object', ERR_INVALID_ARG_TYPE)
   }
 
-  if (!result.length) {
-    return undefined
+  assertString(as.issuer, '"as.issuer"')
+}
+
+function assertClient(client: Client): asserts client is Client {
+  if (typeof client !== 'object' || client === null) {
+    throw CodedTypeError('"client" must be an object', ERR_INVALID_ARG_TYPE)
   }
 
-  const challenges = result.map(([scheme, indexOf], i, others) => {
-    const next = others[i + 1]
-    let parameters: string
-    if (next) {
-      parameters = header.slice(indexOf, next[1])
-    } else {
-      parameters = header.slice(indexOf)
+  assertString(client.client_id, '"client.client_id"')
+}
+
+/**
+ * The client identifier is encoded using the `application/x-www-form-urlencoded` encoding algorithm
+ * per Appendix B, and the encoded value is used as the username; the client password is encoded
+ * using the same algorithm and used as the password.
+ */
+function formUrlEncode(token: string) {
+  return encodeURIComponent(token).replace(/(?:[-_.!~*'()]|%20)/g, (substring) => {
+    switch (substring) {
+      case '-':
+      case '_':
+      case '.':
+      case '!':
+      case '~':
+      case '*':
+      case "'":
+      case '(':
+      case ')':
+        return `%${substring.charCodeAt(0).toString(16).toUpperCase()}`
+      case '%20':
+        return '+'
+      default:
+        throw new Error()
     }
-    return wwwAuth(scheme, parameters)
   })
-
-  return challenges
 }
 
 /**
- * Validates {@link !Response} instance to be one coming from the
- * {@link AuthorizationServer.pushed_authorization_request_endpoint `as.pushed_authorization_request_endpoint`}.
- *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param response Resolved value from {@link pushedAuthorizationRequest}.
- *
- * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
- *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
- *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
- *
- * @group Pushed Authorization Requests (PAR)
+ * Implementation of the Client's Authentication Method at the Authorization Server.
  *
- * @see [RFC 9126 - OAuth 2.0 Pushed Authorization Requests (PAR)](https://www.rfc-editor.org/rfc/rfc9126.html#name-pushed-authorization-reques)
+ * @see {@link ClientSecretPost}
+ * @see {@link ClientSecretBasic}
+ * @see {@link PrivateKeyJwt}
+ * @see {@link None}
+ * @see {@link TlsClientAuth}
+ * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
  */
-export async function processPushedAuthorizationResponse(
+export type ClientAuth = (
   as: AuthorizationServer,
   client: Client,
-  response: Response,
-): Promise<PushedAuthorizationResponse> {
-  assertAs(as)
-  assertClient(client)
-
-  if (!looseInstanceOf(response, Response)) {
-    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
-  }
-
-  let challenges: WWWAuthenticateChallenge[] | undefined
-  if ((challenges = parseWwwAuthenticateChallenges(response))) {
-    throw new WWWAuthenticateChallengeError(
-      'server responded with a challenge in the WWW-Authenticate HTTP Header',
-      { cause: challenges, response },
-    )
-  }
-
-  if (response.status !== 201) {
-    let err: OAuth2Error | undefined
-    if ((err = await handleOAuthBodyError(response))) {
-      await response.body?.cancel()
-      throw new ResponseBodyError('server responded with an error in the response body', {
-        cause: err,
-        response,
-      })
-    }
-    throw OPE(
-      '"response" is not a conform Pushed Authorization Request Endpoint response (unexpected HTTP status code)',
-      RESPONSE_IS_NOT_CONFORM,
-      response,
-    )
-  }
-
-  assertReadableResponse(response)
-  assertApplicationJson(response)
-  let json: JsonValue
-  try {
-    json = await response.json()
-  } catch (cause) {
-    throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
-  }
+  body: URLSearchParams,
+  headers: Headers,
+) => void | Promise<void>
 
-  if (!isJsonObject<Writeable<PushedAuthorizationResponse>>(json)) {
-    throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
+/**
+ * **`client_secret_post`** uses the HTTP request body to send `client_id` and `client_secret` as
+ * `application/x-www-form-urlencoded` body parameters
+ *
+ * @example
+ *
+ * ```ts
+ * let clientSecret!: string
+ *
+ * let clientAuth = oauth.ClientSecretPost(clientSecret)
+ * ```
+ *
+ * @param clientSecret
+ *
+ * @group Client Authentication
+ *
+ * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
+ * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-2.3)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#ClientAuthentication)
+ */
+export function ClientSecretPost(clientSecret: string): ClientAuth {
+  assertString(clientSecret, '"clientSecret"')
+  return (_as, client, body, _headers) => {
+    body.set('client_id', client.client_id)
+    body.set('client_secret', clientSecret)
   }
-
-  assertString(json.request_uri, '"response" body "request_uri" property', INVALID_RESPONSE, {
-    body: json,
-  })
-
-  let expiresIn: unknown =
-    typeof json.expires_in !== 'number' ? parseFloat(json.expires_in) : json.expires_in
-  assertNumber(expiresIn, false, '"response" body "expires_in" property', INVALID_RESPONSE, {
-    body: json,
-  })
-  json.expires_in = expiresIn
-
-  return json
 }
 
-export type ProtectedResourceRequestBody =
-  | ArrayBuffer
-  | null
-  | ReadableStream
-  | string
-  | Uint8Array
-  | undefined
-  | URLSearchParams
-
-export interface ProtectedResourceRequestOptions
-  extends Omit<HttpRequestOptions<string, ProtectedResourceRequestBody>, 'headers'>,
-    DPoPRequestOptions {}
-
-function assertDPoP(option: DPoPHandle): asserts option is DPoPHandler {
-  if (!branded.has(option)) {
-    throw CodedTypeError('"options.DPoP" is not a valid DPoPHandle', ERR_INVALID_ARG_VALUE)
+/**
+ * **`client_secret_basic`** uses the HTTP `Basic` authentication scheme to send `client_id` and
+ * `client_secret` in an `Authorization` HTTP Header.
+ *
+ * @example
+ *
+ * ```ts
+ * let clientSecret!: string
+ *
+ * let clientAuth = oauth.ClientSecretBasic(clientSecret)
+ * ```
+ *
+ * @param clientSecret
+ *
+ * @group Client Authentication
+ *
+ * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
+ * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-2.3)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#ClientAuthentication)
+ */
+export function ClientSecretBasic(clientSecret: string): ClientAuth {
+  assertString(clientSecret, '"clientSecret"')
+  return (_as, client, _body, headers) => {
+    const username = formUrlEncode(client.client_id)
+    const password = formUrlEncode(clientSecret)
+    const credentials = btoa(`${username}:${password}`)
+    headers.set('authorization', `Basic ${credentials}`)
   }
 }
 
-async function resourceRequest(
-  accessToken: string,
-  method: string,
-  url: URL,
-  headers?: Headers,
-  body?: ProtectedResourceRequestBody,
-  options?: ProtectedResourceRequestOptions,
-): Promise<Response> {
-  assertString(accessToken, '"accessToken"')
-
-  if (!(url instanceof URL)) {
-    throw CodedTypeError('"url" must be an instance of URL', ERR_INVALID_ARG_TYPE)
-  }
-
-  checkProtocol(url, options?.[allowInsecureRequests] !== true)
-
-  headers = prepareHeaders(headers)
+export interface ModifyAssertionOptions {
+  /**
+   * Use to modify a JWT assertion payload or header right before it is signed.
+   *
+   * @see {@link modifyAssertion}
+   */
+  [modifyAssertion]?: ModifyAssertionFunction
+}
 
-  if (options?.DPoP) {
-    assertDPoP(options.DPoP)
-    await options.DPoP.addProof(url, headers, method.toUpperCase(), accessToken)
-    headers.set('authorization', `DPoP ${accessToken}`)
-  } else {
-    headers.set('authorization', `Bearer ${accessToken}`)
+function clientAssertionPayload(as: AuthorizationServer, client: Client) {
+  const now = epochTime() + getClockSkew(client)
+  return {
+    jti: randomBytes(),
+    aud: as.issuer,
+    exp: now + 60,
+    iat: now,
+    nbf: now,
+    iss: client.client_id,
+    sub: client.client_id,
   }
-
-  const response = await (options?.[customFetch] || fetch)(url.href, {
-    body,
-    headers: Object.fromEntries(headers.entries()),
-    method,
-    redirect: 'manual',
-    signal: options?.signal ? signal(options.signal) : undefined,
-  })
-  options?.DPoP?.cacheNonce(response)
-  return response
 }
 
 /**
- * Performs a protected resource request at an arbitrary URL.
+ * **`private_key_jwt`** uses the HTTP request body to send `client_id`, `client_assertion_type`,
+ * and `client_assertion` as `application/x-www-form-urlencoded` body parameters. Digital signature
+ * is used for the assertion's authenticity and integrity.
  *
- * Authorization Header is used to transmit the Access Token value.
+ * @example
  *
- * @param accessToken The Access Token for the request.
- * @param method The HTTP method for the request.
- * @param url Target URL for the request.
- * @param headers Headers for the request.
- * @param body Request body compatible with the Fetch API and the request's method.
+ * ```ts
+ * let key!: oauth.CryptoKey | oauth.PrivateKey
  *
- * @returns Resolves with a {@link !Response} instance. WWW-Authenticate HTTP Header challenges are
- *   rejected with {@link WWWAuthenticateChallengeError}.
+ * let clientAuth = oauth.PrivateKeyJwt(key)
+ * ```
  *
- * @group Accessing Protected Resources
+ * @param clientPrivateKey
  *
- * @see [RFC 6750 - The OAuth 2.0 Authorization Framework: Bearer Token Usage](https://www.rfc-editor.org/rfc/rfc6750.html#section-2.1)
- * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-protected-resource-access)
+ * @group Client Authentication
+ *
+ * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#ClientAuthentication)
  */
-export async function protectedResourceRequest(
-  accessToken: string,
-  method: string,
-  url: URL,
-  headers?: Headers,
-  body?: ProtectedResourceRequestBody,
-  options?: ProtectedResourceRequestOptions,
-): Promise<Response> {
-  return resourceRequest(accessToken, method, url, headers, body, options).then((response) => {
-    let challenges: WWWAuthenticateChallenge[] | undefined
-    if ((challenges = parseWwwAuthenticateChallenges(response))) {
-      throw new WWWAuthenticateChallengeError(
-        'server responded with a challenge in the WWW-Authenticate HTTP Header',
-        { cause: challenges, response },
-      )
-    }
-    return response
-  })
-}
+export function PrivateKeyJwt(
+  clientPrivateKey: CryptoKey | PrivateKey | Signer,
+  options?: ModifyAssertionOptions,
+): ClientAuth {
+  const { key, kid } = getSigningKeyAndKid(clientPrivateKey)
+  assertSigningKey(key, '"clientPrivateKey.key"')
+  return async (as, client, body, _headers) => {
+    const header = { alg: signingAlg(key), kid }
+    const payload = clientAssertionPayload(as, client)
 
-export interface UserInfoRequestOptions extends HttpRequestOptions<'GET'>, DPoPRequestOptions {}
+    options?.[modifyAssertion]?.(header, payload)
+
+    body.set('client_id', client.client_id)
+    body.set('client_assertion_type', 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer')
+    body.set('client_assertion', await signJwt(header, payload, key))
+  }
+}
 
 /**
- * Performs a UserInfo Request at the
- * {@link AuthorizationServer.userinfo_endpoint `as.userinfo_endpoint`}.
+ * **`client_secret_jwt`** uses the HTTP request body to send `client_id`, `client_assertion_type`,
+ * and `client_assertion` as `application/x-www-form-urlencoded` body parameters. HMAC is used for
+ * the assertion's authenticity and integrity.
  *
- * Authorization Header is used to transmit the Access Token value.
+ * @example
  *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param accessToken Access Token value.
+ * ```ts
+ * let clientSecret!: string
  *
- * @group Authorization Code Grant w/ OpenID Connect (OIDC)
- * @group OpenID Connect (OIDC) UserInfo
- * @group Accessing Protected Resources
+ * let clientAuth = oauth.ClientSecretJwt(clientSecret)
+ * ```
  *
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#UserInfo)
- * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-protected-resource-access)
+ * @param clientSecret
+ * @param options
+ *
+ * @group Client Authentication
+ *
+ * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#ClientAuthentication)
  */
-export async function userInfoRequest(
-  as: AuthorizationServer,
-  client: Client,
-  accessToken: string,
-  options?: UserInfoRequestOptions,
-): Promise<Response> {
-  assertAs(as)
-  assertClient(client)
+export function ClientSecretJwt(
+  clientSecret: string,
+  options?: ModifyAssertionOptions,
+): ClientAuth {
+  assertString(clientSecret, '"clientSecret"')
+  const modify = options?.[modifyAssertion]
+  let key: CryptoKey
+  return async (as, client, body, _headers) => {
+    key ||= await crypto.subtle.importKey(
+      'raw',
+      buf(clientSecret),
+      { hash: 'SHA-256', name: 'HMAC' },
+      false,
+      ['sign'],
+    )
 
-  const url = resolveEndpoint(
-    as,
-    'userinfo_endpoint',
-    client.use_mtls_endpoint_aliases,
-    options?.[allowInsecureRequests] !== true,
-  )
+    const header = { alg: 'HS256' }
+    const payload = clientAssertionPayload(as, client)
 
-  const headers = prepareHeaders(options?.headers)
-  if (client.userinfo_signed_response_alg) {
-    headers.set('accept', 'application/jwt')
-  } else {
-    headers.set('accept', 'application/json')
-    headers.append('accept', 'application/jwt')
-  }
+    modify?.(header, payload)
 
-  return resourceRequest(accessToken, 'GET', url, headers, null, {
-    ...options,
-    [clockSkew]: getClockSkew(client),
-  } as ProtectedResourceRequestOptions)
+    const data = `${b64u(buf(JSON.stringify(header)))}.${b64u(buf(JSON.stringify(payload)))}`
+    const hmac = await crypto.subtle.sign(key.algorithm, key, buf(data))
+
+    body.set('client_id', client.client_id)
+    body.set('client_assertion_type', 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer')
+    body.set('client_assertion', `${data}.${b64u(new Uint8Array(hmac))}`)
+  }
 }
 
-export interface UserInfoAddress {
-  readonly formatted?: string
-  readonly street_address?: string
-  readonly locality?: string
-  readonly region?: string
-  readonly postal_code?: string
-  readonly country?: string
+/**
+ * **`none`** (public client) uses the HTTP request body to send only `client_id` as
+ * `application/x-www-form-urlencoded` body parameter.
+ *
+ * ```ts
+ * let clientAuth = oauth.None()
+ * ```
+ *
+ * @group Client Authentication
+ *
+ * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#ClientAuthentication)
+ */
+export function None(): ClientAuth {
+  return (_as, client, body, _headers) => {
+    body.set('client_id', client.client_id)
+  }
+}
 
-  readonly [claim: string]: JsonValue | undefined
+/**
+ * **`tls_client_auth`** uses the HTTP request body to send only `client_id` as
+ * `application/x-www-form-urlencoded` body parameter and the mTLS key and certificate is configured
+ * through {@link customFetch}.
+ *
+ * ```ts
+ * let clientAuth = oauth.TlsClientAuth()
+ * ```
+ *
+ * @group Client Authentication
+ *
+ * @see [OAuth Token Endpoint Authentication Methods](https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#token-endpoint-auth-method)
+ * @see [RFC 8705 - OAuth 2.0 Mutual-TLS Client Authentication (PKI Mutual-TLS Method)](https://www.rfc-editor.org/rfc/rfc8705.html#name-pki-mutual-tls-method)
+ */
+export function TlsClientAuth(): ClientAuth {
+  return None()
 }
 
-export interface UserInfoResponse {
-  readonly sub: string
-  readonly name?: string
-  readonly given_name?: string
-  readonly family_name?: string
-  readonly middle_name?: string
-  readonly nickname?: string
-  readonly preferred_username?: string
-  readonly profile?: string
-  readonly picture?: string
-  readonly website?: string
-  readonly email?: string
-  readonly email_verified?: boolean
-  readonly gender?: string
-  readonly birthdate?: string
-  readonly zoneinfo?: string
-  readonly locale?: string
-  readonly phone_number?: string
-  readonly updated_at?: number
-  readonly address?: UserInfoAddress
+/**
+ * Minimal JWT sign() implementation.
+ */
+async function signJwt(
+  header: CompactJWSHeaderParameters,
+  payload: Record<string, unknown>,
+  key: CryptoKey | Signer,
+) {
+  if (!isSigner(key) && !key.usages.includes('sign')) {
+    throw CodedTypeError(
+      'CryptoKey instances used for signing assertions must include "sign" in their "usages"',
+      ERR_INVALID_ARG_VALUE,
+    )
+  }
+  const input = `${b64u(buf(JSON.stringify(header)))}.${b64u(buf(JSON.stringify(payload)))}`
 
-  readonly [claim: string]: JsonValue | undefined
-}
+  let signature: Uint8Array | ArrayBuffer
+  if (isSigner(key)) {
+    const result: unknown = await key.sign(buf(input))
+    if (looseInstanceOf(result, Uint8Array)) {
+      signature = result
+    } else if (looseInstanceOf(result, ArrayBuffer)) {
+      signature = new Uint8Array(result)
+    } else {
+      throw CodedTypeError(
+        'Signer "sign" method must resolve with a Uint8Array or an ArrayBuffer',
+        ERR_INVALID_ARG_TYPE,
+      )
+    }
+  } else {
+    signature = await crypto.subtle.sign(keyToSubtle(key), key, buf(input))
+  }
 
-let jwksMap: WeakMap<AuthorizationServer, ExportedJWKSCache & { age: number }>
+  return `${input}.${b64u(signature)}`
+}
 
-export interface ExportedJWKSCache {
-  jwks: JWKS
-  uat: number
+export interface RequestObjectEncryptionOptions {
+  /**
+   * JWE `alg` (key management algorithm) to encrypt the Request Object with. Default is
+   * {@link Client.request_object_encryption_alg `client.request_object_encryption_alg`}.
+   *
+   * Supported values are `RSA-OAEP`, `RSA-OAEP-256`, `RSA-OAEP-384`, `RSA-OAEP-512`, `ECDH-ES`,
+   * `ECDH-ES+A128KW`, `ECDH-ES+A192KW`, and `ECDH-ES+A256KW`.
+   */
+  alg?: string
+  /**
+   * JWE `enc` (content encryption algorithm) to encrypt the Request Object with. Default is
+   * {@link Client.request_object_encryption_enc `client.request_object_encryption_enc`} and falls
+   * back to `A128CBC-HS256`.
+   */
+  enc?: string
 }
 
-export type JWKSCacheInput = ExportedJWKSCache | Record<string, never>
+export interface IssueRequestObjectOptions
+  extends ModifyAssertionOptions,
+    HttpRequestOptions<'GET'>,
+    JWKSCacheOptions {
+  /**
+   * When set (or when
+   * {@link Client.request_object_encryption_alg `client.request_object_encryption_alg`} is
+   * configured) the signed Request Object is encrypted to a public encryption key (`use: enc`)
+   * obtained from the authorization server's {@link AuthorizationServer.jwks_uri `as.jwks_uri`},
+   * producing a Nested JWT. The chosen algorithms must be listed in the authorization server's
+   * {@link AuthorizationServer.request_object_encryption_alg_values_supported `as.request_object_encryption_alg_values_supported`}
+   * and
+   * {@link AuthorizationServer.request_object_encryption_enc_values_supported `as.request_object_encryption_enc_values_supported`}
+   * metadata when these are present.
+   *
+   * @example
+   *
+   * ```ts
+   * let as!: oauth.AuthorizationServer
+   * let client!: oauth.Client
+   * let parameters!: URLSearchParams
+   * let privateKey!: oauth.PrivateKey
+   *
+   * let request = await oauth.issueRequestObject(as, client, parameters, privateKey, {
+   *   encryption: { alg: 'RSA-OAEP-256', enc: 'A256GCM' },
+   * })
+   * ```
+   */
+  encryption?: RequestObjectEncryptionOptions
+}
 
-function setJwksCache(
+/**
+ * Generates a signed JWT-Secured Authorization Request (JAR), optionally encrypted to the
+ * authorization server's public encryption key.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param privateKey Private key to sign the Request Object with.
+ *
+ * @group Authorization Code Grant
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ * @group JWT-Secured Authorization Request (JAR)
+ *
+ * @see [RFC 9101 - The OAuth 2.0 Authorization Framework: JWT-Secured Authorization Request (JAR)](https://www.rfc-editor.org/rfc/rfc9101.html#name-request-object-2)
+ */
+export async function issueRequestObject(
   as: AuthorizationServer,
-  jwks: JWKS,
-  uat: number,
-  cache?: JWKSCacheInput,
-): undefined {
-  jwksMap ||= new WeakMap()
-  jwksMap.set(as, {
-    jwks,
-    uat,
-    get age() {
-      return epochTime() - this.uat
-    },
-  })
+  client: Client,
+  parameters: URLSearchParams | Record<string, string> | string[][],
+  privateKey: CryptoKey | PrivateKey | Signer,
+  options?: IssueRequestObjectOptions,
+): Promise<string> {
+  assertAs(as)
+  assertClient(client)
 
-  if (cache) {
-    Object.assign(cache, { jwks: structuredClone(jwks), uat })
-  }
-}
+  parameters = new URLSearchParams(parameters)
 
-function isFreshJwksCache(input: unknown): input is ExportedJWKSCache {
-  if (typeof input !== 'object' || input === null) {
-    return false
+  let encryption: Required<RequestObjectEncryptionOptions> | undefined
+  if (options?.encryption !== undefined || client.request_object_encryption_alg !== undefined) {
+    encryption = checkRequestObjectEncryption(as, client, options?.encryption)
   }
 
-  if (!('uat' in input) || typeof input.uat !== 'number' || epochTime() - input.uat >= 300) {
-    return false
+  const { key, kid } = getSigningKeyAndKid(privateKey)
+  assertSigningKey(key, '"privateKey.key"')
+
+  parameters.set('client_id', client.client_id)
+
+  const now = epochTime() + getClockSkew(client)
+  const claims: Record<string, JsonValue> = {
+    ...Object.fromEntries(parameters.entries()),
+    jti: randomBytes(),
+    aud: as.issuer,
+    exp: now + 60,
+    iat: now,
+    nbf: now,
+    iss: client.client_id,
   }
 
+  let resource: string[]
   if (
-    !('jwks' in input) ||
-    !isJsonObject(input.jwks) ||
-    !Array.isArray(input.jwks.keys) ||
-    !Array.prototype.every.call(input.jwks.keys, isJsonObject)
+    parameters.has('resource') &&
+    (resource = parameters.getAll('resource')) &&
+    resource.length > 1
   ) {
-    return false
+    claims.resource = resource
   }
 
-  return true
-}
+  {
+    let value = parameters.get('max_age')
+    if (value !== null) {
+      claims.max_age = parseInt(value, 10)
 
-function clearJwksCache(as: AuthorizationServer, cache?: Partial<JWKSCacheInput>) {
-  jwksMap?.delete(as)
-  delete cache?.jwks
-  delete cache?.uat
-}
+      assertNumber(claims.max_age, true, '"max_age" parameter')
+    }
+  }
 
-async function getPublicSigKeyFromIssuerJwksUri(
-  as: AuthorizationServer,
-  options: (HttpRequestOptions<'GET'> & JWKSCacheOptions) | undefined,
-  header: CompactJWSHeaderParameters,
-): Promise<CryptoKey> {
-  const { alg, kid } = header
-  checkSupportedJwsAlg(header)
+  {
+    let value = parameters.get('claims')
+    if (value !== null) {
+      try {
+        claims.claims = JSON.parse(value)
+      } catch (cause) {
+        throw OPE('failed to parse the "claims" parameter as JSON', PARSE_ERROR, cause)
+      }
 
-  if (!jwksMap?.has(as) && isFreshJwksCache(options?.[jwksCache])) {
-    setJwksCache(as, options?.[jwksCache].jwks, options?.[jwksCache].uat)
+      if (!isJsonObject(claims.claims)) {
+        throw CodedTypeError(
+          '"claims" parameter must be a JSON with a top level object',
+          ERR_INVALID_ARG_VALUE,
+        )
+      }
+    }
   }
 
-  let jwks: JWKS
-  let age: number
+  {
+    let value = parameters.get('authorization_details')
+    if (value !== null) {
+      try {
+        claims.authorization_details = JSON.parse(value)
+      } catch (cause) {
+        throw OPE(
+          'failed to parse the "authorization_details" parameter as JSON',
+          PARSE_ERROR,
+          cause,
+        )
+      }
 
-  if (jwksMap?.has(as)) {
-    ;({ jwks, age } = jwksMap.get(as)!)
-    if (age >= 300) {
-      // force a re-fetch every 5 minutes
-      clearJwksCache(as, options?.[jwksCache])
-      return getPublicSigKeyFromIssuerJwksUri(as, options, header)
+      if (!Array.isArray(claims.authorization_details)) {
+        throw CodedTypeError(
+          '"authorization_details" parameter must be a JSON with a top level array',
+          ERR_INVALID_ARG_VALUE,
+        )
+      }
     }
-  } else {
-    jwks = await jwksRequest(as, options).then(processJwksResponse)
-    age = 0
-    setJwksCache(as, jwks, epochTime(), options?.[jwksCache])
   }
 
-  let kty: string
-  switch (alg.slice(0, 2)) {
-    case 'RS': // Fall through
-    case 'PS':
-      kty = 'RSA'
-      break
-    case 'ES':
-      kty = 'EC'
-      break
-    case 'Ed':
-      kty = 'OKP'
-      break
-    default:
-      throw new UnsupportedOperationError('unsupported JWS algorithm', { cause: { alg } })
+  const header = {
+    alg: signingAlg(key),
+    typ: 'oauth-authz-req+jwt',
+    kid,
   }
 
-  const candidates = jwks.keys.filter((jwk) => {
-    // filter keys based on the mapping of signature algorithms to Key Type
-    if (jwk.kty !== kty) {
-      return false
-    }
-
-    // filter keys based on the JWK Key ID in the header
-    if (kid !== undefined && kid !== jwk.kid) {
-      return false
-    }
+  options?.[modifyAssertion]?.(header, claims)
 
-    // filter keys based on the key's declared Algorithm
-    if (jwk.alg !== undefined && alg !== jwk.alg) {
-      return false
-    }
+  const jws = await signJwt(header, claims, key)
 
-    // filter keys based on the key's declared Public Key Use
-    if (jwk.use !== undefined && jwk.use !== 'sig') {
-      return false
-    }
+  if (encryption === undefined) {
+    return jws
+  }
 
-    // filter keys based on the key's declared Key Operations
-    if (jwk.key_ops?.includes('verify') === false) {
-      return false
-    }
+  const { key: encKey, kid: encKid } = await getPublicEncKeyFromIssuerJwksUri(
+    as,
+    options,
+    encryption.alg,
+  )
 
-    // filter keys based on alg-specific key requirements
-    switch (true) {
-      case alg === 'ES256' && jwk.crv !== 'P-256': // Fall through
-      case alg === 'ES384' && jwk.crv !== 'P-384': // Fall through
-      case alg === 'ES512' && jwk.crv !== 'P-521': // Fall through
-      case alg === 'Ed25519' && jwk.crv !== 'Ed25519': // Fall through
-      case alg === 'EdDSA' && jwk.crv !== 'Ed25519': // Fall through
-        return false
-    }
+  return encryptJwe(jws, { ...encryption, kid: encKid, cty: 'JWT' }, encKey)
+}
 
-    return true
-  })
+function checkRequestObjectEncryption(
+  as: AuthorizationServer,
+  client: Client,
+  encryption: RequestObjectEncryptionOptions | undefined,
+): Required<RequestObjectEncryptionOptions> {
+  const alg = encryption?.alg ?? client.request_object_encryption_alg
+  const enc = encryption?.enc ?? client.request_object_encryption_enc ?? 'A128CBC-HS256'
 
-  const { 0: jwk, length } = candidates
+  assertString(alg, '"options.encryption.alg"')
+  assertString(enc, '"options.encryption.enc"')
 
-  if (!length) {
-    if (age >= 60) {
-      // allow re-fetch if cache is at least 1 minute old
-      clearJwksCache(as, options?.[jwksCache])
-      return getPublicSigKeyFromIssuerJwksUri(as, options, header)
-    }
-    throw OPE(
-      'error when selecting a JWT verification key, no applicable keys found',
-      KEY_SELECTION,
-      { header, candidates, jwks_uri: new URL(as.jwks_uri!) },
+  if (
+    Array.isArray(as.request_object_encryption_alg_values_supported) &&
+    !as.request_object_encryption_alg_values_supported.includes(alg)
+  ) {
+    throw CodedTypeError(
+      `"options.encryption.alg" value "${alg}" is not supported by the authorization server`,
+      ERR_INVALID_ARG_VALUE,
     )
   }
 
-  if (length !== 1) {
-    throw OPE(
-      'error when selecting a JWT verification key, multiple applicable keys found, a "kid" JWT Header Parameter is required',
-      KEY_SELECTION,
-      { header, candidates, jwks_uri: new URL(as.jwks_uri!) },
+  if (
+    Array.isArray(as.request_object_encryption_enc_values_supported) &&
+    !as.request_object_encryption_enc_values_supported.includes(enc)
+  ) {
+    throw CodedTypeError(
+      `"options.encryption.enc" value "${enc}" is not supported by the authorization server`,
+      ERR_INVALID_ARG_VALUE,
     )
   }
 
-  return importJwk(alg, jwk)
+  // throws for unsupported enc values
+  cekBitLength(enc)
+
+  return { alg, enc }
+}
+
+let jwkCache: WeakMap<CryptoKey, JWK>
+
+async function getSetPublicJwkCache(key: CryptoKey) {
+  const { kty, e, n, x, y, crv } = await crypto.subtle.exportKey('jwk', key)
+  const jwk = { kty, e, n, x, y, crv }
+  jwkCache.set(key, jwk)
+  return jwk
 }
 
 /**
- * DANGER ZONE - This option has security implications that must be understood, assessed for
- * applicability, and accepted before use.
- *
- * Use this as a value to {@link processUserInfoResponse} `expectedSubject` parameter to skip the
- * `sub` claim value check.
- *
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#UserInfoResponse)
+ * Exports an asymmetric crypto key as bare JWK
  */
-export const skipSubjectCheck: unique symbol = Symbol()
+async function publicJwk(key: CryptoKey) {
+  jwkCache ||= new WeakMap()
+  return jwkCache.get(key) || getSetPublicJwkCache(key)
+}
 
-function getContentType(input: Response | Request) {
-  return input.headers.get('content-type')?.split(';')[0]
+/**
+ * Calculates the base64url-encoded SHA-256 JWK Thumbprint of a public JWK
+ */
+async function jwkThumbprint(jwk: JWK) {
+  let components: JWK
+  switch (jwk.kty) {
+    case 'EC':
+      components = { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+      break
+    case 'OKP':
+      components = { crv: jwk.crv, kty: jwk.kty, x: jwk.x }
+      break
+    case 'RSA':
+      components = { e: jwk.e, kty: jwk.kty, n: jwk.n }
+      break
+    default:
+      throw new UnsupportedOperationError('unsupported JWK key type', { cause: jwk })
+  }
+
+  return b64u(await crypto.subtle.digest('SHA-256', buf(JSON.stringify(components))))
 }
 
-export interface JWEDecryptOptions {
-  /**
-   * See {@link jweDecrypt}.
-   */
-  [jweDecrypt]?: JweDecryptFunction
+// @ts-ignore
+const URLParse: (url: string | URL, base?: string | URL) => URL | null = URL.parse
+  ? // @ts-ignore
+    (url, base) => URL.parse(url, base)
+  : (url, base) => {
+      try {
+        return new URL(url, base)
+      } catch {
+        return null
+      }
+    }
+
+/**
+ * @ignore
+ */
+export function checkProtocol(url: URL, enforceHttps: boolean | undefined) {
+  if (enforceHttps && url.protocol !== 'https:') {
+    throw OPE('only requests to HTTPS are allowed', HTTP_REQUEST_FORBIDDEN, url)
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw OPE('only HTTP and HTTPS requests are allowed', REQUEST_PROTOCOL_FORBIDDEN, url)
+  }
+}
+
+function validateEndpoint(
+  value: unknown,
+  endpoint: keyof AuthorizationServer,
+  useMtlsAlias: boolean | undefined,
+  enforceHttps: boolean | undefined,
+) {
+  let url: URL | null
+  if (typeof value !== 'string' || !(url = URLParse(value))) {
+    throw OPE(
+      `authorization server metadata does not contain a valid ${useMtlsAlias ? `"as.mtls_endpoint_aliases.${endpoint}"` : `"as.${endpoint}"`}`,
+      value === undefined ? MISSING_SERVER_METADATA : INVALID_SERVER_METADATA,
+      { attribute: useMtlsAlias ? `mtls_endpoint_aliases.${endpoint}` : endpoint },
+    )
+  }
+
+  checkProtocol(url, enforceHttps)
+
+  return url
 }
 
 /**
- * Validates {@link !Response} instance to be one coming from the
- * {@link AuthorizationServer.userinfo_endpoint `as.userinfo_endpoint`}.
+ * @ignore
+ */
+export function resolveEndpoint(
+  as: AuthorizationServer,
+  endpoint: keyof AuthorizationServer,
+  useMtlsAlias: boolean | undefined,
+  enforceHttps: boolean | undefined,
+): URL {
+  if (useMtlsAlias && as.mtls_endpoint_aliases && endpoint in as.mtls_endpoint_aliases) {
+    return validateEndpoint(
+      as.mtls_endpoint_aliases[endpoint],
+      endpoint,
+      useMtlsAlias,
+      enforceHttps,
+    )
+  }
+
+  return validateEndpoint(as[endpoint], endpoint, useMtlsAlias, enforceHttps)
+}
+
+/**
+ * Performs a Pushed Authorization Request at the
+ * {@link AuthorizationServer.pushed_authorization_request_endpoint `as.pushed_authorization_request_endpoint`}.
  *
  * @param as Authorization Server Metadata.
  * @param client Client Metadata.
- * @param expectedSubject Expected `sub` claim value. In response to OpenID Connect authentication
- *   requests, the expected subject is the one from the ID Token claims retrieved from
- *   {@link getValidatedIdTokenClaims}.
- * @param response Resolved value from {@link userInfoRequest}.
- *
- * @returns Resolves with an object representing the parsed successful response. WWW-Authenticate
- *   HTTP Header challenges are rejected with {@link WWWAuthenticateChallengeError}.
+ * @param clientAuthentication Client Authentication Method.
+ * @param parameters Authorization Request parameters.
  *
- * @group Authorization Code Grant w/ OpenID Connect (OIDC)
- * @group OpenID Connect (OIDC) UserInfo
- * @group Accessing Protected Resources
+ * @group Pushed Authorization Requests (PAR)
  *
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#UserInfo)
+ * @see [RFC 9126 - OAuth 2.0 Pushed Authorization Requests (PAR)](https://www.rfc-editor.org/rfc/rfc9126.html#name-pushed-authorization-reques)
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-with-pushed-authorizat)
  */
-export async function processUserInfoResponse(
+export async function pushedAuthorizationRequest(
   as: AuthorizationServer,
   client: Client,
-  expectedSubject: string | typeof skipSubjectCheck,
-  response: Response,
-  options?: JWEDecryptOptions,
-): Promise<UserInfoResponse> {
+  clientAuthentication: ClientAuth,
+  parameters: URLSearchParams | Record<string, string> | string[][],
+  options?: PushedAuthorizationRequestOptions,
+): Promise<Response> {
   assertAs(as)
   assertClient(client)
 
-  if (!looseInstanceOf(response, Response)) {
-    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
-  }
+  const url = resolveEndpoint(
+    as,
+    'pushed_authorization_request_endpoint',
+    client.use_mtls_endpoint_aliases,
+    options?.[allowInsecureRequests] !== true,
+  )
 
-  let challenges: WWWAuthenticateChallenge[] | undefined
-  if ((challenges = parseWwwAuthenticateChallenges(response))) {
-    throw new WWWAuthenticateChallengeError(
-      'server responded with a challenge in the WWW-Authenticate HTTP Header',
-      { cause: challenges, response },
-    )
-  }
+  const body = new URLSearchParams(parameters)
+  body.set('client_id', client.client_id)
 
-  if (response.status !== 200) {
-    throw OPE(
-      '"response" is not a conform UserInfo Endpoint response (unexpected HTTP status code)',
-      RESPONSE_IS_NOT_CONFORM,
-      response,
-    )
+  const headers = prepareHeaders(options?.headers)
+  headers.set('accept', 'application/json')
+
+  if (options?.DPoP !== undefined) {
+    assertDPoP(options.DPoP)
   }
 
-  assertReadableResponse(response)
+  return dpopRequest(options?.DPoP, async () => {
+    await options?.DPoP?.addProof(url, headers, 'POST')
+    return authenticatedRequest(as, client, clientAuthentication, url, body, headers, options)
+  })
+}
 
-  let json: JsonValue
-  if (getContentType(response) === 'application/jwt') {
-    const { claims, jwt } = await validateJwt(
-      await response.text(),
-      checkSigningAlgorithm.bind(
-        undefined,
-        client.userinfo_signed_response_alg,
-        as.userinfo_signing_alg_values_supported,
-        undefined,
-      ),
-      getClockSkew(client),
-      getClockTolerance(client),
-      options?.[jweDecrypt],
-    )
-      .then(validateOptionalAudience.bind(undefined, client.client_id))
-      .then(validateOptionalIssuer.bind(undefined, as))
+/**
+ * DPoP handle, obtained from {@link DPoP}
+ */
+export interface DPoPHandle {
+  /**
+   * This is not part of the public API.
+   *
+   * @private
+   *
+   * @ignore
+   *
+   * @internal
+   */
+  addProof(url: URL, headers: Headers, htm: string, accessToken?: string): Promise<void>
+  /**
+   * This is not part of the public API.
+   *
+   * @private
+   *
+   * @ignore
+   *
+   * @internal
+   */
+  cacheNonce(response: Response): Promise<void>
+}
 
-    jwtRefs.set(response, jwt)
-    json = claims as JsonValue
-  } else {
-    if (client.userinfo_signed_response_alg) {
-      throw OPE('JWT UserInfo Response expected', JWT_USERINFO_EXPECTED, response)
+class DPoPHandler implements DPoPHandle {
+  #header?: CompactJWSHeaderParameters
+  #privateKey: CryptoKey | Signer
+  #publicKey: CryptoKey
+  #clockSkew: number
+  #modifyAssertion?: ModifyAssertionFunction
+  #map?: Map<string, string>
+  #store?: DPoPNonceStore
+  #retry: boolean
+
+  constructor(client: Client, keyPair: CryptoKeyPair | SignerKeyPair, options?: DPoPOptions) {
+    if (isSigner(keyPair?.privateKey)) {
+      assertString(keyPair.privateKey.alg, '"DPoP.privateKey.alg"')
+    } else {
+      assertPrivateKey(keyPair?.privateKey, '"DPoP.privateKey"')
     }
+    assertPublicKey(keyPair?.publicKey, '"DPoP.publicKey"')
 
-    assertApplicationJson(response)
-    try {
-      json = await response.json()
-    } catch (cause) {
-      throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
+    if (!keyPair.publicKey.extractable) {
+      throw CodedTypeError('"DPoP.publicKey.extractable" must be true', ERR_INVALID_ARG_VALUE)
+    }
+
+    this.#modifyAssertion = options?.[modifyAssertion]
+    this.#retry = options?.retryOnNonceError === true
+    if (options?.nonceStore !== undefined) {
+      const { nonceStore } = options
+      if (typeof nonceStore?.get !== 'function' || typeof nonceStore.set !== 'function') {
+        throw CodedTypeError(
+          '"options.nonceStore" must implement the get and set methods',
+          ERR_INVALID_ARG_TYPE,
+        )
+      }
+      this.#store = nonceStore
     }
+    this.#clockSkew = getClockSkew(client)
+    this.#privateKey = keyPair.privateKey
+    this.#publicKey = keyPair.publicKey
+    branded.add(this)
   }
 
-  if (!isJsonObject<UserInfoResponse>(json)) {
-    throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
+  #get(key: string) {
+    this.#map ||= new Map()
+    let item = this.#map.get(key)
+    if (item) {
+      this.#map.delete(key)
+      this.#map.set(key, item)
+    }
+    return item
   }
 
-  assertString(json.sub, '"response" body "sub" property', INVALID_RESPONSE, { body: json })
+  #set(key: string, val: string) {
+    this.#map ||= new Map()
+    this.#map.delete(key)
+    if (this.#map.size === 100) {
+      this.#map.delete(this.#map.keys().next().value!)
+    }
+    this.#map.set(key, val)
+  }
 
-  switch (expectedSubject) {
-    case skipSubjectCheck:
-      break
-    default:
-      assertString(expectedSubject, '"expectedSubject"')
+  async addProof(url: URL, headers: Headers, htm: string, accessToken?: string): Promise<void> {
+    this.#header ||= {
+      alg: signingAlg(this.#privateKey),
+      typ: 'dpop+jwt',
+      jwk: await publicJwk(this.#publicKey),
+    }
 
-      if (json.sub !== expectedSubject) {
-        throw OPE('unexpected "response" body "sub" property value', JSON_ATTRIBUTE_COMPARISON, {
-          expected: expectedSubject,
-          body: json,
-          attribute: 'sub',
-        })
+    let nonce: string | undefined
+    if (this.#store) {
+      try {
+        nonce = await this.#store.get(url.origin)
+      } catch {}
+    } else {
+      nonce = this.#get(url.origin)
+    }
+
+    const now = epochTime() + this.#clockSkew
+    const payload = {
+      iat: now,
+      jti: randomBytes(),
+      htm,
+      nonce,
+      htu: `${url.origin}${url.pathname}`,
+      ath: accessToken ? b64u(await crypto.subtle.digest('SHA-256', buf(accessToken))) : undefined,
+    }
+
+    this.#modifyAssertion?.(this.#header, payload)
+
+    headers.set('dpop', await signJwt(this.#header, payload, this.#privateKey))
+  }
+
+  async cacheNonce(response: Response): Promise<void> {
+    try {
+      const nonce = response.headers.get('dpop-nonce')
+      if (nonce) {
+        const origin = new URL(response.url).origin
+        if (this.#store) {
+          await this.#store.set(origin, nonce)
+        } else {
+          this.#set(origin, nonce)
+        }
       }
+    } catch {}
   }
 
-  return json
-}
+  async shouldRetry(response: Response): Promise<boolean> {
+    if (!this.#retry || !response.headers.has('dpop-nonce')) {
+      return false
+    }
 
-async function authenticatedRequest(
-  as: AuthorizationServer,
-  client: Client,
-  clientAuthentication: ClientAuth,
-  url: URL,
-  body: URLSearchParams,
-  headers: Headers,
-  options?: Omit<HttpRequestOptions<'POST', URLSearchParams>, 'headers'>,
-) {
-  await clientAuthentication(as, client, body, headers)
-  headers.set('content-type', 'application/x-www-form-urlencoded;charset=UTF-8')
+    if (response.status === 401) {
+      const challenges = parseWwwAuthenticateChallenges(response)
+      if (challenges) {
+        return isDPoPNonceChallenge(challenges)
+      }
+    }
 
-  return (options?.[customFetch] || fetch)(url.href, {
-    body,
-    headers: Object.fromEntries(headers.entries()),
-    method: 'POST',
-    redirect: 'manual',
-    signal: options?.signal ? signal(options.signal) : undefined,
-  })
-}
+    if (response.status === 400 && getContentType(response) === 'application/json') {
+      try {
+        const json: JsonValue = await response.clone().json()
+        return isJsonObject<OAuth2Error>(json) && json.error === 'use_dpop_nonce'
+      } catch {}
+    }
 
-export interface TokenEndpointRequestOptions
-  extends HttpRequestOptions<'POST', URLSearchParams>,
-    DPoPRequestOptions {
-  /**
-   * Any additional parameters to send. This cannot override existing parameter values.
-   */
-  additionalParameters?: URLSearchParams | Record<string, string> | string[][]
+    return false
+  }
 }
 
-async function tokenEndpointRequest(
-  as: AuthorizationServer,
-  client: Client,
-  clientAuthentication: ClientAuth,
-  grantType: string,
-  parameters: URLSearchParams,
-  options?: Omit<TokenEndpointRequestOptions, 'additionalParameters'>,
+/**
+ * Performs a request that includes a DPoP Proof (when a {@link DPoPHandle} is used), caches the
+ * server-provided nonce, and when {@link DPoPOptions.retryOnNonceError} is enabled retries the
+ * request once if the server indicated the need to use a (fresh) nonce.
+ */
+async function dpopRequest(
+  DPoP: DPoPHandle | undefined,
+  request: () => Promise<Response>,
+  replayable = true,
 ): Promise<Response> {
-  const url = resolveEndpoint(
-    as,
-    'token_endpoint',
-    client.use_mtls_endpoint_aliases,
-    options?.[allowInsecureRequests] !== true,
-  )
-
-  parameters.set('grant_type', grantType)
-  const headers = prepareHeaders(options?.headers)
-  headers.set('accept', 'application/json')
+  const response = await request()
+  await DPoP?.cacheNonce(response)
 
-  if (options?.DPoP !== undefined) {
-    assertDPoP(options.DPoP)
-    await options.DPoP.addProof(url, headers, 'POST')
+  if (replayable && DPoP !== undefined && (await (DPoP as DPoPHandler).shouldRetry(response))) {
+    await response.body?.cancel()
+    const retried = await request()
+    await DPoP.cacheNonce(retried)
+    return retried
   }
 
-  const response = await authenticatedRequest(
-    as,
-    client,
-    clientAuthentication,
-    url,
-    parameters,
-    headers,
-    options,
-  )
-  options?.DPoP?.cacheNonce(response)
   return response
 }
 
+function isDPoPNonceChallenge(challenges: WWWAuthenticateChallenge[]) {
+  const { 0: challenge, length } = challenges
+  return (
+    length === 1 && challenge.scheme === 'dpop' && challenge.parameters.error === 'use_dpop_nonce'
+  )
+}
+
 /**
- * Performs a Refresh Token Grant request at the
- * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
- *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param clientAuthentication Client Authentication Method.
- * @param refreshToken Refresh Token value.
- *
- * @group Refreshing an Access Token
+ * Used to determine if a rejected error indicates the need to retry the request due to an
+ * expired/missing nonce.
  *
- * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-6)
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#RefreshTokens)
- * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-access-token-request)
+ * @group DPoP
  */
-export async function refreshTokenGrantRequest(
-  as: AuthorizationServer,
-  client: Client,
-  clientAuthentication: ClientAuth,
-  refreshToken: string,
-  options?: TokenEndpointRequestOptions,
-): Promise<Response> {
-  assertAs(as)
-  assertClient(client)
+export function isDPoPNonceError(err: unknown): boolean {
+  if (err instanceof WWWAuthenticateChallengeError) {
+    return isDPoPNonceChallenge(err.cause)
+  }
 
-  assertString(refreshToken, '"refreshToken"')
+  if (err instanceof ResponseBodyError) {
+    return err.error === 'use_dpop_nonce'
+  }
 
-  const parameters = new URLSearchParams(options?.additionalParameters)
-  parameters.set('refresh_token', refreshToken)
-  return tokenEndpointRequest(
-    as,
-    client,
-    clientAuthentication,
-    'refresh_token',
-    parameters,
-    options,
-  )
+  return false
 }
 
-const idTokenClaims = new WeakMap<TokenEndpointResponse, IDToken>()
-const jwtRefs = new WeakMap<Response, string>()
-
 /**
- * Returns ID Token claims validated during {@link processRefreshTokenResponse} or
- * {@link processDeviceCodeResponse}. To optionally validate its JWS Signature use
- * {@link validateApplicationLevelSignature}
+ * Storage for server-issued DPoP nonces, keyed by the server's origin. Use this to share nonces
+ * between {@link DPoPHandle} instances, workers, or processes (e.g. using a KV store) so that
+ * requests don't start cold with a `use_dpop_nonce` error. Errors thrown by the store are ignored,
+ * a failed lookup is treated as there being no nonce for the origin.
  *
- * @param ref Value previously resolved from {@link processRefreshTokenResponse} or
- *   {@link processDeviceCodeResponse}.
+ * @example
  *
- * @returns JWT Claims Set from an ID Token, or undefined if there is no ID Token in `ref`.
+ * ```ts
+ * let kv!: {
+ *   get(key: string): Promise<string | null>
+ *   put(key: string, value: string): Promise<void>
+ * }
+ *
+ * let nonceStore: oauth.DPoPNonceStore = {
+ *   async get(origin) {
+ *     return (await kv.get(`dpop-nonce:${origin}`)) ?? undefined
+ *   },
+ *   async set(origin, nonce) {
+ *     await kv.put(`dpop-nonce:${origin}`, nonce)
+ *   },
+ * }
+ * ```
+ *
+ * @group DPoP
  */
-export function getValidatedIdTokenClaims(ref: TokenEndpointResponse): IDToken | undefined {
-  if (!ref.id_token) {
-    return undefined
-  }
+export interface DPoPNonceStore {
+  /**
+   * Returns the last nonce stored for the given origin, if any.
+   */
+  get(origin: string): Promise<string | undefined> | string | undefined
+  /**
+   * Stores the nonce the server at the given origin provided.
+   */
+  set(origin: string, nonce: string): Promise<void> | void
+}
 
-  const claims = idTokenClaims.get(ref)
-  if (!claims) {
-    throw CodedTypeError(
-      '"ref" was already garbage collected or did not resolve from the proper sources',
-      ERR_INVALID_ARG_VALUE,
-    )
-  }
+export interface DPoPOptions extends ModifyAssertionOptions {
+  /**
+   * Storage to use for server-issued nonces. Default is a per-handle in-memory store of the 100
+   * most recently used origins.
+   */
+  nonceStore?: DPoPNonceStore
 
-  return claims
+  /**
+   * When `true` requests made with the {@link DPoPHandle} are transparently retried once when the
+   * server rejects them with a `use_dpop_nonce` error and provides a nonce to use, removing the
+   * need to use {@link isDPoPNonceError} and retry manually. Default is `false`.
+   *
+   * Note: Protected resource requests with a non-replayable body (i.e. a {@link !ReadableStream})
+   * are never retried.
+   *
+   * @example
+   *
+   * ```ts
+   * let client!: oauth.Client
+   * let keyPair!: oauth.CryptoKeyPair
+   *
+   * let DPoP = oauth.DPoP(client, keyPair, { retryOnNonceError: true })
+   * ```
+   */
+  retryOnNonceError?: boolean
 }
 
-export interface ValidateSignatureOptions extends HttpRequestOptions<'GET'>, JWKSCacheOptions {}
-
 /**
- * Validates the JWS Signature of either a JWT {@link !Response.body} or
- * {@link TokenEndpointResponse.id_token} of a processed {@link !Response}
+ * Returns a wrapper / handle around a {@link CryptoKeyPair} that is used for negotiating and proving
+ * proof-of-possession to sender-constrain OAuth 2.0 tokens via DPoP at the Authorization Server and
+ * Resource Server.
  *
- * Note: Validating signatures of JWTs received via direct communication between the Client and a
- * TLS-secured Endpoint (which it is here) is not mandatory since the TLS server validation is used
- * to validate the issuer instead of checking the token signature. You only need to use this method
- * for non-repudiation purposes.
+ * This wrapper / handle also keeps track of server-issued nonces, allowing requests to be retried
+ * with a fresh nonce when the server indicates the need to use one. {@link isDPoPNonceError} can be
+ * used to determine if a rejected error indicates the need to retry the request due to an
+ * expired/missing nonce, alternatively {@link DPoPOptions.retryOnNonceError} can be used to retry
+ * such requests automatically.
  *
- * Note: Supports only digital signatures.
+ * @example
  *
- * @param as Authorization Server Metadata.
- * @param ref Response previously processed by this module that contained an ID Token or its
- *   response body was a JWT
+ * ```ts
+ * let client!: oauth.Client
+ * let keyPair!: oauth.CryptoKeyPair
  *
- * @returns Resolves if the signature validates, rejects otherwise.
+ * let DPoP = oauth.DPoP(client, keyPair)
+ * ```
  *
- * @group FAPI 1.0 Advanced
- * @group FAPI 2.0 Message Signing
- * @group Authorization Code Grant w/ OpenID Connect (OIDC)
- * @group OpenID Connect (OIDC) UserInfo
- * @group Token Introspection
+ * @param keyPair Public/private key pair to sign the DPoP Proof JWT with, the private half may be a
+ *   {@link Signer}
  *
- * @see [draft-ietf-oauth-jwt-introspection-response-12 - JWT Response for OAuth Token Introspection](https://www.ietf.org/archive/id/draft-ietf-oauth-jwt-introspection-response-12.html#section-5)
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#UserInfo)
+ * @group DPoP
+ *
+ * @see {@link !DPoP RFC 9449 - OAuth 2.0 Demonstrating Proof of Possession (DPoP)}
  */
-export async function validateApplicationLevelSignature(
-  as: AuthorizationServer,
-  ref: Response,
-  options?: ValidateSignatureOptions,
-): Promise<void> {
-  assertAs(as)
-
-  if (!jwtRefs.has(ref)) {
-    throw CodedTypeError(
-      '"ref" does not contain a processed JWT Response to verify the signature of',
-      ERR_INVALID_ARG_VALUE,
-    )
-  }
-
-  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = jwtRefs.get(ref)!.split('.')
-
-  const header: CompactJWSHeaderParameters = JSON.parse(buf(b64u(protectedHeader)))
+export function DPoP(
+  client: Client,
+  keyPair: CryptoKeyPair | SignerKeyPair,
+  options?: DPoPOptions,
+): DPoPHandle {
+  return new DPoPHandler(client, keyPair, options)
+}
 
-  if (header.alg.startsWith('HS')) {
-    throw new UnsupportedOperationError('unsupported JWS algorithm', { cause: { alg: header.alg } })
-  }
+export interface DPoPKeyPairStorageOptions {
+  /**
+   * IndexedDB database name. Default is `oauth4webapi`.
+   */
+  database?: string
+  /**
+   * IndexedDB object store name, it is created when missing. Default is `keys`.
+   */
+  objectStore?: string
+  /**
+   * Key under which the key pair is stored, use different values to keep separate key pairs e.g.
+   * per authorization server or user. Default is `dpop`.
+   */
+  key?: string
+}
 
-  let key!: CryptoKey
-  key = await getPublicSigKeyFromIssuerJwksUri(as, options, header)
-  await validateJwsSignature(protectedHeader, payload, key, b64u(encodedSignature))
+function dpopKeyPairStorage(options?: DPoPKeyPairStorageOptions) {
+  const database = options?.database ?? 'oauth4webapi'
+  const objectStore = options?.objectStore ?? 'keys'
+  const key = options?.key ?? 'dpop'
+  assertString(database, '"options.database"')
+  assertString(objectStore, '"options.objectStore"')
+  assertString(key, '"options.key"')
+  return { database, objectStore, key }
 }
 
-async function processGenericAccessTokenResponse(
-  as: AuthorizationServer,
-  client: Client,
-  response: Response,
-  additionalRequiredIdTokenClaims: (keyof typeof jwtClaimNames)[] | undefined,
-  options: JWEDecryptOptions | undefined,
-): Promise<TokenEndpointResponse> {
-  assertAs(as)
-  assertClient(client)
+/**
+ * Stores a DPoP key pair in IndexedDB. {@link !CryptoKey} instances are stored using structured
+ * cloning, their key material is never exposed to the application, the private key must therefore
+ * be non-extractable.
+ *
+ * @param keyPair Key pair with a non-extractable private key, e.g. from {@link generateKeyPair}.
+ *
+ * @group DPoP
+ */
+export async function storeDPoPKeyPair(
+  keyPair: CryptoKeyPair,
+  options?: DPoPKeyPairStorageOptions,
+): Promise<void> {
+  assertPrivateKey(keyPair?.privateKey, '"keyPair.privateKey"')
+  assertCryptoKey(keyPair.publicKey, '"keyPair.publicKey"')
 
-  if (!looseInstanceOf(response, Response)) {
-    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
+  if (keyPair.privateKey.extractable) {
+    throw CodedTypeError('"keyPair.privateKey" must be non-extractable', ERR_INVALID_ARG_VALUE)
   }
 
-  let challenges: WWWAuthenticateChallenge[] | undefined
-  if ((challenges = parseWwwAuthenticateChallenges(response))) {
-    throw new WWWAuthenticateChallengeError(
-      'server responded with a challenge in the WWW-Authenticate HTTP Header',
-      { cause: challenges, response },
-    )
+  if (!keyPair.publicKey.extractable) {
+    throw CodedTypeError('"keyPair.publicKey.extractable" must be true', ERR_INVALID_ARG_VALUE)
   }
 
-  if (response.status !== 200) {
-    let err: OAuth2Error | undefined
-    if ((err = await handleOAuthBodyError(response))) {
-      await response.body?.cancel()
-      throw new ResponseBodyError('server responded with an error in the response body', {
-        cause: err,
-        response,
-      })
-    }
-    throw OPE(
-      '"response" is not a conform Token Endpoint response (unexpected HTTP status code)',
-      RESPONSE_IS_NOT_CONFORM,
-      response,
-    )
-  }
+  const { database, objectStore, key } = dpopKeyPairStorage(options)
+  await idbTransaction(database, objectStore, 'readwrite', (store) =>
+    store.put({ privateKey: keyPair.privateKey, publicKey: keyPair.publicKey }, key),
+  )
+}
 
-  assertReadableResponse(response)
-  assertApplicationJson(response)
-  let json: JsonValue
-  try {
-    json = await response.json()
-  } catch (cause) {
-    throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
-  }
+/**
+ * Loads a DPoP key pair previously stored with {@link storeDPoPKeyPair} or {@link rotateDPoPKeyPair},
+ * resolves with `undefined` when there is none.
+ *
+ * @example
+ *
+ * ```ts
+ * let client!: oauth.Client
+ *
+ * const keyPair = (await oauth.loadDPoPKeyPair()) ?? (await oauth.rotateDPoPKeyPair('ES256'))
+ * const DPoP = oauth.DPoP(client, keyPair)
+ * ```
+ *
+ * @group DPoP
+ */
+export async function loadDPoPKeyPair(
+  options?: DPoPKeyPairStorageOptions,
+): Promise<CryptoKeyPair | undefined> {
+  const { database, objectStore, key } = dpopKeyPairStorage(options)
+  const stored = await idbTransaction<CryptoKeyPair | undefined>(
+    database,
+    objectStore,
+    'readonly',
+    (store) => store.get(key),
+  )
 
-  if (!isJsonObject<Writeable<TokenEndpointResponse>>(json)) {
-    throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
+  if (stored === undefined) {
+    return undefined
   }
 
-  assertString(json.access_token, '"response" body "access_token" property', INVALID_RESPONSE, {
-    body: json,
-  })
+  const { privateKey, publicKey } = stored
+  return { privateKey, publicKey }
+}
 
-  assertString(json.token_type, '"response" body "token_type" property', INVALID_RESPONSE, {
-    body: json,
+/**
+ * Generates a new DPoP key pair with a non-extractable private key and stores it in place of the
+ * previously stored one. Tokens bound to the previous key pair can no longer be used.
+ *
+ * @param alg Supported JWS `alg` Algorithm identifier. Must be a
+ *   {@link JWSAlgorithm supported JWS Algorithm}.
+ *
+ * @group DPoP
+ */
+export async function rotateDPoPKeyPair(
+  alg: string,
+  options?: DPoPKeyPairStorageOptions & Pick<GenerateKeyPairOptions, 'modulusLength'>,
+): Promise<CryptoKeyPair> {
+  const keyPair = await generateKeyPair(alg, {
+    extractable: false,
+    modulusLength: options?.modulusLength,
   })
+  await storeDPoPKeyPair(keyPair, options)
+  return keyPair
+}
 
-  json.token_type = json.token_type.toLowerCase() as Lowercase<string>
-
-  if (json.token_type !== 'dpop' && json.token_type !== 'bearer') {
-    throw new UnsupportedOperationError('unsupported `token_type` value', { cause: { body: json } })
-  }
-
-  if (json.expires_in !== undefined) {
-    let expiresIn: unknown =
-      typeof json.expires_in !== 'number' ? parseFloat(json.expires_in) : json.expires_in
-    assertNumber(expiresIn, false, '"response" body "expires_in" property', INVALID_RESPONSE, {
-      body: json,
-    })
-    json.expires_in = expiresIn
-  }
-
-  if (json.refresh_token !== undefined) {
-    assertString(json.refresh_token, '"response" body "refresh_token" property', INVALID_RESPONSE, {
-      body: json,
-    })
-  }
-
-  // allows empty
-  if (json.scope !== undefined && typeof json.scope !== 'string') {
-    throw OPE('"response" body "scope" property must be a string', INVALID_RESPONSE, { body: json })
-  }
-
-  if (json.id_token !== undefined) {
-    assertString(json.id_token, '"response" body "id_token" property', INVALID_RESPONSE, {
-      body: json,
-    })
+/**
+ * Deletes a stored DPoP key pair, e.g. on logout together with the tokens bound to it.
+ *
+ * @example
+ *
+ * ```ts
+ * let store!: oauth.TokenStoreHandle
+ *
+ * await store.delete('session')
+ * await oauth.deleteDPoPKeyPair()
+ * ```
+ *
+ * @group DPoP
+ */
+export async function deleteDPoPKeyPair(options?: DPoPKeyPairStorageOptions): Promise<void> {
+  const { database, objectStore, key } = dpopKeyPairStorage(options)
+  await idbTransaction(database, objectStore, 'readwrite', (store) => store.delete(key))
+}
 
-    const requiredClaims: (keyof typeof jwtClaimNames)[] = ['aud', 'exp', 'iat', 'iss', 'sub']
+export interface PushedAuthorizationResponse {
+  readonly request_uri: string
+  readonly expires_in: number
 
-    if (client.require_auth_time === true) {
-      requiredClaims.push('auth_time')
-    }
+  readonly [parameter: string]: JsonValue | undefined
+}
 
-    if (client.default_max_age !== undefined) {
-      assertNumber(client.default_max_age, false, '"client.default_max_age"')
-      requiredClaims.push('auth_time')
-    }
+export interface OAuth2Error {
+  readonly error: string
+  readonly error_description?: string
+  readonly error_uri?: string
+  readonly algs?: string
+  readonly scope?: string
 
-    if (additionalRequiredIdTokenClaims?.length) {
-      requiredClaims.push(...additionalRequiredIdTokenClaims)
-    }
-
-    const { claims, jwt } = await validateJwt(
-      json.id_token,
-      checkSigningAlgorithm.bind(
-        undefined,
-        client.id_token_signed_response_alg,
-        as.id_token_signing_alg_values_supported,
-        'RS256',
-      ),
-      getClockSkew(client),
-      getClockTolerance(client),
-      options?.[jweDecrypt],
-    )
-      .then(validatePresence.bind(undefined, requiredClaims))
-      .then(validateIssuer.bind(undefined, as))
-      .then(validateAudience.bind(undefined, client.client_id))
-
-    if (Array.isArray(claims.aud) && claims.aud.length !== 1) {
-      if (claims.azp === undefined) {
-        throw OPE(
-          'ID Token "aud" (audience) claim includes additional untrusted audiences',
-          JWT_CLAIM_COMPARISON,
-          { claims, claim: 'aud' },
-        )
-      }
-      if (claims.azp !== client.client_id) {
-        throw OPE(
-          'unexpected ID Token "azp" (authorized party) claim value',
-          JWT_CLAIM_COMPARISON,
-          { expected: client.client_id, claims, claim: 'azp' },
-        )
-      }
-    }
-
-    if (claims.auth_time !== undefined) {
-      assertNumber(
-        claims.auth_time,
-        false,
-        'ID Token "auth_time" (authentication time)',
-        INVALID_RESPONSE,
-        { claims },
-      )
-    }
-
-    jwtRefs.set(response, jwt)
-    idTokenClaims.set(json, claims as IDToken)
-  }
-
-  return json
-}
+  readonly [parameter: string]: JsonValue | undefined
+}
 
 /**
- * Validates Refresh Token Grant {@link !Response} instance to be one coming from the
- * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ * Throw when a server responds with an "OAuth-style" error JSON body
  *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param response Resolved value from {@link refreshTokenGrantRequest}.
+ * @example
  *
- * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
- *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
- *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
+ * ```http
+ * HTTP/1.1 400 Bad Request
+ * Content-Type: application/json;charset=UTF-8
+ * Cache-Control: no-store
+ * Pragma: no-cache
  *
- * @group Refreshing an Access Token
+ * {
+ *   "error": "invalid_request"
+ * }
+ * ```
  *
- * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-6)
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#RefreshTokens)
+ * @group Errors
  */
-export async function processRefreshTokenResponse(
-  as: AuthorizationServer,
-  client: Client,
-  response: Response,
-  options?: JWEDecryptOptions,
-): Promise<TokenEndpointResponse> {
-  return processGenericAccessTokenResponse(as, client, response, undefined, options)
-}
+export class ResponseBodyError extends Error {
+  /**
+   * The parsed JSON response body
+   */
+  override cause: Record<string, JsonValue | undefined>
 
-function validateOptionalAudience(
-  expected: string,
-  result: Awaited<ReturnType<typeof validateJwt>>,
-) {
-  if (result.claims.aud !== undefined) {
-    return validateAudience(expected, result)
-  }
-  return result
-}
+  code: typeof RESPONSE_BODY_ERROR
 
-function validateAudience(expected: string, result: Awaited<ReturnType<typeof validateJwt>>) {
-  if (Array.isArray(result.claims.aud)) {
-    if (!result.claims.aud.includes(expected)) {
-      throw OPE('unexpected JWT "aud" (audience) claim value', JWT_CLAIM_COMPARISON, {
-        expected,
-        claims: result.claims,
-        claim: 'aud',
-      })
-    }
-  } else if (result.claims.aud !== expected) {
-    throw OPE('unexpected JWT "aud" (audience) claim value', JWT_CLAIM_COMPARISON, {
-      expected,
-      claims: result.claims,
-      claim: 'aud',
-    })
-  }
+  /**
+   * Error code given in the JSON response
+   */
+  error: string
 
-  return result
-}
+  /**
+   * HTTP Status Code of the response
+   */
+  status: number
 
-function validateOptionalIssuer(
-  as: AuthorizationServer,
-  result: Awaited<ReturnType<typeof validateJwt>>,
-) {
-  if (result.claims.iss !== undefined) {
-    return validateIssuer(as, result)
-  }
-  return result
-}
+  /**
+   * Human-readable text providing additional information, used to assist the developer in
+   * understanding the error that occurred, given in the JSON response
+   */
+  error_description?: string
 
-function validateIssuer(as: AuthorizationServer, result: Awaited<ReturnType<typeof validateJwt>>) {
-  // @ts-ignore
-  const expected = as[_expectedIssuer]?.(result) ?? as.issuer
-  if (result.claims.iss !== expected) {
-    throw OPE('unexpected JWT "iss" (issuer) claim value', JWT_CLAIM_COMPARISON, {
-      expected,
-      claims: result.claims,
-      claim: 'iss',
-    })
-  }
-  return result
-}
+  /**
+   * The "OAuth-style" error {@link !Response}, its {@link !Response.bodyUsed} is `false` and the JSON
+   * body is available in {@link ResponseBodyError.cause}
+   */
+  response!: Response
 
-const branded = new WeakSet<URLSearchParams | DPoPHandle>()
-function brand(searchParams: URLSearchParams) {
-  branded.add(searchParams)
-  return searchParams
+  /**
+   * @ignore
+   */
+  constructor(
+    message: string,
+    options: {
+      cause: OAuth2Error
+      response: Response
+    },
+  ) {
+    super(message, options)
+    this.name = this.constructor.name
+    this.code = RESPONSE_BODY_ERROR
+    this.cause = options.cause
+    this.error = options.cause.error
+    this.status = options.response.status
+    this.error_description = options.cause.error_description
+    Object.defineProperty(this, 'response', { enumerable: false, value: options.response })
+
+    // @ts-ignore
+    Error.captureStackTrace?.(this, this.constructor)
+  }
 }
 
 /**
- * Performs an Authorization Code grant request at the
- * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ * Thrown when OAuth 2.0 Authorization Error Response is encountered.
  *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param clientAuthentication Client Authentication Method.
- * @param callbackParameters Parameters obtained from the callback to redirect_uri, this is returned
- *   from {@link validateAuthResponse}, or {@link validateJwtAuthResponse}.
- * @param redirectUri `redirect_uri` value used in the authorization request.
- * @param codeVerifier PKCE `code_verifier` to send to the token endpoint.
+ * @example
  *
- * @group Authorization Code Grant
- * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ * ```http
+ * HTTP/1.1 302 Found
+ * Location: https://client.example.com/cb?error=access_denied&state=xyz
+ * ```
  *
- * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.1)
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#CodeFlowAuth)
- * @see [RFC 7636 - Proof Key for Code Exchange (PKCE)](https://www.rfc-editor.org/rfc/rfc7636.html#section-4)
- * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-access-token-request)
+ * @group Errors
  */
-export async function authorizationCodeGrantRequest(
-  as: AuthorizationServer,
-  client: Client,
-  clientAuthentication: ClientAuth,
-  callbackParameters: URLSearchParams,
-  redirectUri: string,
-  codeVerifier: string,
-  options?: TokenEndpointRequestOptions,
-): Promise<Response> {
-  assertAs(as)
-  assertClient(client)
+export class AuthorizationResponseError extends Error {
+  /**
+   * Authorization Response parameters as {@link !URLSearchParams}
+   */
+  override cause: URLSearchParams
 
-  if (!branded.has(callbackParameters)) {
-    throw CodedTypeError(
-      '"callbackParameters" must be an instance of URLSearchParams obtained from "validateAuthResponse()", or "validateJwtAuthResponse()',
-      ERR_INVALID_ARG_VALUE,
-    )
-  }
+  code: typeof AUTHORIZATION_RESPONSE_ERROR
 
-  assertString(redirectUri, '"redirectUri"')
+  /**
+   * Error code given in the Authorization Response
+   */
+  error: string
 
-  const code = getURLSearchParameter(callbackParameters, 'code')
-  if (!code) {
-    throw OPE('no authorization code in "callbackParameters"', INVALID_RESPONSE)
-  }
+  /**
+   * Human-readable text providing additional information, used to assist the developer in
+   * understanding the error that occurred, given in the Authorization Response
+   */
+  error_description?: string
 
-  const parameters = new URLSearchParams(options?.additionalParameters)
-  parameters.set('redirect_uri', redirectUri)
-  parameters.set('code', code)
+  /**
+   * @ignore
+   */
+  constructor(
+    message: string,
+    options: {
+      cause: URLSearchParams
+    },
+  ) {
+    super(message, options)
+    this.name = this.constructor.name
+    this.code = AUTHORIZATION_RESPONSE_ERROR
+    this.cause = options.cause
+    this.error = options.cause.get('error')!
+    this.error_description = options.cause.get('error_description') ?? undefined
 
-  // @ts-expect-error
-  if (codeVerifier !== _nopkce) {
-    assertString(codeVerifier, '"codeVerifier"')
-    parameters.set('code_verifier', codeVerifier)
+    // @ts-ignore
+    Error.captureStackTrace?.(this, this.constructor)
   }
-
-  return tokenEndpointRequest(
-    as,
-    client,
-    clientAuthentication,
-    'authorization_code',
-    parameters,
-    options,
-  )
-}
-
-interface JWTPayload {
-  readonly iss?: string
-  readonly sub?: string
-  readonly aud?: string | string[]
-  readonly jti?: string
-  readonly nbf?: number
-  readonly exp?: number
-  readonly iat?: number
-  readonly cnf?: ConfirmationClaims
-
-  readonly [claim: string]: JsonValue | undefined
 }
 
-export interface IDToken extends JWTPayload {
-  readonly iss: string
-  readonly sub: string
-  readonly aud: string | string[]
-  readonly iat: number
-  readonly exp: number
-  readonly nonce?: string
-  readonly auth_time?: number
-  readonly azp?: string
+/**
+ * Thrown when a server responds with WWW-Authenticate challenges, typically because of expired
+ * tokens, or bad client authentication
+ *
+ * @example
+ *
+ * ```http
+ * HTTP/1.1 401 Unauthorized
+ * WWW-Authenticate: Bearer error="invalid_token",
+ *                          error_description="The access token expired"
+ * ```
+ *
+ * @group Errors
+ */
+export class WWWAuthenticateChallengeError extends Error {
+  /**
+   * The parsed WWW-Authenticate HTTP Header challenges
+   */
+  override cause: WWWAuthenticateChallenge[]
 
-  readonly [claim: string]: JsonValue | undefined
-}
+  code: typeof WWW_AUTHENTICATE_CHALLENGE
 
-interface CompactJWSHeaderParameters {
-  alg: string
-  kid?: string
-  typ?: string
-  crit?: string[]
-  jwk?: JWK
+  /**
+   * The {@link !Response} that included a WWW-Authenticate HTTP Header challenges, its
+   * {@link !Response.bodyUsed} is `true`
+   */
+  response: Response
 
-  [parameter: string]: JsonValue | undefined
-}
+  /**
+   * HTTP Status Code of the response
+   */
+  status: number
 
-interface ParsedJWT {
-  header: CompactJWSHeaderParameters
-  claims: JWTPayload
-  jwt: string
-}
+  /**
+   * The `resource_metadata` parameter of the first challenge that includes one, it is the URL of
+   * the protected resource metadata that can be used with {@link resourceDiscoveryRequest} to
+   * discover the authorization servers protecting the resource.
+   */
+  resource_metadata?: string
 
-const jwtClaimNames = {
-  aud: 'audience',
-  c_hash: 'code hash',
-  client_id: 'client id',
-  exp: 'expiration time',
-  iat: 'issued at',
-  iss: 'issuer',
-  jti: 'jwt id',
-  nonce: 'nonce',
-  s_hash: 'state hash',
-  sub: 'subject',
-  ath: 'access token hash',
-  htm: 'http method',
-  htu: 'http uri',
-  cnf: 'confirmation',
-  auth_time: 'authentication time',
-}
+  /**
+   * @ignore
+   */
+  constructor(message: string, options: { cause: WWWAuthenticateChallenge[]; response: Response }) {
+    super(message, options)
+    this.name = this.constructor.name
+    this.code = WWW_AUTHENTICATE_CHALLENGE
+    this.cause = options.cause
+    this.status = options.response.status
+    this.resource_metadata = options.cause.find(
+      (challenge) => challenge.parameters.resource_metadata !== undefined,
+    )?.parameters.resource_metadata
+    this.response = options.response
+    Object.defineProperty(this, 'response', { enumerable: false })
 
-function validatePresence(
-  required: (keyof typeof jwtClaimNames)[],
-  result: Awaited<ReturnType<typeof validateJwt>>,
-) {
-  for (const claim of required) {
-    if (result.claims[claim] === undefined) {
-      throw OPE(`JWT "${claim}" (${jwtClaimNames[claim]}) claim missing`, INVALID_RESPONSE, {
-        claims: result.claims,
-      })
-    }
+    // @ts-ignore
+    Error.captureStackTrace?.(this, this.constructor)
   }
-  return result
-}
-
-export interface AuthorizationDetails {
-  readonly type: string
-  readonly locations?: string[]
-  readonly actions?: string[]
-  readonly datatypes?: string[]
-  readonly privileges?: string[]
-  readonly identifier?: string
-
-  readonly [parameter: string]: JsonValue | undefined
 }
 
-type Writeable<T> = { -readonly [P in keyof T]: T[P] }
-
-export interface TokenEndpointResponse {
-  readonly access_token: string
-  readonly expires_in?: number
-  readonly id_token?: string
-  readonly refresh_token?: string
+export interface WWWAuthenticateChallengeParameters {
+  readonly realm?: string
+  readonly error?: string
+  readonly error_description?: string
+  readonly error_uri?: string
+  readonly algs?: string
   readonly scope?: string
-  readonly authorization_details?: AuthorizationDetails[]
   /**
-   * NOTE: because the value is case insensitive it is always returned lowercased
+   * URL of the protected resource metadata, see {@link resourceDiscoveryRequest}.
    */
-  readonly token_type: 'bearer' | 'dpop' | Lowercase<string>
-
-  readonly [parameter: string]: JsonValue | undefined
-}
-
-/**
- * Use this as a value to {@link processAuthorizationCodeResponse} `oidc.expectedNonce` parameter to
- * indicate no `nonce` ID Token claim value is expected, i.e. no `nonce` parameter value was sent
- * with the authorization request.
- */
-export const expectNoNonce: unique symbol = Symbol()
-
-/**
- * Use this as a value to {@link processAuthorizationCodeResponse} `oidc.maxAge` parameter to
- * indicate no `auth_time` ID Token claim value check should be performed.
- */
-export const skipAuthTimeCheck: unique symbol = Symbol()
-
-export interface ProcessAuthorizationCodeResponseOptions extends JWEDecryptOptions {
+  readonly resource_metadata?: string
   /**
-   * Expected ID Token `nonce` claim value. Default is {@link expectNoNonce}.
+   * Space-delimited Authentication Context Class Reference values the protected resource requires,
+   * see {@link stepUpAuthorizationParameters}.
    */
-  expectedNonce?: string | typeof expectNoNonce
+  readonly acr_values?: string
   /**
-   * ID Token {@link IDToken.auth_time `auth_time`} claim value will be checked to be present and
-   * conform to the `maxAge` value. Use of this option is required if you sent a `max_age` parameter
-   * in an authorization request. Default is {@link Client.default_max_age `client.default_max_age`}
-   * and falls back to {@link skipAuthTimeCheck}.
+   * Maximum allowable elapsed time in seconds since the last active End-User authentication the
+   * protected resource accepts, see {@link stepUpAuthorizationParameters}.
    */
-  maxAge?: number | typeof skipAuthTimeCheck
+  readonly max_age?: string
+
   /**
-   * When true this requires {@link TokenEndpointResponse.id_token} to be present
+   * NOTE: because the parameter names are case insensitive they are always returned lowercased
    */
-  requireIdToken?: boolean
+  readonly [parameter: Lowercase<string>]: string | undefined
 }
 
 /**
- * Validates Authorization Code Grant {@link !Response} instance to be one coming from the
- * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ * Used to turn a protected resource's `insufficient_user_authentication` challenge into the
+ * parameters of a new authorization request that satisfies it.
  *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param response Resolved value from {@link authorizationCodeGrantRequest}.
+ * @example
  *
- * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
- *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
- *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let parameters!: URLSearchParams
  *
- * @group Authorization Code Grant
- * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ * let accessToken!: string
+ *
+ * try {
+ *   await oauth.protectedResourceRequest(
+ *     accessToken,
+ *     'GET',
+ *     new URL('https://rs.example.com/api'),
+ *   )
+ * } catch (err) {
+ *   const stepUp = oauth.stepUpAuthorizationParameters(err, parameters)
+ *   if (stepUp) {
+ *     const authorizationUrl = new URL(as.authorization_endpoint!)
+ *     authorizationUrl.search = stepUp.toString()
+ *     // redirect the End-User to authorizationUrl
+ *   }
+ *   throw err
+ * }
+ * ```
  *
- * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.1)
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#CodeFlowAuth)
+ * @param err Rejection from {@link protectedResourceRequest} or {@link processUserInfoResponse}.
+ * @param parameters Authorization request parameters to start from, e.g. those of the original
+ *   authorization request.
+ *
+ * @returns `undefined` when the error is not an `insufficient_user_authentication` challenge,
+ *   otherwise the parameters with the challenge's `acr_values` and `max_age` applied.
+ *
+ * @group Accessing Protected Resources
+ *
+ * @see [RFC 9470 - OAuth 2.0 Step Up Authentication Challenge Protocol](https://www.rfc-editor.org/rfc/rfc9470.html#name-authorization-request)
  */
-export async function processAuthorizationCodeResponse(
-  as: AuthorizationServer,
-  client: Client,
-  response: Response,
-  options?: ProcessAuthorizationCodeResponseOptions,
-): Promise<TokenEndpointResponse> {
-  if (
-    typeof options?.expectedNonce === 'string' ||
-    typeof options?.maxAge === 'number' ||
-    options?.requireIdToken
-  ) {
-    return processAuthorizationCodeOpenIDResponse(
-      as,
-      client,
-      response,
-      options.expectedNonce,
-      options.maxAge,
-      {
-        [jweDecrypt]: options[jweDecrypt],
-      },
-    )
+export function stepUpAuthorizationParameters(
+  err: unknown,
+  parameters?: URLSearchParams | Record<string, string> | string[][],
+): URLSearchParams | undefined {
+  if (!(err instanceof WWWAuthenticateChallengeError)) {
+    return undefined
   }
 
-  return processAuthorizationCodeOAuth2Response(as, client, response, options)
-}
-
-async function processAuthorizationCodeOpenIDResponse(
-  as: AuthorizationServer,
-  client: Client,
-  response: Response,
-  expectedNonce: string | typeof expectNoNonce | undefined,
-  maxAge: number | typeof skipAuthTimeCheck | undefined,
-  options: JWEDecryptOptions | undefined,
-): Promise<TokenEndpointResponse> {
-  const additionalRequiredClaims: (keyof typeof jwtClaimNames)[] = []
-
-  switch (expectedNonce) {
-    case undefined:
-      expectedNonce = expectNoNonce
-      break
-    case expectNoNonce:
-      break
-    default:
-      assertString(expectedNonce, '"expectedNonce" argument')
-      additionalRequiredClaims.push('nonce')
+  const challenge = err.cause.find(
+    (challenge) => challenge.parameters.error === 'insufficient_user_authentication',
+  )
+  if (!challenge) {
+    return undefined
   }
 
-  maxAge ??= client.default_max_age
-  switch (maxAge) {
-    case undefined:
-      maxAge = skipAuthTimeCheck
-      break
-    case skipAuthTimeCheck:
-      break
-    default:
-      assertNumber(maxAge, false, '"maxAge" argument')
-      additionalRequiredClaims.push('auth_time')
+  const result = new URLSearchParams(parameters)
+  const { acr_values, max_age } = challenge.parameters
+  if (acr_values) {
+    result.set('acr_values', acr_values)
+  }
+  if (max_age !== undefined && /^\d+$/.test(max_age)) {
+    result.set('max_age', max_age)
   }
 
-  const result = await processGenericAccessTokenResponse(
-    as,
-    client,
-    response,
-    additionalRequiredClaims,
-    options,
-  )
+  return result
+}
 
-  assertString(result.id_token, '"response" body "id_token" property', INVALID_RESPONSE, {
-    body: result,
-  })
+export interface WWWAuthenticateChallenge {
+  /**
+   * NOTE: because the value is case insensitive it is always returned lowercased
+   */
+  readonly scheme: Lowercase<string>
+  readonly parameters: WWWAuthenticateChallengeParameters
+}
 
-  const claims = getValidatedIdTokenClaims(result)!
-  if (maxAge !== skipAuthTimeCheck) {
-    const now = epochTime() + getClockSkew(client)
-    const tolerance = getClockTolerance(client)
-    if (claims.auth_time! + maxAge < now - tolerance) {
-      throw OPE(
-        'too much time has elapsed since the last End-User authentication',
-        JWT_TIMESTAMP_CHECK,
-        { claims, now, tolerance, claim: 'auth_time' },
-      )
-    }
+function unquote(value: string) {
+  if (value.length >= 2 && value[0] === '"' && value[value.length - 1] === '"') {
+    return value.slice(1, -1)
   }
 
-  if (expectedNonce === expectNoNonce) {
-    if (claims.nonce !== undefined) {
-      throw OPE('unexpected ID Token "nonce" claim value', JWT_CLAIM_COMPARISON, {
-        expected: undefined,
-        claims,
-        claim: 'nonce',
-      })
+  return value
+}
+
+const SPLIT_REGEXP = /((?:,|, )?[0-9a-zA-Z!#$%&'*+-.^_`|~]+=)/
+const SCHEMES_REGEXP = /(?:^|, ?)([0-9a-zA-Z!#$%&'*+\-.^_`|~]+)(?=$|[ ,])/g
+
+function wwwAuth(scheme: string, params: string): WWWAuthenticateChallenge {
+  const arr = params.split(SPLIT_REGEXP).slice(1)
+  if (!arr.length) {
+    return { scheme: scheme.toLowerCase() as Lowercase<string>, parameters: {} }
+  }
+  arr[arr.length - 1] = arr[arr.length - 1].replace(/,$/, '')
+  const parameters: WWWAuthenticateChallenge['parameters'] = {}
+  for (let i = 1; i < arr.length; i += 2) {
+    const idx = i
+    if (arr[idx][0] === '"') {
+      while (arr[idx].slice(-1) !== '"' && ++i < arr.length) {
+        arr[idx] += arr[i]
+      }
     }
-  } else if (claims.nonce !== expectedNonce) {
-    throw OPE('unexpected ID Token "nonce" claim value', JWT_CLAIM_COMPARISON, {
-      expected: expectedNonce,
-      claims,
-      claim: 'nonce',
-    })
+    const key = arr[idx - 1].replace(/^(?:, ?)|=$/g, '').toLowerCase() as Lowercase<string>
+    // @ts-expect-error
+    parameters[key] = unquote(arr[idx])
   }
 
-  return result
+  return {
+    scheme: scheme.toLowerCase() as Lowercase<string>,
+    parameters,
+  }
 }
 
-async function processAuthorizationCodeOAuth2Response(
-  as: AuthorizationServer,
-  client: Client,
+function parseWwwAuthenticateChallenges(
   response: Response,
-  options?: JWEDecryptOptions,
-): Promise<TokenEndpointResponse> {
-  const result = await processGenericAccessTokenResponse(as, client, response, undefined, options)
+): WWWAuthenticateChallenge[] | undefined {
+  if (!looseInstanceOf(response, Response)) {
+    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
+  }
 
-  const claims = getValidatedIdTokenClaims(result)
-  if (claims) {
-    if (client.default_max_age !== undefined) {
-      assertNumber(client.default_max_age, false, '"client.default_max_age"')
-      const now = epochTime() + getClockSkew(client)
-      const tolerance = getClockTolerance(client)
-      if (claims.auth_time! + client.default_max_age < now - tolerance) {
-        throw OPE(
-          'too much time has elapsed since the last End-User authentication',
-          JWT_TIMESTAMP_CHECK,
-          { claims, now, tolerance, claim: 'auth_time' },
-        )
-      }
-    }
+  const header = response.headers.get('www-authenticate')
+  if (header === null) {
+    return undefined
+  }
 
-    if (claims.nonce !== undefined) {
-      throw OPE('unexpected ID Token "nonce" claim value', JWT_CLAIM_COMPARISON, {
-        expected: undefined,
-        claims,
-        claim: 'nonce',
-      })
-    }
+  const result: [string, number][] = []
+  for (const { 1: scheme, index } of header.matchAll(SCHEMES_REGEXP)) {
+    result.push([scheme, index!])
   }
 
-  return result
+  if (!result.length) {
+    return undefined
+  }
+
+  const challenges = result.map(([scheme, indexOf], i, others) => {
+    const next = others[i + 1]
+    let parameters: string
+    if (next) {
+      parameters = header.slice(indexOf, next[1])
+    } else {
+      parameters = header.slice(indexOf)
+    }
+    return wwwAuth(scheme, parameters)
+  })
+
+  return challenges
 }
 
 /**
- * @group Error Codes
+ * Validates {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.pushed_authorization_request_endpoint `as.pushed_authorization_request_endpoint`}.
  *
- * @see {@link WWWAuthenticateChallengeError}
- */
-export const WWW_AUTHENTICATE_CHALLENGE = 'OAUTH_WWW_AUTHENTICATE_CHALLENGE'
-/**
- * @group Error Codes
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param response Resolved value from {@link pushedAuthorizationRequest}.
  *
- * @see {@link ResponseBodyError}
- */
-export const RESPONSE_BODY_ERROR = 'OAUTH_RESPONSE_BODY_ERROR'
-/**
- * @group Error Codes
+ * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
+ *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
+ *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
  *
- * @see {@link UnsupportedOperationError}
- */
-export const UNSUPPORTED_OPERATION = 'OAUTH_UNSUPPORTED_OPERATION'
-/**
- * @group Error Codes
+ * @group Pushed Authorization Requests (PAR)
  *
- * @see {@link AuthorizationResponseError}
+ * @see [RFC 9126 - OAuth 2.0 Pushed Authorization Requests (PAR)](https://www.rfc-editor.org/rfc/rfc9126.html#name-pushed-authorization-reques)
  */
-export const AUTHORIZATION_RESPONSE_ERROR = 'OAUTH_AUTHORIZATION_RESPONSE_ERROR'
+export async function processPushedAuthorizationResponse(
+  as: AuthorizationServer,
+  client: Client,
+  response: Response,
+): Promise<PushedAuthorizationResponse> {
+  assertAs(as)
+  assertClient(client)
+
+  if (!looseInstanceOf(response, Response)) {
+    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
+  }
+
+  let challenges: WWWAuthenticateChallenge[] | undefined
+  if ((challenges = parseWwwAuthenticateChallenges(response))) {
+    throw new WWWAuthenticateChallengeError(
+      'server responded with a challenge in the WWW-Authenticate HTTP Header',
+      { cause: challenges, response },
+    )
+  }
+
+  if (response.status !== 201) {
+    let err: OAuth2Error | undefined
+    if ((err = await handleOAuthBodyError(response))) {
+      await response.body?.cancel()
+      throw new ResponseBodyError('server responded with an error in the response body', {
+        cause: err,
+        response,
+      })
+    }
+    throw OPE(
+      '"response" is not a conform Pushed Authorization Request Endpoint response (unexpected HTTP status code)',
+      RESPONSE_IS_NOT_CONFORM,
+      response,
+    )
+  }
+
+  assertReadableResponse(response)
+  assertApplicationJson(response)
+  let json: JsonValue
+  try {
+    json = await response.json()
+  } catch (cause) {
+    throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
+  }
+
+  if (!isJsonObject<Writeable<PushedAuthorizationResponse>>(json)) {
+    throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
+  }
+
+  assertString(json.request_uri, '"response" body "request_uri" property', INVALID_RESPONSE, {
+    body: json,
+  })
+
+  let expiresIn: unknown =
+    typeof json.expires_in !== 'number' ? parseFloat(json.expires_in) : json.expires_in
+  assertNumber(expiresIn, false, '"response" body "expires_in" property', INVALID_RESPONSE, {
+    body: json,
+  })
+  json.expires_in = expiresIn
+
+  return json
+}
+
+export interface BuildAuthorizationUrlOptions extends PushedAuthorizationRequestOptions {
+  /**
+   * Client Authentication Method used for the Pushed Authorization Request. It is required when
+   * either
+   * {@link AuthorizationServer.require_pushed_authorization_requests `as.require_pushed_authorization_requests`}
+   * or `client.require_pushed_authorization_requests` is `true`.
+   */
+  clientAuthentication?: ClientAuth
+  /**
+   * When true the `scope` parameter values are checked against
+   * {@link AuthorizationServer.scopes_supported `as.scopes_supported`}. Default is `false` because
+   * authorization servers may choose not to advertise some of the scope values they support.
+   */
+  checkScopesSupported?: boolean
+}
+
+function checkSupportedValues(
+  parameters: URLSearchParams,
+  name: string,
+  supported: string[] | undefined,
+  multiple: boolean,
+) {
+  const value = parameters.get(name)
+  if (value === null || !Array.isArray(supported)) {
+    return
+  }
+
+  const values = multiple ? value.split(' ').filter(Boolean) : [value]
+  for (const item of values) {
+    if (!supported.includes(item)) {
+      throw CodedTypeError(
+        `"parameters.${name}" value "${item}" is not supported by the authorization server`,
+        ERR_INVALID_ARG_VALUE,
+        { [name]: item, supported },
+      )
+    }
+  }
+}
+
+function normalizeResponseType(value: string) {
+  return value.split(' ').filter(Boolean).sort().join(' ')
+}
+
 /**
- * Assigned as {@link OperationProcessingError.code} when a JWT UserInfo Response was expected but a
- * regular JSON one was given instead.
+ * Builds an Authorization Request URL to redirect the End-User's User Agent to. The
+ * {@link Client.client_id `client.client_id`} is always included.
+ *
+ * The `response_type`, `response_mode`, `code_challenge_method`, and `prompt` parameter values are
+ * checked against the corresponding authorization server metadata (e.g.
+ * {@link AuthorizationServer.response_types_supported `as.response_types_supported`}) when it is
+ * available. The `scope` parameter values are only checked when
+ * {@link BuildAuthorizationUrlOptions.checkScopesSupported} is `true`.
+ *
+ * When either
+ * {@link AuthorizationServer.require_pushed_authorization_requests `as.require_pushed_authorization_requests`}
+ * or `client.require_pushed_authorization_requests` is `true` the parameters are first pushed to
+ * the
+ * {@link AuthorizationServer.pushed_authorization_request_endpoint `as.pushed_authorization_request_endpoint`}
+ * and the returned URL only contains the `client_id` and `request_uri` parameters.
  *
- * @group Error Codes
- */
-export const JWT_USERINFO_EXPECTED = 'OAUTH_JWT_USERINFO_EXPECTED'
-/**
- * Assigned as {@link OperationProcessingError.code} when the following fails to parse as JSON
+ * @example
  *
- * - JWS/JWE Headers
- * - JSON response bodies
- * - "claims" authorization request parameters
- * - "authorization_details" authorization request parameters
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let clientAuth!: oauth.ClientAuth
+ * let redirect_uri!: string
+ *
+ * let code_verifier = oauth.generateRandomCodeVerifier()
+ * let code_challenge = await oauth.calculatePKCECodeChallenge(code_verifier)
+ *
+ * let url = await oauth.buildAuthorizationUrl(
+ *   as,
+ *   client,
+ *   {
+ *     redirect_uri,
+ *     response_type: 'code',
+ *     scope: 'openid api:read',
+ *     code_challenge,
+ *     code_challenge_method: 'S256',
+ *   },
+ *   { clientAuthentication: clientAuth },
+ * )
  *
- * @group Error Codes
- */
-export const PARSE_ERROR = 'OAUTH_PARSE_ERROR'
-/**
- * Assigned as {@link OperationProcessingError.code} when authorization server responses are invalid.
+ * // now redirect the user to url.href
+ * ```
  *
- * @group Error Codes
- */
-export const INVALID_RESPONSE = 'OAUTH_INVALID_RESPONSE'
-/**
- * Assigned as {@link OperationProcessingError.code} during {@link validateJwtAccessToken} when the
- * request or its contents are invalid.
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param parameters Authorization Request parameters.
  *
- * @group Error Codes
+ * @group Authorization Code Grant
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ * @group Pushed Authorization Requests (PAR)
+ *
+ * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.1.1)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#AuthRequest)
+ * @see [RFC 9126 - OAuth 2.0 Pushed Authorization Requests (PAR)](https://www.rfc-editor.org/rfc/rfc9126.html#name-authorization-request)
  */
-export const INVALID_REQUEST = 'OAUTH_INVALID_REQUEST'
+export async function buildAuthorizationUrl(
+  as: AuthorizationServer,
+  client: Client,
+  parameters: URLSearchParams | Record<string, string> | string[][],
+  options?: BuildAuthorizationUrlOptions,
+): Promise<URL> {
+  assertAs(as)
+  assertClient(client)
+
+  const url = new URL(
+    resolveEndpoint(
+      as,
+      'authorization_endpoint',
+      false,
+      options?.[allowInsecureRequests] !== true,
+    ).href,
+  )
+
+  parameters = new URLSearchParams(parameters)
+  parameters.set('client_id', client.client_id)
+
+  const responseType = parameters.get('response_type')
+  if (responseType !== null && Array.isArray(as.response_types_supported)) {
+    const normalized = normalizeResponseType(responseType)
+    if (!as.response_types_supported.some((value) => normalizeResponseType(value) === normalized)) {
+      throw CodedTypeError(
+        `"parameters.response_type" value "${responseType}" is not supported by the authorization server`,
+        ERR_INVALID_ARG_VALUE,
+        { response_type: responseType, supported: as.response_types_supported },
+      )
+    }
+  }
+
+  checkSupportedValues(parameters, 'response_mode', as.response_modes_supported, false)
+  checkSupportedValues(
+    parameters,
+    'code_challenge_method',
+    as.code_challenge_methods_supported,
+    false,
+  )
+  if (options?.checkScopesSupported === true) {
+    checkSupportedValues(parameters, 'scope', as.scopes_supported, true)
+  }
+  checkSupportedValues(parameters, 'prompt', as.prompt_values_supported, true)
+
+  if (
+    as.require_pushed_authorization_requests === true ||
+    client.require_pushed_authorization_requests === true
+  ) {
+    if (typeof options?.clientAuthentication !== 'function') {
+      throw CodedTypeError(
+        '"options.clientAuthentication" must be a function when pushed authorization requests are required',
+        ERR_INVALID_ARG_TYPE,
+      )
+    }
+
+    const response = await pushedAuthorizationRequest(
+      as,
+      client,
+      options.clientAuthentication,
+      parameters,
+      options,
+    )
+    const { request_uri } = await processPushedAuthorizationResponse(as, client, response)
+
+    url.searchParams.set('client_id', client.client_id)
+    url.searchParams.set('request_uri', request_uri)
+
+    return url
+  }
+
+  for (const name of new Set(parameters.keys())) {
+    url.searchParams.delete(name)
+  }
+  for (const [name, value] of parameters.entries()) {
+    url.searchParams.append(name, value)
+  }
+
+  return url
+}
+
+export type ProtectedResourceRequestBody =
+  | ArrayBuffer
+  | null
+  | ReadableStream
+  | string
+  | Uint8Array
+  | undefined
+  | URLSearchParams
+
+export interface ProtectedResourceRequestOptions
+  extends Omit<HttpRequestOptions<string, ProtectedResourceRequestBody>, 'headers'>,
+    DPoPRequestOptions {}
+
+function assertDPoP(option: DPoPHandle): asserts option is DPoPHandler {
+  if (!branded.has(option)) {
+    throw CodedTypeError('"options.DPoP" is not a valid DPoPHandle', ERR_INVALID_ARG_VALUE)
+  }
+}
+
+async function resourceRequest(
+  accessToken: string,
+  method: string,
+  url: URL,
+  headers?: Headers,
+  body?: ProtectedResourceRequestBody,
+  options?: ProtectedResourceRequestOptions,
+): Promise<Response> {
+  assertString(accessToken, '"accessToken"')
+
+  if (!(url instanceof URL)) {
+    throw CodedTypeError('"url" must be an instance of URL', ERR_INVALID_ARG_TYPE)
+  }
+
+  checkProtocol(url, options?.[allowInsecureRequests] !== true)
+
+  headers = prepareHeaders(headers)
+
+  if (options?.DPoP) {
+    assertDPoP(options.DPoP)
+    headers.set('authorization', `DPoP ${accessToken}`)
+  } else {
+    headers.set('authorization', `Bearer ${accessToken}`)
+  }
+
+  return dpopRequest(
+    options?.DPoP,
+    async () => {
+      await options?.DPoP?.addProof(url, headers!, method.toUpperCase(), accessToken)
+      return (options?.[customFetch] || fetch)(url.href, {
+        body,
+        headers: Object.fromEntries(headers!.entries()),
+        method,
+        redirect: 'manual',
+        signal: options?.signal ? signal(options.signal) : undefined,
+      })
+    },
+    !looseInstanceOf(body, ReadableStream),
+  )
+}
+
 /**
- * Assigned as {@link OperationProcessingError.code} when a {@link !Response} does not have the
- * expected `application/json` response-type HTTP Header.
+ * Performs a protected resource request at an arbitrary URL.
  *
- * @group Error Codes
+ * Authorization Header is used to transmit the Access Token value.
+ *
+ * @param accessToken The Access Token for the request.
+ * @param method The HTTP method for the request.
+ * @param url Target URL for the request.
+ * @param headers Headers for the request.
+ * @param body Request body compatible with the Fetch API and the request's method.
+ *
+ * @returns Resolves with a {@link !Response} instance. WWW-Authenticate HTTP Header challenges are
+ *   rejected with {@link WWWAuthenticateChallengeError}.
+ *
+ * @group Accessing Protected Resources
+ *
+ * @see [RFC 6750 - The OAuth 2.0 Authorization Framework: Bearer Token Usage](https://www.rfc-editor.org/rfc/rfc6750.html#section-2.1)
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-protected-resource-access)
  */
-export const RESPONSE_IS_NOT_JSON = 'OAUTH_RESPONSE_IS_NOT_JSON'
+export async function protectedResourceRequest(
+  accessToken: string,
+  method: string,
+  url: URL,
+  headers?: Headers,
+  body?: ProtectedResourceRequestBody,
+  options?: ProtectedResourceRequestOptions,
+): Promise<Response> {
+  return resourceRequest(accessToken, method, url, headers, body, options).then((response) => {
+    let challenges: WWWAuthenticateChallenge[] | undefined
+    if ((challenges = parseWwwAuthenticateChallenges(response))) {
+      throw new WWWAuthenticateChallengeError(
+        'server responded with a challenge in the WWW-Authenticate HTTP Header',
+        { cause: challenges, response },
+      )
+    }
+    return response
+  })
+}
+
+export interface UserInfoRequestOptions extends HttpRequestOptions<'GET'>, DPoPRequestOptions {}
+
 /**
- * Assigned as {@link OperationProcessingError.code} when a {@link !Response} does not have the
- * expected success HTTP Status Code as defined by its specification.
+ * Performs a UserInfo Request at the
+ * {@link AuthorizationServer.userinfo_endpoint `as.userinfo_endpoint`}.
  *
- * @group Error Codes
+ * Authorization Header is used to transmit the Access Token value.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param accessToken Access Token value.
+ *
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ * @group OpenID Connect (OIDC) UserInfo
+ * @group Accessing Protected Resources
+ *
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#UserInfo)
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-protected-resource-access)
  */
-export const RESPONSE_IS_NOT_CONFORM = 'OAUTH_RESPONSE_IS_NOT_CONFORM'
+export async function userInfoRequest(
+  as: AuthorizationServer,
+  client: Client,
+  accessToken: string,
+  options?: UserInfoRequestOptions,
+): Promise<Response> {
+  assertAs(as)
+  assertClient(client)
+
+  const url = resolveEndpoint(
+    as,
+    'userinfo_endpoint',
+    client.use_mtls_endpoint_aliases,
+    options?.[allowInsecureRequests] !== true,
+  )
+
+  const headers = prepareHeaders(options?.headers)
+  if (client.userinfo_signed_response_alg) {
+    headers.set('accept', 'application/jwt')
+  } else {
+    headers.set('accept', 'application/json')
+    headers.append('accept', 'application/jwt')
+  }
+
+  return resourceRequest(accessToken, 'GET', url, headers, null, {
+    ...options,
+    [clockSkew]: getClockSkew(client),
+  } as ProtectedResourceRequestOptions)
+}
+
+export interface UserInfoAddress {
+  readonly formatted?: string
+  readonly street_address?: string
+  readonly locality?: string
+  readonly region?: string
+  readonly postal_code?: string
+  readonly country?: string
+
+  readonly [claim: string]: JsonValue | undefined
+}
+
+export interface UserInfoResponse {
+  readonly sub: string
+  readonly name?: string
+  readonly given_name?: string
+  readonly family_name?: string
+  readonly middle_name?: string
+  readonly nickname?: string
+  readonly preferred_username?: string
+  readonly profile?: string
+  readonly picture?: string
+  readonly website?: string
+  readonly email?: string
+  readonly email_verified?: boolean
+  readonly gender?: string
+  readonly birthdate?: string
+  readonly zoneinfo?: string
+  readonly locale?: string
+  readonly phone_number?: string
+  readonly updated_at?: number
+  readonly address?: UserInfoAddress
+
+  readonly [claim: string]: JsonValue | undefined
+}
+
+let jwksMap: WeakMap<AuthorizationServer, ExportedJWKSCache & { age: number }>
+
+export interface ExportedJWKSCache {
+  jwks: JWKS
+  uat: number
+}
+
+export type JWKSCacheInput = ExportedJWKSCache | Record<string, never>
+
+function setJwksCache(
+  as: AuthorizationServer,
+  jwks: JWKS,
+  uat: number,
+  cache?: JWKSCacheInput,
+): undefined {
+  jwksMap ||= new WeakMap()
+  jwksMap.set(as, {
+    jwks,
+    uat,
+    get age() {
+      return epochTime() - this.uat
+    },
+  })
+
+  if (cache) {
+    Object.assign(cache, { jwks: structuredClone(jwks), uat })
+  }
+}
+
+function isFreshJwksCache(input: unknown): input is ExportedJWKSCache {
+  if (typeof input !== 'object' || input === null) {
+    return false
+  }
+
+  if (!('uat' in input) || typeof input.uat !== 'number' || epochTime() - input.uat >= 300) {
+    return false
+  }
+
+  if (
+    !('jwks' in input) ||
+    !isJsonObject(input.jwks) ||
+    !Array.isArray(input.jwks.keys) ||
+    !Array.prototype.every.call(input.jwks.keys, isJsonObject)
+  ) {
+    return false
+  }
+
+  return true
+}
+
+function clearJwksCache(as: AuthorizationServer, cache?: Partial<JWKSCacheInput>) {
+  jwksMap?.delete(as)
+  delete cache?.jwks
+  delete cache?.uat
+}
+
+async function selectVerificationKey(jwks: JWKS, header: CompactJWSHeaderParameters) {
+  checkSupportedJwsAlg(header)
+  const candidates = filterVerificationKeys(jwks.keys, header)
+  const { 0: jwk, length } = candidates
+
+  if (!length) {
+    throw OPE(
+      'error when selecting a JWT verification key, no applicable keys found',
+      KEY_SELECTION,
+      { header, candidates },
+    )
+  }
+
+  if (length !== 1) {
+    throw OPE(
+      'error when selecting a JWT verification key, multiple applicable keys found, a "kid" JWT Header Parameter is required',
+      KEY_SELECTION,
+      { header, candidates },
+    )
+  }
+
+  return importJwk(header.alg, jwk)
+}
+
+/**
+ * Returns the authorization server's JSON Web Key Set from the cache, fetching it from its
+ * {@link AuthorizationServer.jwks_uri `as.jwks_uri`} when there is none or it is stale, together
+ * with the age of the cached value.
+ */
+async function getIssuerJwks(
+  as: AuthorizationServer,
+  options: (HttpRequestOptions<'GET'> & JWKSCacheOptions) | undefined,
+): Promise<{ jwks: JWKS; age: number }> {
+  if (!jwksMap?.has(as) && isFreshJwksCache(options?.[jwksCache])) {
+    setJwksCache(as, options?.[jwksCache].jwks, options?.[jwksCache].uat)
+  }
+
+  if (jwksMap?.has(as)) {
+    const { jwks, age } = jwksMap.get(as)!
+    if (age < 300) {
+      return { jwks, age }
+    }
+    // force a re-fetch every 5 minutes
+    clearJwksCache(as, options?.[jwksCache])
+  }
+
+  const jwks = await jwksRequest(as, options).then(processJwksResponse).catch(reassignASError)
+  setJwksCache(as, jwks, epochTime(), options?.[jwksCache])
+  return { jwks, age: 0 }
+}
+
+async function getPublicSigKeyFromIssuerJwksUri(
+  as: AuthorizationServer,
+  options: (HttpRequestOptions<'GET'> & JWKSCacheOptions) | undefined,
+  header: CompactJWSHeaderParameters,
+): Promise<CryptoKey> {
+  const { alg } = header
+  checkSupportedJwsAlg(header)
+
+  const { jwks, age } = await getIssuerJwks(as, options)
+
+  const candidates = filterVerificationKeys(jwks.keys, header)
+
+  const { 0: jwk, length } = candidates
+
+  if (!length) {
+    if (age >= 60) {
+      // allow re-fetch if cache is at least 1 minute old
+      clearJwksCache(as, options?.[jwksCache])
+      return getPublicSigKeyFromIssuerJwksUri(as, options, header)
+    }
+    throw OPE(
+      'error when selecting a JWT verification key, no applicable keys found',
+      KEY_SELECTION,
+      { header, candidates, jwks_uri: new URL(as.jwks_uri!) },
+    )
+  }
+
+  if (length !== 1) {
+    throw OPE(
+      'error when selecting a JWT verification key, multiple applicable keys found, a "kid" JWT Header Parameter is required',
+      KEY_SELECTION,
+      { header, candidates, jwks_uri: new URL(as.jwks_uri!) },
+    )
+  }
+
+  return importJwk(alg, jwk)
+}
+
+function filterVerificationKeys(keys: JWK[], header: CompactJWSHeaderParameters) {
+  const { alg, kid } = header
+  let kty: string
+  switch (alg.slice(0, 2)) {
+    case 'RS': // Fall through
+    case 'PS':
+      kty = 'RSA'
+      break
+    case 'ES':
+      kty = 'EC'
+      break
+    case 'Ed':
+      kty = 'OKP'
+      break
+    default:
+      throw new UnsupportedOperationError('unsupported JWS algorithm', { cause: { alg } })
+  }
+
+  return keys.filter((jwk) => {
+    // filter keys based on the mapping of signature algorithms to Key Type
+    if (jwk.kty !== kty) {
+      return false
+    }
+
+    // filter keys based on the JWK Key ID in the header
+    if (kid !== undefined && kid !== jwk.kid) {
+      return false
+    }
+
+    // filter keys based on the key's declared Algorithm
+    if (jwk.alg !== undefined && alg !== jwk.alg) {
+      return false
+    }
+
+    // filter keys based on the key's declared Public Key Use
+    if (jwk.use !== undefined && jwk.use !== 'sig') {
+      return false
+    }
+
+    // filter keys based on the key's declared Key Operations
+    if (jwk.key_ops?.includes('verify') === false) {
+      return false
+    }
+
+    // filter keys based on alg-specific key requirements
+    switch (true) {
+      case alg === 'ES256' && jwk.crv !== 'P-256': // Fall through
+      case alg === 'ES384' && jwk.crv !== 'P-384': // Fall through
+      case alg === 'ES512' && jwk.crv !== 'P-521': // Fall through
+      case alg === 'Ed25519' && jwk.crv !== 'Ed25519': // Fall through
+      case alg === 'EdDSA' && jwk.crv !== 'Ed25519': // Fall through
+        return false
+    }
+
+    return true
+  })
+}
+
+async function getPublicEncKeyFromIssuerJwksUri(
+  as: AuthorizationServer,
+  options: (HttpRequestOptions<'GET'> & JWKSCacheOptions) | undefined,
+  alg: string,
+): Promise<{ key: CryptoKey; kid?: string }> {
+  let kty: string[]
+  let hash: string | undefined
+  switch (alg) {
+    case 'RSA-OAEP':
+      kty = ['RSA']
+      hash = 'SHA-1'
+      break
+    case 'RSA-OAEP-256': // Fall through
+    case 'RSA-OAEP-384': // Fall through
+    case 'RSA-OAEP-512':
+      kty = ['RSA']
+      hash = `SHA-${alg.slice(-3)}`
+      break
+    case 'ECDH-ES': // Fall through
+    case 'ECDH-ES+A128KW': // Fall through
+    case 'ECDH-ES+A192KW': // Fall through
+    case 'ECDH-ES+A256KW':
+      kty = ['EC', 'OKP']
+      break
+    default:
+      throw new UnsupportedOperationError('unsupported JWE "alg" (algorithm)', { cause: { alg } })
+  }
+
+  const { jwks, age } = await getIssuerJwks(as, options)
+
+  const candidates = jwks.keys.filter((jwk) => {
+    // filter keys based on the mapping of key management algorithms to Key Type
+    if (!kty.includes(jwk.kty!)) {
+      return false
+    }
+
+    // filter keys based on the key's declared Algorithm
+    if (jwk.alg !== undefined && alg !== jwk.alg) {
+      return false
+    }
+
+    // filter keys based on the key's declared Public Key Use
+    if (jwk.use !== undefined && jwk.use !== 'enc') {
+      return false
+    }
+
+    // filter keys based on the key's declared Key Operations
+    if (
+      jwk.key_ops !== undefined &&
+      !jwk.key_ops.includes(hash ? 'encrypt' : 'deriveKey') &&
+      !jwk.key_ops.includes(hash ? 'wrapKey' : 'deriveBits')
+    ) {
+      return false
+    }
+
+    // filter keys based on alg-specific key requirements
+    switch (jwk.kty) {
+      case 'EC':
+        return ['P-256', 'P-384', 'P-521'].includes(jwk.crv!)
+      case 'OKP':
+        return jwk.crv === 'X25519'
+    }
+
+    return true
+  })
+
+  const { 0: jwk } = candidates
+
+  if (!jwk) {
+    if (age >= 60) {
+      // allow re-fetch if cache is at least 1 minute old
+      clearJwksCache(as, options?.[jwksCache])
+      return getPublicEncKeyFromIssuerJwksUri(as, options, alg)
+    }
+    throw OPE(
+      'error when selecting a JWE encryption key, no applicable keys found',
+      KEY_SELECTION,
+      {
+        alg,
+        candidates,
+        jwks_uri: new URL(as.jwks_uri!),
+      },
+    )
+  }
+
+  let key: CryptoKey
+  if (hash) {
+    const { kty, e, n } = jwk
+    key = await crypto.subtle.importKey('jwk', { kty, e, n }, { name: 'RSA-OAEP', hash }, false, [
+      'encrypt',
+    ])
+  } else {
+    key = await importEcdhPublicKey(
+      jwk,
+      jwk.kty === 'OKP'
+        ? { name: 'X25519' }
+        : ({ name: 'ECDH', namedCurve: jwk.crv } as KeyAlgorithm),
+    )
+  }
+
+  return { key, kid: jwk.kid }
+}
+
+/**
+ * DANGER ZONE - This option has security implications that must be understood, assessed for
+ * applicability, and accepted before use.
+ *
+ * Use this as a value to {@link processUserInfoResponse} `expectedSubject` parameter to skip the
+ * `sub` claim value check.
+ *
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#UserInfoResponse)
+ */
+export const skipSubjectCheck: unique symbol = Symbol()
+
+function getContentType(input: Response | Request) {
+  return input.headers.get('content-type')?.split(';')[0]
+}
+
+export interface JWEDecryptOptions {
+  /**
+   * See {@link jweDecrypt}.
+   */
+  [jweDecrypt]?: JweDecryptFunction
+}
+
+export interface HmacSecretOptions {
+  /**
+   * See {@link hmacSecret}.
+   */
+  [hmacSecret]?: string
+}
+
+async function importHmacKey(secret: string, alg: string) {
+  switch (alg) {
+    case 'HS256': // Fall through
+    case 'HS384': // Fall through
+    case 'HS512':
+      break
+    default:
+      throw new UnsupportedOperationError('unsupported JWS "alg" identifier', { cause: { alg } })
+  }
+
+  return crypto.subtle.importKey(
+    'raw',
+    buf(secret),
+    { name: 'HMAC', hash: `SHA-${alg.slice(-3)}` },
+    false,
+    ['verify'],
+  )
+}
+
+/**
+ * Resolves the JWS verification key, either derived from {@link hmacSecret} for `HS*` algorithms, or
+ * obtained from the {@link AuthorizationServer.jwks_uri `as.jwks_uri`}.
+ */
+async function getSigKey(
+  as: AuthorizationServer,
+  options: (ValidateSignatureOptions & HmacSecretOptions) | undefined,
+  header: CompactJWSHeaderParameters,
+): Promise<CryptoKey> {
+  if (header.alg.startsWith('HS')) {
+    const secret = options?.[hmacSecret]
+    if (secret === undefined) {
+      throw new UnsupportedOperationError('unsupported JWS "alg" identifier', {
+        cause: { alg: header.alg },
+      })
+    }
+    assertString(secret, '"options[hmacSecret]"')
+    return importHmacKey(secret, header.alg)
+  }
+
+  return getPublicSigKeyFromIssuerJwksUri(as, options, header)
+}
+
+/**
+ * Validates {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.userinfo_endpoint `as.userinfo_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param expectedSubject Expected `sub` claim value. In response to OpenID Connect authentication
+ *   requests, the expected subject is the one from the ID Token claims retrieved from
+ *   {@link getValidatedIdTokenClaims}.
+ * @param response Resolved value from {@link userInfoRequest}.
+ *
+ * @returns Resolves with an object representing the parsed successful response. WWW-Authenticate
+ *   HTTP Header challenges are rejected with {@link WWWAuthenticateChallengeError}.
+ *
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ * @group OpenID Connect (OIDC) UserInfo
+ * @group Accessing Protected Resources
+ *
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#UserInfo)
+ */
+export async function processUserInfoResponse(
+  as: AuthorizationServer,
+  client: Client,
+  expectedSubject: string | typeof skipSubjectCheck,
+  response: Response,
+  options?: JWEDecryptOptions,
+): Promise<UserInfoResponse> {
+  assertAs(as)
+  assertClient(client)
+
+  if (!looseInstanceOf(response, Response)) {
+    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
+  }
+
+  let challenges: WWWAuthenticateChallenge[] | undefined
+  if ((challenges = parseWwwAuthenticateChallenges(response))) {
+    throw new WWWAuthenticateChallengeError(
+      'server responded with a challenge in the WWW-Authenticate HTTP Header',
+      { cause: challenges, response },
+    )
+  }
+
+  if (response.status !== 200) {
+    throw OPE(
+      '"response" is not a conform UserInfo Endpoint response (unexpected HTTP status code)',
+      RESPONSE_IS_NOT_CONFORM,
+      response,
+    )
+  }
+
+  assertReadableResponse(response)
+
+  let json: JsonValue
+  if (getContentType(response) === 'application/jwt') {
+    const { claims, jwt } = await validateJwt(
+      await response.text(),
+      checkSigningAlgorithm.bind(
+        undefined,
+        client.userinfo_signed_response_alg,
+        as.userinfo_signing_alg_values_supported,
+        undefined,
+      ),
+      getClockSkew(client),
+      getClockTolerance(client),
+      options?.[jweDecrypt],
+    )
+      .then(validateOptionalAudience.bind(undefined, client.client_id))
+      .then(validateOptionalIssuer.bind(undefined, as))
+
+    jwtRefs.set(response, jwt)
+    json = claims as JsonValue
+  } else {
+    if (client.userinfo_signed_response_alg) {
+      throw OPE('JWT UserInfo Response expected', JWT_USERINFO_EXPECTED, response)
+    }
+
+    assertApplicationJson(response)
+    try {
+      json = await response.json()
+    } catch (cause) {
+      throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
+    }
+  }
+
+  if (!isJsonObject<UserInfoResponse>(json)) {
+    throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
+  }
+
+  assertString(json.sub, '"response" body "sub" property', INVALID_RESPONSE, { body: json })
+
+  switch (expectedSubject) {
+    case skipSubjectCheck:
+      break
+    default:
+      assertString(expectedSubject, '"expectedSubject"')
+
+      if (json.sub !== expectedSubject) {
+        throw OPE('unexpected "response" body "sub" property value', JSON_ATTRIBUTE_COMPARISON, {
+          expected: expectedSubject,
+          body: json,
+          attribute: 'sub',
+        })
+      }
+  }
+
+  return json
+}
+
+async function authenticatedRequest(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  url: URL,
+  body: URLSearchParams,
+  headers: Headers,
+  options?: Omit<HttpRequestOptions<'POST', URLSearchParams>, 'headers'>,
+) {
+  await clientAuthentication(as, client, body, headers)
+  headers.set('content-type', 'application/x-www-form-urlencoded;charset=UTF-8')
+
+  return (options?.[customFetch] || fetch)(url.href, {
+    body,
+    headers: Object.fromEntries(headers.entries()),
+    method: 'POST',
+    redirect: 'manual',
+    signal: options?.signal ? signal(options.signal) : undefined,
+  })
+}
+
+export interface TokenEndpointRequestOptions
+  extends HttpRequestOptions<'POST', URLSearchParams>,
+    DPoPRequestOptions {
+  /**
+   * Any additional parameters to send. This cannot override existing parameter values.
+   */
+  additionalParameters?: URLSearchParams | Record<string, string> | string[][]
+}
+
+async function tokenEndpointRequest(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  grantType: string,
+  parameters: URLSearchParams,
+  options?: Omit<TokenEndpointRequestOptions, 'additionalParameters'>,
+): Promise<Response> {
+  const url = resolveEndpoint(
+    as,
+    'token_endpoint',
+    client.use_mtls_endpoint_aliases,
+    options?.[allowInsecureRequests] !== true,
+  )
+
+  parameters.set('grant_type', grantType)
+  const headers = prepareHeaders(options?.headers)
+  headers.set('accept', 'application/json')
+
+  if (options?.DPoP !== undefined) {
+    assertDPoP(options.DPoP)
+  }
+
+  return dpopRequest(options?.DPoP, async () => {
+    await options?.DPoP?.addProof(url, headers, 'POST')
+    return authenticatedRequest(as, client, clientAuthentication, url, parameters, headers, options)
+  })
+}
+
+/**
+ * Performs a Refresh Token Grant request at the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param clientAuthentication Client Authentication Method.
+ * @param refreshToken Refresh Token value.
+ *
+ * @group Refreshing an Access Token
+ *
+ * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-6)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#RefreshTokens)
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-access-token-request)
+ */
+export async function refreshTokenGrantRequest(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  refreshToken: string,
+  options?: TokenEndpointRequestOptions,
+): Promise<Response> {
+  assertAs(as)
+  assertClient(client)
+
+  assertString(refreshToken, '"refreshToken"')
+
+  const parameters = new URLSearchParams(options?.additionalParameters)
+  parameters.set('refresh_token', refreshToken)
+  return tokenEndpointRequest(
+    as,
+    client,
+    clientAuthentication,
+    'refresh_token',
+    parameters,
+    options,
+  )
+}
+
+const idTokenClaims = new WeakMap<TokenEndpointResponse, IDToken>()
+const jwtRefs = new WeakMap<Response, string>()
+
+/**
+ * Returns ID Token claims validated during {@link processRefreshTokenResponse} or
+ * {@link processDeviceCodeResponse}. To optionally validate its JWS Signature use
+ * {@link validateApplicationLevelSignature}
+ *
+ * @param ref Value previously resolved from {@link processRefreshTokenResponse} or
+ *   {@link processDeviceCodeResponse}.
+ *
+ * @returns JWT Claims Set from an ID Token, or undefined if there is no ID Token in `ref`.
+ */
+export function getValidatedIdTokenClaims(ref: TokenEndpointResponse): IDToken | undefined {
+  if (!ref.id_token) {
+    return undefined
+  }
+
+  const claims = idTokenClaims.get(ref)
+  if (!claims) {
+    throw CodedTypeError(
+      '"ref" was already garbage collected or did not resolve from the proper sources',
+      ERR_INVALID_ARG_VALUE,
+    )
+  }
+
+  return claims
+}
+
+export interface ValidateSignatureOptions extends HttpRequestOptions<'GET'>, JWKSCacheOptions {}
+
+/**
+ * Validates the JWS Signature of either a JWT {@link !Response.body} or
+ * {@link TokenEndpointResponse.id_token} of a processed {@link !Response}
+ *
+ * Note: Validating signatures of JWTs received via direct communication between the Client and a
+ * TLS-secured Endpoint (which it is here) is not mandatory since the TLS server validation is used
+ * to validate the issuer instead of checking the token signature. You only need to use this method
+ * for non-repudiation purposes.
+ *
+ * Note: Supports only digital signatures.
+ *
+ * @param as Authorization Server Metadata.
+ * @param ref Response previously processed by this module that contained an ID Token or its
+ *   response body was a JWT
+ *
+ * @returns Resolves if the signature validates, rejects otherwise.
+ *
+ * @group FAPI 1.0 Advanced
+ * @group FAPI 2.0 Message Signing
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ * @group OpenID Connect (OIDC) UserInfo
+ * @group Token Introspection
+ *
+ * @see [draft-ietf-oauth-jwt-introspection-response-12 - JWT Response for OAuth Token Introspection](https://www.ietf.org/archive/id/draft-ietf-oauth-jwt-introspection-response-12.html#section-5)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#UserInfo)
+ */
+export async function validateApplicationLevelSignature(
+  as: AuthorizationServer,
+  ref: Response,
+  options?: ValidateSignatureOptions & HmacSecretOptions,
+): Promise<void> {
+  assertAs(as)
+
+  if (!jwtRefs.has(ref)) {
+    throw CodedTypeError(
+      '"ref" does not contain a processed JWT Response to verify the signature of',
+      ERR_INVALID_ARG_VALUE,
+    )
+  }
+
+  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = jwtRefs.get(ref)!.split('.')
+
+  const header: CompactJWSHeaderParameters = JSON.parse(buf(b64u(protectedHeader)))
+
+  if (header.alg.startsWith('HS') && options?.[hmacSecret] === undefined) {
+    throw new UnsupportedOperationError('unsupported JWS algorithm', { cause: { alg: header.alg } })
+  }
+
+  let key!: CryptoKey
+  key = await getSigKey(as, options, header)
+  await validateJwsSignature(protectedHeader, payload, key, b64u(encodedSignature))
+}
+
+async function processGenericAccessTokenResponse(
+  as: AuthorizationServer,
+  client: Client,
+  response: Response,
+  additionalRequiredIdTokenClaims: (keyof typeof jwtClaimNames)[] | undefined,
+  options: (JWEDecryptOptions & HmacSecretOptions) | undefined,
+  recognizedTokenTypes: Lowercase<string>[] = ['bearer', 'dpop'],
+): Promise<TokenEndpointResponse> {
+  assertAs(as)
+  assertClient(client)
+
+  if (!looseInstanceOf(response, Response)) {
+    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
+  }
+
+  let challenges: WWWAuthenticateChallenge[] | undefined
+  if ((challenges = parseWwwAuthenticateChallenges(response))) {
+    throw new WWWAuthenticateChallengeError(
+      'server responded with a challenge in the WWW-Authenticate HTTP Header',
+      { cause: challenges, response },
+    )
+  }
+
+  if (response.status !== 200) {
+    let err: OAuth2Error | undefined
+    if ((err = await handleOAuthBodyError(response))) {
+      await response.body?.cancel()
+      throw new ResponseBodyError('server responded with an error in the response body', {
+        cause: err,
+        response,
+      })
+    }
+    throw OPE(
+      '"response" is not a conform Token Endpoint response (unexpected HTTP status code)',
+      RESPONSE_IS_NOT_CONFORM,
+      response,
+    )
+  }
+
+  assertReadableResponse(response)
+  assertApplicationJson(response)
+  let json: JsonValue
+  try {
+    json = await response.json()
+  } catch (cause) {
+    throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
+  }
+
+  if (!isJsonObject<Writeable<TokenEndpointResponse>>(json)) {
+    throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
+  }
+
+  assertString(json.access_token, '"response" body "access_token" property', INVALID_RESPONSE, {
+    body: json,
+  })
+
+  assertString(json.token_type, '"response" body "token_type" property', INVALID_RESPONSE, {
+    body: json,
+  })
+
+  json.token_type = json.token_type.toLowerCase() as Lowercase<string>
+
+  if (!recognizedTokenTypes.includes(json.token_type)) {
+    throw new UnsupportedOperationError('unsupported `token_type` value', { cause: { body: json } })
+  }
+
+  if (json.expires_in !== undefined) {
+    let expiresIn: unknown =
+      typeof json.expires_in !== 'number' ? parseFloat(json.expires_in) : json.expires_in
+    assertNumber(expiresIn, false, '"response" body "expires_in" property', INVALID_RESPONSE, {
+      body: json,
+    })
+    json.expires_in = expiresIn
+  }
+
+  if (json.refresh_token !== undefined) {
+    assertString(json.refresh_token, '"response" body "refresh_token" property', INVALID_RESPONSE, {
+      body: json,
+    })
+  }
+
+  // allows empty
+  if (json.scope !== undefined && typeof json.scope !== 'string') {
+    throw OPE('"response" body "scope" property must be a string', INVALID_RESPONSE, { body: json })
+  }
+
+  if (json.id_token !== undefined) {
+    assertString(json.id_token, '"response" body "id_token" property', INVALID_RESPONSE, {
+      body: json,
+    })
+
+    const requiredClaims: (keyof typeof jwtClaimNames)[] = ['aud', 'exp', 'iat', 'iss', 'sub']
+
+    if (client.require_auth_time === true) {
+      requiredClaims.push('auth_time')
+    }
+
+    if (client.default_max_age !== undefined) {
+      assertNumber(client.default_max_age, false, '"client.default_max_age"')
+      requiredClaims.push('auth_time')
+    }
+
+    if (additionalRequiredIdTokenClaims?.length) {
+      requiredClaims.push(...additionalRequiredIdTokenClaims)
+    }
+
+    const { claims, header, jwt } = await validateJwt(
+      json.id_token,
+      checkSigningAlgorithm.bind(
+        undefined,
+        client.id_token_signed_response_alg,
+        as.id_token_signing_alg_values_supported,
+        'RS256',
+      ),
+      getClockSkew(client),
+      getClockTolerance(client),
+      options?.[jweDecrypt],
+    )
+      .then(validatePresence.bind(undefined, requiredClaims))
+      .then(validateIssuer.bind(undefined, as))
+      .then(validateAudience.bind(undefined, client.client_id))
+
+    if (Array.isArray(claims.aud) && claims.aud.length !== 1) {
+      if (claims.azp === undefined) {
+        throw OPE(
+          'ID Token "aud" (audience) claim includes additional untrusted audiences',
+          JWT_CLAIM_COMPARISON,
+          { claims, claim: 'aud' },
+        )
+      }
+      if (claims.azp !== client.client_id) {
+        throw OPE(
+          'unexpected ID Token "azp" (authorized party) claim value',
+          JWT_CLAIM_COMPARISON,
+          { expected: client.client_id, claims, claim: 'azp' },
+        )
+      }
+    }
+
+    if (claims.auth_time !== undefined) {
+      assertNumber(
+        claims.auth_time,
+        false,
+        'ID Token "auth_time" (authentication time)',
+        INVALID_RESPONSE,
+        { claims },
+      )
+    }
+
+    if (header.alg.startsWith('HS') && options?.[hmacSecret] !== undefined) {
+      const { 0: protectedHeader, 1: payload, 2: encodedSignature } = jwt.split('.')
+      const key = await getSigKey(as, options, header)
+      await validateJwsSignature(protectedHeader, payload, key, b64u(encodedSignature))
+    }
+
+    jwtRefs.set(response, jwt)
+    idTokenClaims.set(json, claims as IDToken)
+  }
+
+  return json
+}
+
+/**
+ * Validates Refresh Token Grant {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param response Resolved value from {@link refreshTokenGrantRequest}.
+ *
+ * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
+ *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
+ *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
+ *
+ * @group Refreshing an Access Token
+ *
+ * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-6)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#RefreshTokens)
+ */
+export async function processRefreshTokenResponse(
+  as: AuthorizationServer,
+  client: Client,
+  response: Response,
+  options?: JWEDecryptOptions,
+): Promise<TokenEndpointResponse> {
+  return processGenericAccessTokenResponse(as, client, response, undefined, options)
+}
+
+export interface TokenSetOptions
+  extends TokenEndpointRequestOptions,
+    JWEDecryptOptions,
+    HmacSecretOptions {
+  /**
+   * Number of seconds before the access token's expiration it is already considered expired and
+   * refreshed by {@link TokenSetHandle.getAccessToken}. Default is `30`.
+   */
+  refreshLeeway?: number
+}
+
+/**
+ * Token set handle, obtained from {@link TokenSet}
+ *
+ * @group Refreshing an Access Token
+ */
+export interface TokenSetHandle {
+  readonly access_token: string
+  /**
+   * NOTE: because the value is case insensitive it is always lowercased
+   */
+  readonly token_type: 'bearer' | 'dpop' | Lowercase<string>
+  /**
+   * The most recently issued Refresh Token, rotated Refresh Tokens replace the previous one.
+   */
+  readonly refresh_token?: string
+  /**
+   * The most recently issued ID Token, it is preserved when a refresh does not return a new one.
+   */
+  readonly id_token?: string
+  /**
+   * The most recently indicated scope, it is preserved when a refresh response omits it.
+   */
+  readonly scope?: string
+  readonly authorization_details?: AuthorizationDetails[]
+  /**
+   * Access Token expiration as a unix timestamp (in seconds) on the authorization server's clock,
+   * i.e. the local clock adjusted by the client's {@link clockSkew}. Undefined when the
+   * authorization server did not indicate the Access Token's lifetime.
+   */
+  readonly expires_at?: number
+  /**
+   * Validated ID Token claims, these are preserved when a refresh does not return a new ID Token.
+   */
+  readonly claims?: IDToken
+
+  /**
+   * Returns whether the Access Token is expired, or about to, per
+   * {@link TokenSetOptions.refreshLeeway `options.refreshLeeway`}.
+   */
+  expired(): boolean
+
+  /**
+   * Resolves with the Access Token, it is first refreshed using the Refresh Token when
+   * {@link TokenSetHandle.expired expired}.
+   */
+  getAccessToken(): Promise<string>
+
+  /**
+   * Refreshes the token set using the Refresh Token. Concurrent calls share the same Refresh Token
+   * Grant request. A refresh returning an ID Token whose `iss` or `sub` claim values differ from
+   * the ones previously validated is rejected and leaves the token set unchanged.
+   */
+  refresh(): Promise<void>
+}
+
+// module-private TokenSetHandler hooks used by TokenSet() and TokenStoreHandler
+const updateTokens = Symbol()
+const restoreTokens = Symbol()
+const serializeTokens = Symbol()
+const tokenSetPersistence = new WeakMap<TokenSetHandler, () => Promise<void>>()
+
+class TokenSetHandler implements TokenSetHandle {
+  #as: AuthorizationServer
+  #client: Client
+  #clientAuthentication: ClientAuth
+  #options?: TokenSetOptions
+  #leeway: number
+  #tokens!: TokenEndpointResponse
+  #refreshToken?: string
+  #idToken?: string
+  #scope?: string
+  #claims?: IDToken
+  #expiresAt?: number
+  #refreshing?: Promise<void>
+
+  constructor(
+    as: AuthorizationServer,
+    client: Client,
+    clientAuthentication: ClientAuth,
+    options?: TokenSetOptions,
+  ) {
+    this.#as = as
+    this.#client = client
+    this.#clientAuthentication = clientAuthentication
+    this.#options = options
+    this.#leeway = options?.refreshLeeway ?? 30
+
+    if (!Number.isFinite(this.#leeway) || this.#leeway < 0) {
+      throw CodedTypeError(
+        '"options.refreshLeeway" must be a non-negative number',
+        ERR_INVALID_ARG_VALUE,
+      )
+    }
+  }
+
+  get access_token() {
+    return this.#tokens.access_token
+  }
+
+  get token_type() {
+    return this.#tokens.token_type
+  }
+
+  get refresh_token() {
+    return this.#refreshToken
+  }
+
+  get id_token() {
+    return this.#idToken
+  }
+
+  get scope() {
+    return this.#scope
+  }
+
+  get authorization_details() {
+    return this.#tokens.authorization_details
+  }
+
+  get expires_at() {
+    return this.#expiresAt
+  }
+
+  get claims() {
+    return this.#claims
+  }
+
+  expired() {
+    if (this.#expiresAt === undefined) {
+      return false
+    }
+
+    return epochTime() + getClockSkew(this.#client) >= this.#expiresAt - this.#leeway
+  }
+
+  async getAccessToken() {
+    if (this.expired()) {
+      await this.refresh()
+    }
+
+    return this.#tokens.access_token
+  }
+
+  refresh() {
+    return (this.#refreshing ||= this.#refresh().finally(() => {
+      this.#refreshing = undefined
+    }))
+  }
+
+  async #refresh() {
+    if (this.#refreshToken === undefined) {
+      throw new UnsupportedOperationError('the token set has no refresh token to refresh with')
+    }
+
+    const response = await refreshTokenGrantRequest(
+      this.#as,
+      this.#client,
+      this.#clientAuthentication,
+      this.#refreshToken,
+      this.#options,
+    )
+
+    this[updateTokens](
+      await processGenericAccessTokenResponse(
+        this.#as,
+        this.#client,
+        response,
+        undefined,
+        this.#options,
+      ),
+    )
+
+    // the refresh itself succeeded, a failure to save its result must not reject it
+    const persist = tokenSetPersistence.get(this)
+    if (persist) {
+      try {
+        await persist()
+      } catch {}
+    }
+  }
+
+  [updateTokens](response: TokenEndpointResponse) {
+    const claims = getValidatedIdTokenClaims(response)
+    if (claims && this.#claims) {
+      for (const claim of ['iss', 'sub'] as const) {
+        if (claims[claim] !== this.#claims[claim]) {
+          throw OPE(`unexpected refreshed ID Token "${claim}" claim value`, JWT_CLAIM_COMPARISON, {
+            expected: this.#claims[claim],
+            claims,
+            claim,
+          })
+        }
+      }
+    }
+
+    this.#tokens = response
+    this.#refreshToken = response.refresh_token ?? this.#refreshToken
+    this.#idToken = response.id_token ?? this.#idToken
+    this.#scope = response.scope ?? this.#scope
+    this.#claims = claims ?? this.#claims
+    this.#expiresAt =
+      response.expires_in !== undefined
+        ? epochTime() + getClockSkew(this.#client) + response.expires_in
+        : undefined
+  }
+
+  [restoreTokens](stored: StoredTokenSet) {
+    const { expires_at, claims, dpop, ...tokens } = stored
+    this.#tokens = tokens as TokenEndpointResponse
+    this.#refreshToken = tokens.refresh_token
+    this.#idToken = tokens.id_token
+    this.#scope = tokens.scope
+    this.#claims = claims
+    this.#expiresAt = expires_at
+  }
+
+  [serializeTokens](): StoredTokenSet {
+    return {
+      access_token: this.#tokens.access_token,
+      token_type: this.#tokens.token_type,
+      refresh_token: this.#refreshToken,
+      id_token: this.#idToken,
+      scope: this.#scope,
+      authorization_details: this.#tokens.authorization_details,
+      expires_at: this.#expiresAt,
+      claims: this.#claims,
+    }
+  }
+}
+
+/**
+ * Returns a stateful wrapper / handle around a token endpoint response that tracks the Access
+ * Token's absolute expiration and refreshes it using the Refresh Token when needed.
+ *
+ * Concurrent {@link TokenSetHandle.getAccessToken} calls made while the Access Token is expired
+ * share a single Refresh Token Grant request. Rotated Refresh Tokens replace the previous one, the
+ * ID Token and its validated claims are preserved when a refresh does not return a new ID Token,
+ * and the scope is preserved when a refresh response omits it.
+ *
+ * @example
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let clientAuth!: oauth.ClientAuth
+ * let response!: oauth.TokenEndpointResponse
+ *
+ * const tokens = oauth.TokenSet(as, client, clientAuth, response)
+ *
+ * // later
+ * const accessToken = await tokens.getAccessToken()
+ * ```
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param clientAuthentication Client Authentication Method used for refreshing.
+ * @param response Resolved value from {@link processAuthorizationCodeResponse},
+ *   {@link processRefreshTokenResponse}, or any other token endpoint response processing function.
+ *
+ * @group Refreshing an Access Token
+ */
+export function TokenSet(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  response: TokenEndpointResponse,
+  options?: TokenSetOptions,
+): TokenSetHandle {
+  assertAs(as)
+  assertClient(client)
+
+  if (!isJsonObject(response)) {
+    throw CodedTypeError('"response" must be an object', ERR_INVALID_ARG_TYPE)
+  }
+  assertString(response.access_token, '"response.access_token"')
+  assertString(response.token_type, '"response.token_type"')
+
+  const handler = new TokenSetHandler(as, client, clientAuthentication, options)
+  handler[updateTokens](response)
+  return handler
+}
+
+/**
+ * Key-value storage backend used by {@link TokenStore}. The values it is given are already
+ * encrypted.
+ *
+ * @group Token Storage
+ */
+export interface TokenStorage {
+  get(key: string): Promise<string | undefined> | string | undefined
+  set(key: string, value: string): Promise<void> | void
+  delete(key: string): Promise<void> | void
+}
+
+/**
+ * Returns a {@link TokenStorage} that keeps values in memory for the lifetime of the process or
+ * document.
+ *
+ * @group Token Storage
+ */
+export function MemoryStorage(): TokenStorage {
+  const map = new Map<string, string>()
+  return {
+    get: (key) => map.get(key),
+    set: (key, value) => {
+      map.set(key, value)
+    },
+    delete: (key) => {
+      map.delete(key)
+    },
+  }
+}
+
+export interface WebStorageOptions {
+  /**
+   * Prefix for the Web Storage item keys. Default is `oauth4webapi:`.
+   */
+  prefix?: string
+}
+
+/**
+ * Returns a {@link TokenStorage} backed by a Web Storage API implementation such as `localStorage`
+ * or `sessionStorage`.
+ *
+ * @example
+ *
+ * ```ts
+ * let encryptionKey!: CryptoKey
+ *
+ * const store = oauth.TokenStore(oauth.WebStorage(localStorage), encryptionKey)
+ * ```
+ *
+ * @param storage Web Storage API implementation.
+ *
+ * @group Token Storage
+ */
+export function WebStorage(storage: Storage, options?: WebStorageOptions): TokenStorage {
+  if (
+    typeof storage?.getItem !== 'function' ||
+    typeof storage.setItem !== 'function' ||
+    typeof storage.removeItem !== 'function'
+  ) {
+    throw CodedTypeError('"storage" must implement the Web Storage API', ERR_INVALID_ARG_TYPE)
+  }
+
+  const prefix = options?.prefix ?? 'oauth4webapi:'
+  assertString(prefix, '"options.prefix"')
+
+  return {
+    get: (key) => storage.getItem(prefix + key) ?? undefined,
+    set: (key, value) => storage.setItem(prefix + key, value),
+    delete: (key) => storage.removeItem(prefix + key),
+  }
+}
+
+export interface IndexedDBStorageOptions {
+  /**
+   * IndexedDB database name. Default is `oauth4webapi`.
+   */
+  database?: string
+  /**
+   * IndexedDB object store name, it is created when missing. Default is `tokens`.
+   */
+  objectStore?: string
+}
+
+function idbResult<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function idbOpen(objectStore: string, request: IDBOpenDBRequest) {
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(objectStore)) {
+      request.result.createObjectStore(objectStore)
+    }
+  }
+  return idbResult(request).then((db) => {
+    // don't hold up upgrades started elsewhere, e.g. in other tabs
+    db.onversionchange = () => db.close()
+    return db
+  })
+}
+
+const idbUpgrades = new Map<string, Promise<void>>()
+
+function idbUpgrade(database: string, objectStore: string) {
+  // only one upgrade per database at a time, callers re-check the outcome once it settles
+  let upgrade = idbUpgrades.get(database)
+  if (!upgrade) {
+    upgrade = (async () => {
+      const db = await idbOpen(objectStore, indexedDB.open(database))
+      const version = db.version + 1
+      const missing = !db.objectStoreNames.contains(objectStore)
+      db.close()
+      if (!missing) {
+        return
+      }
+
+      const request = indexedDB.open(database, version)
+      const blocked = new Promise<never>((_, reject) => {
+        request.onblocked = () => {
+          request.onsuccess = () => request.result.close()
+          reject(
+            OPE('IndexedDB upgrade is blocked by another open connection', undefined, {
+              database,
+              version,
+            }),
+          )
+        }
+      })
+      try {
+        const upgraded = await Promise.race([idbOpen(objectStore, request), blocked])
+        upgraded.close()
+      } catch (err) {
+        // upgraded concurrently, e.g. in another tab
+        if (!(err instanceof DOMException && err.name === 'VersionError')) {
+          throw err
+        }
+      }
+    })().finally(() => idbUpgrades.delete(database))
+    idbUpgrades.set(database, upgrade)
+  }
+  return upgrade
+}
+
+async function idbTransaction<T>(
+  database: string,
+  objectStore: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  let db = await idbOpen(objectStore, indexedDB.open(database))
+  while (!db.objectStoreNames.contains(objectStore)) {
+    db.close()
+    await idbUpgrade(database, objectStore)
+    db = await idbOpen(objectStore, indexedDB.open(database))
+  }
+
+  try {
+    const transaction = db.transaction(objectStore, mode)
+    const complete = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = transaction.onabort = () => reject(transaction.error)
+    })
+    const result = await idbResult(operation(transaction.objectStore(objectStore)))
+    await complete
+    return result
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Returns a {@link TokenStorage} backed by IndexedDB. A missing object store is added by upgrading
+ * the database, this is rejected when another open connection to it does not close for the
+ * upgrade.
+ *
+ * @group Token Storage
+ */
+export function IndexedDBStorage(options?: IndexedDBStorageOptions): TokenStorage {
+  const database = options?.database ?? 'oauth4webapi'
+  const objectStore = options?.objectStore ?? 'tokens'
+  assertString(database, '"options.database"')
+  assertString(objectStore, '"options.objectStore"')
+
+  return {
+    get: (key) =>
+      idbTransaction<string | undefined>(database, objectStore, 'readonly', (store) =>
+        store.get(key),
+      ),
+    set: async (key, value) => {
+      await idbTransaction(database, objectStore, 'readwrite', (store) => store.put(value, key))
+    },
+    delete: (key) =>
+      idbTransaction(database, objectStore, 'readwrite', (store) => store.delete(key)),
+  }
+}
+
+/**
+ * Metadata of the DPoP key pair a stored token set is bound to.
+ *
+ * @group Token Storage
+ */
+export interface DPoPKeyMetadata {
+  /**
+   * JWK Thumbprint of the DPoP public key
+   */
+  readonly jkt: string
+  /**
+   * JWS Algorithm the DPoP key pair is used with
+   */
+  readonly alg: string
+}
+
+interface StoredTokenSet {
+  readonly access_token: string
+  readonly token_type: Lowercase<string>
+  readonly refresh_token?: string
+  readonly id_token?: string
+  readonly scope?: string
+  readonly authorization_details?: AuthorizationDetails[]
+  readonly expires_at?: number
+  readonly claims?: IDToken
+  readonly dpop?: DPoPKeyMetadata
+}
+
+export interface LoadedTokenSet {
+  /**
+   * The restored token set, refreshes are persisted back to the same storage key.
+   */
+  tokens: TokenSetHandle
+  /**
+   * Metadata of the DPoP key pair the token set was saved with, if any.
+   */
+  dpop?: DPoPKeyMetadata
+}
+
+/**
+ * Token store handle, obtained from {@link TokenStore}
+ *
+ * @group Token Storage
+ */
+export interface TokenStoreHandle {
+  /**
+   * Encrypts and saves a token set, its subsequent refreshes are saved as well so that rotated
+   * Refresh Tokens are not lost. Failures to save a refreshed token set do not fail the refresh,
+   * call this method again to retry saving it.
+   *
+   * @param key Storage key, e.g. a session identifier.
+   * @param tokens Token set to save.
+   * @param dpopKeyPair DPoP key pair the token set is bound to, only its metadata is saved.
+   */
+  save(
+    key: string,
+    tokens: TokenSetHandle,
+    dpopKeyPair?: CryptoKeyPair | SignerKeyPair,
+  ): Promise<void>
+
+  /**
+   * Loads and decrypts a token set, resolves with `undefined` when there is none.
+   *
+   * @param key Storage key the token set was saved with.
+   * @param as Authorization Server Metadata.
+   * @param client Client Metadata.
+   * @param clientAuthentication Client Authentication Method used for refreshing.
+   */
+  load(
+    key: string,
+    as: AuthorizationServer,
+    client: Client,
+    clientAuthentication: ClientAuth,
+    options?: TokenSetOptions,
+  ): Promise<LoadedTokenSet | undefined>
+
+  /**
+   * Deletes a token set, e.g. on logout.
+   *
+   * @param key Storage key the token set was saved with.
+   */
+  delete(key: string): Promise<void>
+}
+
+class TokenStoreHandler implements TokenStoreHandle {
+  #storage: TokenStorage
+  #key: CryptoKey
+
+  constructor(storage: TokenStorage, encryptionKey: CryptoKey) {
+    this.#storage = storage
+    this.#key = encryptionKey
+  }
+
+  async save(key: string, tokens: TokenSetHandle, dpopKeyPair?: CryptoKeyPair | SignerKeyPair) {
+    assertString(key, '"key"')
+
+    if (!(tokens instanceof TokenSetHandler)) {
+      throw CodedTypeError('"tokens" must be a TokenSet handle', ERR_INVALID_ARG_TYPE)
+    }
+
+    let dpop: DPoPKeyMetadata | undefined
+    if (dpopKeyPair !== undefined) {
+      assertSigningKey(dpopKeyPair.privateKey, '"dpopKeyPair.privateKey"')
+      assertCryptoKey(dpopKeyPair.publicKey, '"dpopKeyPair.publicKey"')
+      dpop = {
+        jkt: await jwkThumbprint(await publicJwk(dpopKeyPair.publicKey)),
+        alg: signingAlg(dpopKeyPair.privateKey),
+      }
+    }
+
+    await this.#write(key, tokens, dpop)
+    tokenSetPersistence.set(tokens, () => this.#write(key, tokens, dpop))
+  }
+
+  async load(
+    key: string,
+    as: AuthorizationServer,
+    client: Client,
+    clientAuthentication: ClientAuth,
+    options?: TokenSetOptions,
+  ) {
+    assertString(key, '"key"')
+    assertAs(as)
+    assertClient(client)
+
+    const value = await this.#storage.get(key)
+    if (value === undefined || value === null) {
+      return undefined
+    }
+
+    let stored: StoredTokenSet
+    try {
+      const { 0: iv, 1: ciphertext, length } = value.split('.')
+      if (length !== 2) {
+        throw new TypeError('Invalid stored value format')
+      }
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: b64u(iv), additionalData: buf(key) },
+        this.#key,
+        b64u(ciphertext),
+      )
+      stored = JSON.parse(buf(new Uint8Array(plaintext)))
+    } catch (cause) {
+      throw OPE('failed to decrypt the stored token set', PARSE_ERROR, cause)
+    }
+
+    const tokens = new TokenSetHandler(as, client, clientAuthentication, options)
+    tokens[restoreTokens](stored)
+    tokenSetPersistence.set(tokens, () => this.#write(key, tokens, stored.dpop))
+
+    return { tokens, dpop: stored.dpop }
+  }
+
+  async delete(key: string) {
+    assertString(key, '"key"')
+    await this.#storage.delete(key)
+  }
+
+  async #write(key: string, tokens: TokenSetHandler, dpop: DPoPKeyMetadata | undefined) {
+    const stored: StoredTokenSet = { ...tokens[serializeTokens](), dpop }
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: buf(key) },
+      this.#key,
+      buf(JSON.stringify(stored)),
+    )
+    await this.#storage.set(key, `${b64u(iv)}.${b64u(ciphertext)}`)
+  }
+}
+
+/**
+ * Returns a wrapper / handle around a {@link TokenStorage} that persists
+ * {@link TokenSetHandle token
+ * sets} (and metadata of the DPoP key pair they are bound to) encrypted
+ * at rest using AES-GCM. The storage key is used as additional authenticated data so that stored
+ * values cannot be swapped between keys.
+ *
+ * The encryption key should be a non-extractable AES-GCM {@link !CryptoKey}, in browser environments
+ * it can itself be persisted in IndexedDB which stores {@link !CryptoKey} instances without exposing
+ * their key material.
+ *
+ * @example
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let clientAuth!: oauth.ClientAuth
+ * let tokens!: oauth.TokenSetHandle
+ *
+ * const encryptionKey = await crypto.subtle.generateKey(
+ *   { name: 'AES-GCM', length: 256 },
+ *   false,
+ *   ['encrypt', 'decrypt'],
+ * )
+ * const store = oauth.TokenStore(oauth.IndexedDBStorage(), encryptionKey)
+ *
+ * await store.save('session', tokens)
+ *
+ * // after a reload
+ * const loaded = await store.load('session', as, client, clientAuth)
+ * ```
+ *
+ * @param storage Storage backend.
+ * @param encryptionKey AES-GCM key to encrypt and decrypt the stored values with.
+ *
+ * @group Token Storage
+ */
+export function TokenStore(storage: TokenStorage, encryptionKey: CryptoKey): TokenStoreHandle {
+  if (
+    typeof storage?.get !== 'function' ||
+    typeof storage.set !== 'function' ||
+    typeof storage.delete !== 'function'
+  ) {
+    throw CodedTypeError(
+      '"storage" must implement the get, set, and delete methods',
+      ERR_INVALID_ARG_TYPE,
+    )
+  }
+
+  assertCryptoKey(encryptionKey, '"encryptionKey"')
+  if (encryptionKey.algorithm.name !== 'AES-GCM') {
+    throw CodedTypeError('"encryptionKey" must be an AES-GCM CryptoKey', ERR_INVALID_ARG_VALUE)
+  }
+
+  return new TokenStoreHandler(storage, encryptionKey)
+}
+
+export interface AuthorizationTransactionsOptions {
+  /**
+   * Seconds a started transaction remains valid for. Default is `600` (10 minutes).
+   */
+  maxAge?: number
+  /**
+   * Prefix of the cookie names, the transaction's `state` value is appended to it so that multiple
+   * transactions can be in progress concurrently. Default is `oauth4webapi.tx.`.
+   */
+  cookiePrefix?: string
+}
+
+export interface StartAuthorizationTransactionOptions {
+  /**
+   * When true a `nonce` is generated and sent, use this with OpenID Connect authorization servers
+   * that do not support PKCE or when an ID Token is required.
+   */
+  nonce?: boolean
+  /**
+   * `max_age` authorization request parameter to send, the ID Token
+   * {@link IDToken.auth_time `auth_time`} claim is then expected to conform to it.
+   */
+  max_age?: number
+}
+
+/**
+ * Authorization code flow values that have to be carried across the authorization redirect.
+ *
+ * @group Authorization Code Grant
+ */
+export interface AuthorizationTransaction {
+  /**
+   * Value to pass as `expectedState` to {@link validateAuthResponse}.
+   */
+  readonly state: string
+  /**
+   * Value to pass as `codeVerifier` to {@link authorizationCodeGrantRequest}.
+   */
+  readonly code_verifier: string
+  /**
+   * Value to pass as `expectedNonce` to {@link processAuthorizationCodeResponse}.
+   */
+  readonly nonce?: string
+  /**
+   * Value to pass as `maxAge` to {@link processAuthorizationCodeResponse}.
+   */
+  readonly max_age?: number
+  /**
+   * Epoch time (in seconds) after which the transaction can no longer be restored.
+   */
+  readonly expires_at: number
+}
+
+/**
+ * Cookie holding a sealed {@link AuthorizationTransaction}. It should be set with the `HttpOnly`,
+ * `Secure`, and `SameSite=Lax` attributes.
+ *
+ * @group Authorization Code Grant
+ */
+export interface AuthorizationTransactionCookie {
+  readonly name: string
+  readonly value: string
+  /**
+   * Value for the cookie's `Max-Age` attribute.
+   */
+  readonly maxAge: number
+}
+
+/**
+ * @group Authorization Code Grant
+ */
+export interface StartedAuthorizationTransaction {
+  readonly transaction: AuthorizationTransaction
+  /**
+   * Authorization request parameters to add to the authorization request, these are `state`,
+   * `code_challenge`, `code_challenge_method`, and (when used) `nonce` and `max_age`.
+   */
+  readonly parameters: URLSearchParams
+  readonly cookie: AuthorizationTransactionCookie
+}
+
+/**
+ * Authorization transactions handle, obtained from {@link AuthorizationTransactions}
+ *
+ * @group Authorization Code Grant
+ */
+export interface AuthorizationTransactionsHandle {
+  /**
+   * Generates a new transaction and seals it in a cookie value.
+   */
+  start(options?: StartAuthorizationTransactionOptions): Promise<StartedAuthorizationTransaction>
+
+  /**
+   * Restores the transaction the callback's `state` parameter refers to. The restored transaction's
+   * cookie should be cleared afterwards.
+   *
+   * @param parameters Authorization response, i.e. the redirect URI the authorization server
+   *   redirected to.
+   * @param cookies Incoming request headers or already parsed request cookies.
+   */
+  restore(
+    parameters: URLSearchParams | URL,
+    cookies: Headers | Record<string, string | undefined>,
+  ): Promise<AuthorizationTransaction>
+
+  /**
+   * Returns the name of the cookie for a given transaction `state`.
+   */
+  cookieName(state: string): string
+}
+
+class AuthorizationTransactionsHandler implements AuthorizationTransactionsHandle {
+  #key: CryptoKey
+  #maxAge: number
+  #prefix: string
+
+  constructor(encryptionKey: CryptoKey, maxAge: number, prefix: string) {
+    this.#key = encryptionKey
+    this.#maxAge = maxAge
+    this.#prefix = prefix
+  }
+
+  cookieName(state: string) {
+    assertString(state, '"state"')
+    return `${this.#prefix}${state}`
+  }
+
+  async start(options?: StartAuthorizationTransactionOptions) {
+    if (
+      options?.max_age !== undefined &&
+      (!Number.isFinite(options.max_age) || options.max_age < 0)
+    ) {
+      throw CodedTypeError('"options.max_age" must be a non-negative number', ERR_INVALID_ARG_VALUE)
+    }
+
+    const transaction: AuthorizationTransaction = {
+      state: generateRandomState(),
+      code_verifier: generateRandomCodeVerifier(),
+      ...(options?.nonce === true ? { nonce: generateRandomNonce() } : undefined),
+      ...(options?.max_age !== undefined ? { max_age: options.max_age } : undefined),
+      expires_at: epochTime() + this.#maxAge,
+    }
+
+    const parameters = new URLSearchParams()
+    parameters.set('state', transaction.state)
+    parameters.set('code_challenge', await calculatePKCECodeChallenge(transaction.code_verifier))
+    parameters.set('code_challenge_method', 'S256')
+    if (transaction.nonce !== undefined) {
+      parameters.set('nonce', transaction.nonce)
+    }
+    if (transaction.max_age !== undefined) {
+      parameters.set('max_age', transaction.max_age.toString())
+    }
+
+    const name = this.cookieName(transaction.state)
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: buf(name) },
+      this.#key,
+      buf(JSON.stringify(transaction)),
+    )
+
+    return {
+      transaction,
+      parameters,
+      cookie: { name, value: `${b64u(iv)}.${b64u(ciphertext)}`, maxAge: this.#maxAge },
+    }
+  }
+
+  async restore(
+    parameters: URLSearchParams | URL,
+    cookies: Headers | Record<string, string | undefined>,
+  ) {
+    if (parameters instanceof URL) {
+      parameters = parameters.searchParams
+    }
+
+    if (!(parameters instanceof URLSearchParams)) {
+      throw CodedTypeError(
+        '"parameters" must be an instance of URLSearchParams, or URL',
+        ERR_INVALID_ARG_TYPE,
+      )
+    }
+
+    const state = getURLSearchParameter(parameters, 'state')
+    if (state === undefined) {
+      throw OPE('response parameter "state" missing', INVALID_RESPONSE, { parameters })
+    }
+
+    const name = this.cookieName(state)
+    const value = looseInstanceOf(cookies, Headers)
+      ? getCookie(cookies.get('cookie'), name)
+      : cookies?.[name]
+
+    if (!value) {
+      throw OPE(
+        'no authorization transaction found for the "state" response parameter',
+        INVALID_RESPONSE,
+        {
+          parameters,
+        },
+      )
+    }
+
+    let transaction: AuthorizationTransaction
+    try {
+      const { 0: iv, 1: ciphertext, length } = value.split('.')
+      if (length !== 2) {
+        throw new TypeError('Invalid cookie value format')
+      }
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: b64u(iv), additionalData: buf(name) },
+        this.#key,
+        b64u(ciphertext),
+      )
+      transaction = JSON.parse(buf(new Uint8Array(plaintext)))
+    } catch (cause) {
+      throw OPE('failed to decrypt the authorization transaction', PARSE_ERROR, cause)
+    }
+
+    const now = epochTime()
+    if (transaction.expires_at <= now) {
+      throw OPE('authorization transaction has expired', JWT_TIMESTAMP_CHECK, {
+        now,
+        expires_at: transaction.expires_at,
+      })
+    }
+
+    return transaction
+  }
+}
+
+function getCookie(header: string | null, name: string) {
+  for (const cookie of header?.split(';') ?? []) {
+    const index = cookie.indexOf('=')
+    if (index !== -1 && cookie.slice(0, index).trim() === name) {
+      return cookie.slice(index + 1).trim()
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Returns a wrapper / handle that generates the `code_verifier`, `state`, and optionally `nonce`
+ * and `max_age` values of an authorization code flow and carries them across the authorization
+ * redirect in a cookie. The cookie value is encrypted and integrity protected using AES-GCM, bound
+ * to its cookie name, and expires after {@link AuthorizationTransactionsOptions.maxAge}.
+ *
+ * @example
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let clientAuth!: oauth.ClientAuth
+ * let encryptionKey!: oauth.CryptoKey
+ * let redirect_uri!: string
+ *
+ * const transactions = oauth.AuthorizationTransactions(encryptionKey)
+ *
+ * // when redirecting to the authorization server
+ * const { parameters, cookie } = await transactions.start({ nonce: true })
+ * const authorizationUrl = new URL(as.authorization_endpoint!)
+ * authorizationUrl.searchParams.set('client_id', client.client_id)
+ * authorizationUrl.searchParams.set('redirect_uri', redirect_uri)
+ * authorizationUrl.searchParams.set('response_type', 'code')
+ * authorizationUrl.searchParams.set('scope', 'openid')
+ * for (const [key, value] of parameters) {
+ *   authorizationUrl.searchParams.set(key, value)
+ * }
+ * // set the cookie.name cookie to cookie.value with a Max-Age of cookie.maxAge
+ *
+ * // in the redirect_uri callback
+ * let request!: Request
+ * const currentUrl = new URL(request.url)
+ * const transaction = await transactions.restore(currentUrl, request.headers)
+ * // clear the transactions.cookieName(transaction.state) cookie
+ *
+ * const params = oauth.validateAuthResponse(as, client, currentUrl, transaction.state)
+ * const response = await oauth.authorizationCodeGrantRequest(
+ *   as,
+ *   client,
+ *   clientAuth,
+ *   params,
+ *   redirect_uri,
+ *   transaction.code_verifier,
+ * )
+ * const result = await oauth.processAuthorizationCodeResponse(as, client, response, {
+ *   expectedNonce: transaction.nonce,
+ *   maxAge: transaction.max_age,
+ * })
+ * ```
+ *
+ * @param encryptionKey AES-GCM key to seal the cookie values with.
+ *
+ * @group Authorization Code Grant
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ */
+export function AuthorizationTransactions(
+  encryptionKey: CryptoKey,
+  options?: AuthorizationTransactionsOptions,
+): AuthorizationTransactionsHandle {
+  assertCryptoKey(encryptionKey, '"encryptionKey"')
+  if (encryptionKey.algorithm.name !== 'AES-GCM') {
+    throw CodedTypeError('"encryptionKey" must be an AES-GCM CryptoKey', ERR_INVALID_ARG_VALUE)
+  }
+
+  const maxAge = options?.maxAge ?? 600
+  if (!Number.isFinite(maxAge) || maxAge <= 0) {
+    throw CodedTypeError('"options.maxAge" must be a positive number', ERR_INVALID_ARG_VALUE)
+  }
+
+  const prefix = options?.cookiePrefix ?? 'oauth4webapi.tx.'
+  assertString(prefix, '"options.cookiePrefix"')
+
+  return new AuthorizationTransactionsHandler(encryptionKey, maxAge, prefix)
+}
+
+function validateOptionalAudience(
+  expected: string,
+  result: Awaited<ReturnType<typeof validateJwt>>,
+) {
+  if (result.claims.aud !== undefined) {
+    return validateAudience(expected, result)
+  }
+  return result
+}
+
+function validateAudience(expected: string, result: Awaited<ReturnType<typeof validateJwt>>) {
+  if (Array.isArray(result.claims.aud)) {
+    if (!result.claims.aud.includes(expected)) {
+      throw OPE('unexpected JWT "aud" (audience) claim value', JWT_CLAIM_COMPARISON, {
+        expected,
+        claims: result.claims,
+        claim: 'aud',
+      })
+    }
+  } else if (result.claims.aud !== expected) {
+    throw OPE('unexpected JWT "aud" (audience) claim value', JWT_CLAIM_COMPARISON, {
+      expected,
+      claims: result.claims,
+      claim: 'aud',
+    })
+  }
+
+  return result
+}
+
+function validateOptionalIssuer(
+  as: AuthorizationServer,
+  result: Awaited<ReturnType<typeof validateJwt>>,
+) {
+  if (result.claims.iss !== undefined) {
+    return validateIssuer(as, result)
+  }
+  return result
+}
+
+function validateIssuer(as: AuthorizationServer, result: Awaited<ReturnType<typeof validateJwt>>) {
+  // @ts-ignore
+  const expected = as[_expectedIssuer]?.(result) ?? as.issuer
+  if (result.claims.iss !== expected) {
+    throw OPE('unexpected JWT "iss" (issuer) claim value', JWT_CLAIM_COMPARISON, {
+      expected,
+      claims: result.claims,
+      claim: 'iss',
+    })
+  }
+  return result
+}
+
+const branded = new WeakSet<URLSearchParams | DPoPHandle>()
+function brand(searchParams: URLSearchParams) {
+  branded.add(searchParams)
+  return searchParams
+}
+
+/**
+ * Performs an Authorization Code grant request at the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param clientAuthentication Client Authentication Method.
+ * @param callbackParameters Parameters obtained from the callback to redirect_uri, this is returned
+ *   from {@link validateAuthResponse}, or {@link validateJwtAuthResponse}.
+ * @param redirectUri `redirect_uri` value used in the authorization request.
+ * @param codeVerifier PKCE `code_verifier` to send to the token endpoint.
+ *
+ * @group Authorization Code Grant
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ *
+ * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.1)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#CodeFlowAuth)
+ * @see [RFC 7636 - Proof Key for Code Exchange (PKCE)](https://www.rfc-editor.org/rfc/rfc7636.html#section-4)
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-access-token-request)
+ */
+export async function authorizationCodeGrantRequest(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  callbackParameters: URLSearchParams,
+  redirectUri: string,
+  codeVerifier: string,
+  options?: TokenEndpointRequestOptions,
+): Promise<Response> {
+  assertAs(as)
+  assertClient(client)
+
+  if (!branded.has(callbackParameters)) {
+    throw CodedTypeError(
+      '"callbackParameters" must be an instance of URLSearchParams obtained from "validateAuthResponse()", or "validateJwtAuthResponse()',
+      ERR_INVALID_ARG_VALUE,
+    )
+  }
+
+  assertString(redirectUri, '"redirectUri"')
+
+  const code = getURLSearchParameter(callbackParameters, 'code')
+  if (!code) {
+    throw OPE('no authorization code in "callbackParameters"', INVALID_RESPONSE)
+  }
+
+  const parameters = new URLSearchParams(options?.additionalParameters)
+  parameters.set('redirect_uri', redirectUri)
+  parameters.set('code', code)
+
+  // @ts-expect-error
+  if (codeVerifier !== _nopkce) {
+    assertString(codeVerifier, '"codeVerifier"')
+    parameters.set('code_verifier', codeVerifier)
+  }
+
+  return tokenEndpointRequest(
+    as,
+    client,
+    clientAuthentication,
+    'authorization_code',
+    parameters,
+    options,
+  )
+}
+
+interface JWTPayload {
+  readonly iss?: string
+  readonly sub?: string
+  readonly aud?: string | string[]
+  readonly jti?: string
+  readonly nbf?: number
+  readonly exp?: number
+  readonly iat?: number
+  readonly cnf?: ConfirmationClaims
+
+  readonly [claim: string]: JsonValue | undefined
+}
+
+export interface IDToken extends JWTPayload {
+  readonly iss: string
+  readonly sub: string
+  readonly aud: string | string[]
+  readonly iat: number
+  readonly exp: number
+  readonly nonce?: string
+  readonly auth_time?: number
+  readonly azp?: string
+
+  readonly [claim: string]: JsonValue | undefined
+}
+
+interface CompactJWSHeaderParameters {
+  alg: string
+  kid?: string
+  typ?: string
+  crit?: string[]
+  jwk?: JWK
+
+  [parameter: string]: JsonValue | undefined
+}
+
+interface ParsedJWT {
+  header: CompactJWSHeaderParameters
+  claims: JWTPayload
+  jwt: string
+}
+
+const jwtClaimNames = {
+  aud: 'audience',
+  c_hash: 'code hash',
+  client_id: 'client id',
+  exp: 'expiration time',
+  iat: 'issued at',
+  iss: 'issuer',
+  jti: 'jwt id',
+  nonce: 'nonce',
+  s_hash: 'state hash',
+  sub: 'subject',
+  ath: 'access token hash',
+  htm: 'http method',
+  htu: 'http uri',
+  cnf: 'confirmation',
+  auth_time: 'authentication time',
+  at_hash: 'access token hash',
+  rt_hash: 'refresh token hash',
+  'urn:openid:params:jwt:claim:auth_req_id': 'authentication request id',
+  events: 'events',
+  jwks: 'jwk set',
+}
+
+function validatePresence(
+  required: (keyof typeof jwtClaimNames)[],
+  result: Awaited<ReturnType<typeof validateJwt>>,
+) {
+  for (const claim of required) {
+    if (result.claims[claim] === undefined) {
+      throw OPE(`JWT "${claim}" (${jwtClaimNames[claim]}) claim missing`, INVALID_RESPONSE, {
+        claims: result.claims,
+      })
+    }
+  }
+  return result
+}
+
+export interface AuthorizationDetails {
+  readonly type: string
+  readonly locations?: string[]
+  readonly actions?: string[]
+  readonly datatypes?: string[]
+  readonly privileges?: string[]
+  readonly identifier?: string
+
+  readonly [parameter: string]: JsonValue | undefined
+}
+
+type Writeable<T> = { -readonly [P in keyof T]: T[P] }
+
+export interface TokenEndpointResponse {
+  readonly access_token: string
+  readonly expires_in?: number
+  readonly id_token?: string
+  readonly refresh_token?: string
+  readonly scope?: string
+  readonly authorization_details?: AuthorizationDetails[]
+  /**
+   * NOTE: because the value is case insensitive it is always returned lowercased
+   */
+  readonly token_type: 'bearer' | 'dpop' | Lowercase<string>
+
+  readonly [parameter: string]: JsonValue | undefined
+}
+
+/**
+ * Use this as a value to {@link processAuthorizationCodeResponse} `oidc.expectedNonce` parameter to
+ * indicate no `nonce` ID Token claim value is expected, i.e. no `nonce` parameter value was sent
+ * with the authorization request.
+ */
+export const expectNoNonce: unique symbol = Symbol()
+
+/**
+ * Use this as a value to {@link processAuthorizationCodeResponse} `oidc.maxAge` parameter to
+ * indicate no `auth_time` ID Token claim value check should be performed.
+ */
+export const skipAuthTimeCheck: unique symbol = Symbol()
+
+export interface ProcessAuthorizationCodeResponseOptions
+  extends JWEDecryptOptions,
+    HmacSecretOptions {
+  /**
+   * Expected ID Token `nonce` claim value. Default is {@link expectNoNonce}.
+   */
+  expectedNonce?: string | typeof expectNoNonce
+  /**
+   * ID Token {@link IDToken.auth_time `auth_time`} claim value will be checked to be present and
+   * conform to the `maxAge` value. Use of this option is required if you sent a `max_age` parameter
+   * in an authorization request. Default is {@link Client.default_max_age `client.default_max_age`}
+   * and falls back to {@link skipAuthTimeCheck}.
+   */
+  maxAge?: number | typeof skipAuthTimeCheck
+  /**
+   * When true this requires {@link TokenEndpointResponse.id_token} to be present
+   */
+  requireIdToken?: boolean
+}
+
+/**
+ * Validates Authorization Code Grant {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param response Resolved value from {@link authorizationCodeGrantRequest}.
+ *
+ * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
+ *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
+ *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
+ *
+ * @group Authorization Code Grant
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ *
+ * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.1)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#CodeFlowAuth)
+ */
+export async function processAuthorizationCodeResponse(
+  as: AuthorizationServer,
+  client: Client,
+  response: Response,
+  options?: ProcessAuthorizationCodeResponseOptions,
+): Promise<TokenEndpointResponse> {
+  if (
+    typeof options?.expectedNonce === 'string' ||
+    typeof options?.maxAge === 'number' ||
+    options?.requireIdToken
+  ) {
+    return processAuthorizationCodeOpenIDResponse(
+      as,
+      client,
+      response,
+      options.expectedNonce,
+      options.maxAge,
+      {
+        [jweDecrypt]: options[jweDecrypt],
+        [hmacSecret]: options[hmacSecret],
+      },
+    )
+  }
+
+  return processAuthorizationCodeOAuth2Response(as, client, response, options)
+}
+
+async function processAuthorizationCodeOpenIDResponse(
+  as: AuthorizationServer,
+  client: Client,
+  response: Response,
+  expectedNonce: string | typeof expectNoNonce | undefined,
+  maxAge: number | typeof skipAuthTimeCheck | undefined,
+  options: (JWEDecryptOptions & HmacSecretOptions) | undefined,
+): Promise<TokenEndpointResponse> {
+  const additionalRequiredClaims: (keyof typeof jwtClaimNames)[] = []
+
+  switch (expectedNonce) {
+    case undefined:
+      expectedNonce = expectNoNonce
+      break
+    case expectNoNonce:
+      break
+    default:
+      assertString(expectedNonce, '"expectedNonce" argument')
+      additionalRequiredClaims.push('nonce')
+  }
+
+  maxAge ??= client.default_max_age
+  switch (maxAge) {
+    case undefined:
+      maxAge = skipAuthTimeCheck
+      break
+    case skipAuthTimeCheck:
+      break
+    default:
+      assertNumber(maxAge, false, '"maxAge" argument')
+      additionalRequiredClaims.push('auth_time')
+  }
+
+  const result = await processGenericAccessTokenResponse(
+    as,
+    client,
+    response,
+    additionalRequiredClaims,
+    options,
+  )
+
+  assertString(result.id_token, '"response" body "id_token" property', INVALID_RESPONSE, {
+    body: result,
+  })
+
+  const claims = getValidatedIdTokenClaims(result)!
+  if (maxAge !== skipAuthTimeCheck) {
+    const now = epochTime() + getClockSkew(client)
+    const tolerance = getClockTolerance(client)
+    if (claims.auth_time! + maxAge < now - tolerance) {
+      throw OPE(
+        'too much time has elapsed since the last End-User authentication',
+        JWT_TIMESTAMP_CHECK,
+        { claims, now, tolerance, claim: 'auth_time' },
+      )
+    }
+  }
+
+  if (expectedNonce === expectNoNonce) {
+    if (claims.nonce !== undefined) {
+      throw OPE('unexpected ID Token "nonce" claim value', JWT_CLAIM_COMPARISON, {
+        expected: undefined,
+        claims,
+        claim: 'nonce',
+      })
+    }
+  } else if (claims.nonce !== expectedNonce) {
+    throw OPE('unexpected ID Token "nonce" claim value', JWT_CLAIM_COMPARISON, {
+      expected: expectedNonce,
+      claims,
+      claim: 'nonce',
+    })
+  }
+
+  return result
+}
+
+async function processAuthorizationCodeOAuth2Response(
+  as: AuthorizationServer,
+  client: Client,
+  response: Response,
+  options?: JWEDecryptOptions & HmacSecretOptions,
+): Promise<TokenEndpointResponse> {
+  const result = await processGenericAccessTokenResponse(as, client, response, undefined, options)
+
+  const claims = getValidatedIdTokenClaims(result)
+  if (claims) {
+    if (client.default_max_age !== undefined) {
+      assertNumber(client.default_max_age, false, '"client.default_max_age"')
+      const now = epochTime() + getClockSkew(client)
+      const tolerance = getClockTolerance(client)
+      if (claims.auth_time! + client.default_max_age < now - tolerance) {
+        throw OPE(
+          'too much time has elapsed since the last End-User authentication',
+          JWT_TIMESTAMP_CHECK,
+          { claims, now, tolerance, claim: 'auth_time' },
+        )
+      }
+    }
+
+    if (claims.nonce !== undefined) {
+      throw OPE('unexpected ID Token "nonce" claim value', JWT_CLAIM_COMPARISON, {
+        expected: undefined,
+        claims,
+        claim: 'nonce',
+      })
+    }
+  }
+
+  return result
+}
+
+/**
+ * @group Error Codes
+ *
+ * @see {@link WWWAuthenticateChallengeError}
+ */
+export const WWW_AUTHENTICATE_CHALLENGE = 'OAUTH_WWW_AUTHENTICATE_CHALLENGE'
+/**
+ * @group Error Codes
+ *
+ * @see {@link ResponseBodyError}
+ */
+export const RESPONSE_BODY_ERROR = 'OAUTH_RESPONSE_BODY_ERROR'
+/**
+ * @group Error Codes
+ *
+ * @see {@link UnsupportedOperationError}
+ */
+export const UNSUPPORTED_OPERATION = 'OAUTH_UNSUPPORTED_OPERATION'
+/**
+ * @group Error Codes
+ *
+ * @see {@link AuthorizationResponseError}
+ */
+export const AUTHORIZATION_RESPONSE_ERROR = 'OAUTH_AUTHORIZATION_RESPONSE_ERROR'
+/**
+ * Assigned as {@link OperationProcessingError.code} when a JWT UserInfo Response was expected but a
+ * regular JSON one was given instead.
+ *
+ * @group Error Codes
+ */
+export const JWT_USERINFO_EXPECTED = 'OAUTH_JWT_USERINFO_EXPECTED'
+/**
+ * Assigned as {@link OperationProcessingError.code} when the following fails to parse as JSON
+ *
+ * - JWS/JWE Headers
+ * - JSON response bodies
+ * - "claims" authorization request parameters
+ * - "authorization_details" authorization request parameters
+ *
+ * @group Error Codes
+ */
+export const PARSE_ERROR = 'OAUTH_PARSE_ERROR'
+/**
+ * Assigned as {@link OperationProcessingError.code} when authorization server responses are invalid.
+ *
+ * @group Error Codes
+ */
+export const INVALID_RESPONSE = 'OAUTH_INVALID_RESPONSE'
+/**
+ * Assigned as {@link OperationProcessingError.code} during {@link validateJwtAccessToken} when the
+ * request or its contents are invalid.
+ *
+ * @group Error Codes
+ */
+export const INVALID_REQUEST = 'OAUTH_INVALID_REQUEST'
+/**
+ * Assigned as {@link OperationProcessingError.code} during {@link validateJwtAccessToken} when a
+ * {@link ValidateJWTAccessTokenOptions.dpopNonce DPoP nonce provider} is used and the DPoP Proof
+ * does not include a valid nonce. Use {@link dpopNonceErrorResponse} to respond to the client.
+ *
+ * @group Error Codes
+ */
+export const USE_DPOP_NONCE = 'OAUTH_USE_DPOP_NONCE'
+
+/**
+ * Assigned as {@link OperationProcessingError.code} during {@link validateJwtAccessToken} when the
+ * End-User authentication does not meet the
+ * {@link ValidateJWTAccessTokenOptions.requiredAcrValues required `acr` values} or
+ * {@link ValidateJWTAccessTokenOptions.maxAuthAge maximum `auth_time` age}. Use
+ * {@link protectedResourceChallenge} to respond to the client.
+ *
+ * @group Error Codes
+ */
+export const INSUFFICIENT_USER_AUTHENTICATION = 'OAUTH_INSUFFICIENT_USER_AUTHENTICATION'
+
+/**
+ * Assigned as {@link OperationProcessingError.code} by {@link MemoryReplayCache} when it is full and
+ * cannot store the DPoP Proof `jti` claim value. {@link protectedResourceChallenge} re-throws these
+ * errors since they are not caused by the request.
+ *
+ * @group Error Codes
+ */
+export const REPLAY_CACHE_FULL = 'OAUTH_REPLAY_CACHE_FULL'
+/**
+ * Assigned as {@link OperationProcessingError.code} when a {@link !Response} does not have the
+ * expected `application/json` response-type HTTP Header.
+ *
+ * @group Error Codes
+ */
+export const RESPONSE_IS_NOT_JSON = 'OAUTH_RESPONSE_IS_NOT_JSON'
+/**
+ * Assigned as {@link OperationProcessingError.code} when a {@link !Response} does not have the
+ * expected success HTTP Status Code as defined by its specification.
+ *
+ * @group Error Codes
+ */
+export const RESPONSE_IS_NOT_CONFORM = 'OAUTH_RESPONSE_IS_NOT_CONFORM'
+/**
+ * Assigned as {@link OperationProcessingError.code} when a request is about to made to a non-TLS
+ * secured HTTP endpoint and {@link allowInsecureRequests} is not provided.
+ *
+ * @group Error Codes
+ */
+export const HTTP_REQUEST_FORBIDDEN = 'OAUTH_HTTP_REQUEST_FORBIDDEN'
+/**
+ * Assigned as {@link OperationProcessingError.code} when a request is about to made to a non-HTTP(S)
+ * endpoint.
+ *
+ * @group Error Codes
+ */
+export const REQUEST_PROTOCOL_FORBIDDEN = 'OAUTH_REQUEST_PROTOCOL_FORBIDDEN'
+/**
+ * Assigned as {@link OperationProcessingError.code} when a JWT NumericDate comparison with the
+ * current timestamp fails.
+ *
+ * @group Error Codes
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc7519.html#section-2 JSON Web Token (JWT)}
+ */
+export const JWT_TIMESTAMP_CHECK = 'OAUTH_JWT_TIMESTAMP_CHECK_FAILED'
+/**
+ * Assigned as {@link OperationProcessingError.code} when a JWT claim is not of a given expected
+ * value.
+ *
+ * @group Error Codes
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc7519.html#section-2 JSON Web Token (JWT)}
+ */
+export const JWT_CLAIM_COMPARISON = 'OAUTH_JWT_CLAIM_COMPARISON_FAILED'
+/**
+ * Assigned as {@link OperationProcessingError.code} when a {@link !Response} JSON body attribute is
+ * not of a given expected value.
+ *
+ * @group Error Codes
+ */
+export const JSON_ATTRIBUTE_COMPARISON = 'OAUTH_JSON_ATTRIBUTE_COMPARISON_FAILED'
+/**
+ * Assigned as {@link OperationProcessingError.code} when a JWT signature validation fails to select
+ * an applicable key.
+ *
+ * @group Error Codes
+ */
+export const KEY_SELECTION = 'OAUTH_KEY_SELECTION_FAILED'
+/**
+ * Assigned as {@link OperationProcessingError.code} when the AS configuration is missing metadata.
+ *
+ * @group Error Codes
+ */
+export const MISSING_SERVER_METADATA = 'OAUTH_MISSING_SERVER_METADATA'
+/**
+ * Assigned as {@link OperationProcessingError.code} when the AS configuration has invalid metadata.
+ *
+ * @group Error Codes
+ */
+export const INVALID_SERVER_METADATA = 'OAUTH_INVALID_SERVER_METADATA'
+
+function checkJwtType(expected: string, result: Awaited<ReturnType<typeof validateJwt>>) {
+  if (typeof result.header.typ !== 'string' || normalizeTyp(result.header.typ) !== expected) {
+    throw OPE('unexpected JWT "typ" header parameter value', INVALID_RESPONSE, {
+      header: result.header,
+    })
+  }
+
+  return result
+}
+
+export interface ClientCredentialsGrantRequestOptions
+  extends HttpRequestOptions<'POST', URLSearchParams>,
+    DPoPRequestOptions {}
+
+/**
+ * Performs a Client Credentials Grant request at the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param clientAuthentication Client Authentication Method.
+ *
+ * @group Client Credentials Grant
+ *
+ * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.4)
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-access-token-request)
+ */
+export async function clientCredentialsGrantRequest(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  parameters: URLSearchParams | Record<string, string> | string[][],
+  options?: ClientCredentialsGrantRequestOptions,
+): Promise<Response> {
+  assertAs(as)
+  assertClient(client)
+
+  return tokenEndpointRequest(
+    as,
+    client,
+    clientAuthentication,
+    'client_credentials',
+    new URLSearchParams(parameters),
+    options,
+  )
+}
+
+/**
+ * Performs any Grant request at the {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ * The purpose is to be able to execute grant requests such as Token Exchange Grant Type, JWT Bearer
+ * Token Grant Type, or SAML 2.0 Bearer Assertion Grant Type.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param clientAuthentication Client Authentication Method.
+ * @param grantType Grant Type.
+ *
+ * @group JWT Bearer Token Grant Type
+ * @group SAML 2.0 Bearer Assertion Grant Type
+ * @group Token Exchange Grant Type
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8693.html Token Exchange Grant Type}
+ * @see {@link https://www.rfc-editor.org/rfc/rfc7523.html#section-2.1 JWT Bearer Token Grant Type}
+ * @see {@link https://www.rfc-editor.org/rfc/rfc7522.html#section-2.1 SAML 2.0 Bearer Assertion Grant Type}
+ */
+export async function genericTokenEndpointRequest(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  grantType: string,
+  parameters: URLSearchParams | Record<string, string> | string[][],
+  options?: Omit<TokenEndpointRequestOptions, 'additionalParameters'>,
+): Promise<Response> {
+  assertAs(as)
+  assertClient(client)
+
+  assertString(grantType, '"grantType"')
+
+  return tokenEndpointRequest(
+    as,
+    client,
+    clientAuthentication,
+    grantType,
+    new URLSearchParams(parameters),
+    options,
+  )
+}
+
+/**
+ * Validates Token Endpoint {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param response Resolved value from {@link genericTokenEndpointRequest}.
+ *
+ * @group JWT Bearer Token Grant Type
+ * @group SAML 2.0 Bearer Assertion Grant Type
+ * @group Token Exchange Grant Type
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8693.html Token Exchange Grant Type}
+ * @see {@link https://www.rfc-editor.org/rfc/rfc7523.html#section-2.1 JWT Bearer Token Grant Type}
+ * @see {@link https://www.rfc-editor.org/rfc/rfc7522.html#section-2.1 SAML 2.0 Bearer Assertion Grant Type}
+ */
+export async function processGenericTokenEndpointResponse(
+  as: AuthorizationServer,
+  client: Client,
+  response: Response,
+  options?: JWEDecryptOptions,
+): Promise<TokenEndpointResponse> {
+  return processGenericAccessTokenResponse(as, client, response, undefined, options)
+}
+
+/**
+ * Token Type Identifiers from the
+ * {@link https://www.iana.org/assignments/oauth-parameters/oauth-parameters.xhtml#uri OAuth URI IANA registry}
+ * usable with the Token Exchange Grant Type. Any other absolute URI may be used as well.
+ */
+export type TokenTypeIdentifier =
+  | 'urn:ietf:params:oauth:token-type:access_token'
+  | 'urn:ietf:params:oauth:token-type:refresh_token'
+  | 'urn:ietf:params:oauth:token-type:id_token'
+  | 'urn:ietf:params:oauth:token-type:saml1'
+  | 'urn:ietf:params:oauth:token-type:saml2'
+  | 'urn:ietf:params:oauth:token-type:jwt'
+
+export interface TokenExchangeParameters {
+  /**
+   * Security token that represents the identity of the party on behalf of whom the request is being
+   * made.
+   */
+  subject_token: string
+  /**
+   * Identifier that indicates the type of the security token in the `subject_token` parameter.
+   */
+  subject_token_type: TokenTypeIdentifier | string
+  /**
+   * Security token that represents the identity of the acting party.
+   */
+  actor_token?: string
+  /**
+   * Identifier that indicates the type of the security token in the `actor_token` parameter. It is
+   * required when `actor_token` is present and must not be used otherwise.
+   */
+  actor_token_type?: TokenTypeIdentifier | string
+  /**
+   * Identifier for the type of the requested security token.
+   */
+  requested_token_type?: TokenTypeIdentifier | string
+  /**
+   * URI(s) that indicate the target service(s) or resource(s) where the client intends to use the
+   * requested security token.
+   */
+  resource?: string | string[]
+  /**
+   * Logical name(s) of the target service(s) where the client intends to use the requested security
+   * token.
+   */
+  audience?: string | string[]
+  /**
+   * Space-delimited list of scopes the client is requesting.
+   */
+  scope?: string
+}
+
+/**
+ * Performs a Token Exchange Grant request at the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * @example
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let clientAuth!: oauth.ClientAuth
+ * let subjectToken!: string
+ *
+ * let response = await oauth.tokenExchangeGrantRequest(as, client, clientAuth, {
+ *   subject_token: subjectToken,
+ *   subject_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+ *   audience: 'urn:example:cooperation-context',
+ * })
+ *
+ * let result = await oauth.processTokenExchangeResponse(as, client, response)
+ * ```
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param clientAuthentication Client Authentication Method.
+ * @param parameters Token Exchange Request parameters.
+ *
+ * @group Token Exchange Grant Type
+ *
+ * @see [RFC 8693 - OAuth 2.0 Token Exchange](https://www.rfc-editor.org/rfc/rfc8693.html#section-2.1)
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-access-token-request)
+ */
+export async function tokenExchangeGrantRequest(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  parameters: TokenExchangeParameters,
+  options?: TokenEndpointRequestOptions,
+): Promise<Response> {
+  assertAs(as)
+  assertClient(client)
+
+  if (!isJsonObject<TokenExchangeParameters>(parameters)) {
+    throw CodedTypeError('"parameters" must be an object', ERR_INVALID_ARG_TYPE)
+  }
+
+  assertString(parameters.subject_token, '"parameters.subject_token"')
+  assertString(parameters.subject_token_type, '"parameters.subject_token_type"')
+
+  const body = new URLSearchParams(options?.additionalParameters)
+  body.set('subject_token', parameters.subject_token)
+  body.set('subject_token_type', parameters.subject_token_type)
+
+  if (parameters.actor_token !== undefined) {
+    assertString(parameters.actor_token, '"parameters.actor_token"')
+    assertString(parameters.actor_token_type, '"parameters.actor_token_type"')
+    body.set('actor_token', parameters.actor_token)
+    body.set('actor_token_type', parameters.actor_token_type)
+  } else if (parameters.actor_token_type !== undefined) {
+    throw CodedTypeError(
+      '"parameters.actor_token_type" must not be used without "parameters.actor_token"',
+      ERR_INVALID_ARG_VALUE,
+    )
+  }
+
+  if (parameters.requested_token_type !== undefined) {
+    assertString(parameters.requested_token_type, '"parameters.requested_token_type"')
+    body.set('requested_token_type', parameters.requested_token_type)
+  }
+
+  if (parameters.scope !== undefined) {
+    assertString(parameters.scope, '"parameters.scope"')
+    body.set('scope', parameters.scope)
+  }
+
+  for (const parameter of ['resource', 'audience'] as const) {
+    const value = parameters[parameter]
+    if (value === undefined) {
+      continue
+    }
+    body.delete(parameter)
+    for (const item of Array.isArray(value) ? value : [value]) {
+      assertString(item, `"parameters.${parameter}"`)
+      body.append(parameter, item)
+    }
+  }
+
+  return tokenEndpointRequest(
+    as,
+    client,
+    clientAuthentication,
+    'urn:ietf:params:oauth:grant-type:token-exchange',
+    body,
+    options,
+  )
+}
+
+export interface TokenExchangeResponse extends TokenEndpointResponse {
+  /**
+   * Identifier for the representation of the issued security token.
+   */
+  readonly issued_token_type: TokenTypeIdentifier | string
+  /**
+   * NOTE: because the value is case insensitive it is always returned lowercased. `n_a` is used
+   * when the issued token is not an access token.
+   */
+  readonly token_type: 'bearer' | 'dpop' | 'n_a' | Lowercase<string>
+}
+
+/**
+ * Validates Token Exchange Grant {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * Unlike the other grant response processing functions this one also accepts the `N_A` token type
+ * used when the issued token is not an access token.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param response Resolved value from {@link tokenExchangeGrantRequest}.
+ *
+ * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
+ *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
+ *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
+ *
+ * @group Token Exchange Grant Type
+ *
+ * @see [RFC 8693 - OAuth 2.0 Token Exchange](https://www.rfc-editor.org/rfc/rfc8693.html#section-2.2)
+ */
+export async function processTokenExchangeResponse(
+  as: AuthorizationServer,
+  client: Client,
+  response: Response,
+  options?: JWEDecryptOptions,
+): Promise<TokenExchangeResponse> {
+  const result = await processGenericAccessTokenResponse(as, client, response, undefined, options, [
+    'bearer',
+    'dpop',
+    'n_a',
+  ])
+
+  assertString(
+    result.issued_token_type,
+    '"response" body "issued_token_type" property',
+    INVALID_RESPONSE,
+    { body: result },
+  )
+
+  return result as TokenExchangeResponse
+}
+
+export interface JWTBearerGrantRequestOptions
+  extends TokenEndpointRequestOptions,
+    ModifyAssertionOptions {
+  /**
+   * Value of the `sub` (subject) claim of the assertion signed by this function. Default is
+   * {@link Client.client_id `client.client_id`}.
+   *
+   * Only used when the assertion is signed by {@link jwtBearerGrantRequest}.
+   */
+  subject?: string
+  /**
+   * Value of the `aud` (audience) claim of the assertion signed by this function. Default is
+   * {@link AuthorizationServer.issuer `as.issuer`}.
+   *
+   * Only used when the assertion is signed by {@link jwtBearerGrantRequest}.
+   */
+  audience?: string | string[]
+  /**
+   * Lifetime of the assertion signed by this function in seconds. Default is 60.
+   *
+   * Only used when the assertion is signed by {@link jwtBearerGrantRequest}.
+   */
+  lifetime?: number
+  /**
+   * Additional claims to include in the assertion signed by this function. These cannot override
+   * the `iss`, `sub`, `aud`, `exp`, `iat`, `nbf`, or `jti` claims, use {@link modifyAssertion} for
+   * that.
+   *
+   * Only used when the assertion is signed by {@link jwtBearerGrantRequest}.
+   */
+  claims?: Record<string, JsonValue>
+}
+
+/**
+ * Performs a JWT Bearer Authorization Grant request at the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * The `assertion` is either a pre-built JWT or a private key used to sign a new one. When signed by
+ * this function the assertion's `iss` is {@link Client.client_id `client.client_id`}, `sub`, `aud`,
+ * lifetime, and additional claims are configurable using `options`.
+ *
+ * @example
+ *
+ * Using a private key
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let clientAuth!: oauth.ClientAuth
+ * let key!: oauth.CryptoKey | oauth.PrivateKey
+ *
+ * let response = await oauth.jwtBearerGrantRequest(as, client, clientAuth, key, {
+ *   subject: 'user@example.com',
+ *   additionalParameters: { scope: 'api:read' },
+ * })
+ *
+ * let result = await oauth.processJwtBearerResponse(as, client, response)
+ * ```
+ *
+ * @example
+ *
+ * Using a pre-built assertion
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let clientAuth!: oauth.ClientAuth
+ * let assertion!: string
+ *
+ * let response = await oauth.jwtBearerGrantRequest(as, client, clientAuth, assertion)
+ *
+ * let result = await oauth.processJwtBearerResponse(as, client, response)
+ * ```
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param clientAuthentication Client Authentication Method.
+ * @param assertion Pre-built JWT assertion or a private key to sign one with.
+ *
+ * @group JWT Bearer Token Grant Type
+ *
+ * @see [RFC 7523 - JSON Web Token (JWT) Profile for OAuth 2.0 Client Authentication and Authorization Grants](https://www.rfc-editor.org/rfc/rfc7523.html#section-2.1)
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-access-token-request)
+ */
+export async function jwtBearerGrantRequest(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  assertion: string | CryptoKey | PrivateKey | Signer,
+  options?: JWTBearerGrantRequestOptions,
+): Promise<Response> {
+  assertAs(as)
+  assertClient(client)
+
+  if (typeof assertion !== 'string') {
+    assertion = await jwtBearerAssertion(as, client, assertion, options)
+  }
+
+  assertString(assertion, '"assertion"')
+
+  const body = new URLSearchParams(options?.additionalParameters)
+  body.set('assertion', assertion)
+
+  return tokenEndpointRequest(
+    as,
+    client,
+    clientAuthentication,
+    'urn:ietf:params:oauth:grant-type:jwt-bearer',
+    body,
+    options,
+  )
+}
+
+async function jwtBearerAssertion(
+  as: AuthorizationServer,
+  client: Client,
+  privateKey: CryptoKey | PrivateKey | Signer,
+  options?: JWTBearerGrantRequestOptions,
+) {
+  const { key, kid } = getSigningKeyAndKid(privateKey)
+  assertSigningKey(key, '"assertion.key"')
+
+  const lifetime = options?.lifetime ?? 60
+  assertNumber(lifetime, false, '"options.lifetime"')
+
+  const subject = options?.subject ?? client.client_id
+  assertString(subject, '"options.subject"')
+
+  const audience = options?.audience ?? as.issuer
+  for (const aud of Array.isArray(audience) ? audience : [audience]) {
+    assertString(aud, '"options.audience"')
+  }
+
+  if (options?.claims !== undefined && !isJsonObject(options.claims)) {
+    throw CodedTypeError('"options.claims" must be an object', ERR_INVALID_ARG_TYPE)
+  }
+
+  const now = epochTime() + getClockSkew(client)
+  const header = { alg: signingAlg(key), kid }
+  const payload: Record<string, JsonValue> = {
+    ...options?.claims,
+    jti: randomBytes(),
+    aud: audience,
+    exp: now + lifetime,
+    iat: now,
+    nbf: now,
+    iss: client.client_id,
+    sub: subject,
+  }
+
+  options?.[modifyAssertion]?.(header, payload)
+
+  return signJwt(header, payload, key)
+}
+
+/**
+ * Validates JWT Bearer Grant {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param response Resolved value from {@link jwtBearerGrantRequest}.
+ *
+ * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
+ *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
+ *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
+ *
+ * @group JWT Bearer Token Grant Type
+ *
+ * @see [RFC 7523 - JSON Web Token (JWT) Profile for OAuth 2.0 Client Authentication and Authorization Grants](https://www.rfc-editor.org/rfc/rfc7523.html#section-2.1)
+ */
+export async function processJwtBearerResponse(
+  as: AuthorizationServer,
+  client: Client,
+  response: Response,
+  options?: JWEDecryptOptions,
+): Promise<TokenEndpointResponse> {
+  return processGenericAccessTokenResponse(as, client, response, undefined, options)
+}
+
+/**
+ * Validates Client Credentials Grant {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param response Resolved value from {@link clientCredentialsGrantRequest}.
+ *
+ * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
+ *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
+ *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
+ *
+ * @group Client Credentials Grant
+ *
+ * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.4)
+ */
+export async function processClientCredentialsResponse(
+  as: AuthorizationServer,
+  client: Client,
+  response: Response,
+  options?: JWEDecryptOptions,
+): Promise<TokenEndpointResponse> {
+  return processGenericAccessTokenResponse(as, client, response, undefined, options)
+}
+
+export interface RevocationRequestOptions extends HttpRequestOptions<'POST', URLSearchParams> {
+  /**
+   * Any additional parameters to send. This cannot override existing parameter values.
+   */
+  additionalParameters?: URLSearchParams | Record<string, string> | string[][]
+}
+
+/**
+ * Performs a Revocation Request at the
+ * {@link AuthorizationServer.revocation_endpoint `as.revocation_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param clientAuthentication Client Authentication Method.
+ * @param token Token to revoke. You can provide the `token_type_hint` parameter via
+ *   {@link RevocationRequestOptions.additionalParameters options}.
+ *
+ * @group Token Revocation
+ *
+ * @see [RFC 7009 - OAuth 2.0 Token Revocation](https://www.rfc-editor.org/rfc/rfc7009.html#section-2)
+ */
+export async function revocationRequest(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  token: string,
+  options?: RevocationRequestOptions,
+): Promise<Response> {
+  assertAs(as)
+  assertClient(client)
+
+  assertString(token, '"token"')
+
+  const url = resolveEndpoint(
+    as,
+    'revocation_endpoint',
+    client.use_mtls_endpoint_aliases,
+    options?.[allowInsecureRequests] !== true,
+  )
+
+  const body = new URLSearchParams(options?.additionalParameters)
+  body.set('token', token)
+
+  const headers = prepareHeaders(options?.headers)
+  headers.delete('accept')
+
+  return authenticatedRequest(as, client, clientAuthentication, url, body, headers, options)
+}
+
+/**
+ * Validates {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.revocation_endpoint `as.revocation_endpoint`}.
+ *
+ * @param response Resolved value from {@link revocationRequest}.
+ *
+ * @returns Resolves with `undefined` when the request was successful, or an object representing an
+ *   OAuth 2.0 protocol style error.
+ *
+ * @group Token Revocation
+ *
+ * @see [RFC 7009 - OAuth 2.0 Token Revocation](https://www.rfc-editor.org/rfc/rfc7009.html#section-2)
+ */
+export async function processRevocationResponse(response: Response): Promise<undefined> {
+  if (!looseInstanceOf(response, Response)) {
+    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
+  }
+
+  let challenges: WWWAuthenticateChallenge[] | undefined
+  if ((challenges = parseWwwAuthenticateChallenges(response))) {
+    throw new WWWAuthenticateChallengeError(
+      'server responded with a challenge in the WWW-Authenticate HTTP Header',
+      { cause: challenges, response },
+    )
+  }
+
+  if (response.status !== 200) {
+    let err: OAuth2Error | undefined
+    if ((err = await handleOAuthBodyError(response))) {
+      await response.body?.cancel()
+      throw new ResponseBodyError('server responded with an error in the response body', {
+        cause: err,
+        response,
+      })
+    }
+    throw OPE(
+      '"response" is not a conform Revocation Endpoint response (unexpected HTTP status code)',
+      RESPONSE_IS_NOT_CONFORM,
+      response,
+    )
+  }
+
+  return undefined
+}
+
+export interface IntrospectionRequestOptions extends HttpRequestOptions<'POST', URLSearchParams> {
+  /**
+   * Any additional parameters to send. This cannot override existing parameter values.
+   */
+  additionalParameters?: URLSearchParams | Record<string, string> | string[][]
+  /**
+   * Request a JWT Response from the
+   * {@link AuthorizationServer.introspection_endpoint `as.introspection_endpoint`}. Default is
+   *
+   * - True when
+   *   {@link Client.introspection_signed_response_alg `client.introspection_signed_response_alg`} is
+   *   set
+   * - False otherwise
+   */
+  requestJwtResponse?: boolean
+}
+
+function assertReadableResponse(response: Response): void {
+  if (response.bodyUsed) {
+    throw CodedTypeError('"response" body has been used already', ERR_INVALID_ARG_VALUE)
+  }
+}
+
+/**
+ * Performs an Introspection Request at the
+ * {@link AuthorizationServer.introspection_endpoint `as.introspection_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param clientAuthentication Client Authentication Method.
+ * @param token Token to introspect. You can provide the `token_type_hint` parameter via
+ *   {@link IntrospectionRequestOptions.additionalParameters options}.
+ *
+ * @group Token Introspection
+ *
+ * @see [RFC 7662 - OAuth 2.0 Token Introspection](https://www.rfc-editor.org/rfc/rfc7662.html#section-2)
+ * @see [draft-ietf-oauth-jwt-introspection-response-12 - JWT Response for OAuth Token Introspection](https://www.ietf.org/archive/id/draft-ietf-oauth-jwt-introspection-response-12.html#section-4)
+ */
+export async function introspectionRequest(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  token: string,
+  options?: IntrospectionRequestOptions,
+): Promise<Response> {
+  assertAs(as)
+  assertClient(client)
+
+  assertString(token, '"token"')
+
+  const url = resolveEndpoint(
+    as,
+    'introspection_endpoint',
+    client.use_mtls_endpoint_aliases,
+    options?.[allowInsecureRequests] !== true,
+  )
+
+  const body = new URLSearchParams(options?.additionalParameters)
+  body.set('token', token)
+  const headers = prepareHeaders(options?.headers)
+  if (options?.requestJwtResponse ?? client.introspection_signed_response_alg) {
+    headers.set('accept', 'application/token-introspection+jwt')
+  } else {
+    headers.set('accept', 'application/json')
+  }
+
+  return authenticatedRequest(as, client, clientAuthentication, url, body, headers, options)
+}
+
+export interface ConfirmationClaims {
+  readonly 'x5t#S256'?: string
+  readonly jkt?: string
+
+  readonly [claim: string]: JsonValue | undefined
+}
+
+export interface IntrospectionResponse {
+  readonly active: boolean
+  readonly client_id?: string
+  readonly exp?: number
+  readonly iat?: number
+  readonly sid?: string
+  readonly iss?: string
+  readonly jti?: string
+  readonly username?: string
+  readonly aud?: string | string[]
+  readonly scope?: string
+  readonly sub?: string
+  readonly nbf?: number
+  readonly token_type?: string
+  readonly cnf?: ConfirmationClaims
+  readonly authorization_details?: AuthorizationDetails[]
+
+  readonly [claim: string]: JsonValue | undefined
+}
+
+/**
+ * Validates {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.introspection_endpoint `as.introspection_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param response Resolved value from {@link introspectionRequest}.
+ *
+ * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
+ *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
+ *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
+ *
+ * @group Token Introspection
+ *
+ * @see [RFC 7662 - OAuth 2.0 Token Introspection](https://www.rfc-editor.org/rfc/rfc7662.html#section-2)
+ * @see [draft-ietf-oauth-jwt-introspection-response-12 - JWT Response for OAuth Token Introspection](https://www.ietf.org/archive/id/draft-ietf-oauth-jwt-introspection-response-12.html#section-5)
+ */
+export async function processIntrospectionResponse(
+  as: AuthorizationServer,
+  client: Client,
+  response: Response,
+  options?: JWEDecryptOptions,
+): Promise<IntrospectionResponse> {
+  assertAs(as)
+  assertClient(client)
+
+  if (!looseInstanceOf(response, Response)) {
+    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
+  }
+
+  let challenges: WWWAuthenticateChallenge[] | undefined
+  if ((challenges = parseWwwAuthenticateChallenges(response))) {
+    throw new WWWAuthenticateChallengeError(
+      'server responded with a challenge in the WWW-Authenticate HTTP Header',
+      { cause: challenges, response },
+    )
+  }
+
+  if (response.status !== 200) {
+    let err: OAuth2Error | undefined
+    if ((err = await handleOAuthBodyError(response))) {
+      await response.body?.cancel()
+      throw new ResponseBodyError('server responded with an error in the response body', {
+        cause: err,
+        response,
+      })
+    }
+    throw OPE(
+      '"response" is not a conform Introspection Endpoint response (unexpected HTTP status code)',
+      RESPONSE_IS_NOT_CONFORM,
+      response,
+    )
+  }
+
+  let json: JsonValue
+  if (getContentType(response) === 'application/token-introspection+jwt') {
+    assertReadableResponse(response)
+    const { claims, jwt } = await validateJwt(
+      await response.text(),
+      checkSigningAlgorithm.bind(
+        undefined,
+        client.introspection_signed_response_alg,
+        as.introspection_signing_alg_values_supported,
+        'RS256',
+      ),
+      getClockSkew(client),
+      getClockTolerance(client),
+      options?.[jweDecrypt],
+    )
+      .then(checkJwtType.bind(undefined, 'token-introspection+jwt'))
+      .then(validatePresence.bind(undefined, ['aud', 'iat', 'iss']))
+      .then(validateIssuer.bind(undefined, as))
+      .then(validateAudience.bind(undefined, client.client_id))
+
+    jwtRefs.set(response, jwt)
+    json = claims.token_introspection as JsonValue
+    if (!isJsonObject(json)) {
+      throw OPE('JWT "token_introspection" claim must be a JSON object', INVALID_RESPONSE, {
+        claims,
+      })
+    }
+  } else {
+    assertReadableResponse(response)
+    assertApplicationJson(response)
+    try {
+      json = await response.json()
+    } catch (cause) {
+      throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
+    }
+    if (!isJsonObject(json)) {
+      throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
+    }
+  }
+
+  if (typeof json.active !== 'boolean') {
+    throw OPE('"response" body "active" property must be a boolean', INVALID_RESPONSE, {
+      body: json,
+    })
+  }
+
+  return json as IntrospectionResponse
+}
+
+async function jwksRequest(
+  as: AuthorizationServer,
+  options?: HttpRequestOptions<'GET'>,
+): Promise<Response> {
+  assertAs(as)
+
+  const url = resolveEndpoint(as, 'jwks_uri', false, options?.[allowInsecureRequests] !== true)
+
+  const headers = prepareHeaders(options?.headers)
+  headers.set('accept', 'application/json')
+  headers.append('accept', 'application/jwk-set+json')
+
+  return (options?.[customFetch] || fetch)(url.href, {
+    body: undefined,
+    headers: Object.fromEntries(headers.entries()),
+    method: 'GET',
+    redirect: 'manual',
+    signal: options?.signal ? signal(options.signal) : undefined,
+  })
+}
+
+export interface JWKS {
+  readonly keys: JWK[]
+}
+
+async function processJwksResponse(response: Response): Promise<JWKS> {
+  if (!looseInstanceOf(response, Response)) {
+    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
+  }
+
+  if (response.status !== 200) {
+    throw OPE(
+      '"response" is not a conform JSON Web Key Set response (unexpected HTTP status code)',
+      RESPONSE_IS_NOT_CONFORM,
+      response,
+    )
+  }
+
+  assertReadableResponse(response)
+  assertContentTypes(response, 'application/json', 'application/jwk-set+json')
+  let json: JsonValue
+  try {
+    json = await response.json()
+  } catch (cause) {
+    throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
+  }
+
+  if (!isJsonObject<JWKS>(json)) {
+    throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
+  }
+
+  if (!Array.isArray(json.keys)) {
+    throw OPE('"response" body "keys" property must be an array', INVALID_RESPONSE, { body: json })
+  }
+
+  if (!Array.prototype.every.call(json.keys, isJsonObject)) {
+    throw OPE(
+      '"response" body "keys" property members must be JWK formatted objects',
+      INVALID_RESPONSE,
+      { body: json },
+    )
+  }
+
+  return json
+}
+
+async function handleOAuthBodyError(response: Response): Promise<OAuth2Error | undefined> {
+  if (response.status > 399 && response.status < 500) {
+    assertReadableResponse(response)
+    assertApplicationJson(response)
+    try {
+      const json: JsonValue = await response.clone().json()
+      if (isJsonObject<OAuth2Error>(json) && typeof json.error === 'string' && json.error.length) {
+        return json
+      }
+    } catch {}
+  }
+  return undefined
+}
+
+function supported(alg: string) {
+  switch (alg) {
+    case 'PS256':
+    case 'ES256':
+    case 'RS256':
+    case 'PS384':
+    case 'ES384':
+    case 'RS384':
+    case 'PS512':
+    case 'ES512':
+    case 'RS512':
+    case 'Ed25519':
+    case 'EdDSA':
+      return true
+    default:
+      return false
+  }
+}
+
+function checkSupportedJwsAlg(header: CompactJWSHeaderParameters) {
+  if (!supported(header.alg)) {
+    throw new UnsupportedOperationError('unsupported JWS "alg" identifier', {
+      cause: { alg: header.alg },
+    })
+  }
+}
+
+function checkRsaKeyAlgorithm(key: CryptoKey) {
+  const { algorithm } = key as CryptoKey & { algorithm: RsaHashedKeyAlgorithm }
+  if (typeof algorithm.modulusLength !== 'number' || algorithm.modulusLength < 2048) {
+    throw new UnsupportedOperationError(`unsupported ${algorithm.name} modulusLength`, {
+      cause: key,
+    })
+  }
+}
+
+function ecdsaHashName(key: CryptoKey) {
+  const { algorithm } = key as CryptoKey & { algorithm: EcKeyAlgorithm }
+  switch (algorithm.namedCurve) {
+    case 'P-256':
+      return 'SHA-256'
+    case 'P-384':
+      return 'SHA-384'
+    case 'P-521':
+      return 'SHA-512'
+    default:
+      throw new UnsupportedOperationError('unsupported ECDSA namedCurve', { cause: key })
+  }
+}
+
+function keyToSubtle(key: CryptoKey): AlgorithmIdentifier | RsaPssParams | EcdsaParams {
+  switch (key.algorithm.name) {
+    case 'ECDSA':
+      return {
+        name: key.algorithm.name,
+        hash: ecdsaHashName(key),
+      } as EcdsaParams
+    case 'RSA-PSS': {
+      checkRsaKeyAlgorithm(key)
+      switch ((key.algorithm as RsaHashedKeyAlgorithm).hash.name) {
+        case 'SHA-256': // Fall through
+        case 'SHA-384': // Fall through
+        case 'SHA-512':
+          return {
+            name: key.algorithm.name,
+            saltLength:
+              parseInt((key.algorithm as RsaHashedKeyAlgorithm).hash.name.slice(-3), 10) >> 3,
+          } as RsaPssParams
+        default:
+          throw new UnsupportedOperationError('unsupported RSA-PSS hash name', { cause: key })
+      }
+    }
+    case 'RSASSA-PKCS1-v1_5':
+      checkRsaKeyAlgorithm(key)
+      return key.algorithm.name
+    case 'Ed25519': // Fall through
+    case 'EdDSA': // Fall through
+    case 'HMAC':
+      return key.algorithm.name
+  }
+  throw new UnsupportedOperationError('unsupported CryptoKey algorithm name', { cause: key })
+}
+
+async function validateJwsSignature(
+  protectedHeader: string,
+  payload: string,
+  key: CryptoKey,
+  signature: Uint8Array,
+) {
+  const data = buf(`${protectedHeader}.${payload}`)
+  const algorithm = keyToSubtle(key)
+  const verified = await crypto.subtle.verify(algorithm, key, signature, data)
+  if (!verified) {
+    throw OPE('JWT signature verification failed', INVALID_RESPONSE, {
+      key,
+      data,
+      signature,
+      algorithm,
+    })
+  }
+}
+
+export type JweDecryptFunction = (jwe: string) => Promise<string>
+
+export interface JweDecryptAlgorithmOptions {
+  /**
+   * Allowed JWE `alg` (Key Management) Algorithm identifiers. Default is to allow all the supported
+   * ones.
+   */
+  keyManagementAlgorithms?: string[]
+  /**
+   * Allowed JWE `enc` (Content Encryption) Algorithm identifiers. Default is to allow all the
+   * supported ones.
+   */
+  contentEncryptionAlgorithms?: string[]
+}
+
+interface CompactJWEHeaderParameters {
+  alg: string
+  enc: string
+  kid?: string
+  epk?: JWK
+  apu?: string
+  apv?: string
+  zip?: string
+  cty?: string
+  crit?: string[]
+
+  [parameter: string]: JsonValue | undefined
+}
+
+function concat(...buffers: Uint8Array[]) {
+  const result = new Uint8Array(buffers.reduce((acc, { byteLength }) => acc + byteLength, 0))
+  let i = 0
+  for (const buffer of buffers) {
+    result.set(buffer, i)
+    i += buffer.byteLength
+  }
+  return result
+}
+
+function uint32be(value: number) {
+  const result = new Uint8Array(4)
+  new DataView(result.buffer).setUint32(0, value)
+  return result
+}
+
+function uint64be(value: number) {
+  const result = new Uint8Array(8)
+  const view = new DataView(result.buffer)
+  view.setUint32(0, Math.floor(value / 0x100000000))
+  view.setUint32(4, value % 0x100000000)
+  return result
+}
+
+function lengthAndInput(input: Uint8Array) {
+  return concat(uint32be(input.byteLength), input)
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array) {
+  if (a.byteLength !== b.byteLength) {
+    return false
+  }
+  let out = 0
+  for (let i = 0; i < a.byteLength; i++) {
+    out |= a[i] ^ b[i]
+  }
+  return out === 0
+}
+
+function cekBitLength(enc: string) {
+  switch (enc) {
+    case 'A128GCM':
+      return 128
+    case 'A192GCM':
+      return 192
+    case 'A256GCM':
+    case 'A128CBC-HS256':
+      return 256
+    case 'A192CBC-HS384':
+      return 384
+    case 'A256CBC-HS512':
+      return 512
+    default:
+      throw new UnsupportedOperationError('unsupported JWE "enc" (encryption algorithm)', {
+        cause: { enc },
+      })
+  }
+}
+
+function jweKeyMatches(header: CompactJWEHeaderParameters, key: CryptoKey) {
+  switch (header.alg) {
+    case 'RSA-OAEP': // Fall through
+    case 'RSA-OAEP-256': // Fall through
+    case 'RSA-OAEP-384': // Fall through
+    case 'RSA-OAEP-512':
+      return (
+        key.algorithm.name === 'RSA-OAEP' &&
+        (key.algorithm as RsaHashedKeyAlgorithm).hash.name ===
+          (header.alg === 'RSA-OAEP' ? 'SHA-1' : `SHA-${header.alg.slice(-3)}`) &&
+        key.usages.includes('decrypt')
+      )
+    case 'ECDH-ES': // Fall through
+    case 'ECDH-ES+A128KW': // Fall through
+    case 'ECDH-ES+A192KW': // Fall through
+    case 'ECDH-ES+A256KW':
+      if (!key.usages.includes('deriveBits') || !isJsonObject<JWK>(header.epk)) {
+        return false
+      }
+      switch (key.algorithm.name) {
+        case 'ECDH':
+          return (
+            header.epk.kty === 'EC' &&
+            header.epk.crv === (key.algorithm as EcKeyAlgorithm).namedCurve
+          )
+        case 'X25519':
+          return header.epk.kty === 'OKP' && header.epk.crv === 'X25519'
+        default:
+          return false
+      }
+    default:
+      throw new UnsupportedOperationError('unsupported JWE "alg" (algorithm)', {
+        cause: { alg: header.alg },
+      })
+  }
+}
+
+async function concatKdf(secret: Uint8Array, bits: number, otherInfo: Uint8Array) {
+  const iterations = Math.ceil((bits >> 3) / 32)
+  const result = new Uint8Array(iterations * 32)
+  for (let iter = 0; iter < iterations; iter++) {
+    const digest = await crypto.subtle.digest(
+      'SHA-256',
+      concat(uint32be(iter + 1), secret, otherInfo),
+    )
+    result.set(new Uint8Array(digest), iter * 32)
+  }
+  return result.slice(0, bits >> 3)
+}
+
+async function importEcdhPublicKey(jwk: JWK, algorithm: KeyAlgorithm) {
+  const { kty, crv, x, y } = jwk
+  if (algorithm.name === 'X25519') {
+    return crypto.subtle.importKey('jwk', { kty, crv, x }, 'X25519', false, [])
+  }
+  const { namedCurve } = algorithm as EcKeyAlgorithm
+  return crypto.subtle.importKey('jwk', { kty, crv, x, y }, { name: 'ECDH', namedCurve }, false, [])
+}
+
+async function ecdhEsDerive(
+  header: Pick<CompactJWEHeaderParameters, 'apu' | 'apv'>,
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  algorithmId: string,
+  bits: number,
+) {
+  const length =
+    privateKey.algorithm.name === 'X25519'
+      ? 256
+      : Math.ceil(
+          parseInt((privateKey.algorithm as EcKeyAlgorithm).namedCurve.slice(-3), 10) / 8,
+        ) << 3
+
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: privateKey.algorithm.name, public: publicKey },
+      privateKey,
+      length,
+    ),
+  )
+
+  const otherInfo = concat(
+    lengthAndInput(buf(algorithmId)),
+    lengthAndInput(header.apu !== undefined ? b64u(header.apu) : new Uint8Array()),
+    lengthAndInput(header.apv !== undefined ? b64u(header.apv) : new Uint8Array()),
+    uint32be(bits),
+  )
+
+  return concatKdf(sharedSecret, bits, otherInfo)
+}
+
+async function decryptCek(
+  header: CompactJWEHeaderParameters,
+  key: CryptoKey,
+  encryptedKey: Uint8Array,
+): Promise<Uint8Array> {
+  const { alg, enc } = header
+  switch (alg) {
+    case 'ECDH-ES':
+      if (encryptedKey.byteLength !== 0) {
+        throw OPE('JWE "encrypted_key" must be empty when using ECDH-ES', INVALID_RESPONSE)
+      }
+      return ecdhEsDerive(
+        header,
+        key,
+        await importEcdhPublicKey(header.epk!, key.algorithm),
+        enc,
+        cekBitLength(enc),
+      )
+    case 'ECDH-ES+A128KW': // Fall through
+    case 'ECDH-ES+A192KW': // Fall through
+    case 'ECDH-ES+A256KW': {
+      const kek = await crypto.subtle.importKey(
+        'raw',
+        await ecdhEsDerive(
+          header,
+          key,
+          await importEcdhPublicKey(header.epk!, key.algorithm),
+          alg,
+          parseInt(alg.slice(-5, -2), 10),
+        ),
+        'AES-KW',
+        false,
+        ['unwrapKey'],
+      )
+      const cek = await crypto.subtle.unwrapKey(
+        'raw',
+        encryptedKey,
+        kek,
+        'AES-KW',
+        { name: 'HMAC', hash: 'SHA-256' },
+        true,
+        ['sign'],
+      )
+      return new Uint8Array(await crypto.subtle.exportKey('raw', cek))
+    }
+    default: {
+      // a random CEK is used when the unwrap fails so that RSA-OAEP padding errors cannot be told
+      // apart from a failed content decryption
+      const bits = cekBitLength(enc)
+      try {
+        const cek = new Uint8Array(
+          await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, key, encryptedKey),
+        )
+        if (cek.byteLength << 3 === bits) {
+          return cek
+        }
+      } catch {}
+      return crypto.getRandomValues(new Uint8Array(bits >> 3))
+    }
+  }
+}
+
+async function decryptContent(
+  enc: string,
+  cek: Uint8Array,
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+  tag: Uint8Array,
+  aad: Uint8Array,
+) {
+  if (cek.byteLength << 3 !== cekBitLength(enc)) {
+    throw OPE('invalid JWE Content Encryption Key length', INVALID_RESPONSE)
+  }
+
+  if (enc.endsWith('GCM')) {
+    const key = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['decrypt'])
+    return crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: aad, tagLength: 128 },
+      key,
+      concat(ciphertext, tag),
+    )
+  }
+
+  const keySize = parseInt(enc.slice(-3), 10)
+  const macKey = await crypto.subtle.importKey(
+    'raw',
+    cek.subarray(0, keySize >> 4),
+    { name: 'HMAC', hash: `SHA-${keySize}` },
+    false,
+    ['sign'],
+  )
+  const mac = new Uint8Array(
+    await crypto.subtle.sign(
+      'HMAC',
+      macKey,
+      concat(aad, iv, ciphertext, uint64be(aad.byteLength << 3)),
+    ),
+  ).subarray(0, keySize >> 4)
+
+  if (!timingSafeEqual(mac, tag)) {
+    throw OPE('JWE Authentication Tag verification failed', INVALID_RESPONSE)
+  }
+
+  const key = await crypto.subtle.importKey('raw', cek.subarray(keySize >> 4), 'AES-CBC', false, [
+    'decrypt',
+  ])
+  return crypto.subtle.decrypt({ name: 'AES-CBC', iv }, key, ciphertext)
+}
+
+async function encryptContent(
+  enc: string,
+  cek: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array,
+) {
+  if (enc.endsWith('GCM')) {
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const key = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['encrypt'])
+    const encrypted = new Uint8Array(
+      await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: aad, tagLength: 128 },
+        key,
+        plaintext,
+      ),
+    )
+    return { iv, ciphertext: encrypted.subarray(0, -16), tag: encrypted.subarray(-16) }
+  }
+
+  const keySize = parseInt(enc.slice(-3), 10)
+  const iv = crypto.getRandomValues(new Uint8Array(16))
+  const key = await crypto.subtle.importKey('raw', cek.subarray(keySize >> 4), 'AES-CBC', false, [
+    'encrypt',
+  ])
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, key, plaintext),
+  )
+  const macKey = await crypto.subtle.importKey(
+    'raw',
+    cek.subarray(0, keySize >> 4),
+    { name: 'HMAC', hash: `SHA-${keySize}` },
+    false,
+    ['sign'],
+  )
+  const tag = new Uint8Array(
+    await crypto.subtle.sign(
+      'HMAC',
+      macKey,
+      concat(aad, iv, ciphertext, uint64be(aad.byteLength << 3)),
+    ),
+  ).subarray(0, keySize >> 4)
+
+  return { iv, ciphertext, tag }
+}
+
+/**
+ * Minimal JWE Compact Serialization encrypt() implementation.
+ */
+async function encryptJwe(
+  plaintext: string,
+  header: Pick<CompactJWEHeaderParameters, 'alg' | 'enc' | 'kid' | 'cty'>,
+  key: CryptoKey,
+) {
+  const { alg, enc } = header
+  const protectedHeader: CompactJWEHeaderParameters = { ...header }
+  let cek: Uint8Array
+  let encryptedKey = new Uint8Array()
+
+  switch (alg) {
+    case 'RSA-OAEP': // Fall through
+    case 'RSA-OAEP-256': // Fall through
+    case 'RSA-OAEP-384': // Fall through
+    case 'RSA-OAEP-512':
+      cek = crypto.getRandomValues(new Uint8Array(cekBitLength(enc) >> 3))
+      encryptedKey = new Uint8Array(await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, key, cek))
+      break
+    case 'ECDH-ES': // Fall through
+    case 'ECDH-ES+A128KW': // Fall through
+    case 'ECDH-ES+A192KW': // Fall through
+    case 'ECDH-ES+A256KW': {
+      const ephemeral = (await crypto.subtle.generateKey(key.algorithm, true, [
+        'deriveBits',
+      ])) as CryptoKeyPair
+      const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', ephemeral.publicKey)
+      protectedHeader.epk = { kty, crv, x, y } as JWK
+      if (alg === 'ECDH-ES') {
+        cek = await ecdhEsDerive({}, ephemeral.privateKey, key, enc, cekBitLength(enc))
+        break
+      }
+      const kek = await crypto.subtle.importKey(
+        'raw',
+        await ecdhEsDerive({}, ephemeral.privateKey, key, alg, parseInt(alg.slice(-5, -2), 10)),
+        'AES-KW',
+        false,
+        ['wrapKey'],
+      )
+      cek = crypto.getRandomValues(new Uint8Array(cekBitLength(enc) >> 3))
+      encryptedKey = new Uint8Array(
+        await crypto.subtle.wrapKey(
+          'raw',
+          await crypto.subtle.importKey('raw', cek, { name: 'HMAC', hash: 'SHA-256' }, true, [
+            'sign',
+          ]),
+          kek,
+          'AES-KW',
+        ),
+      )
+      break
+    }
+    default:
+      throw new UnsupportedOperationError('unsupported JWE "alg" (algorithm)', {
+        cause: { alg },
+      })
+  }
+
+  const encodedHeader = b64u(buf(JSON.stringify(protectedHeader)))
+  const { iv, ciphertext, tag } = await encryptContent(enc, cek, buf(plaintext), buf(encodedHeader))
+
+  return `${encodedHeader}.${b64u(encryptedKey)}.${b64u(iv)}.${b64u(ciphertext)}.${b64u(tag)}`
+}
+
+/**
+ * Returns a {@link JweDecryptFunction} backed by WebCrypto to be used as the {@link jweDecrypt}
+ * option value. It decrypts JWE Compact Serialization inputs using one of the provided private
+ * keys. When the JWE Header includes a `kid` only keys with a matching {@link PrivateKey.kid `kid`}
+ * are used.
+ *
+ * Supported JWE `alg` (Key Management) Algorithms
+ *
+ * - RSA-OAEP, RSA-OAEP-256, RSA-OAEP-384, RSA-OAEP-512 (with `RSA-OAEP` CryptoKey instances using the
+ *   corresponding hash)
+ * - ECDH-ES, ECDH-ES+A128KW, ECDH-ES+A192KW, ECDH-ES+A256KW (with `ECDH` or `X25519` CryptoKey
+ *   instances)
+ *
+ * Supported JWE `enc` (Content Encryption) Algorithms
+ *
+ * - A128GCM, A192GCM, A256GCM
+ * - A128CBC-HS256, A192CBC-HS384, A256CBC-HS512
+ *
+ * Note: Not all runtimes support 192-bit AES keys.
+ *
+ * @example
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let key!: oauth.CryptoKey | oauth.PrivateKey
+ * let currentUrl!: URL
+ * let state!: string | undefined
+ *
+ * let params = await oauth.validateJwtAuthResponse(as, client, currentUrl, state, {
+ *   [oauth.jweDecrypt]: oauth.JweDecrypt(key, {
+ *     keyManagementAlgorithms: ['ECDH-ES'],
+ *     contentEncryptionAlgorithms: ['A256GCM'],
+ *   }),
+ * })
+ * ```
+ *
+ * @param keys Private key(s) to decrypt with.
+ *
+ * @group Utilities
+ *
+ * @see [RFC 7516 - JSON Web Encryption (JWE)](https://www.rfc-editor.org/rfc/rfc7516.html#section-5.2)
+ * @see [RFC 7518 - JSON Web Algorithms (JWA)](https://www.rfc-editor.org/rfc/rfc7518.html#section-4)
+ */
+export function JweDecrypt(
+  keys: CryptoKey | PrivateKey | (CryptoKey | PrivateKey)[],
+  options?: JweDecryptAlgorithmOptions,
+): JweDecryptFunction {
+  const candidates = (Array.isArray(keys) ? keys : [keys]).map((input) => {
+    const { key, kid } = getKeyAndKid(input)
+    assertPrivateKey(key, '"keys"')
+    return { key, kid }
+  })
+
+  if (!candidates.length) {
+    throw CodedTypeError('"keys" must not be empty', ERR_INVALID_ARG_VALUE)
+  }
+
+  return async (jwe) => {
+    const {
+      0: protectedHeader,
+      1: encryptedKey,
+      2: iv,
+      3: ciphertext,
+      4: tag,
+      length,
+    } = jwe.split('.')
+
+    if (length !== 5) {
+      throw OPE('Invalid JWE', INVALID_RESPONSE, jwe)
+    }
+
+    let header: JsonValue
+    try {
+      header = JSON.parse(buf(b64u(protectedHeader)))
+    } catch (cause) {
+      throw OPE('failed to parse JWE Header body as base64url encoded JSON', PARSE_ERROR, cause)
+    }
+
+    if (!isJsonObject<CompactJWEHeaderParameters>(header)) {
+      throw OPE('JWE Header must be a top level object', INVALID_RESPONSE, jwe)
+    }
+
+    if (typeof header.alg !== 'string' || typeof header.enc !== 'string') {
+      throw OPE('JWE "alg" and "enc" header parameters must be strings', INVALID_RESPONSE, {
+        header,
+      })
+    }
+
+    if (header.crit !== undefined) {
+      throw new UnsupportedOperationError(
+        'no JWE "crit" header parameter extensions are supported',
+        { cause: { header } },
+      )
+    }
+
+    if (header.zip !== undefined) {
+      throw new UnsupportedOperationError('JWE "zip" (compression) is not supported', {
+        cause: { header },
+      })
+    }
+
+    if (options?.keyManagementAlgorithms?.includes(header.alg) === false) {
+      throw OPE('unexpected JWE "alg" header parameter', INVALID_RESPONSE, {
+        header,
+        expected: options.keyManagementAlgorithms,
+        reason: 'decryption options',
+      })
+    }
+
+    if (options?.contentEncryptionAlgorithms?.includes(header.enc) === false) {
+      throw OPE('unexpected JWE "enc" header parameter', INVALID_RESPONSE, {
+        header,
+        expected: options.contentEncryptionAlgorithms,
+        reason: 'decryption options',
+      })
+    }
+
+    cekBitLength(header.enc)
+
+    if (header.enc.endsWith('GCM')) {
+      if (b64u(iv).byteLength !== 12) {
+        throw OPE('invalid JWE Initialization Vector length', INVALID_RESPONSE, { header })
+      }
+      if (b64u(tag).byteLength !== 16) {
+        throw OPE('invalid JWE Authentication Tag length', INVALID_RESPONSE, { header })
+      }
+    }
+
+    const keys = candidates.filter(
+      ({ key, kid }) =>
+        jweKeyMatches(header, key) && (header.kid === undefined || header.kid === kid),
+    )
+
+    if (!keys.length) {
+      throw OPE(
+        'error when selecting a JWE decryption key, no applicable keys found',
+        KEY_SELECTION,
+        { header },
+      )
+    }
+
+    for (const { key } of keys) {
+      try {
+        const cek = await decryptCek(header, key, b64u(encryptedKey))
+        const plaintext = await decryptContent(
+          header.enc,
+          cek,
+          b64u(iv),
+          b64u(ciphertext),
+          b64u(tag),
+          buf(protectedHeader),
+        )
+        return buf(new Uint8Array(plaintext))
+      } catch {}
+    }
+
+    // the underlying error is deliberately not exposed, see decryptCek
+    throw OPE('JWE decryption failed', INVALID_RESPONSE)
+  }
+}
+
+/**
+ * Minimal JWT validation implementation.
+ */
+async function validateJwt(
+  jws: string,
+  checkAlg: (h: CompactJWSHeaderParameters) => void,
+  clockSkew: number,
+  clockTolerance: number,
+  decryptJwt: JweDecryptFunction | undefined,
+): Promise<ParsedJWT> {
+  let { 0: protectedHeader, 1: payload, length } = jws.split('.')
+
+  if (length === 5) {
+    if (decryptJwt !== undefined) {
+      jws = await decryptJwt(jws)
+      ;({ 0: protectedHeader, 1: payload, length } = jws.split('.'))
+    } else {
+      throw new UnsupportedOperationError('JWE decryption is not configured', { cause: jws })
+    }
+  }
+
+  if (length !== 3) {
+    throw OPE('Invalid JWT', INVALID_RESPONSE, jws)
+  }
+
+  let header: JsonValue
+  try {
+    header = JSON.parse(buf(b64u(protectedHeader)))
+  } catch (cause) {
+    throw OPE('failed to parse JWT Header body as base64url encoded JSON', PARSE_ERROR, cause)
+  }
+
+  if (!isJsonObject<CompactJWSHeaderParameters>(header)) {
+    throw OPE('JWT Header must be a top level object', INVALID_RESPONSE, jws)
+  }
+
+  checkAlg(header)
+  if (header.crit !== undefined) {
+    throw new UnsupportedOperationError('no JWT "crit" header parameter extensions are supported', {
+      cause: { header },
+    })
+  }
+
+  let claims: JsonValue
+  try {
+    claims = JSON.parse(buf(b64u(payload)))
+  } catch (cause) {
+    throw OPE('failed to parse JWT Payload body as base64url encoded JSON', PARSE_ERROR, cause)
+  }
+
+  if (!isJsonObject<JWTPayload>(claims)) {
+    throw OPE('JWT Payload must be a top level object', INVALID_RESPONSE, jws)
+  }
+
+  const now = epochTime() + clockSkew
+
+  if (claims.exp !== undefined) {
+    if (typeof claims.exp !== 'number') {
+      throw OPE('unexpected JWT "exp" (expiration time) claim type', INVALID_RESPONSE, { claims })
+    }
+
+    if (claims.exp <= now - clockTolerance) {
+      throw OPE(
+        'unexpected JWT "exp" (expiration time) claim value, expiration is past current timestamp',
+        JWT_TIMESTAMP_CHECK,
+        { claims, now, tolerance: clockTolerance, claim: 'exp' },
+      )
+    }
+  }
+
+  if (claims.iat !== undefined) {
+    if (typeof claims.iat !== 'number') {
+      throw OPE('unexpected JWT "iat" (issued at) claim type', INVALID_RESPONSE, { claims })
+    }
+  }
+
+  if (claims.iss !== undefined) {
+    if (typeof claims.iss !== 'string') {
+      throw OPE('unexpected JWT "iss" (issuer) claim type', INVALID_RESPONSE, { claims })
+    }
+  }
+
+  if (claims.nbf !== undefined) {
+    if (typeof claims.nbf !== 'number') {
+      throw OPE('unexpected JWT "nbf" (not before) claim type', INVALID_RESPONSE, { claims })
+    }
+    if (claims.nbf > now + clockTolerance) {
+      throw OPE('unexpected JWT "nbf" (not before) claim value', JWT_TIMESTAMP_CHECK, {
+        claims,
+        now,
+        tolerance: clockTolerance,
+        claim: 'nbf',
+      })
+    }
+  }
+
+  if (claims.aud !== undefined) {
+    if (typeof claims.aud !== 'string' && !Array.isArray(claims.aud)) {
+      throw OPE('unexpected JWT "aud" (audience) claim type', INVALID_RESPONSE, { claims })
+    }
+  }
+
+  return { header, claims, jwt: jws }
+}
+
+/**
+ * Same as {@link validateAuthResponse} but for signed JARM responses.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param parameters JARM authorization response.
+ * @param expectedState Expected `state` parameter value. Default is {@link expectNoState}.
+ *
+ * @returns Validated Authorization Response parameters. Authorization Error Responses are rejected
+ *   using {@link AuthorizationResponseError}.
+ *
+ * @group Authorization Code Grant
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ * @group JWT Secured Authorization Response Mode for OAuth 2.0 (JARM)
+ * @group FAPI 2.0 Message Signing
+ * @group FAPI 1.0 Advanced
+ *
+ * @see [JWT Secured Authorization Response Mode for OAuth 2.0 (JARM)](https://openid.net/specs/openid-financial-api-jarm.html)
+ */
+export async function validateJwtAuthResponse(
+  as: AuthorizationServer,
+  client: Client,
+  parameters: URLSearchParams | URL,
+  expectedState?: string | typeof expectNoState | typeof skipStateCheck,
+  options?: ValidateSignatureOptions & JWEDecryptOptions & HmacSecretOptions,
+): Promise<URLSearchParams> {
+  assertAs(as)
+  assertClient(client)
+
+  if (parameters instanceof URL) {
+    parameters = parameters.searchParams
+  }
+
+  if (!(parameters instanceof URLSearchParams)) {
+    throw CodedTypeError(
+      '"parameters" must be an instance of URLSearchParams, or URL',
+      ERR_INVALID_ARG_TYPE,
+    )
+  }
+
+  const response = getURLSearchParameter(parameters, 'response')
+  if (!response) {
+    throw OPE('"parameters" does not contain a JARM response', INVALID_RESPONSE)
+  }
+
+  const { claims, header, jwt } = await validateJwt(
+    response,
+    checkSigningAlgorithm.bind(
+      undefined,
+      client.authorization_signed_response_alg,
+      as.authorization_signing_alg_values_supported,
+      'RS256',
+    ),
+    getClockSkew(client),
+    getClockTolerance(client),
+    options?.[jweDecrypt],
+  )
+    .then(validatePresence.bind(undefined, ['aud', 'exp', 'iss']))
+    .then(validateIssuer.bind(undefined, as))
+    .then(validateAudience.bind(undefined, client.client_id))
+
+  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = jwt.split('.')
+
+  const signature = b64u(encodedSignature)
+  const key = await getSigKey(as, options, header)
+  await validateJwsSignature(protectedHeader, payload, key, signature)
+
+  const result = new URLSearchParams()
+  for (const [key, value] of Object.entries(claims)) {
+    // filters out timestamps
+    if (typeof value === 'string' && key !== 'aud') {
+      result.set(key, value)
+    }
+  }
+
+  return validateAuthResponse(as, client, result, expectedState)
+}
+
+async function idTokenHash(data: string, header: CompactJWSHeaderParameters, claimName: string) {
+  let algorithm: string
+  switch (header.alg) {
+    case 'RS256': // Fall through
+    case 'PS256': // Fall through
+    case 'ES256': // Fall through
+    case 'HS256':
+      algorithm = 'SHA-256'
+      break
+    case 'RS384': // Fall through
+    case 'PS384': // Fall through
+    case 'ES384': // Fall through
+    case 'HS384':
+      algorithm = 'SHA-384'
+      break
+    case 'RS512': // Fall through
+    case 'PS512': // Fall through
+    case 'ES512': // Fall through
+    case 'HS512': // Fall through
+    case 'Ed25519': // Fall through
+    case 'EdDSA':
+      algorithm = 'SHA-512'
+      break
+    default:
+      throw new UnsupportedOperationError(
+        `unsupported JWS algorithm for ${claimName} calculation`,
+        { cause: { alg: header.alg } },
+      )
+  }
+
+  const digest = await crypto.subtle.digest(algorithm, buf(data))
+  return b64u(digest.slice(0, digest.byteLength / 2))
+}
+
+async function idTokenHashMatches(
+  data: string,
+  actual: string,
+  header: CompactJWSHeaderParameters,
+  claimName: string,
+) {
+  const expected = await idTokenHash(data, header, claimName)
+  return actual === expected
+}
+
+/**
+ * Same as {@link validateAuthResponse} but for FAPI 1.0 Advanced Detached Signature authorization
+ * responses.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param parameters Authorization Response parameters as URLSearchParams, instance of URL with
+ *   parameters in a fragment/hash, or a `form_post` Request instance.
+ * @param expectedNonce Expected ID Token `nonce` claim value.
+ * @param expectedState Expected `state` parameter value. Default is {@link expectNoState}.
+ * @param maxAge ID Token {@link IDToken.auth_time `auth_time`} claim value will be checked to be
+ *   present and conform to the `maxAge` value. Use of this option is required if you sent a
+ *   `max_age` parameter in an authorization request. Default is
+ *   {@link Client.default_max_age `client.default_max_age`} and falls back to
+ *   {@link skipAuthTimeCheck}.
+ *
+ * @returns Validated Authorization Response parameters. Authorization Error Responses are rejected
+ *   using {@link AuthorizationResponseError}.
+ *
+ * @group FAPI 1.0 Advanced
+ *
+ * @see [Financial-grade API Security Profile 1.0 - Part 2: Advanced](https://openid.net/specs/openid-financial-api-part-2-1_0.html#id-token-as-detached-signature)
+ */
+export async function validateDetachedSignatureResponse(
+  as: AuthorizationServer,
+  client: Client,
+  parameters: URLSearchParams | URL | Request,
+  expectedNonce: string,
+  expectedState?: string | typeof expectNoState,
+  maxAge?: number | typeof skipAuthTimeCheck,
+  options?: ValidateSignatureOptions & JWEDecryptOptions & HmacSecretOptions,
+): Promise<URLSearchParams> {
+  return validateHybridResponse(
+    as,
+    client,
+    parameters,
+    expectedNonce,
+    expectedState,
+    maxAge,
+    options,
+    true,
+  )
+}
+
+/**
+ * Same as {@link validateAuthResponse} but for `code id_token` authorization responses.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param parameters Authorization Response parameters as URLSearchParams, instance of URL with
+ *   parameters in a fragment/hash, or a `form_post` Request instance.
+ * @param expectedNonce Expected ID Token `nonce` claim value.
+ * @param expectedState Expected `state` parameter value. Default is {@link expectNoState}.
+ * @param maxAge ID Token {@link IDToken.auth_time `auth_time`} claim value will be checked to be
+ *   present and conform to the `maxAge` value. Use of this option is required if you sent a
+ *   `max_age` parameter in an authorization request. Default is
+ *   {@link Client.default_max_age `client.default_max_age`} and falls back to
+ *   {@link skipAuthTimeCheck}.
+ *
+ * @returns Validated Authorization Response parameters. Authorization Error Responses are rejected
+ *   using {@link AuthorizationResponseError}.
+ *
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ *
+ * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.1.2)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#HybridFlowAuth)
+ */
+export async function validateCodeIdTokenResponse(
+  as: AuthorizationServer,
+  client: Client,
+  parameters: URLSearchParams | URL | Request,
+  expectedNonce: string,
+  expectedState?: string | typeof expectNoState,
+  maxAge?: number | typeof skipAuthTimeCheck,
+  options?: ValidateSignatureOptions & JWEDecryptOptions & HmacSecretOptions,
+): Promise<URLSearchParams> {
+  return validateHybridResponse(
+    as,
+    client,
+    parameters,
+    expectedNonce,
+    expectedState,
+    maxAge,
+    options,
+    false,
+  )
+}
+
+async function consumeStream(request: Request) {
+  if (request.bodyUsed) {
+    throw CodedTypeError(
+      'form_post Request instances must contain a readable body',
+      ERR_INVALID_ARG_VALUE,
+      { cause: request },
+    )
+  }
+
+  return request.text()
+}
+
+async function formPostResponse(request: Request) {
+  if (request.method !== 'POST') {
+    throw CodedTypeError(
+      'form_post responses are expected to use the POST method',
+      ERR_INVALID_ARG_VALUE,
+      { cause: request },
+    )
+  }
+
+  if (getContentType(request) !== 'application/x-www-form-urlencoded') {
+    throw CodedTypeError(
+      'form_post responses are expected to use the application/x-www-form-urlencoded content-type',
+      ERR_INVALID_ARG_VALUE,
+      { cause: request },
+    )
+  }
+
+  return consumeStream(request)
+}
+
+async function validateHybridResponse(
+  as: AuthorizationServer,
+  client: Client,
+  parameters: URLSearchParams | URL | Request,
+  expectedNonce: string,
+  expectedState: string | typeof expectNoState | undefined,
+  maxAge: number | typeof skipAuthTimeCheck | undefined,
+  options: (ValidateSignatureOptions & JWEDecryptOptions & HmacSecretOptions) | undefined,
+  fapi: boolean,
+): Promise<URLSearchParams> {
+  assertAs(as)
+  assertClient(client)
+
+  if (parameters instanceof URL) {
+    if (!parameters.hash.length) {
+      throw CodedTypeError(
+        '"parameters" as an instance of URL must contain a hash (fragment) with the Authorization Response parameters',
+        ERR_INVALID_ARG_VALUE,
+      )
+    }
+    parameters = new URLSearchParams(parameters.hash.slice(1))
+  } else if (looseInstanceOf(parameters, Request)) {
+    parameters = new URLSearchParams(await formPostResponse(parameters))
+  } else if (parameters instanceof URLSearchParams) {
+    parameters = new URLSearchParams(parameters)
+  } else {
+    throw CodedTypeError(
+      '"parameters" must be an instance of URLSearchParams, URL, or Response',
+      ERR_INVALID_ARG_TYPE,
+    )
+  }
+
+  const id_token = getURLSearchParameter(parameters, 'id_token')
+  parameters.delete('id_token')
+
+  switch (expectedState) {
+    case undefined:
+    case expectNoState:
+      break
+    default:
+      assertString(expectedState, '"expectedState" argument')
+  }
+
+  const result = validateAuthResponse(
+    {
+      ...as,
+      authorization_response_iss_parameter_supported: false,
+    },
+    client,
+    parameters,
+    expectedState,
+  )
+
+  if (!id_token) {
+    throw OPE('"parameters" does not contain an ID Token', INVALID_RESPONSE)
+  }
+  const code = getURLSearchParameter(parameters, 'code')
+  if (!code) {
+    throw OPE('"parameters" does not contain an Authorization Code', INVALID_RESPONSE)
+  }
+
+  const requiredClaims: (keyof typeof jwtClaimNames)[] = [
+    'aud',
+    'exp',
+    'iat',
+    'iss',
+    'sub',
+    'nonce',
+    'c_hash',
+  ]
+
+  const state = parameters.get('state')
+  if (fapi && (typeof expectedState === 'string' || state !== null)) {
+    requiredClaims.push('s_hash')
+  }
+
+  if (maxAge !== undefined) {
+    assertNumber(maxAge, false, '"maxAge" argument')
+  } else if (client.default_max_age !== undefined) {
+    assertNumber(client.default_max_age, false, '"client.default_max_age"')
+  }
+
+  maxAge ??= client.default_max_age ?? skipAuthTimeCheck
+  if (client.require_auth_time || maxAge !== skipAuthTimeCheck) {
+    requiredClaims.push('auth_time')
+  }
+
+  const { claims, header, jwt } = await validateJwt(
+    id_token,
+    checkSigningAlgorithm.bind(
+      undefined,
+      client.id_token_signed_response_alg,
+      as.id_token_signing_alg_values_supported,
+      'RS256',
+    ),
+    getClockSkew(client),
+    getClockTolerance(client),
+    options?.[jweDecrypt],
+  )
+    .then(validatePresence.bind(undefined, requiredClaims))
+    .then(validateIssuer.bind(undefined, as))
+    .then(validateAudience.bind(undefined, client.client_id))
+
+  const clockSkew = getClockSkew(client)
+  const now = epochTime() + clockSkew
+  if (claims.iat! < now - 3600) {
+    throw OPE(
+      'unexpected JWT "iat" (issued at) claim value, it is too far in the past',
+      JWT_TIMESTAMP_CHECK,
+      { now, claims, claim: 'iat' },
+    )
+  }
+
+  assertString(claims.c_hash, 'ID Token "c_hash" (code hash) claim value', INVALID_RESPONSE, {
+    claims,
+  })
+
+  if (claims.auth_time !== undefined) {
+    assertNumber(
+      claims.auth_time,
+      false,
+      'ID Token "auth_time" (authentication time)',
+      INVALID_RESPONSE,
+      { claims },
+    )
+  }
+
+  if (maxAge !== skipAuthTimeCheck) {
+    const now = epochTime() + getClockSkew(client)
+    const tolerance = getClockTolerance(client)
+    if ((claims as IDToken).auth_time! + maxAge < now - tolerance) {
+      throw OPE(
+        'too much time has elapsed since the last End-User authentication',
+        JWT_TIMESTAMP_CHECK,
+        { claims, now, tolerance, claim: 'auth_time' },
+      )
+    }
+  }
+
+  assertString(expectedNonce, '"expectedNonce" argument')
+
+  if (claims.nonce !== expectedNonce) {
+    throw OPE('unexpected ID Token "nonce" claim value', JWT_CLAIM_COMPARISON, {
+      expected: expectedNonce,
+      claims,
+      claim: 'nonce',
+    })
+  }
+
+  if (Array.isArray(claims.aud) && claims.aud.length !== 1) {
+    if (claims.azp === undefined) {
+      throw OPE(
+        'ID Token "aud" (audience) claim includes additional untrusted audiences',
+        JWT_CLAIM_COMPARISON,
+        { claims, claim: 'aud' },
+      )
+    }
+    if (claims.azp !== client.client_id) {
+      throw OPE('unexpected ID Token "azp" (authorized party) claim value', JWT_CLAIM_COMPARISON, {
+        expected: client.client_id,
+        claims,
+        claim: 'azp',
+      })
+    }
+  }
+
+  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = jwt.split('.')
+
+  const signature = b64u(encodedSignature)
+  const key = await getSigKey(as, options, header)
+  await validateJwsSignature(protectedHeader, payload, key, signature)
+
+  if ((await idTokenHashMatches(code, claims.c_hash, header, 'c_hash')) !== true) {
+    throw OPE('invalid ID Token "c_hash" (code hash) claim value', JWT_CLAIM_COMPARISON, {
+      code,
+      alg: header.alg,
+      claim: 'c_hash',
+      claims,
+    })
+  }
+
+  if ((fapi && state !== null) || claims.s_hash !== undefined) {
+    assertString(claims.s_hash, 'ID Token "s_hash" (state hash) claim value', INVALID_RESPONSE, {
+      claims,
+    })
+    assertString(state, '"state" response parameter', INVALID_RESPONSE, { parameters })
+
+    if ((await idTokenHashMatches(state, claims.s_hash, header, 's_hash')) !== true) {
+      throw OPE('invalid ID Token "s_hash" (state hash) claim value', JWT_CLAIM_COMPARISON, {
+        state,
+        alg: header.alg,
+        claim: 's_hash',
+        claims,
+      })
+    }
+  }
+
+  return result
+}
+
 /**
- * Assigned as {@link OperationProcessingError.code} when a request is about to made to a non-TLS
- * secured HTTP endpoint and {@link allowInsecureRequests} is not provided.
- *
- * @group Error Codes
+ * If configured must be the configured one (client), if not configured must be signalled by the
+ * issuer to be supported (issuer), if not signalled may be a default fallback, otherwise its a
+ * failure
  */
-export const HTTP_REQUEST_FORBIDDEN = 'OAUTH_HTTP_REQUEST_FORBIDDEN'
+function checkSigningAlgorithm(
+  client: string | string[] | undefined,
+  issuer: string[] | undefined,
+  fallback: string | string[] | typeof supported | undefined,
+  header: CompactJWSHeaderParameters,
+) {
+  if (client !== undefined) {
+    if (typeof client === 'string' ? header.alg !== client : !client.includes(header.alg)) {
+      throw OPE('unexpected JWT "alg" header parameter', INVALID_RESPONSE, {
+        header,
+        expected: client,
+        reason: 'client configuration',
+      })
+    }
+    return
+  }
+
+  if (Array.isArray(issuer)) {
+    if (!issuer.includes(header.alg)) {
+      throw OPE('unexpected JWT "alg" header parameter', INVALID_RESPONSE, {
+        header,
+        expected: issuer,
+        reason: 'authorization server metadata',
+      })
+    }
+    return
+  }
+
+  if (fallback !== undefined) {
+    if (
+      typeof fallback === 'string'
+        ? header.alg !== fallback
+        : typeof fallback === 'function'
+          ? !fallback(header.alg)
+          : !fallback.includes(header.alg)
+    ) {
+      throw OPE('unexpected JWT "alg" header parameter', INVALID_RESPONSE, {
+        header,
+        expected: fallback,
+        reason: 'default value',
+      })
+    }
+    return
+  }
+
+  throw OPE(
+    'missing client or server configuration to verify used JWT "alg" header parameter',
+    undefined,
+    { client, issuer, fallback },
+  )
+}
+
 /**
- * Assigned as {@link OperationProcessingError.code} when a request is about to made to a non-HTTP(S)
- * endpoint.
- *
- * @group Error Codes
+ * Returns a parameter by name from URLSearchParams. It must be only provided once. Returns
+ * undefined if the parameter is not present.
  */
-export const REQUEST_PROTOCOL_FORBIDDEN = 'OAUTH_REQUEST_PROTOCOL_FORBIDDEN'
+function getURLSearchParameter(parameters: URLSearchParams, name: string): string | undefined {
+  const { 0: value, length } = parameters.getAll(name)
+  if (length > 1) {
+    throw OPE(`"${name}" parameter must be provided only once`, INVALID_RESPONSE)
+  }
+  return value
+}
+
 /**
- * Assigned as {@link OperationProcessingError.code} when a JWT NumericDate comparison with the
- * current timestamp fails.
- *
- * @group Error Codes
+ * DANGER ZONE - This option has security implications that must be understood, assessed for
+ * applicability, and accepted before use.
  *
- * @see {@link https://www.rfc-editor.org/rfc/rfc7519.html#section-2 JSON Web Token (JWT)}
+ * Use this as a value to {@link validateAuthResponse} or {@link validateEndSessionResponse}
+ * `expectedState` parameter to skip the `state` value check when you'll be validating such `state`
+ * value yourself instead. This should only be done if you use a `state` parameter value that is
+ * integrity protected and bound to the browsing session. One such mechanism to do so is described
+ * in an I-D
+ * [draft-bradley-oauth-jwt-encoded-state-09](https://datatracker.ietf.org/doc/html/draft-bradley-oauth-jwt-encoded-state-09).
  */
-export const JWT_TIMESTAMP_CHECK = 'OAUTH_JWT_TIMESTAMP_CHECK_FAILED'
+export const skipStateCheck: unique symbol = Symbol()
+
 /**
- * Assigned as {@link OperationProcessingError.code} when a JWT claim is not of a given expected
- * value.
- *
- * @group Error Codes
- *
- * @see {@link https://www.rfc-editor.org/rfc/rfc7519.html#section-2 JSON Web Token (JWT)}
+ * Use this as a value to {@link validateAuthResponse} or {@link validateEndSessionResponse}
+ * `expectedState` parameter to indicate no `state` parameter value is expected, i.e. no `state`
+ * parameter value was sent with the authorization or logout request.
  */
-export const JWT_CLAIM_COMPARISON = 'OAUTH_JWT_CLAIM_COMPARISON_FAILED'
+export const expectNoState: unique symbol = Symbol()
+
+function checkState(
+  parameters: URLSearchParams,
+  state: string | undefined,
+  expectedState: string | typeof expectNoState | typeof skipStateCheck | undefined,
+) {
+  switch (expectedState) {
+    case undefined:
+    case expectNoState:
+      if (state !== undefined) {
+        throw OPE('unexpected "state" response parameter encountered', INVALID_RESPONSE, {
+          expected: undefined,
+          parameters,
+        })
+      }
+      break
+    case skipStateCheck:
+      break
+    default:
+      assertString(expectedState, '"expectedState" argument')
+
+      if (state !== expectedState) {
+        throw OPE(
+          state === undefined
+            ? 'response parameter "state" missing'
+            : 'unexpected "state" response parameter value',
+          INVALID_RESPONSE,
+          { expected: expectedState, parameters },
+        )
+      }
+  }
+}
+
 /**
- * Assigned as {@link OperationProcessingError.code} when a {@link !Response} JSON body attribute is
- * not of a given expected value.
+ * Validates an OAuth 2.0 Authorization Response or Authorization Error Response message returned
+ * from the authorization server's
+ * {@link AuthorizationServer.authorization_endpoint `as.authorization_endpoint`}.
  *
- * @group Error Codes
- */
-export const JSON_ATTRIBUTE_COMPARISON = 'OAUTH_JSON_ATTRIBUTE_COMPARISON_FAILED'
-/**
- * Assigned as {@link OperationProcessingError.code} when a JWT signature validation fails to select
- * an applicable key.
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param parameters Authorization response.
+ * @param expectedState Expected `state` parameter value. Default is {@link expectNoState}.
  *
- * @group Error Codes
- */
-export const KEY_SELECTION = 'OAUTH_KEY_SELECTION_FAILED'
-/**
- * Assigned as {@link OperationProcessingError.code} when the AS configuration is missing metadata.
+ * @returns Validated Authorization Response parameters. Authorization Error Responses throw
+ *   {@link AuthorizationResponseError}.
  *
- * @group Error Codes
- */
-export const MISSING_SERVER_METADATA = 'OAUTH_MISSING_SERVER_METADATA'
-/**
- * Assigned as {@link OperationProcessingError.code} when the AS configuration has invalid metadata.
+ * @group Authorization Code Grant
+ * @group Authorization Code Grant w/ OpenID Connect (OIDC)
  *
- * @group Error Codes
+ * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.1.2)
+ * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#CodeFlowAuth)
+ * @see [RFC 9207 - OAuth 2.0 Authorization Server Issuer Identification](https://www.rfc-editor.org/rfc/rfc9207.html)
  */
-export const INVALID_SERVER_METADATA = 'OAUTH_INVALID_SERVER_METADATA'
+export function validateAuthResponse(
+  as: AuthorizationServer,
+  client: Client,
+  parameters: URLSearchParams | URL,
+  expectedState?: string | typeof expectNoState | typeof skipStateCheck,
+): URLSearchParams {
+  assertAs(as)
+  assertClient(client)
 
-function checkJwtType(expected: string, result: Awaited<ReturnType<typeof validateJwt>>) {
-  if (typeof result.header.typ !== 'string' || normalizeTyp(result.header.typ) !== expected) {
-    throw OPE('unexpected JWT "typ" header parameter value', INVALID_RESPONSE, {
-      header: result.header,
+  if (parameters instanceof URL) {
+    parameters = parameters.searchParams
+  }
+
+  if (!(parameters instanceof URLSearchParams)) {
+    throw CodedTypeError(
+      '"parameters" must be an instance of URLSearchParams, or URL',
+      ERR_INVALID_ARG_TYPE,
+    )
+  }
+
+  if (getURLSearchParameter(parameters, 'response')) {
+    throw OPE(
+      '"parameters" contains a JARM response, use validateJwtAuthResponse() instead of validateAuthResponse()',
+      INVALID_RESPONSE,
+      { parameters },
+    )
+  }
+
+  const iss = getURLSearchParameter(parameters, 'iss')
+  const state = getURLSearchParameter(parameters, 'state')
+
+  if (!iss && as.authorization_response_iss_parameter_supported) {
+    throw OPE('response parameter "iss" (issuer) missing', INVALID_RESPONSE, { parameters })
+  }
+
+  if (iss && iss !== as.issuer) {
+    throw OPE('unexpected "iss" (issuer) response parameter value', INVALID_RESPONSE, {
+      expected: as.issuer,
+      parameters,
     })
   }
 
-  return result
+  checkState(parameters, state, expectedState)
+
+  const error = getURLSearchParameter(parameters, 'error')
+  if (error) {
+    throw new AuthorizationResponseError('authorization response from the server is an error', {
+      cause: parameters,
+    })
+  }
+
+  const id_token = getURLSearchParameter(parameters, 'id_token')
+  const token = getURLSearchParameter(parameters, 'token')
+  if (id_token !== undefined || token !== undefined) {
+    throw new UnsupportedOperationError('implicit and hybrid flows are not supported')
+  }
+
+  return brand(new URLSearchParams(parameters))
 }
 
-export interface ClientCredentialsGrantRequestOptions
-  extends HttpRequestOptions<'POST', URLSearchParams>,
-    DPoPRequestOptions {}
+export interface EndSessionParameters {
+  /**
+   * ID Token previously issued to the client, passed as a hint about the End-User's current
+   * authenticated session with the client.
+   */
+  id_token_hint?: string
+  /**
+   * Hint to the authorization server about the End-User that is logging out.
+   */
+  logout_hint?: string
+  /**
+   * URI to which the End-User's User Agent is to be redirected after a logout has been performed.
+   * It must have been previously registered with the authorization server.
+   */
+  post_logout_redirect_uri?: string
+  /**
+   * End-User's preferred languages and scripts for the user interface, represented as a
+   * space-separated list of BCP47 language tag values, ordered by preference.
+   */
+  ui_locales?: string
+  /**
+   * Opaque value used to maintain state between the logout request and the callback to the
+   * {@link EndSessionParameters.post_logout_redirect_uri `post_logout_redirect_uri`}.
+   */
+  state?: string
+
+  [parameter: string]: string | undefined
+}
+
+export interface EndSessionUrlOptions {
+  /**
+   * See {@link allowInsecureRequests}.
+   *
+   * @deprecated
+   */
+  [allowInsecureRequests]?: boolean
+}
 
 /**
- * Performs a Client Credentials Grant request at the
- * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ * Builds an RP-Initiated Logout URL to redirect the End-User's User Agent to. The
+ * {@link Client.client_id `client.client_id`} is always included.
+ *
+ * @example
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let idToken!: string
+ *
+ * let state = oauth.generateRandomState()
+ *
+ * let url = oauth.buildEndSessionUrl(as, client, {
+ *   id_token_hint: idToken,
+ *   post_logout_redirect_uri: 'https://rp.example.com/logout/cb',
+ *   state,
+ * })
+ *
+ * // redirect the End-User's User Agent to url.href and store the state value, then in the
+ * // post_logout_redirect_uri handler
+ * let callbackUrl!: URL
+ *
+ * oauth.validateEndSessionResponse(as, client, callbackUrl, state)
+ * ```
  *
  * @param as Authorization Server Metadata.
  * @param client Client Metadata.
- * @param clientAuthentication Client Authentication Method.
+ * @param parameters Logout Request parameters.
  *
- * @group Client Credentials Grant
+ * @group RP-Initiated Logout
  *
- * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.4)
- * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-access-token-request)
+ * @see [OpenID Connect RP-Initiated Logout 1.0](https://openid.net/specs/openid-connect-rpinitiated-1_0.html#RPLogout)
  */
-export async function clientCredentialsGrantRequest(
+export function buildEndSessionUrl(
   as: AuthorizationServer,
   client: Client,
-  clientAuthentication: ClientAuth,
-  parameters: URLSearchParams | Record<string, string> | string[][],
-  options?: ClientCredentialsGrantRequestOptions,
-): Promise<Response> {
+  parameters?: EndSessionParameters,
+  options?: EndSessionUrlOptions,
+): URL {
   assertAs(as)
   assertClient(client)
 
-  return tokenEndpointRequest(
-    as,
-    client,
-    clientAuthentication,
-    'client_credentials',
-    new URLSearchParams(parameters),
-    options,
+  if (parameters !== undefined && !isJsonObject<EndSessionParameters>(parameters)) {
+    throw CodedTypeError('"parameters" must be an object', ERR_INVALID_ARG_TYPE)
+  }
+
+  const url = new URL(
+    resolveEndpoint(
+      as,
+      'end_session_endpoint',
+      false,
+      options?.[allowInsecureRequests] !== true,
+    ).href,
   )
+
+  for (const [name, value] of Object.entries(parameters || {})) {
+    if (value === undefined) {
+      continue
+    }
+    assertString(value, `"parameters.${name}"`)
+    url.searchParams.set(name, value)
+  }
+
+  if (url.searchParams.has('state') && !url.searchParams.has('post_logout_redirect_uri')) {
+    throw CodedTypeError(
+      '"parameters.state" must not be used without "parameters.post_logout_redirect_uri"',
+      ERR_INVALID_ARG_VALUE,
+    )
+  }
+
+  url.searchParams.set('client_id', client.client_id)
+
+  return url
 }
 
 /**
- * Performs any Grant request at the {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
- * The purpose is to be able to execute grant requests such as Token Exchange Grant Type, JWT Bearer
- * Token Grant Type, or SAML 2.0 Bearer Assertion Grant Type.
+ * Validates the parameters the End-User's User Agent was redirected with to the
+ * {@link EndSessionParameters.post_logout_redirect_uri `post_logout_redirect_uri`} after an
+ * RP-Initiated Logout.
  *
  * @param as Authorization Server Metadata.
  * @param client Client Metadata.
- * @param clientAuthentication Client Authentication Method.
- * @param grantType Grant Type.
+ * @param parameters Post Logout Redirection parameters.
+ * @param expectedState Expected `state` parameter value. Default is {@link expectNoState}.
  *
- * @group JWT Bearer Token Grant Type
- * @group SAML 2.0 Bearer Assertion Grant Type
- * @group Token Exchange Grant Type
+ * @returns Validated Post Logout Redirection parameters.
  *
- * @see {@link https://www.rfc-editor.org/rfc/rfc8693.html Token Exchange Grant Type}
- * @see {@link https://www.rfc-editor.org/rfc/rfc7523.html#section-2.1 JWT Bearer Token Grant Type}
- * @see {@link https://www.rfc-editor.org/rfc/rfc7522.html#section-2.1 SAML 2.0 Bearer Assertion Grant Type}
+ * @group RP-Initiated Logout
+ *
+ * @see [OpenID Connect RP-Initiated Logout 1.0](https://openid.net/specs/openid-connect-rpinitiated-1_0.html#RedirectionAfterLogout)
  */
-export async function genericTokenEndpointRequest(
+export function validateEndSessionResponse(
   as: AuthorizationServer,
   client: Client,
-  clientAuthentication: ClientAuth,
-  grantType: string,
-  parameters: URLSearchParams | Record<string, string> | string[][],
-  options?: Omit<TokenEndpointRequestOptions, 'additionalParameters'>,
-): Promise<Response> {
+  parameters: URLSearchParams | URL,
+  expectedState?: string | typeof expectNoState | typeof skipStateCheck,
+): URLSearchParams {
   assertAs(as)
   assertClient(client)
 
-  assertString(grantType, '"grantType"')
+  if (parameters instanceof URL) {
+    parameters = parameters.searchParams
+  }
 
-  return tokenEndpointRequest(
-    as,
-    client,
-    clientAuthentication,
-    grantType,
-    new URLSearchParams(parameters),
-    options,
-  )
+  if (!(parameters instanceof URLSearchParams)) {
+    throw CodedTypeError(
+      '"parameters" must be an instance of URLSearchParams, or URL',
+      ERR_INVALID_ARG_TYPE,
+    )
+  }
+
+  checkState(parameters, getURLSearchParameter(parameters, 'state'), expectedState)
+
+  return new URLSearchParams(parameters)
 }
 
-/**
- * Validates Token Endpoint {@link !Response} instance to be one coming from the
- * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
- *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param response Resolved value from {@link genericTokenEndpointRequest}.
- *
- * @group JWT Bearer Token Grant Type
- * @group SAML 2.0 Bearer Assertion Grant Type
- * @group Token Exchange Grant Type
- *
- * @see {@link https://www.rfc-editor.org/rfc/rfc8693.html Token Exchange Grant Type}
- * @see {@link https://www.rfc-editor.org/rfc/rfc7523.html#section-2.1 JWT Bearer Token Grant Type}
- * @see {@link https://www.rfc-editor.org/rfc/rfc7522.html#section-2.1 SAML 2.0 Bearer Assertion Grant Type}
- */
-export async function processGenericTokenEndpointResponse(
-  as: AuthorizationServer,
-  client: Client,
-  response: Response,
-  options?: JWEDecryptOptions,
-): Promise<TokenEndpointResponse> {
-  return processGenericAccessTokenResponse(as, client, response, undefined, options)
+export interface LogoutToken extends JWTPayload {
+  readonly iss: string
+  readonly aud: string | string[]
+  readonly iat: number
+  readonly exp: number
+  readonly jti: string
+  readonly events: { readonly 'http://schemas.openid.net/event/backchannel-logout': JsonObject }
+  readonly sub?: string
+  readonly sid?: string
+
+  readonly [claim: string]: JsonValue | undefined
 }
 
+export interface ValidateBackchannelLogoutRequestOptions
+  extends ValidateSignatureOptions,
+    JWEDecryptOptions {}
+
 /**
- * Validates Client Credentials Grant {@link !Response} instance to be one coming from the
- * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ * Validates a Back-Channel Logout Request received by the client's `backchannel_logout_uri` and
+ * returns the verified Logout Token claims.
  *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param response Resolved value from {@link clientCredentialsGrantRequest}.
+ * The Logout Token signature is verified using the authorization server's
+ * {@link AuthorizationServer.jwks_uri `as.jwks_uri`}. The `sid` claim is required when the client
+ * was registered with `backchannel_logout_session_required` set to `true`.
  *
- * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
- *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
- *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
+ * Note: Detecting replayed Logout Tokens (e.g. by tracking their `jti` claim values) is left to the
+ * application. Upon success the application should respond with HTTP 200 and a `Cache-Control:
+ * no-store` header, upon failure with HTTP 400.
  *
- * @group Client Credentials Grant
+ * @example
  *
- * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.4)
- */
-export async function processClientCredentialsResponse(
-  as: AuthorizationServer,
-  client: Client,
-  response: Response,
-  options?: JWEDecryptOptions,
-): Promise<TokenEndpointResponse> {
-  return processGenericAccessTokenResponse(as, client, response, undefined, options)
-}
-
-export interface RevocationRequestOptions extends HttpRequestOptions<'POST', URLSearchParams> {
-  /**
-   * Any additional parameters to send. This cannot override existing parameter values.
-   */
-  additionalParameters?: URLSearchParams | Record<string, string> | string[][]
-}
-
-/**
- * Performs a Revocation Request at the
- * {@link AuthorizationServer.revocation_endpoint `as.revocation_endpoint`}.
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let request!: Request
+ *
+ * let { sub, sid } = await oauth.validateBackchannelLogoutRequest(as, client, request)
+ * ```
  *
  * @param as Authorization Server Metadata.
  * @param client Client Metadata.
- * @param clientAuthentication Client Authentication Method.
- * @param token Token to revoke. You can provide the `token_type_hint` parameter via
- *   {@link RevocationRequestOptions.additionalParameters options}.
+ * @param request Back-Channel Logout Request as received by the client.
  *
- * @group Token Revocation
+ * @returns Resolves with the validated Logout Token claims.
  *
- * @see [RFC 7009 - OAuth 2.0 Token Revocation](https://www.rfc-editor.org/rfc/rfc7009.html#section-2)
+ * @group Back-Channel Logout
+ *
+ * @see [OpenID Connect Back-Channel Logout 1.0](https://openid.net/specs/openid-connect-backchannel-1_0.html#Validation)
  */
-export async function revocationRequest(
+export async function validateBackchannelLogoutRequest(
   as: AuthorizationServer,
   client: Client,
-  clientAuthentication: ClientAuth,
-  token: string,
-  options?: RevocationRequestOptions,
-): Promise<Response> {
+  request: Request,
+  options?: ValidateBackchannelLogoutRequestOptions,
+): Promise<LogoutToken> {
   assertAs(as)
   assertClient(client)
 
-  assertString(token, '"token"')
-
-  const url = resolveEndpoint(
-    as,
-    'revocation_endpoint',
-    client.use_mtls_endpoint_aliases,
-    options?.[allowInsecureRequests] !== true,
-  )
+  if (!looseInstanceOf(request, Request)) {
+    throw CodedTypeError('"request" must be an instance of Request', ERR_INVALID_ARG_TYPE)
+  }
 
-  const body = new URLSearchParams(options?.additionalParameters)
-  body.set('token', token)
+  if (request.method !== 'POST') {
+    throw CodedTypeError(
+      'back-channel logout requests are expected to use the POST method',
+      ERR_INVALID_ARG_VALUE,
+      { cause: request },
+    )
+  }
 
-  const headers = prepareHeaders(options?.headers)
-  headers.delete('accept')
+  if (getContentType(request) !== 'application/x-www-form-urlencoded') {
+    throw CodedTypeError(
+      'back-channel logout requests are expected to use the application/x-www-form-urlencoded content-type',
+      ERR_INVALID_ARG_VALUE,
+      { cause: request },
+    )
+  }
 
-  return authenticatedRequest(as, client, clientAuthentication, url, body, headers, options)
-}
+  if (request.bodyUsed) {
+    throw CodedTypeError(
+      'back-channel logout Request instances must contain a readable body',
+      ERR_INVALID_ARG_VALUE,
+      { cause: request },
+    )
+  }
 
-/**
- * Validates {@link !Response} instance to be one coming from the
- * {@link AuthorizationServer.revocation_endpoint `as.revocation_endpoint`}.
- *
- * @param response Resolved value from {@link revocationRequest}.
- *
- * @returns Resolves with `undefined` when the request was successful, or an object representing an
- *   OAuth 2.0 protocol style error.
- *
- * @group Token Revocation
- *
- * @see [RFC 7009 - OAuth 2.0 Token Revocation](https://www.rfc-editor.org/rfc/rfc7009.html#section-2)
- */
-export async function processRevocationResponse(response: Response): Promise<undefined> {
-  if (!looseInstanceOf(response, Response)) {
-    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
+  const parameters = new URLSearchParams(await request.text())
+  const logoutToken = getURLSearchParameter(parameters, 'logout_token')
+  if (!logoutToken) {
+    throw OPE('"request" body does not contain a "logout_token" parameter', INVALID_REQUEST, {
+      parameters,
+    })
   }
 
-  let challenges: WWWAuthenticateChallenge[] | undefined
-  if ((challenges = parseWwwAuthenticateChallenges(response))) {
-    throw new WWWAuthenticateChallengeError(
-      'server responded with a challenge in the WWW-Authenticate HTTP Header',
-      { cause: challenges, response },
+  const { claims, header, jwt } = await validateJwt(
+    logoutToken,
+    checkSigningAlgorithm.bind(
+      undefined,
+      client.id_token_signed_response_alg,
+      as.id_token_signing_alg_values_supported,
+      'RS256',
+    ),
+    getClockSkew(client),
+    getClockTolerance(client),
+    options?.[jweDecrypt],
+  )
+    .then(checkJwtType.bind(undefined, 'logout+jwt'))
+    .then(validatePresence.bind(undefined, ['aud', 'events', 'exp', 'iat', 'iss', 'jti']))
+    .then(validateIssuer.bind(undefined, as))
+    .then(validateAudience.bind(undefined, client.client_id))
+
+  assertString(claims.jti, 'Logout Token "jti" (jwt id) claim value', INVALID_RESPONSE, {
+    claims,
+  })
+
+  if (
+    !isJsonObject<Record<string, JsonValue>>(claims.events) ||
+    !isJsonObject(claims.events['http://schemas.openid.net/event/backchannel-logout'])
+  ) {
+    throw OPE(
+      'Logout Token "events" claim must contain a "http://schemas.openid.net/event/backchannel-logout" member object',
+      INVALID_RESPONSE,
+      { claims },
     )
   }
 
-  if (response.status !== 200) {
-    let err: OAuth2Error | undefined
-    if ((err = await handleOAuthBodyError(response))) {
-      await response.body?.cancel()
-      throw new ResponseBodyError('server responded with an error in the response body', {
-        cause: err,
-        response,
-      })
-    }
+  if (claims.nonce !== undefined) {
+    throw OPE('Logout Token must not contain a "nonce" claim', INVALID_RESPONSE, { claims })
+  }
+
+  if (claims.sid !== undefined) {
+    assertString(claims.sid, 'Logout Token "sid" (session id) claim value', INVALID_RESPONSE, {
+      claims,
+    })
+  } else if (client.backchannel_logout_session_required === true) {
+    throw OPE('JWT "sid" (session id) claim missing', INVALID_RESPONSE, { claims })
+  }
+
+  if (claims.sub !== undefined) {
+    assertString(claims.sub, 'Logout Token "sub" (subject) claim value', INVALID_RESPONSE, {
+      claims,
+    })
+  } else if (claims.sid === undefined) {
     throw OPE(
-      '"response" is not a conform Revocation Endpoint response (unexpected HTTP status code)',
-      RESPONSE_IS_NOT_CONFORM,
-      response,
+      'Logout Token must contain either a "sub" (subject) or "sid" (session id) claim',
+      INVALID_RESPONSE,
+      { claims },
     )
   }
 
-  return undefined
-}
+  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = jwt.split('.')
 
-export interface IntrospectionRequestOptions extends HttpRequestOptions<'POST', URLSearchParams> {
-  /**
-   * Any additional parameters to send. This cannot override existing parameter values.
-   */
-  additionalParameters?: URLSearchParams | Record<string, string> | string[][]
-  /**
-   * Request a JWT Response from the
-   * {@link AuthorizationServer.introspection_endpoint `as.introspection_endpoint`}. Default is
-   *
-   * - True when
-   *   {@link Client.introspection_signed_response_alg `client.introspection_signed_response_alg`} is
-   *   set
-   * - False otherwise
-   */
-  requestJwtResponse?: boolean
+  const signature = b64u(encodedSignature)
+  const key = await getPublicSigKeyFromIssuerJwksUri(as, options, header)
+  await validateJwsSignature(protectedHeader, payload, key, signature)
+
+  return claims as LogoutToken
 }
 
-function assertReadableResponse(response: Response): void {
-  if (response.bodyUsed) {
-    throw CodedTypeError('"response" body has been used already', ERR_INVALID_ARG_VALUE)
+function algToSubtle(alg: string): RsaHashedImportParams | EcKeyImportParams | AlgorithmIdentifier {
+  switch (alg) {
+    case 'PS256': // Fall through
+    case 'PS384': // Fall through
+    case 'PS512':
+      return { name: 'RSA-PSS', hash: `SHA-${alg.slice(-3)}` }
+    case 'RS256': // Fall through
+    case 'RS384': // Fall through
+    case 'RS512':
+      return { name: 'RSASSA-PKCS1-v1_5', hash: `SHA-${alg.slice(-3)}` }
+    case 'ES256': // Fall through
+    case 'ES384':
+      return { name: 'ECDSA', namedCurve: `P-${alg.slice(-3)}` }
+    case 'ES512':
+      return { name: 'ECDSA', namedCurve: 'P-521' }
+    case 'Ed25519':
+    case 'EdDSA':
+      return 'Ed25519'
+    default:
+      throw new UnsupportedOperationError('unsupported JWS algorithm', { cause: { alg } })
   }
 }
 
+async function importJwk(alg: string, jwk: JWK) {
+  const { ext, key_ops, use, ...key } = jwk
+  return crypto.subtle.importKey('jwk', key, algToSubtle(alg), true, ['verify'])
+}
+
+export interface DeviceAuthorizationRequestOptions
+  extends HttpRequestOptions<'POST', URLSearchParams> {}
+
 /**
- * Performs an Introspection Request at the
- * {@link AuthorizationServer.introspection_endpoint `as.introspection_endpoint`}.
+ * Performs a Device Authorization Request at the
+ * {@link AuthorizationServer.device_authorization_endpoint `as.device_authorization_endpoint`}.
  *
  * @param as Authorization Server Metadata.
  * @param client Client Metadata.
  * @param clientAuthentication Client Authentication Method.
- * @param token Token to introspect. You can provide the `token_type_hint` parameter via
- *   {@link IntrospectionRequestOptions.additionalParameters options}.
+ * @param parameters Device Authorization Request parameters.
  *
- * @group Token Introspection
+ * @group Device Authorization Grant
  *
- * @see [RFC 7662 - OAuth 2.0 Token Introspection](https://www.rfc-editor.org/rfc/rfc7662.html#section-2)
- * @see [draft-ietf-oauth-jwt-introspection-response-12 - JWT Response for OAuth Token Introspection](https://www.ietf.org/archive/id/draft-ietf-oauth-jwt-introspection-response-12.html#section-4)
+ * @see [RFC 8628 - OAuth 2.0 Device Authorization Grant](https://www.rfc-editor.org/rfc/rfc8628.html#section-3.1)
  */
-export async function introspectionRequest(
+export async function deviceAuthorizationRequest(
   as: AuthorizationServer,
   client: Client,
   clientAuthentication: ClientAuth,
-  token: string,
-  options?: IntrospectionRequestOptions,
+  parameters: URLSearchParams | Record<string, string> | string[][],
+  options?: DeviceAuthorizationRequestOptions,
 ): Promise<Response> {
   assertAs(as)
   assertClient(client)
 
-  assertString(token, '"token"')
-
   const url = resolveEndpoint(
     as,
-    'introspection_endpoint',
+    'device_authorization_endpoint',
     client.use_mtls_endpoint_aliases,
     options?.[allowInsecureRequests] !== true,
   )
 
-  const body = new URLSearchParams(options?.additionalParameters)
-  body.set('token', token)
+  const body = new URLSearchParams(parameters)
+  body.set('client_id', client.client_id)
+
   const headers = prepareHeaders(options?.headers)
-  if (options?.requestJwtResponse ?? client.introspection_signed_response_alg) {
-    headers.set('accept', 'application/token-introspection+jwt')
-  } else {
-    headers.set('accept', 'application/json')
-  }
+  headers.set('accept', 'application/json')
 
   return authenticatedRequest(as, client, clientAuthentication, url, body, headers, options)
 }
 
-export interface ConfirmationClaims {
-  readonly 'x5t#S256'?: string
-  readonly jkt?: string
-
-  readonly [claim: string]: JsonValue | undefined
-}
-
-export interface IntrospectionResponse {
-  readonly active: boolean
-  readonly client_id?: string
-  readonly exp?: number
-  readonly iat?: number
-  readonly sid?: string
-  readonly iss?: string
-  readonly jti?: string
-  readonly username?: string
-  readonly aud?: string | string[]
-  readonly scope?: string
-  readonly sub?: string
-  readonly nbf?: number
-  readonly token_type?: string
-  readonly cnf?: ConfirmationClaims
-  readonly authorization_details?: AuthorizationDetails[]
+export interface DeviceAuthorizationResponse {
+  /**
+   * The device verification code
+   */
+  readonly device_code: string
+  /**
+   * The end-user verification code
+   */
+  readonly user_code: string
+  /**
+   * The end-user verification URI on the authorization server. The URI should be short and easy to
+   * remember as end users will be asked to manually type it into their user agent.
+   */
+  readonly verification_uri: string
+  /**
+   * The lifetime in seconds of the "device_code" and "user_code"
+   */
+  readonly expires_in: number
+  /**
+   * A verification URI that includes the "user_code" (or other information with the same function
+   * as the "user_code"), which is designed for non-textual transmission
+   */
+  readonly verification_uri_complete?: string
+  /**
+   * The minimum amount of time in seconds that the client should wait between polling requests to
+   * the token endpoint.
+   */
+  readonly interval?: number
 
-  readonly [claim: string]: JsonValue | undefined
+  readonly [parameter: string]: JsonValue | undefined
 }
 
 /**
  * Validates {@link !Response} instance to be one coming from the
- * {@link AuthorizationServer.introspection_endpoint `as.introspection_endpoint`}.
+ * {@link AuthorizationServer.device_authorization_endpoint `as.device_authorization_endpoint`}.
  *
  * @param as Authorization Server Metadata.
  * @param client Client Metadata.
- * @param response Resolved value from {@link introspectionRequest}.
+ * @param response Resolved value from {@link deviceAuthorizationRequest}.
  *
  * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
  *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
  *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
  *
- * @group Token Introspection
+ * @group Device Authorization Grant
  *
- * @see [RFC 7662 - OAuth 2.0 Token Introspection](https://www.rfc-editor.org/rfc/rfc7662.html#section-2)
- * @see [draft-ietf-oauth-jwt-introspection-response-12 - JWT Response for OAuth Token Introspection](https://www.ietf.org/archive/id/draft-ietf-oauth-jwt-introspection-response-12.html#section-5)
+ * @see [RFC 8628 - OAuth 2.0 Device Authorization Grant](https://www.rfc-editor.org/rfc/rfc8628.html#section-3.1)
  */
-export async function processIntrospectionResponse(
+export async function processDeviceAuthorizationResponse(
   as: AuthorizationServer,
   client: Client,
   response: Response,
-  options?: JWEDecryptOptions,
-): Promise<IntrospectionResponse> {
+): Promise<DeviceAuthorizationResponse> {
   assertAs(as)
   assertClient(client)
 
@@ -4363,108 +9804,21 @@ export async function processIntrospectionResponse(
   if (response.status !== 200) {
     let err: OAuth2Error | undefined
     if ((err = await handleOAuthBodyError(response))) {
-      await response.body?.cancel()
-      throw new ResponseBodyError('server responded with an error in the response body', {
-        cause: err,
-        response,
-      })
-    }
-    throw OPE(
-      '"response" is not a conform Introspection Endpoint response (unexpected HTTP status code)',
-      RESPONSE_IS_NOT_CONFORM,
-      response,
-    )
-  }
-
-  let json: JsonValue
-  if (getContentType(response) === 'application/token-introspection+jwt') {
-    assertReadableResponse(response)
-    const { claims, jwt } = await validateJwt(
-      await response.text(),
-      checkSigningAlgorithm.bind(
-        undefined,
-        client.introspection_signed_response_alg,
-        as.introspection_signing_alg_values_supported,
-        'RS256',
-      ),
-      getClockSkew(client),
-      getClockTolerance(client),
-      options?.[jweDecrypt],
-    )
-      .then(checkJwtType.bind(undefined, 'token-introspection+jwt'))
-      .then(validatePresence.bind(undefined, ['aud', 'iat', 'iss']))
-      .then(validateIssuer.bind(undefined, as))
-      .then(validateAudience.bind(undefined, client.client_id))
-
-    jwtRefs.set(response, jwt)
-    json = claims.token_introspection as JsonValue
-    if (!isJsonObject(json)) {
-      throw OPE('JWT "token_introspection" claim must be a JSON object', INVALID_RESPONSE, {
-        claims,
-      })
-    }
-  } else {
-    assertReadableResponse(response)
-    assertApplicationJson(response)
-    try {
-      json = await response.json()
-    } catch (cause) {
-      throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
-    }
-    if (!isJsonObject(json)) {
-      throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
-    }
-  }
-
-  if (typeof json.active !== 'boolean') {
-    throw OPE('"response" body "active" property must be a boolean', INVALID_RESPONSE, {
-      body: json,
-    })
-  }
-
-  return json as IntrospectionResponse
-}
-
-async function jwksRequest(
-  as: AuthorizationServer,
-  options?: HttpRequestOptions<'GET'>,
-): Promise<Response> {
-  assertAs(as)
-
-  const url = resolveEndpoint(as, 'jwks_uri', false, options?.[allowInsecureRequests] !== true)
-
-  const headers = prepareHeaders(options?.headers)
-  headers.set('accept', 'application/json')
-  headers.append('accept', 'application/jwk-set+json')
-
-  return (options?.[customFetch] || fetch)(url.href, {
-    body: undefined,
-    headers: Object.fromEntries(headers.entries()),
-    method: 'GET',
-    redirect: 'manual',
-    signal: options?.signal ? signal(options.signal) : undefined,
-  })
-}
-
-export interface JWKS {
-  readonly keys: JWK[]
-}
-
-async function processJwksResponse(response: Response): Promise<JWKS> {
-  if (!looseInstanceOf(response, Response)) {
-    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
-  }
-
-  if (response.status !== 200) {
+      await response.body?.cancel()
+      throw new ResponseBodyError('server responded with an error in the response body', {
+        cause: err,
+        response,
+      })
+    }
     throw OPE(
-      '"response" is not a conform JSON Web Key Set response (unexpected HTTP status code)',
+      '"response" is not a conform Device Authorization Endpoint response (unexpected HTTP status code)',
       RESPONSE_IS_NOT_CONFORM,
       response,
     )
   }
 
   assertReadableResponse(response)
-  assertContentTypes(response, 'application/json', 'application/jwk-set+json')
+  assertApplicationJson(response)
   let json: JsonValue
   try {
     json = await response.json()
@@ -4472,1004 +9826,759 @@ async function processJwksResponse(response: Response): Promise<JWKS> {
     throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
   }
 
-  if (!isJsonObject<JWKS>(json)) {
+  if (!isJsonObject<Writeable<DeviceAuthorizationResponse>>(json)) {
     throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
   }
 
-  if (!Array.isArray(json.keys)) {
-    throw OPE('"response" body "keys" property must be an array', INVALID_RESPONSE, { body: json })
-  }
+  assertString(json.device_code, '"response" body "device_code" property', INVALID_RESPONSE, {
+    body: json,
+  })
+  assertString(json.user_code, '"response" body "user_code" property', INVALID_RESPONSE, {
+    body: json,
+  })
+  assertString(
+    json.verification_uri,
+    '"response" body "verification_uri" property',
+    INVALID_RESPONSE,
+    { body: json },
+  )
 
-  if (!Array.prototype.every.call(json.keys, isJsonObject)) {
-    throw OPE(
-      '"response" body "keys" property members must be JWK formatted objects',
+  let expiresIn: unknown =
+    typeof json.expires_in !== 'number' ? parseFloat(json.expires_in) : json.expires_in
+  assertNumber(expiresIn, false, '"response" body "expires_in" property', INVALID_RESPONSE, {
+    body: json,
+  })
+  json.expires_in = expiresIn
+
+  if (json.verification_uri_complete !== undefined) {
+    assertString(
+      json.verification_uri_complete,
+      '"response" body "verification_uri_complete" property',
       INVALID_RESPONSE,
       { body: json },
     )
   }
 
-  return json
-}
-
-async function handleOAuthBodyError(response: Response): Promise<OAuth2Error | undefined> {
-  if (response.status > 399 && response.status < 500) {
-    assertReadableResponse(response)
-    assertApplicationJson(response)
-    try {
-      const json: JsonValue = await response.clone().json()
-      if (isJsonObject<OAuth2Error>(json) && typeof json.error === 'string' && json.error.length) {
-        return json
-      }
-    } catch {}
-  }
-  return undefined
-}
-
-function supported(alg: string) {
-  switch (alg) {
-    case 'PS256':
-    case 'ES256':
-    case 'RS256':
-    case 'PS384':
-    case 'ES384':
-    case 'RS384':
-    case 'PS512':
-    case 'ES512':
-    case 'RS512':
-    case 'Ed25519':
-    case 'EdDSA':
-      return true
-    default:
-      return false
-  }
-}
-
-function checkSupportedJwsAlg(header: CompactJWSHeaderParameters) {
-  if (!supported(header.alg)) {
-    throw new UnsupportedOperationError('unsupported JWS "alg" identifier', {
-      cause: { alg: header.alg },
-    })
-  }
-}
-
-function checkRsaKeyAlgorithm(key: CryptoKey) {
-  const { algorithm } = key as CryptoKey & { algorithm: RsaHashedKeyAlgorithm }
-  if (typeof algorithm.modulusLength !== 'number' || algorithm.modulusLength < 2048) {
-    throw new UnsupportedOperationError(`unsupported ${algorithm.name} modulusLength`, {
-      cause: key,
+  if (json.interval !== undefined) {
+    assertNumber(json.interval, false, '"response" body "interval" property', INVALID_RESPONSE, {
+      body: json,
     })
   }
-}
-
-function ecdsaHashName(key: CryptoKey) {
-  const { algorithm } = key as CryptoKey & { algorithm: EcKeyAlgorithm }
-  switch (algorithm.namedCurve) {
-    case 'P-256':
-      return 'SHA-256'
-    case 'P-384':
-      return 'SHA-384'
-    case 'P-521':
-      return 'SHA-512'
-    default:
-      throw new UnsupportedOperationError('unsupported ECDSA namedCurve', { cause: key })
-  }
-}
-
-function keyToSubtle(key: CryptoKey): AlgorithmIdentifier | RsaPssParams | EcdsaParams {
-  switch (key.algorithm.name) {
-    case 'ECDSA':
-      return {
-        name: key.algorithm.name,
-        hash: ecdsaHashName(key),
-      } as EcdsaParams
-    case 'RSA-PSS': {
-      checkRsaKeyAlgorithm(key)
-      switch ((key.algorithm as RsaHashedKeyAlgorithm).hash.name) {
-        case 'SHA-256': // Fall through
-        case 'SHA-384': // Fall through
-        case 'SHA-512':
-          return {
-            name: key.algorithm.name,
-            saltLength:
-              parseInt((key.algorithm as RsaHashedKeyAlgorithm).hash.name.slice(-3), 10) >> 3,
-          } as RsaPssParams
-        default:
-          throw new UnsupportedOperationError('unsupported RSA-PSS hash name', { cause: key })
-      }
-    }
-    case 'RSASSA-PKCS1-v1_5':
-      checkRsaKeyAlgorithm(key)
-      return key.algorithm.name
-    case 'Ed25519': // Fall through
-    case 'EdDSA':
-      return key.algorithm.name
-  }
-  throw new UnsupportedOperationError('unsupported CryptoKey algorithm name', { cause: key })
-}
 
-async function validateJwsSignature(
-  protectedHeader: string,
-  payload: string,
-  key: CryptoKey,
-  signature: Uint8Array,
-) {
-  const data = buf(`${protectedHeader}.${payload}`)
-  const algorithm = keyToSubtle(key)
-  const verified = await crypto.subtle.verify(algorithm, key, signature, data)
-  if (!verified) {
-    throw OPE('JWT signature verification failed', INVALID_RESPONSE, {
-      key,
-      data,
-      signature,
-      algorithm,
-    })
-  }
+  return json
 }
 
-export type JweDecryptFunction = (jwe: string) => Promise<string>
-
 /**
- * Minimal JWT validation implementation.
+ * Performs a Device Authorization Grant request at the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param clientAuthentication Client Authentication Method.
+ * @param deviceCode Device Code.
+ *
+ * @group Device Authorization Grant
+ *
+ * @see [RFC 8628 - OAuth 2.0 Device Authorization Grant](https://www.rfc-editor.org/rfc/rfc8628.html#section-3.4)
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-access-token-request)
  */
-async function validateJwt(
-  jws: string,
-  checkAlg: (h: CompactJWSHeaderParameters) => void,
-  clockSkew: number,
-  clockTolerance: number,
-  decryptJwt: JweDecryptFunction | undefined,
-): Promise<ParsedJWT> {
-  let { 0: protectedHeader, 1: payload, length } = jws.split('.')
-
-  if (length === 5) {
-    if (decryptJwt !== undefined) {
-      jws = await decryptJwt(jws)
-      ;({ 0: protectedHeader, 1: payload, length } = jws.split('.'))
-    } else {
-      throw new UnsupportedOperationError('JWE decryption is not configured', { cause: jws })
-    }
-  }
-
-  if (length !== 3) {
-    throw OPE('Invalid JWT', INVALID_RESPONSE, jws)
-  }
-
-  let header: JsonValue
-  try {
-    header = JSON.parse(buf(b64u(protectedHeader)))
-  } catch (cause) {
-    throw OPE('failed to parse JWT Header body as base64url encoded JSON', PARSE_ERROR, cause)
-  }
-
-  if (!isJsonObject<CompactJWSHeaderParameters>(header)) {
-    throw OPE('JWT Header must be a top level object', INVALID_RESPONSE, jws)
-  }
+export async function deviceCodeGrantRequest(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  deviceCode: string,
+  options?: TokenEndpointRequestOptions,
+): Promise<Response> {
+  assertAs(as)
+  assertClient(client)
 
-  checkAlg(header)
-  if (header.crit !== undefined) {
-    throw new UnsupportedOperationError('no JWT "crit" header parameter extensions are supported', {
-      cause: { header },
-    })
-  }
+  assertString(deviceCode, '"deviceCode"')
 
-  let claims: JsonValue
-  try {
-    claims = JSON.parse(buf(b64u(payload)))
-  } catch (cause) {
-    throw OPE('failed to parse JWT Payload body as base64url encoded JSON', PARSE_ERROR, cause)
-  }
+  const parameters = new URLSearchParams(options?.additionalParameters)
+  parameters.set('device_code', deviceCode)
+  return tokenEndpointRequest(
+    as,
+    client,
+    clientAuthentication,
+    'urn:ietf:params:oauth:grant-type:device_code',
+    parameters,
+    options,
+  )
+}
 
-  if (!isJsonObject<JWTPayload>(claims)) {
-    throw OPE('JWT Payload must be a top level object', INVALID_RESPONSE, jws)
-  }
+/**
+ * Validates Device Authorization Grant {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param response Resolved value from {@link deviceCodeGrantRequest}.
+ *
+ * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
+ *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
+ *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
+ *
+ * @group Device Authorization Grant
+ *
+ * @see [RFC 8628 - OAuth 2.0 Device Authorization Grant](https://www.rfc-editor.org/rfc/rfc8628.html#section-3.4)
+ */
+export async function processDeviceCodeResponse(
+  as: AuthorizationServer,
+  client: Client,
+  response: Response,
+  options?: JWEDecryptOptions,
+): Promise<TokenEndpointResponse> {
+  return processGenericAccessTokenResponse(as, client, response, undefined, options)
+}
 
-  const now = epochTime() + clockSkew
+export interface BackchannelAuthenticationRequestOptions
+  extends HttpRequestOptions<'POST', URLSearchParams> {}
 
-  if (claims.exp !== undefined) {
-    if (typeof claims.exp !== 'number') {
-      throw OPE('unexpected JWT "exp" (expiration time) claim type', INVALID_RESPONSE, { claims })
-    }
+/**
+ * Performs a Backchannel Authentication Request at the
+ * {@link AuthorizationServer.backchannel_authentication_endpoint `as.backchannel_authentication_endpoint`}.
+ *
+ * Signed Authentication Requests are sent by passing a Request Object obtained from
+ * {@link issueRequestObject} as the only `request` parameter.
+ *
+ * @example
+ *
+ * Signed Authentication Request
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let client!: oauth.Client
+ * let clientAuth!: oauth.ClientAuth
+ * let key!: oauth.CryptoKey | oauth.PrivateKey
+ * let loginHintToken!: string
+ *
+ * let request = await oauth.issueRequestObject(
+ *   as,
+ *   client,
+ *   { scope: 'openid', login_hint_token: loginHintToken },
+ *   key,
+ * )
+ *
+ * let response = await oauth.backchannelAuthenticationRequest(as, client, clientAuth, {
+ *   request,
+ * })
+ * ```
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param clientAuthentication Client Authentication Method.
+ * @param parameters Backchannel Authentication Request parameters.
+ *
+ * @group Client-Initiated Backchannel Authentication (CIBA)
+ *
+ * @see [OpenID Connect Client-Initiated Backchannel Authentication Flow - Core 1.0](https://openid.net/specs/openid-client-initiated-backchannel-authentication-core-1_0.html#auth_request)
+ */
+export async function backchannelAuthenticationRequest(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  parameters: URLSearchParams | Record<string, string> | string[][],
+  options?: BackchannelAuthenticationRequestOptions,
+): Promise<Response> {
+  assertAs(as)
+  assertClient(client)
 
-    if (claims.exp <= now - clockTolerance) {
-      throw OPE(
-        'unexpected JWT "exp" (expiration time) claim value, expiration is past current timestamp',
-        JWT_TIMESTAMP_CHECK,
-        { claims, now, tolerance: clockTolerance, claim: 'exp' },
-      )
-    }
-  }
+  const url = resolveEndpoint(
+    as,
+    'backchannel_authentication_endpoint',
+    client.use_mtls_endpoint_aliases,
+    options?.[allowInsecureRequests] !== true,
+  )
 
-  if (claims.iat !== undefined) {
-    if (typeof claims.iat !== 'number') {
-      throw OPE('unexpected JWT "iat" (issued at) claim type', INVALID_RESPONSE, { claims })
-    }
-  }
+  const body = new URLSearchParams(parameters)
+  body.set('client_id', client.client_id)
 
-  if (claims.iss !== undefined) {
-    if (typeof claims.iss !== 'string') {
-      throw OPE('unexpected JWT "iss" (issuer) claim type', INVALID_RESPONSE, { claims })
-    }
-  }
+  const headers = prepareHeaders(options?.headers)
+  headers.set('accept', 'application/json')
 
-  if (claims.nbf !== undefined) {
-    if (typeof claims.nbf !== 'number') {
-      throw OPE('unexpected JWT "nbf" (not before) claim type', INVALID_RESPONSE, { claims })
-    }
-    if (claims.nbf > now + clockTolerance) {
-      throw OPE('unexpected JWT "nbf" (not before) claim value', JWT_TIMESTAMP_CHECK, {
-        claims,
-        now,
-        tolerance: clockTolerance,
-        claim: 'nbf',
-      })
-    }
-  }
+  return authenticatedRequest(as, client, clientAuthentication, url, body, headers, options)
+}
 
-  if (claims.aud !== undefined) {
-    if (typeof claims.aud !== 'string' && !Array.isArray(claims.aud)) {
-      throw OPE('unexpected JWT "aud" (audience) claim type', INVALID_RESPONSE, { claims })
-    }
-  }
+export interface BackchannelAuthenticationResponse {
+  /**
+   * Unique identifier to identify the authentication request.
+   */
+  readonly auth_req_id: string
+  /**
+   * The lifetime in seconds of the "auth_req_id"
+   */
+  readonly expires_in: number
+  /**
+   * The minimum amount of time in seconds that the client should wait between polling requests to
+   * the token endpoint.
+   */
+  readonly interval?: number
 
-  return { header, claims, jwt: jws }
+  readonly [parameter: string]: JsonValue | undefined
 }
 
 /**
- * Same as {@link validateAuthResponse} but for signed JARM responses.
+ * Validates {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.backchannel_authentication_endpoint `as.backchannel_authentication_endpoint`}.
  *
  * @param as Authorization Server Metadata.
  * @param client Client Metadata.
- * @param parameters JARM authorization response.
- * @param expectedState Expected `state` parameter value. Default is {@link expectNoState}.
+ * @param response Resolved value from {@link backchannelAuthenticationRequest}.
  *
- * @returns Validated Authorization Response parameters. Authorization Error Responses are rejected
- *   using {@link AuthorizationResponseError}.
+ * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
+ *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
+ *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
  *
- * @group Authorization Code Grant
- * @group Authorization Code Grant w/ OpenID Connect (OIDC)
- * @group JWT Secured Authorization Response Mode for OAuth 2.0 (JARM)
- * @group FAPI 2.0 Message Signing
- * @group FAPI 1.0 Advanced
+ * @group Client-Initiated Backchannel Authentication (CIBA)
  *
- * @see [JWT Secured Authorization Response Mode for OAuth 2.0 (JARM)](https://openid.net/specs/openid-financial-api-jarm.html)
+ * @see [OpenID Connect Client-Initiated Backchannel Authentication Flow - Core 1.0](https://openid.net/specs/openid-client-initiated-backchannel-authentication-core-1_0.html#auth_response)
  */
-export async function validateJwtAuthResponse(
+export async function processBackchannelAuthenticationResponse(
   as: AuthorizationServer,
   client: Client,
-  parameters: URLSearchParams | URL,
-  expectedState?: string | typeof expectNoState | typeof skipStateCheck,
-  options?: ValidateSignatureOptions & JWEDecryptOptions,
-): Promise<URLSearchParams> {
+  response: Response,
+): Promise<BackchannelAuthenticationResponse> {
   assertAs(as)
   assertClient(client)
 
-  if (parameters instanceof URL) {
-    parameters = parameters.searchParams
+  if (!looseInstanceOf(response, Response)) {
+    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
   }
 
-  if (!(parameters instanceof URLSearchParams)) {
-    throw CodedTypeError(
-      '"parameters" must be an instance of URLSearchParams, or URL',
-      ERR_INVALID_ARG_TYPE,
+  let challenges: WWWAuthenticateChallenge[] | undefined
+  if ((challenges = parseWwwAuthenticateChallenges(response))) {
+    throw new WWWAuthenticateChallengeError(
+      'server responded with a challenge in the WWW-Authenticate HTTP Header',
+      { cause: challenges, response },
     )
   }
 
-  const response = getURLSearchParameter(parameters, 'response')
-  if (!response) {
-    throw OPE('"parameters" does not contain a JARM response', INVALID_RESPONSE)
-  }
-
-  const { claims, header, jwt } = await validateJwt(
-    response,
-    checkSigningAlgorithm.bind(
-      undefined,
-      client.authorization_signed_response_alg,
-      as.authorization_signing_alg_values_supported,
-      'RS256',
-    ),
-    getClockSkew(client),
-    getClockTolerance(client),
-    options?.[jweDecrypt],
-  )
-    .then(validatePresence.bind(undefined, ['aud', 'exp', 'iss']))
-    .then(validateIssuer.bind(undefined, as))
-    .then(validateAudience.bind(undefined, client.client_id))
-
-  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = jwt.split('.')
-
-  const signature = b64u(encodedSignature)
-  const key = await getPublicSigKeyFromIssuerJwksUri(as, options, header)
-  await validateJwsSignature(protectedHeader, payload, key, signature)
-
-  const result = new URLSearchParams()
-  for (const [key, value] of Object.entries(claims)) {
-    // filters out timestamps
-    if (typeof value === 'string' && key !== 'aud') {
-      result.set(key, value)
+  if (response.status !== 200) {
+    let err: OAuth2Error | undefined
+    if ((err = await handleOAuthBodyError(response))) {
+      await response.body?.cancel()
+      throw new ResponseBodyError('server responded with an error in the response body', {
+        cause: err,
+        response,
+      })
     }
+    throw OPE(
+      '"response" is not a conform Backchannel Authentication Endpoint response (unexpected HTTP status code)',
+      RESPONSE_IS_NOT_CONFORM,
+      response,
+    )
   }
 
-  return validateAuthResponse(as, client, result, expectedState)
-}
+  assertReadableResponse(response)
+  assertApplicationJson(response)
+  let json: JsonValue
+  try {
+    json = await response.json()
+  } catch (cause) {
+    throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
+  }
 
-async function idTokenHash(data: string, header: CompactJWSHeaderParameters, claimName: string) {
-  let algorithm: string
-  switch (header.alg) {
-    case 'RS256': // Fall through
-    case 'PS256': // Fall through
-    case 'ES256':
-      algorithm = 'SHA-256'
-      break
-    case 'RS384': // Fall through
-    case 'PS384': // Fall through
-    case 'ES384':
-      algorithm = 'SHA-384'
-      break
-    case 'RS512': // Fall through
-    case 'PS512': // Fall through
-    case 'ES512': // Fall through
-    case 'Ed25519': // Fall through
-    case 'EdDSA':
-      algorithm = 'SHA-512'
-      break
-    default:
-      throw new UnsupportedOperationError(
-        `unsupported JWS algorithm for ${claimName} calculation`,
-        { cause: { alg: header.alg } },
-      )
+  if (!isJsonObject<Writeable<BackchannelAuthenticationResponse>>(json)) {
+    throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
   }
 
-  const digest = await crypto.subtle.digest(algorithm, buf(data))
-  return b64u(digest.slice(0, digest.byteLength / 2))
-}
+  assertString(json.auth_req_id, '"response" body "auth_req_id" property', INVALID_RESPONSE, {
+    body: json,
+  })
 
-async function idTokenHashMatches(
-  data: string,
-  actual: string,
-  header: CompactJWSHeaderParameters,
-  claimName: string,
-) {
-  const expected = await idTokenHash(data, header, claimName)
-  return actual === expected
-}
+  let expiresIn: unknown =
+    typeof json.expires_in !== 'number' ? parseFloat(json.expires_in) : json.expires_in
+  assertNumber(expiresIn, false, '"response" body "expires_in" property', INVALID_RESPONSE, {
+    body: json,
+  })
+  json.expires_in = expiresIn
 
-/**
- * Same as {@link validateAuthResponse} but for FAPI 1.0 Advanced Detached Signature authorization
- * responses.
- *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param parameters Authorization Response parameters as URLSearchParams, instance of URL with
- *   parameters in a fragment/hash, or a `form_post` Request instance.
- * @param expectedNonce Expected ID Token `nonce` claim value.
- * @param expectedState Expected `state` parameter value. Default is {@link expectNoState}.
- * @param maxAge ID Token {@link IDToken.auth_time `auth_time`} claim value will be checked to be
- *   present and conform to the `maxAge` value. Use of this option is required if you sent a
- *   `max_age` parameter in an authorization request. Default is
- *   {@link Client.default_max_age `client.default_max_age`} and falls back to
- *   {@link skipAuthTimeCheck}.
+  if (json.interval !== undefined) {
+    assertNumber(json.interval, false, '"response" body "interval" property', INVALID_RESPONSE, {
+      body: json,
+    })
+  }
+
+  return json
+}
+
+/**
+ * Performs a Backchannel Authentication Grant request at the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}. This is used by both the Poll and
+ * Ping token delivery modes.
  *
- * @returns Validated Authorization Response parameters. Authorization Error Responses are rejected
- *   using {@link AuthorizationResponseError}.
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata.
+ * @param clientAuthentication Client Authentication Method.
+ * @param authReqId Unique identifier to identify the authentication request.
  *
- * @group FAPI 1.0 Advanced
+ * @group Client-Initiated Backchannel Authentication (CIBA)
  *
- * @see [Financial-grade API Security Profile 1.0 - Part 2: Advanced](https://openid.net/specs/openid-financial-api-part-2-1_0.html#id-token-as-detached-signature)
+ * @see [OpenID Connect Client-Initiated Backchannel Authentication Flow - Core 1.0](https://openid.net/specs/openid-client-initiated-backchannel-authentication-core-1_0.html#token_request)
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-access-token-request)
  */
-export async function validateDetachedSignatureResponse(
+export async function backchannelAuthenticationGrantRequest(
   as: AuthorizationServer,
   client: Client,
-  parameters: URLSearchParams | URL | Request,
-  expectedNonce: string,
-  expectedState?: string | typeof expectNoState,
-  maxAge?: number | typeof skipAuthTimeCheck,
-  options?: ValidateSignatureOptions & JWEDecryptOptions,
-): Promise<URLSearchParams> {
-  return validateHybridResponse(
+  clientAuthentication: ClientAuth,
+  authReqId: string,
+  options?: TokenEndpointRequestOptions,
+): Promise<Response> {
+  assertAs(as)
+  assertClient(client)
+
+  assertString(authReqId, '"authReqId"')
+
+  const parameters = new URLSearchParams(options?.additionalParameters)
+  parameters.set('auth_req_id', authReqId)
+  return tokenEndpointRequest(
     as,
     client,
+    clientAuthentication,
+    'urn:openid:params:grant-type:ciba',
     parameters,
-    expectedNonce,
-    expectedState,
-    maxAge,
     options,
-    true,
   )
 }
 
 /**
- * Same as {@link validateAuthResponse} but for `code id_token` authorization responses.
+ * Validates Backchannel Authentication Grant {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ *
+ * Like with {@link processDeviceCodeResponse} the `authorization_pending` and `slow_down` errors are
+ * rejected using {@link ResponseBodyError}, the polling interval should be increased when the latter
+ * is encountered.
  *
  * @param as Authorization Server Metadata.
  * @param client Client Metadata.
- * @param parameters Authorization Response parameters as URLSearchParams, instance of URL with
- *   parameters in a fragment/hash, or a `form_post` Request instance.
- * @param expectedNonce Expected ID Token `nonce` claim value.
- * @param expectedState Expected `state` parameter value. Default is {@link expectNoState}.
- * @param maxAge ID Token {@link IDToken.auth_time `auth_time`} claim value will be checked to be
- *   present and conform to the `maxAge` value. Use of this option is required if you sent a
- *   `max_age` parameter in an authorization request. Default is
- *   {@link Client.default_max_age `client.default_max_age`} and falls back to
- *   {@link skipAuthTimeCheck}.
+ * @param response Resolved value from {@link backchannelAuthenticationGrantRequest}.
  *
- * @returns Validated Authorization Response parameters. Authorization Error Responses are rejected
- *   using {@link AuthorizationResponseError}.
+ * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
+ *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
+ *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
  *
- * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ * @group Client-Initiated Backchannel Authentication (CIBA)
  *
- * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.1.2)
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#HybridFlowAuth)
+ * @see [OpenID Connect Client-Initiated Backchannel Authentication Flow - Core 1.0](https://openid.net/specs/openid-client-initiated-backchannel-authentication-core-1_0.html#token_response)
  */
-export async function validateCodeIdTokenResponse(
+export async function processBackchannelAuthenticationGrantResponse(
   as: AuthorizationServer,
   client: Client,
-  parameters: URLSearchParams | URL | Request,
-  expectedNonce: string,
-  expectedState?: string | typeof expectNoState,
-  maxAge?: number | typeof skipAuthTimeCheck,
-  options?: ValidateSignatureOptions & JWEDecryptOptions,
-): Promise<URLSearchParams> {
-  return validateHybridResponse(
-    as,
-    client,
-    parameters,
-    expectedNonce,
-    expectedState,
-    maxAge,
-    options,
-    false,
-  )
+  response: Response,
+  options?: JWEDecryptOptions,
+): Promise<TokenEndpointResponse> {
+  return processGenericAccessTokenResponse(as, client, response, undefined, options)
 }
 
-async function consumeStream(request: Request) {
-  if (request.bodyUsed) {
-    throw CodedTypeError(
-      'form_post Request instances must contain a readable body',
-      ERR_INVALID_ARG_VALUE,
-      { cause: request },
-    )
+async function backchannelCallbackBody(request: Request, clientNotificationToken: string) {
+  if (!looseInstanceOf(request, Request)) {
+    throw CodedTypeError('"request" must be an instance of Request', ERR_INVALID_ARG_TYPE)
   }
 
-  return request.text()
-}
+  assertString(clientNotificationToken, '"clientNotificationToken"')
 
-async function formPostResponse(request: Request) {
   if (request.method !== 'POST') {
     throw CodedTypeError(
-      'form_post responses are expected to use the POST method',
+      'backchannel authentication callbacks are expected to use the POST method',
       ERR_INVALID_ARG_VALUE,
       { cause: request },
     )
   }
 
-  if (getContentType(request) !== 'application/x-www-form-urlencoded') {
+  if (getContentType(request) !== 'application/json') {
     throw CodedTypeError(
-      'form_post responses are expected to use the application/x-www-form-urlencoded content-type',
+      'backchannel authentication callbacks are expected to use the application/json content-type',
       ERR_INVALID_ARG_VALUE,
       { cause: request },
     )
   }
 
-  return consumeStream(request)
-}
-
-async function validateHybridResponse(
-  as: AuthorizationServer,
-  client: Client,
-  parameters: URLSearchParams | URL | Request,
-  expectedNonce: string,
-  expectedState: string | typeof expectNoState | undefined,
-  maxAge: number | typeof skipAuthTimeCheck | undefined,
-  options: (ValidateSignatureOptions & JWEDecryptOptions) | undefined,
-  fapi: boolean,
-): Promise<URLSearchParams> {
-  assertAs(as)
-  assertClient(client)
-
-  if (parameters instanceof URL) {
-    if (!parameters.hash.length) {
-      throw CodedTypeError(
-        '"parameters" as an instance of URL must contain a hash (fragment) with the Authorization Response parameters',
-        ERR_INVALID_ARG_VALUE,
-      )
-    }
-    parameters = new URLSearchParams(parameters.hash.slice(1))
-  } else if (looseInstanceOf(parameters, Request)) {
-    parameters = new URLSearchParams(await formPostResponse(parameters))
-  } else if (parameters instanceof URLSearchParams) {
-    parameters = new URLSearchParams(parameters)
-  } else {
-    throw CodedTypeError(
-      '"parameters" must be an instance of URLSearchParams, URL, or Response',
-      ERR_INVALID_ARG_TYPE,
-    )
-  }
-
-  const id_token = getURLSearchParameter(parameters, 'id_token')
-  parameters.delete('id_token')
-
-  switch (expectedState) {
-    case undefined:
-    case expectNoState:
-      break
-    default:
-      assertString(expectedState, '"expectedState" argument')
-  }
-
-  const result = validateAuthResponse(
-    {
-      ...as,
-      authorization_response_iss_parameter_supported: false,
-    },
-    client,
-    parameters,
-    expectedState,
-  )
-
-  if (!id_token) {
-    throw OPE('"parameters" does not contain an ID Token', INVALID_RESPONSE)
-  }
-  const code = getURLSearchParameter(parameters, 'code')
-  if (!code) {
-    throw OPE('"parameters" does not contain an Authorization Code', INVALID_RESPONSE)
-  }
-
-  const requiredClaims: (keyof typeof jwtClaimNames)[] = [
-    'aud',
-    'exp',
-    'iat',
-    'iss',
-    'sub',
-    'nonce',
-    'c_hash',
-  ]
-
-  const state = parameters.get('state')
-  if (fapi && (typeof expectedState === 'string' || state !== null)) {
-    requiredClaims.push('s_hash')
-  }
-
-  if (maxAge !== undefined) {
-    assertNumber(maxAge, false, '"maxAge" argument')
-  } else if (client.default_max_age !== undefined) {
-    assertNumber(client.default_max_age, false, '"client.default_max_age"')
-  }
-
-  maxAge ??= client.default_max_age ?? skipAuthTimeCheck
-  if (client.require_auth_time || maxAge !== skipAuthTimeCheck) {
-    requiredClaims.push('auth_time')
-  }
-
-  const { claims, header, jwt } = await validateJwt(
-    id_token,
-    checkSigningAlgorithm.bind(
-      undefined,
-      client.id_token_signed_response_alg,
-      as.id_token_signing_alg_values_supported,
-      'RS256',
-    ),
-    getClockSkew(client),
-    getClockTolerance(client),
-    options?.[jweDecrypt],
-  )
-    .then(validatePresence.bind(undefined, requiredClaims))
-    .then(validateIssuer.bind(undefined, as))
-    .then(validateAudience.bind(undefined, client.client_id))
-
-  const clockSkew = getClockSkew(client)
-  const now = epochTime() + clockSkew
-  if (claims.iat! < now - 3600) {
-    throw OPE(
-      'unexpected JWT "iat" (issued at) claim value, it is too far in the past',
-      JWT_TIMESTAMP_CHECK,
-      { now, claims, claim: 'iat' },
-    )
-  }
-
-  assertString(claims.c_hash, 'ID Token "c_hash" (code hash) claim value', INVALID_RESPONSE, {
-    claims,
-  })
-
-  if (claims.auth_time !== undefined) {
-    assertNumber(
-      claims.auth_time,
-      false,
-      'ID Token "auth_time" (authentication time)',
-      INVALID_RESPONSE,
-      { claims },
-    )
-  }
-
-  if (maxAge !== skipAuthTimeCheck) {
-    const now = epochTime() + getClockSkew(client)
-    const tolerance = getClockTolerance(client)
-    if ((claims as IDToken).auth_time! + maxAge < now - tolerance) {
-      throw OPE(
-        'too much time has elapsed since the last End-User authentication',
-        JWT_TIMESTAMP_CHECK,
-        { claims, now, tolerance, claim: 'auth_time' },
-      )
-    }
-  }
-
-  assertString(expectedNonce, '"expectedNonce" argument')
-
-  if (claims.nonce !== expectedNonce) {
-    throw OPE('unexpected ID Token "nonce" claim value', JWT_CLAIM_COMPARISON, {
-      expected: expectedNonce,
-      claims,
-      claim: 'nonce',
-    })
-  }
-
-  if (Array.isArray(claims.aud) && claims.aud.length !== 1) {
-    if (claims.azp === undefined) {
-      throw OPE(
-        'ID Token "aud" (audience) claim includes additional untrusted audiences',
-        JWT_CLAIM_COMPARISON,
-        { claims, claim: 'aud' },
-      )
-    }
-    if (claims.azp !== client.client_id) {
-      throw OPE('unexpected ID Token "azp" (authorized party) claim value', JWT_CLAIM_COMPARISON, {
-        expected: client.client_id,
-        claims,
-        claim: 'azp',
-      })
-    }
-  }
-
-  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = jwt.split('.')
-
-  const signature = b64u(encodedSignature)
-  const key = await getPublicSigKeyFromIssuerJwksUri(as, options, header)
-  await validateJwsSignature(protectedHeader, payload, key, signature)
-
-  if ((await idTokenHashMatches(code, claims.c_hash, header, 'c_hash')) !== true) {
-    throw OPE('invalid ID Token "c_hash" (code hash) claim value', JWT_CLAIM_COMPARISON, {
-      code,
-      alg: header.alg,
-      claim: 'c_hash',
-      claims,
+  const authorization = request.headers.get('authorization')
+  if (authorization === null) {
+    throw OPE('"request" is missing an Authorization HTTP Header', INVALID_REQUEST, {
+      headers: request.headers,
     })
   }
 
-  if ((fapi && state !== null) || claims.s_hash !== undefined) {
-    assertString(claims.s_hash, 'ID Token "s_hash" (state hash) claim value', INVALID_RESPONSE, {
-      claims,
+  const { 0: scheme, 1: token, length } = authorization.split(' ')
+  if (length !== 2 || scheme.toLowerCase() !== 'bearer') {
+    throw OPE('invalid Authorization HTTP Header format', INVALID_REQUEST, {
+      headers: request.headers,
     })
-    assertString(state, '"state" response parameter', INVALID_RESPONSE, { parameters })
-
-    if ((await idTokenHashMatches(state, claims.s_hash, header, 's_hash')) !== true) {
-      throw OPE('invalid ID Token "s_hash" (state hash) claim value', JWT_CLAIM_COMPARISON, {
-        state,
-        alg: header.alg,
-        claim: 's_hash',
-        claims,
-      })
-    }
   }
 
-  return result
-}
+  const [actual, expected] = await Promise.all(
+    [token, clientNotificationToken].map((value) => crypto.subtle.digest('SHA-256', buf(value))),
+  )
+  if (b64u(actual) !== b64u(expected)) {
+    throw OPE('unexpected client notification token', INVALID_REQUEST, {
+      headers: request.headers,
+    })
+  }
 
-/**
- * If configured must be the configured one (client), if not configured must be signalled by the
- * issuer to be supported (issuer), if not signalled may be a default fallback, otherwise its a
- * failure
- */
-function checkSigningAlgorithm(
-  client: string | string[] | undefined,
-  issuer: string[] | undefined,
-  fallback: string | string[] | typeof supported | undefined,
-  header: CompactJWSHeaderParameters,
-) {
-  if (client !== undefined) {
-    if (typeof client === 'string' ? header.alg !== client : !client.includes(header.alg)) {
-      throw OPE('unexpected JWT "alg" header parameter', INVALID_RESPONSE, {
-        header,
-        expected: client,
-        reason: 'client configuration',
-      })
-    }
-    return
+  if (request.bodyUsed) {
+    throw CodedTypeError('"request" body has been used already', ERR_INVALID_ARG_VALUE)
   }
 
-  if (Array.isArray(issuer)) {
-    if (!issuer.includes(header.alg)) {
-      throw OPE('unexpected JWT "alg" header parameter', INVALID_RESPONSE, {
-        header,
-        expected: issuer,
-        reason: 'authorization server metadata',
-      })
-    }
-    return
+  let json: JsonValue
+  try {
+    json = await request.json()
+  } catch (cause) {
+    throw OPE('failed to parse "request" body as JSON', PARSE_ERROR, cause)
   }
 
-  if (fallback !== undefined) {
-    if (
-      typeof fallback === 'string'
-        ? header.alg !== fallback
-        : typeof fallback === 'function'
-          ? !fallback(header.alg)
-          : !fallback.includes(header.alg)
-    ) {
-      throw OPE('unexpected JWT "alg" header parameter', INVALID_RESPONSE, {
-        header,
-        expected: fallback,
-        reason: 'default value',
-      })
-    }
-    return
+  if (!isJsonObject(json)) {
+    throw OPE('"request" body must be a top level object', INVALID_REQUEST, { body: json })
   }
 
-  throw OPE(
-    'missing client or server configuration to verify used JWT "alg" header parameter',
-    undefined,
-    { client, issuer, fallback },
-  )
-}
+  assertString(json.auth_req_id, '"request" body "auth_req_id" property', INVALID_REQUEST, {
+    body: json,
+  })
 
-/**
- * Returns a parameter by name from URLSearchParams. It must be only provided once. Returns
- * undefined if the parameter is not present.
- */
-function getURLSearchParameter(parameters: URLSearchParams, name: string): string | undefined {
-  const { 0: value, length } = parameters.getAll(name)
-  if (length > 1) {
-    throw OPE(`"${name}" parameter must be provided only once`, INVALID_RESPONSE)
-  }
-  return value
+  return json as JsonObject & { auth_req_id: string }
 }
 
 /**
- * DANGER ZONE - This option has security implications that must be understood, assessed for
- * applicability, and accepted before use.
+ * Validates an incoming Ping Callback {@link !Request} sent by the authorization server to the
+ * client's notification endpoint. Its `auth_req_id` is then used with
+ * {@link backchannelAuthenticationGrantRequest} to retrieve the tokens.
  *
- * Use this as a value to {@link validateAuthResponse} `expectedState` parameter to skip the `state`
- * value check when you'll be validating such `state` value yourself instead. This should only be
- * done if you use a `state` parameter value that is integrity protected and bound to the browsing
- * session. One such mechanism to do so is described in an I-D
- * [draft-bradley-oauth-jwt-encoded-state-09](https://datatracker.ietf.org/doc/html/draft-bradley-oauth-jwt-encoded-state-09).
+ * @param request Incoming {@link !Request} to the client's notification endpoint.
+ * @param clientNotificationToken `client_notification_token` value sent with the corresponding
+ *   Backchannel Authentication Request.
+ *
+ * @returns Resolves with the `auth_req_id` from the callback.
+ *
+ * @group Client-Initiated Backchannel Authentication (CIBA)
+ *
+ * @see [OpenID Connect Client-Initiated Backchannel Authentication Flow - Core 1.0](https://openid.net/specs/openid-client-initiated-backchannel-authentication-core-1_0.html#ping_callback)
  */
-export const skipStateCheck: unique symbol = Symbol()
+export async function validateBackchannelAuthenticationPingCallback(
+  request: Request,
+  clientNotificationToken: string,
+): Promise<string> {
+  const { auth_req_id } = await backchannelCallbackBody(request, clientNotificationToken)
+  return auth_req_id
+}
 
-/**
- * Use this as a value to {@link validateAuthResponse} `expectedState` parameter to indicate no
- * `state` parameter value is expected, i.e. no `state` parameter value was sent with the
- * authorization request.
- */
-export const expectNoState: unique symbol = Symbol()
+export interface ValidateBackchannelAuthenticationPushCallbackOptions
+  extends ValidateSignatureOptions,
+    JWEDecryptOptions {}
 
 /**
- * Validates an OAuth 2.0 Authorization Response or Authorization Error Response message returned
- * from the authorization server's
- * {@link AuthorizationServer.authorization_endpoint `as.authorization_endpoint`}.
+ * Validates an incoming Push Callback {@link !Request} sent by the authorization server to the
+ * client's notification endpoint, this callback carries either the successful Token Response or an
+ * error.
+ *
+ * The ID Token is required to be present and include the `urn:openid:params:jwt:claim:auth_req_id`,
+ * `at_hash`, and (when a Refresh Token is pushed) `rt_hash` claims. Unlike a Token Endpoint
+ * response the push is not received over a TLS connection to the authorization server, the ID Token
+ * signature is therefore verified using the authorization server's
+ * {@link AuthorizationServer.jwks_uri `as.jwks_uri`}.
  *
  * @param as Authorization Server Metadata.
  * @param client Client Metadata.
- * @param parameters Authorization response.
- * @param expectedState Expected `state` parameter value. Default is {@link expectNoState}.
+ * @param request Incoming {@link !Request} to the client's notification endpoint.
+ * @param clientNotificationToken `client_notification_token` value sent with the corresponding
+ *   Backchannel Authentication Request.
  *
- * @returns Validated Authorization Response parameters. Authorization Error Responses throw
+ * @returns Resolves with an object representing the parsed successful push, its `auth_req_id`
+ *   property identifies the authentication request. Pushed errors are rejected using
  *   {@link AuthorizationResponseError}.
  *
- * @group Authorization Code Grant
- * @group Authorization Code Grant w/ OpenID Connect (OIDC)
+ * @group Client-Initiated Backchannel Authentication (CIBA)
  *
- * @see [RFC 6749 - The OAuth 2.0 Authorization Framework](https://www.rfc-editor.org/rfc/rfc6749.html#section-4.1.2)
- * @see [OpenID Connect Core 1.0](https://openid.net/specs/openid-connect-core-1_0.html#CodeFlowAuth)
- * @see [RFC 9207 - OAuth 2.0 Authorization Server Issuer Identification](https://www.rfc-editor.org/rfc/rfc9207.html)
+ * @see [OpenID Connect Client-Initiated Backchannel Authentication Flow - Core 1.0](https://openid.net/specs/openid-client-initiated-backchannel-authentication-core-1_0.html#push_callback)
  */
-export function validateAuthResponse(
+export async function validateBackchannelAuthenticationPushCallback(
   as: AuthorizationServer,
   client: Client,
-  parameters: URLSearchParams | URL,
-  expectedState?: string | typeof expectNoState | typeof skipStateCheck,
-): URLSearchParams {
+  request: Request,
+  clientNotificationToken: string,
+  options?: ValidateBackchannelAuthenticationPushCallbackOptions,
+): Promise<TokenEndpointResponse> {
   assertAs(as)
   assertClient(client)
 
-  if (parameters instanceof URL) {
-    parameters = parameters.searchParams
-  }
+  const json = await backchannelCallbackBody(request, clientNotificationToken)
 
-  if (!(parameters instanceof URLSearchParams)) {
-    throw CodedTypeError(
-      '"parameters" must be an instance of URLSearchParams, or URL',
-      ERR_INVALID_ARG_TYPE,
-    )
+  if (json.error !== undefined) {
+    const parameters = new URLSearchParams()
+    for (const [key, value] of Object.entries(json)) {
+      if (typeof value === 'string') {
+        parameters.set(key, value)
+      }
+    }
+    throw new AuthorizationResponseError('backchannel authentication push is an error', {
+      cause: parameters,
+    })
   }
 
-  if (getURLSearchParameter(parameters, 'response')) {
-    throw OPE(
-      '"parameters" contains a JARM response, use validateJwtAuthResponse() instead of validateAuthResponse()',
-      INVALID_RESPONSE,
-      { parameters },
-    )
+  const response = new Response(JSON.stringify(json), {
+    headers: { 'content-type': 'application/json' },
+  })
+
+  const requiredClaims: (keyof typeof jwtClaimNames)[] = [
+    'urn:openid:params:jwt:claim:auth_req_id',
+    'at_hash',
+  ]
+  if (json.refresh_token !== undefined) {
+    requiredClaims.push('rt_hash')
   }
 
-  const iss = getURLSearchParameter(parameters, 'iss')
-  const state = getURLSearchParameter(parameters, 'state')
+  const result = await processGenericAccessTokenResponse(
+    as,
+    client,
+    response,
+    requiredClaims,
+    options,
+  )
 
-  if (!iss && as.authorization_response_iss_parameter_supported) {
-    throw OPE('response parameter "iss" (issuer) missing', INVALID_RESPONSE, { parameters })
-  }
+  assertString(result.id_token, '"request" body "id_token" property', INVALID_RESPONSE, {
+    body: result,
+  })
 
-  if (iss && iss !== as.issuer) {
-    throw OPE('unexpected "iss" (issuer) response parameter value', INVALID_RESPONSE, {
-      expected: as.issuer,
-      parameters,
-    })
-  }
+  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = jwtRefs.get(response)!.split('.')
+  const header: CompactJWSHeaderParameters = JSON.parse(buf(b64u(protectedHeader)))
 
-  switch (expectedState) {
-    case undefined:
-    case expectNoState:
-      if (state !== undefined) {
-        throw OPE('unexpected "state" response parameter encountered', INVALID_RESPONSE, {
-          expected: undefined,
-          parameters,
-        })
-      }
-      break
-    case skipStateCheck:
-      break
-    default:
-      assertString(expectedState, '"expectedState" argument')
+  const key = await getPublicSigKeyFromIssuerJwksUri(as, options, header)
+  await validateJwsSignature(protectedHeader, payload, key, b64u(encodedSignature))
 
-      if (state !== expectedState) {
-        throw OPE(
-          state === undefined
-            ? 'response parameter "state" missing'
-            : 'unexpected "state" response parameter value',
-          INVALID_RESPONSE,
-          { expected: expectedState, parameters },
-        )
-      }
+  const claims = getValidatedIdTokenClaims(result)!
+  if (claims['urn:openid:params:jwt:claim:auth_req_id'] !== json.auth_req_id) {
+    throw OPE(
+      'unexpected ID Token "urn:openid:params:jwt:claim:auth_req_id" claim value',
+      JWT_CLAIM_COMPARISON,
+      {
+        expected: json.auth_req_id,
+        claims,
+        claim: 'urn:openid:params:jwt:claim:auth_req_id',
+      },
+    )
   }
 
-  const error = getURLSearchParameter(parameters, 'error')
-  if (error) {
-    throw new AuthorizationResponseError('authorization response from the server is an error', {
-      cause: parameters,
+  assertString(
+    claims.at_hash,
+    'ID Token "at_hash" (access token hash) claim value',
+    INVALID_RESPONSE,
+    {
+      claims,
+    },
+  )
+  if ((await idTokenHashMatches(result.access_token, claims.at_hash, header, 'at_hash')) !== true) {
+    throw OPE('invalid ID Token "at_hash" (access token hash) claim value', JWT_CLAIM_COMPARISON, {
+      alg: header.alg,
+      claim: 'at_hash',
+      claims,
     })
   }
 
-  const id_token = getURLSearchParameter(parameters, 'id_token')
-  const token = getURLSearchParameter(parameters, 'token')
-  if (id_token !== undefined || token !== undefined) {
-    throw new UnsupportedOperationError('implicit and hybrid flows are not supported')
-  }
+  if (result.refresh_token !== undefined) {
+    assertString(
+      claims.rt_hash,
+      'ID Token "rt_hash" (refresh token hash) claim value',
+      INVALID_RESPONSE,
+      { claims },
+    )
+    if (
+      (await idTokenHashMatches(result.refresh_token, claims.rt_hash, header, 'rt_hash')) !== true
+    ) {
+      throw OPE(
+        'invalid ID Token "rt_hash" (refresh token hash) claim value',
+        JWT_CLAIM_COMPARISON,
+        { alg: header.alg, claim: 'rt_hash', claims },
+      )
+    }
+  }
+
+  return result
+}
+
+/**
+ * Client Metadata to register with the authorization server.
+ *
+ * @see [RFC 7591 - OAuth 2.0 Dynamic Client Registration Protocol](https://www.rfc-editor.org/rfc/rfc7591.html#section-2)
+ * @see [OpenID Connect Dynamic Client Registration 1.0](https://openid.net/specs/openid-connect-registration-1_0.html#ClientMetadata)
+ */
+export interface ClientRegistrationMetadata {
+  /**
+   * Array of redirection URI strings for use in redirect-based flows such as the authorization code
+   * and implicit flows.
+   */
+  redirect_uris?: string[]
+  /**
+   * Requested authentication method for the token endpoint.
+   */
+  token_endpoint_auth_method?: string
+  /**
+   * Array of OAuth 2.0 grant type strings that the client can use at the token endpoint.
+   */
+  grant_types?: string[]
+  /**
+   * Array of the OAuth 2.0 response type strings that the client can use at the authorization
+   * endpoint.
+   */
+  response_types?: string[]
+  /**
+   * Human-readable string name of the client to be presented to the end-user during authorization.
+   */
+  client_name?: string
+  /**
+   * Space-separated list of scope values that the client can use when requesting access tokens.
+   */
+  scope?: string
+  /**
+   * URL string referencing the client's JSON Web Key Set document.
+   */
+  jwks_uri?: string
+  /**
+   * Client's JSON Web Key Set document value.
+   */
+  jwks?: { keys: JsonObject[] }
+  /**
+   * A software statement containing client metadata values about the client software as claims.
+   * This is a string value containing the entire signed JWT.
+   */
+  software_statement?: string
+
+  [metadata: string]: JsonValue | undefined
+}
 
-  return brand(new URLSearchParams(parameters))
+export interface DynamicClientRegistrationRequestOptions
+  extends HttpRequestOptions<'POST', string> {
+  /**
+   * Initial Access Token issued by the authorization server to authorize the registration request.
+   * It is sent using the Authorization HTTP Header using the Bearer scheme.
+   */
+  initialAccessToken?: string
 }
 
-function algToSubtle(alg: string): RsaHashedImportParams | EcKeyImportParams | AlgorithmIdentifier {
-  switch (alg) {
-    case 'PS256': // Fall through
-    case 'PS384': // Fall through
-    case 'PS512':
-      return { name: 'RSA-PSS', hash: `SHA-${alg.slice(-3)}` }
-    case 'RS256': // Fall through
-    case 'RS384': // Fall through
-    case 'RS512':
-      return { name: 'RSASSA-PKCS1-v1_5', hash: `SHA-${alg.slice(-3)}` }
-    case 'ES256': // Fall through
-    case 'ES384':
-      return { name: 'ECDSA', namedCurve: `P-${alg.slice(-3)}` }
-    case 'ES512':
-      return { name: 'ECDSA', namedCurve: 'P-521' }
-    case 'Ed25519':
-    case 'EdDSA':
-      return 'Ed25519'
-    default:
-      throw new UnsupportedOperationError('unsupported JWS algorithm', { cause: { alg } })
+async function clientRegistrationRequest<
+  Method extends 'GET' | 'POST' | 'PUT' | 'DELETE',
+  BodyType extends string | undefined,
+>(
+  url: URL,
+  method: Method,
+  accessToken: string | undefined,
+  body: BodyType,
+  options?: HttpRequestOptions<Method, BodyType>,
+) {
+  const headers = prepareHeaders(options?.headers)
+  headers.set('accept', 'application/json')
+  if (accessToken !== undefined) {
+    headers.set('authorization', `Bearer ${accessToken}`)
+  }
+  if (body !== undefined) {
+    headers.set('content-type', 'application/json')
   }
-}
 
-async function importJwk(alg: string, jwk: JWK) {
-  const { ext, key_ops, use, ...key } = jwk
-  return crypto.subtle.importKey('jwk', key, algToSubtle(alg), true, ['verify'])
+  return (options?.[customFetch] || fetch)(url.href, {
+    body,
+    headers: Object.fromEntries(headers.entries()),
+    method,
+    redirect: 'manual',
+    signal: options?.signal ? signal(options.signal) : undefined,
+  })
 }
 
-export interface DeviceAuthorizationRequestOptions
-  extends HttpRequestOptions<'POST', URLSearchParams> {}
-
 /**
- * Performs a Device Authorization Request at the
- * {@link AuthorizationServer.device_authorization_endpoint `as.device_authorization_endpoint`}.
+ * Performs a Dynamic Client Registration Request at the
+ * {@link AuthorizationServer.registration_endpoint `as.registration_endpoint`}.
+ *
+ * @example
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let initialAccessToken!: string
+ *
+ * let response = await oauth.dynamicClientRegistrationRequest(
+ *   as,
+ *   {
+ *     redirect_uris: ['https://rp.example.com/cb'],
+ *     token_endpoint_auth_method: 'client_secret_basic',
+ *   },
+ *   { initialAccessToken },
+ * )
+ *
+ * let client = await oauth.processDynamicClientRegistrationResponse(response)
+ * ```
  *
  * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param clientAuthentication Client Authentication Method.
- * @param parameters Device Authorization Request parameters.
+ * @param metadata Client Metadata to register.
  *
- * @group Device Authorization Grant
+ * @group Dynamic Client Registration
  *
- * @see [RFC 8628 - OAuth 2.0 Device Authorization Grant](https://www.rfc-editor.org/rfc/rfc8628.html#section-3.1)
+ * @see [RFC 7591 - OAuth 2.0 Dynamic Client Registration Protocol](https://www.rfc-editor.org/rfc/rfc7591.html#section-3.1)
+ * @see [OpenID Connect Dynamic Client Registration 1.0](https://openid.net/specs/openid-connect-registration-1_0.html#ClientRegistration)
  */
-export async function deviceAuthorizationRequest(
+export async function dynamicClientRegistrationRequest(
   as: AuthorizationServer,
-  client: Client,
-  clientAuthentication: ClientAuth,
-  parameters: URLSearchParams | Record<string, string> | string[][],
-  options?: DeviceAuthorizationRequestOptions,
+  metadata: ClientRegistrationMetadata,
+  options?: DynamicClientRegistrationRequestOptions,
 ): Promise<Response> {
   assertAs(as)
-  assertClient(client)
+
+  if (!isJsonObject(metadata)) {
+    throw CodedTypeError('"metadata" must be an object', ERR_INVALID_ARG_TYPE)
+  }
+
+  if (metadata.software_statement !== undefined) {
+    assertString(metadata.software_statement, '"metadata.software_statement"')
+  }
+
+  if (options?.initialAccessToken !== undefined) {
+    assertString(options.initialAccessToken, '"options.initialAccessToken"')
+  }
 
   const url = resolveEndpoint(
     as,
-    'device_authorization_endpoint',
-    client.use_mtls_endpoint_aliases,
+    'registration_endpoint',
+    false,
     options?.[allowInsecureRequests] !== true,
   )
 
-  const body = new URLSearchParams(parameters)
-  body.set('client_id', client.client_id)
-
-  const headers = prepareHeaders(options?.headers)
-  headers.set('accept', 'application/json')
-
-  return authenticatedRequest(as, client, clientAuthentication, url, body, headers, options)
+  return clientRegistrationRequest(
+    url,
+    'POST',
+    options?.initialAccessToken,
+    JSON.stringify(metadata),
+    options,
+  )
 }
 
-export interface DeviceAuthorizationResponse {
-  /**
-   * The device verification code
-   */
-  readonly device_code: string
+/**
+ * Registered Client Information. It is compatible with {@link Client} and can be used as such.
+ */
+export interface ClientRegistrationResponse extends Client {
   /**
-   * The end-user verification code
+   * Client secret, when one was issued.
    */
-  readonly user_code: string
+  readonly client_secret?: string
   /**
-   * The end-user verification URI on the authorization server. The URI should be short and easy to
-   * remember as end users will be asked to manually type it into their user agent.
+   * Time at which the client identifier was issued (seconds since the Unix epoch).
    */
-  readonly verification_uri: string
+  readonly client_id_issued_at?: number
   /**
-   * The lifetime in seconds of the "device_code" and "user_code"
+   * Time at which the client secret will expire (seconds since the Unix epoch) or 0 if it will not
+   * expire. Present when a client secret was issued.
    */
-  readonly expires_in: number
+  readonly client_secret_expires_at?: number
   /**
-   * A verification URI that includes the "user_code" (or other information with the same function
-   * as the "user_code"), which is designed for non-textual transmission
+   * Access Token used at the client configuration endpoint to perform subsequent operations upon
+   * the client registration.
    */
-  readonly verification_uri_complete?: string
+  readonly registration_access_token?: string
   /**
-   * The minimum amount of time in seconds that the client should wait between polling requests to
-   * the token endpoint.
+   * Location of the client configuration endpoint.
    */
-  readonly interval?: number
-
-  readonly [parameter: string]: JsonValue | undefined
+  readonly registration_client_uri?: string
 }
 
-/**
- * Validates {@link !Response} instance to be one coming from the
- * {@link AuthorizationServer.device_authorization_endpoint `as.device_authorization_endpoint`}.
- *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param response Resolved value from {@link deviceAuthorizationRequest}.
- *
- * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
- *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
- *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
- *
- * @group Device Authorization Grant
- *
- * @see [RFC 8628 - OAuth 2.0 Device Authorization Grant](https://www.rfc-editor.org/rfc/rfc8628.html#section-3.1)
- */
-export async function processDeviceAuthorizationResponse(
-  as: AuthorizationServer,
-  client: Client,
+async function processClientRegistrationResponse(
   response: Response,
-): Promise<DeviceAuthorizationResponse> {
-  assertAs(as)
-  assertClient(client)
-
+  expectedStatus: number,
+  name: string,
+): Promise<ClientRegistrationResponse> {
   if (!looseInstanceOf(response, Response)) {
     throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
   }
@@ -5482,7 +10591,7 @@ export async function processDeviceAuthorizationResponse(
     )
   }
 
-  if (response.status !== 200) {
+  if (response.status !== expectedStatus) {
     let err: OAuth2Error | undefined
     if ((err = await handleOAuthBodyError(response))) {
       await response.body?.cancel()
@@ -5492,7 +10601,7 @@ export async function processDeviceAuthorizationResponse(
       })
     }
     throw OPE(
-      '"response" is not a conform Device Authorization Endpoint response (unexpected HTTP status code)',
+      `"response" is not a conform ${name} response (unexpected HTTP status code)`,
       RESPONSE_IS_NOT_CONFORM,
       response,
     )
@@ -5507,109 +10616,259 @@ export async function processDeviceAuthorizationResponse(
     throw OPE('failed to parse "response" body as JSON', PARSE_ERROR, cause)
   }
 
-  if (!isJsonObject<Writeable<DeviceAuthorizationResponse>>(json)) {
+  if (!isJsonObject<ClientRegistrationResponse>(json)) {
     throw OPE('"response" body must be a top level object', INVALID_RESPONSE, { body: json })
   }
 
-  assertString(json.device_code, '"response" body "device_code" property', INVALID_RESPONSE, {
-    body: json,
-  })
-  assertString(json.user_code, '"response" body "user_code" property', INVALID_RESPONSE, {
+  assertString(json.client_id, '"response" body "client_id" property', INVALID_RESPONSE, {
     body: json,
   })
-  assertString(
-    json.verification_uri,
-    '"response" body "verification_uri" property',
-    INVALID_RESPONSE,
-    { body: json },
-  )
 
-  let expiresIn: unknown =
-    typeof json.expires_in !== 'number' ? parseFloat(json.expires_in) : json.expires_in
-  assertNumber(expiresIn, false, '"response" body "expires_in" property', INVALID_RESPONSE, {
-    body: json,
-  })
-  json.expires_in = expiresIn
+  if (json.client_secret !== undefined) {
+    assertString(json.client_secret, '"response" body "client_secret" property', INVALID_RESPONSE, {
+      body: json,
+    })
+    if (json.client_secret_expires_at !== 0) {
+      assertNumber(
+        json.client_secret_expires_at,
+        false,
+        '"response" body "client_secret_expires_at" property',
+        INVALID_RESPONSE,
+        { body: json },
+      )
+    }
+  }
 
-  if (json.verification_uri_complete !== undefined) {
-    assertString(
-      json.verification_uri_complete,
-      '"response" body "verification_uri_complete" property',
+  if (json.client_id_issued_at !== undefined) {
+    assertNumber(
+      json.client_id_issued_at,
+      false,
+      '"response" body "client_id_issued_at" property',
       INVALID_RESPONSE,
       { body: json },
     )
   }
 
-  if (json.interval !== undefined) {
-    assertNumber(json.interval, false, '"response" body "interval" property', INVALID_RESPONSE, {
-      body: json,
-    })
+  if (json.registration_access_token !== undefined || json.registration_client_uri !== undefined) {
+    assertString(
+      json.registration_access_token,
+      '"response" body "registration_access_token" property',
+      INVALID_RESPONSE,
+      { body: json },
+    )
+    assertString(
+      json.registration_client_uri,
+      '"response" body "registration_client_uri" property',
+      INVALID_RESPONSE,
+      { body: json },
+    )
   }
 
   return json
 }
 
 /**
- * Performs a Device Authorization Grant request at the
- * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ * Validates {@link !Response} instance to be one coming from the
+ * {@link AuthorizationServer.registration_endpoint `as.registration_endpoint`}.
  *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param clientAuthentication Client Authentication Method.
- * @param deviceCode Device Code.
+ * @param response Resolved value from {@link dynamicClientRegistrationRequest}.
  *
- * @group Device Authorization Grant
+ * @returns Resolves with the registered Client Information. OAuth 2.0 protocol style errors are
+ *   rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header challenges are rejected
+ *   with {@link WWWAuthenticateChallengeError}.
  *
- * @see [RFC 8628 - OAuth 2.0 Device Authorization Grant](https://www.rfc-editor.org/rfc/rfc8628.html#section-3.4)
- * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-dpop-access-token-request)
+ * @group Dynamic Client Registration
+ *
+ * @see [RFC 7591 - OAuth 2.0 Dynamic Client Registration Protocol](https://www.rfc-editor.org/rfc/rfc7591.html#section-3.2)
  */
-export async function deviceCodeGrantRequest(
-  as: AuthorizationServer,
-  client: Client,
-  clientAuthentication: ClientAuth,
-  deviceCode: string,
-  options?: TokenEndpointRequestOptions,
+export async function processDynamicClientRegistrationResponse(
+  response: Response,
+): Promise<ClientRegistrationResponse> {
+  return processClientRegistrationResponse(response, 201, 'Client Registration Endpoint')
+}
+
+function clientConfigurationEndpoint(
+  registration: ClientRegistrationResponse,
+  enforceHttps: boolean,
+) {
+  assertString(registration.client_id, '"registration.client_id"')
+  assertString(registration.registration_access_token, '"registration.registration_access_token"')
+  assertString(registration.registration_client_uri, '"registration.registration_client_uri"')
+
+  let url: URL | null
+  if (!(url = URLParse(registration.registration_client_uri))) {
+    throw CodedTypeError(
+      '"registration.registration_client_uri" must be a valid URL',
+      ERR_INVALID_ARG_VALUE,
+    )
+  }
+
+  checkProtocol(url, enforceHttps)
+
+  return url
+}
+
+/**
+ * Performs a Client Read Request at the client configuration endpoint
+ * ({@link ClientRegistrationResponse.registration_client_uri `registration.registration_client_uri`}).
+ *
+ * @param registration Registered Client Information.
+ *
+ * @group Dynamic Client Registration
+ *
+ * @see [RFC 7592 - OAuth 2.0 Dynamic Client Registration Management Protocol](https://www.rfc-editor.org/rfc/rfc7592.html#section-2.1)
+ */
+export async function readClientConfigurationRequest(
+  registration: ClientRegistrationResponse,
+  options?: HttpRequestOptions<'GET'>,
 ): Promise<Response> {
-  assertAs(as)
-  assertClient(client)
+  const url = clientConfigurationEndpoint(registration, options?.[allowInsecureRequests] !== true)
+
+  return clientRegistrationRequest(
+    url,
+    'GET',
+    registration.registration_access_token,
+    undefined,
+    options,
+  )
+}
+
+/**
+ * Performs a Client Update Request at the client configuration endpoint
+ * ({@link ClientRegistrationResponse.registration_client_uri `registration.registration_client_uri`}).
+ *
+ * The `metadata` replaces all of the client's current metadata values, the `client_id` is always
+ * included and the `registration_access_token`, `registration_client_uri`,
+ * `client_secret_expires_at`, and `client_id_issued_at` fields are omitted from the request.
+ *
+ * @param registration Registered Client Information.
+ * @param metadata Client Metadata to replace the current one with.
+ *
+ * @group Dynamic Client Registration
+ *
+ * @see [RFC 7592 - OAuth 2.0 Dynamic Client Registration Management Protocol](https://www.rfc-editor.org/rfc/rfc7592.html#section-2.2)
+ */
+export async function updateClientConfigurationRequest(
+  registration: ClientRegistrationResponse,
+  metadata: ClientRegistrationMetadata & { client_secret?: string },
+  options?: HttpRequestOptions<'PUT', string>,
+): Promise<Response> {
+  const url = clientConfigurationEndpoint(registration, options?.[allowInsecureRequests] !== true)
+
+  if (!isJsonObject(metadata)) {
+    throw CodedTypeError('"metadata" must be an object', ERR_INVALID_ARG_TYPE)
+  }
+
+  const body: Record<string, JsonValue | undefined> = {
+    ...metadata,
+    client_id: registration.client_id,
+  }
+  delete body.registration_access_token
+  delete body.registration_client_uri
+  delete body.client_secret_expires_at
+  delete body.client_id_issued_at
+
+  return clientRegistrationRequest(
+    url,
+    'PUT',
+    registration.registration_access_token,
+    JSON.stringify(body),
+    options,
+  )
+}
+
+/**
+ * Validates {@link !Response} instance to be one coming from the client configuration endpoint in
+ * response to a {@link readClientConfigurationRequest} or {@link updateClientConfigurationRequest}.
+ *
+ * @param response Resolved value from {@link readClientConfigurationRequest} or
+ *   {@link updateClientConfigurationRequest}.
+ *
+ * @returns Resolves with the current Client Information. OAuth 2.0 protocol style errors are
+ *   rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header challenges are rejected
+ *   with {@link WWWAuthenticateChallengeError}.
+ *
+ * @group Dynamic Client Registration
+ *
+ * @see [RFC 7592 - OAuth 2.0 Dynamic Client Registration Management Protocol](https://www.rfc-editor.org/rfc/rfc7592.html#section-3)
+ */
+export async function processClientConfigurationResponse(
+  response: Response,
+): Promise<ClientRegistrationResponse> {
+  return processClientRegistrationResponse(response, 200, 'Client Configuration Endpoint')
+}
 
-  assertString(deviceCode, '"deviceCode"')
+/**
+ * Performs a Client Delete Request at the client configuration endpoint
+ * ({@link ClientRegistrationResponse.registration_client_uri `registration.registration_client_uri`}).
+ *
+ * @param registration Registered Client Information.
+ *
+ * @group Dynamic Client Registration
+ *
+ * @see [RFC 7592 - OAuth 2.0 Dynamic Client Registration Management Protocol](https://www.rfc-editor.org/rfc/rfc7592.html#section-2.3)
+ */
+export async function deleteClientConfigurationRequest(
+  registration: ClientRegistrationResponse,
+  options?: HttpRequestOptions<'DELETE'>,
+): Promise<Response> {
+  const url = clientConfigurationEndpoint(registration, options?.[allowInsecureRequests] !== true)
 
-  const parameters = new URLSearchParams(options?.additionalParameters)
-  parameters.set('device_code', deviceCode)
-  return tokenEndpointRequest(
-    as,
-    client,
-    clientAuthentication,
-    'urn:ietf:params:oauth:grant-type:device_code',
-    parameters,
+  return clientRegistrationRequest(
+    url,
+    'DELETE',
+    registration.registration_access_token,
+    undefined,
     options,
   )
 }
 
 /**
- * Validates Device Authorization Grant {@link !Response} instance to be one coming from the
- * {@link AuthorizationServer.token_endpoint `as.token_endpoint`}.
+ * Validates {@link !Response} instance to be one coming from the client configuration endpoint in
+ * response to a {@link deleteClientConfigurationRequest}.
  *
- * @param as Authorization Server Metadata.
- * @param client Client Metadata.
- * @param response Resolved value from {@link deviceCodeGrantRequest}.
+ * @param response Resolved value from {@link deleteClientConfigurationRequest}.
  *
- * @returns Resolves with an object representing the parsed successful response. OAuth 2.0 protocol
+ * @returns Resolves with `undefined` when the client registration was deleted. OAuth 2.0 protocol
  *   style errors are rejected using {@link ResponseBodyError}. WWW-Authenticate HTTP Header
  *   challenges are rejected with {@link WWWAuthenticateChallengeError}.
  *
- * @group Device Authorization Grant
+ * @group Dynamic Client Registration
  *
- * @see [RFC 8628 - OAuth 2.0 Device Authorization Grant](https://www.rfc-editor.org/rfc/rfc8628.html#section-3.4)
+ * @see [RFC 7592 - OAuth 2.0 Dynamic Client Registration Management Protocol](https://www.rfc-editor.org/rfc/rfc7592.html#section-2.3)
  */
-export async function processDeviceCodeResponse(
-  as: AuthorizationServer,
-  client: Client,
+export async function processDeleteClientConfigurationResponse(
   response: Response,
-  options?: JWEDecryptOptions,
-): Promise<TokenEndpointResponse> {
-  return processGenericAccessTokenResponse(as, client, response, undefined, options)
+): Promise<undefined> {
+  if (!looseInstanceOf(response, Response)) {
+    throw CodedTypeError('"response" must be an instance of Response', ERR_INVALID_ARG_TYPE)
+  }
+
+  let challenges: WWWAuthenticateChallenge[] | undefined
+  if ((challenges = parseWwwAuthenticateChallenges(response))) {
+    throw new WWWAuthenticateChallengeError(
+      'server responded with a challenge in the WWW-Authenticate HTTP Header',
+      { cause: challenges, response },
+    )
+  }
+
+  if (response.status !== 204) {
+    let err: OAuth2Error | undefined
+    if ((err = await handleOAuthBodyError(response))) {
+      await response.body?.cancel()
+      throw new ResponseBodyError('server responded with an error in the response body', {
+        cause: err,
+        response,
+      })
+    }
+    throw OPE(
+      '"response" is not a conform Client Configuration Endpoint response (unexpected HTTP status code)',
+      RESPONSE_IS_NOT_CONFORM,
+      response,
+    )
+  }
+
+  return undefined
 }
 
 export interface GenerateKeyPairOptions {
@@ -5663,6 +10922,8 @@ export interface JWTAccessTokenClaims extends JWTPayload {
   readonly client_id: string
   readonly authorization_details?: AuthorizationDetails[]
   readonly scope?: string
+  readonly acr?: string
+  readonly auth_time?: number
 
   readonly [claim: string]: JsonValue | undefined
 }
@@ -5688,8 +10949,163 @@ export interface ValidateJWTAccessTokenOptions extends HttpRequestOptions<'GET'>
    * Proof JWTs). Default is all {@link JWSAlgorithm supported JWS Algorithms}.
    */
   signingAlgorithms?: string[]
+
+  /**
+   * Resource server provided DPoP nonces. When configured DPoP Proofs must include a `nonce` claim
+   * the provider deems valid, otherwise the operation is rejected with an
+   * {@link OperationProcessingError} whose code is {@link USE_DPOP_NONCE}.
+   */
+  dpopNonce?: DPoPNonceProvider
+
+  /**
+   * Cache used to detect replayed DPoP Proofs based on their `jti` claim. Default is a
+   * {@link MemoryReplayCache} with its default capacity, shared by all calls in the process that
+   * don't configure one. Use {@link MemoryReplayCache} to configure its capacity. Deployments with
+   * multiple processes or instances should configure a cache backed by shared storage.
+   */
+  dpopReplayCache?: DPoPReplayCache
+
+  /**
+   * The client certificate presented during the mutual-TLS handshake, either as a PEM-encoded
+   * string or DER-encoded bytes. Certificate-bound JWT Access Tokens (those with a `cnf.x5t#S256`
+   * claim) are rejected unless this certificate's SHA-256 thumbprint matches the confirmation
+   * claim.
+   *
+   * Note: When mutual-TLS is terminated by a proxy the forwarded certificate must be decoded from
+   * whatever transport encoding the proxy applies (e.g. URL-encoding) first.
+   *
+   * @see [RFC 8705 - OAuth 2.0 Mutual-TLS Client Authentication and Certificate-Bound Access Tokens](https://www.rfc-editor.org/rfc/rfc8705.html#name-certificate-bound-access-to)
+   */
+  clientCertificate?: string | Uint8Array | ArrayBuffer
+
+  /**
+   * Authentication Context Class Reference values one of which the access token's `acr` claim must
+   * be, otherwise the operation is rejected with an {@link OperationProcessingError} whose code is
+   * {@link INSUFFICIENT_USER_AUTHENTICATION}.
+   *
+   * @see [RFC 9470 - OAuth 2.0 Step Up Authentication Challenge Protocol](https://www.rfc-editor.org/rfc/rfc9470.html#name-authentication-requirements)
+   */
+  requiredAcrValues?: string[]
+
+  /**
+   * Maximum allowable elapsed time in seconds since the last active End-User authentication as
+   * indicated by the access token's `auth_time` claim, otherwise the operation is rejected with an
+   * {@link OperationProcessingError} whose code is {@link INSUFFICIENT_USER_AUTHENTICATION}.
+   *
+   * @see [RFC 9470 - OAuth 2.0 Step Up Authentication Challenge Protocol](https://www.rfc-editor.org/rfc/rfc9470.html#name-authentication-requirements)
+   */
+  maxAuthAge?: number
+}
+
+/**
+ * Resource server provided DPoP nonces.
+ *
+ * @group JWT Access Tokens
+ *
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-resource-server-provided-no)
+ */
+export interface DPoPNonceProvider {
+  /**
+   * Returns whether the DPoP Proof `nonce` claim value is (still) acceptable.
+   */
+  validate(nonce: string): Promise<boolean> | boolean
+}
+
+/**
+ * DPoP Proof `jti` (JWT ID) replay cache.
+ *
+ * @group JWT Access Tokens
+ *
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-checking-dpop-proofs)
+ */
+export interface DPoPReplayCache {
+  /**
+   * Stores the `jti` until the `expiresAt` unix timestamp (in seconds) unless it is already
+   * present. Resolves with `false` when the `jti` was already present, i.e. the DPoP Proof is
+   * replayed, `true` otherwise.
+   *
+   * Implementations backed by shared storage should perform this as a single atomic operation.
+   * Implementations unable to store the `jti` should reject instead of resolving with `false`.
+   */
+  add(jti: string, expiresAt: number): Promise<boolean> | boolean
+}
+
+export interface MemoryReplayCacheOptions {
+  /**
+   * Maximum number of unexpired `jti` values held. Default is `100_000`.
+   */
+  maxEntries?: number
+}
+
+class MemoryReplayCacheHandler implements DPoPReplayCache {
+  #map = new Map<string, number>()
+  #maxEntries: number
+
+  constructor(maxEntries: number) {
+    this.#maxEntries = maxEntries
+  }
+
+  add(jti: string, expiresAt: number) {
+    const now = epochTime()
+    const exp = this.#map.get(jti)
+    if (exp !== undefined && exp >= now) {
+      return false
+    }
+
+    // entries are only ever evicted once expired
+    if (this.#map.size >= this.#maxEntries) {
+      for (const [key, exp] of this.#map) {
+        if (exp < now) this.#map.delete(key)
+      }
+      if (this.#map.size >= this.#maxEntries) {
+        throw OPE('DPoP replay cache is full', REPLAY_CACHE_FULL, { maxEntries: this.#maxEntries })
+      }
+    }
+
+    this.#map.set(jti, expiresAt)
+    return true
+  }
+}
+
+/**
+ * Returns a {@link DPoPReplayCache} that keeps `jti` values in memory until they expire. When it
+ * holds {@link MemoryReplayCacheOptions.maxEntries `options.maxEntries`} unexpired values new DPoP
+ * Proofs are rejected with an {@link OperationProcessingError} whose code is
+ * {@link REPLAY_CACHE_FULL} until some of them expire.
+ *
+ * @group JWT Access Tokens
+ */
+export function MemoryReplayCache(options?: MemoryReplayCacheOptions): DPoPReplayCache {
+  const maxEntries = options?.maxEntries ?? 100_000
+  if (!Number.isSafeInteger(maxEntries) || maxEntries <= 0) {
+    throw CodedTypeError('"options.maxEntries" must be a positive integer', ERR_INVALID_ARG_VALUE)
+  }
+
+  return new MemoryReplayCacheHandler(maxEntries)
+}
+
+class MemoryCache<T> {
+  #map = new Map<string, [T, number]>()
+
+  get(key: string) {
+    const now = epochTime()
+    for (const [key, { 1: exp }] of this.#map) {
+      if (exp > now && this.#map.size < 10_000) break
+      this.#map.delete(key)
+    }
+
+    const entry = this.#map.get(key)
+    return entry && entry[1] > now ? entry[0] : undefined
+  }
+
+  set(key: string, value: T, expiresAt: number) {
+    this.#map.delete(key)
+    this.#map.set(key, [value, expiresAt])
+  }
 }
 
+let defaultReplayCache: DPoPReplayCache
+
 function normalizeHtu(htu: string) {
   const url = new URL(htu)
   url.search = ''
@@ -5703,12 +11119,18 @@ async function validateDPoP(
   accessTokenClaims: JWTPayload,
   options?: Pick<
     ValidateJWTAccessTokenOptions,
-    typeof clockSkew | typeof clockTolerance | 'signingAlgorithms'
+    typeof clockSkew | typeof clockTolerance | 'signingAlgorithms' | 'dpopNonce' | 'dpopReplayCache'
   >,
 ) {
+  // a DPoP-bound access token used with the Bearer scheme is an invalid token, not a bad proof
+  const usedAsBearer =
+    request.headers.get('authorization')?.toLowerCase().startsWith('dpop ') === false &&
+    typeof accessTokenClaims.cnf?.jkt === 'string'
+  const fail = usedAsBearer ? tokenBindingError : OPE
+
   const headerValue = request.headers.get('dpop')
   if (headerValue === null) {
-    throw OPE(
+    throw fail(
       'operation indicated DPoP use but the request has no DPoP HTTP Header',
       INVALID_REQUEST,
       { headers: request.headers },
@@ -5716,7 +11138,7 @@ async function validateDPoP(
   }
 
   if (request.headers.get('authorization')?.toLowerCase().startsWith('dpop ') === false) {
-    throw OPE(
+    throw fail(
       `operation indicated DPoP use but the request's Authorization HTTP Header scheme is not DPoP`,
       INVALID_REQUEST,
       { headers: request.headers },
@@ -5724,7 +11146,7 @@ async function validateDPoP(
   }
 
   if (typeof accessTokenClaims.cnf?.jkt !== 'string') {
-    throw OPE(
+    throw tokenBindingError(
       'operation indicated DPoP use but the JWT Access Token has no jkt confirmation claim',
       INVALID_REQUEST,
       { claims: accessTokenClaims },
@@ -5749,7 +11171,7 @@ async function validateDPoP(
       now,
       claims: proof.claims,
       claim: 'iat',
-    }) // TODO: add a symbol skip here for when the RS uses nonces
+    })
   }
 
   if (proof.claims.htm !== request.method) {
@@ -5781,63 +11203,301 @@ async function validateDPoP(
         claim: 'ath',
       })
     }
-  }
+  }
+
+  {
+    const expected = await jwkThumbprint(proof.header.jwk!)
+
+    if (accessTokenClaims.cnf.jkt !== expected) {
+      throw tokenBindingError('JWT Access Token confirmation mismatch', JWT_CLAIM_COMPARISON, {
+        expected,
+        claims: accessTokenClaims,
+        claim: 'cnf.jkt',
+      })
+    }
+  }
+
+  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = headerValue.split('.')
+
+  const signature = b64u(encodedSignature)
+  const { jwk, alg } = proof.header
+  if (!jwk) {
+    throw OPE('DPoP Proof is missing the jwk header parameter', INVALID_REQUEST, {
+      header: proof.header,
+    })
+  }
+  const key = await importJwk(alg, jwk)
+  if (key.type !== 'public') {
+    throw OPE('DPoP Proof jwk header parameter must contain a public key', INVALID_REQUEST, {
+      header: proof.header,
+    })
+  }
+  await validateJwsSignature(protectedHeader, payload, key, signature)
+
+  if (options?.dpopNonce !== undefined) {
+    const { nonce } = proof.claims
+    if (typeof nonce !== 'string' || !(await options.dpopNonce.validate(nonce))) {
+      throw OPE('DPoP Proof is missing a valid resource server provided nonce', USE_DPOP_NONCE, {
+        claims: proof.claims,
+        claim: 'nonce',
+      })
+    }
+  }
+
+  const replayCache = options?.dpopReplayCache ?? (defaultReplayCache ||= MemoryReplayCache())
+  // the entry must outlive the last second in which the proof's iat is still accepted
+  if (!(await replayCache.add(proof.claims.jti!, proof.claims.iat! + 301 - clockSkew))) {
+    throw OPE('DPoP Proof has already been used', INVALID_REQUEST, {
+      claims: proof.claims,
+      claim: 'jti',
+    })
+  }
+}
+
+/**
+ * Builds the `401 Unauthorized` {@link !Response} a resource server sends when a DPoP Proof is
+ * missing a valid resource server provided nonce, i.e. when {@link validateJwtAccessToken} rejects
+ * with an {@link OperationProcessingError} whose code is {@link USE_DPOP_NONCE}.
+ *
+ * @example
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let request!: Request
+ * let expectedAudience!: string
+ * let dpopNonce!: oauth.DPoPNonceProvider
+ * let currentNonce!: () => string
+ *
+ * try {
+ *   await oauth.validateJwtAccessToken(as, request, expectedAudience, { dpopNonce })
+ * } catch (err) {
+ *   if (err instanceof oauth.OperationProcessingError && err.code === oauth.USE_DPOP_NONCE) {
+ *     return oauth.dpopNonceErrorResponse(currentNonce())
+ *   }
+ *   throw err
+ * }
+ * ```
+ *
+ * @param nonce Nonce the client is to use in its subsequent DPoP Proofs.
+ * @param signingAlgorithms Supported DPoP Proof JWS algorithms to include in the challenge's `algs`
+ *   parameter.
+ *
+ * @group JWT Access Tokens
+ *
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-resource-server-provided-no)
+ */
+export function dpopNonceErrorResponse(nonce: string, signingAlgorithms?: string[]): Response {
+  assertString(nonce, '"nonce"')
+
+  return protectedResourceChallenge(
+    OPE('Resource server requires nonce in DPoP proof', USE_DPOP_NONCE),
+    { algs: signingAlgorithms, dpopNonce: nonce },
+  )
+}
+
+/**
+ * Use this as a value to {@link protectedResourceChallenge} `error` parameter to respond with an
+ * `insufficient_scope` error after the resource server's own authorization checks fail.
+ *
+ * @group JWT Access Tokens
+ *
+ * @see [RFC 6750 - The OAuth 2.0 Authorization Framework: Bearer Token Usage](https://www.rfc-editor.org/rfc/rfc6750.html#section-3.1)
+ */
+export const insufficientScope: unique symbol = Symbol()
+
+export interface ProtectedResourceChallengeOptions {
+  /**
+   * Authentication schemes to challenge with. Default is `["Bearer", "DPoP"]`. Errors specific to
+   * DPoP Proofs are only ever included in the `DPoP` challenge.
+   */
+  schemes?: ('Bearer' | 'DPoP')[]
+
+  /**
+   * Protection space (`realm`) of the resource server.
+   */
+  realm?: string
+
+  /**
+   * Space-delimited scope values required to access the protected resource.
+   */
+  scope?: string
+
+  /**
+   * Supported DPoP Proof JWS algorithms, included in the `DPoP` challenge `algs` parameter.
+   */
+  algs?: string[]
+
+  /**
+   * URL of the resource server's Protected Resource Metadata.
+   *
+   * @see [RFC 9728 - OAuth 2.0 Protected Resource Metadata](https://www.rfc-editor.org/rfc/rfc9728.html#name-use-of-www-authenticate-for)
+   */
+  resource_metadata?: string
+
+  /**
+   * Nonce to send in the `DPoP-Nonce` HTTP Header, this is required when the `error` is a
+   * {@link USE_DPOP_NONCE} error.
+   */
+  dpopNonce?: string
+
+  /**
+   * Authentication Context Class Reference values the resource server requires, included in the
+   * challenges of {@link INSUFFICIENT_USER_AUTHENTICATION} errors.
+   */
+  acr_values?: string[]
+
+  /**
+   * Maximum allowable elapsed time in seconds since the last active End-User authentication the
+   * resource server accepts, included in the challenges of {@link INSUFFICIENT_USER_AUTHENTICATION}
+   * errors.
+   */
+  max_age?: number
+}
+
+/**
+ * Maps a failed access token validation to the {@link !Response} a resource server sends. The
+ * response's status and WWW-Authenticate HTTP Header challenges are determined as follows
+ *
+ * - Requests without (supported) credentials get a `401` with challenges carrying no error
+ * - Invalid requests get a `400` with the `invalid_request` error
+ * - DPoP Proof errors get a `401` with the `invalid_dpop_proof` or `use_dpop_nonce` error
+ * - Step-up authentication errors get a `401` with the `insufficient_user_authentication` error
+ * - Access tokens used without their DPoP or certificate binding, e.g. a DPoP-bound access token sent
+ *   using the Bearer scheme, get a `401` with the `invalid_token` error
+ * - Other access token validation errors get a `401` with the `invalid_token` error
+ * - {@link insufficientScope} gets a `403` with the `insufficient_scope` error
+ *
+ * The `error_description` is a fixed text for each of these cases, the validation error's message
+ * is not disclosed to the client.
+ *
+ * Errors not originating from access token validation, such as those encountered while
+ * communicating with the authorization server (e.g. fetching its JWKS or processing its
+ * introspection response) or a full {@link MemoryReplayCache}, are re-thrown.
+ *
+ * @example
+ *
+ * ```ts
+ * let as!: oauth.AuthorizationServer
+ * let request!: Request
+ * let expectedAudience!: string
+ *
+ * let claims!: oauth.JWTAccessTokenClaims
+ * try {
+ *   claims = await oauth.validateJwtAccessToken(as, request, expectedAudience)
+ * } catch (err) {
+ *   return oauth.protectedResourceChallenge(err, { scope: 'read' })
+ * }
+ *
+ * if (!claims.scope?.split(' ').includes('read')) {
+ *   return oauth.protectedResourceChallenge(oauth.insufficientScope, { scope: 'read' })
+ * }
+ * ```
+ *
+ * @param error Error thrown by {@link validateJwtAccessToken} or
+ *   {@link validateIntrospectedAccessToken}, or {@link insufficientScope}.
+ *
+ * @group JWT Access Tokens
+ *
+ * @see [RFC 6750 - The OAuth 2.0 Authorization Framework: Bearer Token Usage](https://www.rfc-editor.org/rfc/rfc6750.html#section-3)
+ * @see [RFC 9449 - OAuth 2.0 Demonstrating Proof-of-Possession at the Application Layer (DPoP)](https://www.rfc-editor.org/rfc/rfc9449.html#name-the-dpop-authentication-sch)
+ */
+export function protectedResourceChallenge(
+  error: unknown,
+  options?: ProtectedResourceChallengeOptions,
+): Response {
+  let status: number
+  let code: string | undefined
+  let description: string | undefined
+  let dpopOnly = false
+  let stepUp = false
+
+  if (error === insufficientScope) {
+    status = 403
+    code = 'insufficient_scope'
+  } else if (
+    !(error instanceof OperationProcessingError || error instanceof UnsupportedOperationError) ||
+    error.code === RESPONSE_IS_NOT_CONFORM ||
+    error.code === REPLAY_CACHE_FULL ||
+    authorizationServerError.has(error)
+  ) {
+    throw error
+  } else if (missingCredentials.has(error)) {
+    status = 401
+  } else if (error.code === USE_DPOP_NONCE) {
+    if (options?.dpopNonce === undefined) {
+      throw CodedTypeError(
+        '"options.dpopNonce" must be provided to respond to a use_dpop_nonce error',
+        ERR_INVALID_ARG_VALUE,
+      )
+    }
+    status = 401
+    code = 'use_dpop_nonce'
+    description = 'Resource server requires nonce in DPoP proof'
+    dpopOnly = true
+  } else if (error.code === INSUFFICIENT_USER_AUTHENTICATION) {
+    status = 401
+    code = 'insufficient_user_authentication'
+    description = 'A different authentication level is required'
+    stepUp = true
+  } else if (invalidTokenBinding.has(error)) {
+    status = 401
+    code = 'invalid_token'
+    description = 'Invalid access token binding'
+  } else if (invalidDPoPProof.has(error)) {
+    status = 401
+    code = 'invalid_dpop_proof'
+    description = 'Invalid DPoP proof'
+    dpopOnly = true
+  } else if (error.code === INVALID_REQUEST) {
+    status = 400
+    code = 'invalid_request'
+    description = 'Invalid request'
+  } else {
+    status = 401
+    code = 'invalid_token'
+    description = 'Invalid access token'
+  }
+
+  let schemes = options?.schemes ?? ['Bearer', 'DPoP']
+  if (dpopOnly) {
+    schemes = ['DPoP']
+  }
+
+  const challenges = schemes.map((scheme) =>
+    formatChallenge(scheme, {
+      realm: options?.realm,
+      error: code,
+      error_description: description,
+      acr_values: stepUp ? options?.acr_values?.join(' ') : undefined,
+      max_age: stepUp ? options?.max_age?.toString() : undefined,
+      scope: options?.scope,
+      resource_metadata: options?.resource_metadata,
+      algs: scheme === 'DPoP' ? options?.algs?.join(' ') : undefined,
+    }),
+  )
 
-  {
-    let components: JWK
-    switch (proof.header.jwk!.kty) {
-      case 'EC':
-        components = {
-          crv: proof.header.jwk!.crv,
-          kty: proof.header.jwk!.kty,
-          x: proof.header.jwk!.x,
-          y: proof.header.jwk!.y,
-        }
-        break
-      case 'OKP':
-        components = {
-          crv: proof.header.jwk!.crv,
-          kty: proof.header.jwk!.kty,
-          x: proof.header.jwk!.x,
-        }
-        break
-      case 'RSA':
-        components = {
-          e: proof.header.jwk!.e,
-          kty: proof.header.jwk!.kty,
-          n: proof.header.jwk!.n,
-        }
-        break
-      default:
-        throw new UnsupportedOperationError('unsupported JWK key type', { cause: proof.header.jwk })
-    }
-    const expected = b64u(await crypto.subtle.digest('SHA-256', buf(JSON.stringify(components))))
+  return challengeResponse(status, challenges, options?.dpopNonce)
+}
 
-    if (accessTokenClaims.cnf.jkt !== expected) {
-      throw OPE('JWT Access Token confirmation mismatch', JWT_CLAIM_COMPARISON, {
-        expected,
-        claims: accessTokenClaims,
-        claim: 'cnf.jkt',
-      })
+function formatChallenge(scheme: string, parameters: Record<string, string | undefined>) {
+  const params: string[] = []
+  for (const [key, value] of Object.entries(parameters)) {
+    if (value !== undefined) {
+      params.push(`${key}="${value.replace(/[\\"]/g, '\\$&')}"`)
     }
   }
+  return params.length ? `${scheme} ${params.join(', ')}` : scheme
+}
 
-  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = headerValue.split('.')
-
-  const signature = b64u(encodedSignature)
-  const { jwk, alg } = proof.header
-  if (!jwk) {
-    throw OPE('DPoP Proof is missing the jwk header parameter', INVALID_REQUEST, {
-      header: proof.header,
-    })
-  }
-  const key = await importJwk(alg, jwk)
-  if (key.type !== 'public') {
-    throw OPE('DPoP Proof jwk header parameter must contain a public key', INVALID_REQUEST, {
-      header: proof.header,
-    })
+function challengeResponse(status: number, challenges: string[], nonce?: string) {
+  const headers = new Headers({
+    'cache-control': 'no-store',
+    'www-authenticate': challenges.join(', '),
+  })
+  if (nonce !== undefined) {
+    headers.set('dpop-nonce', nonce)
   }
-  await validateJwsSignature(protectedHeader, payload, key, signature)
+  return new Response(null, { status, headers })
 }
 
 /**
@@ -5856,8 +11516,13 @@ async function validateDPoP(
  * claims beyond just checking that they're present and that their type is a string. If you need to
  * validate these values further you would do so after this function's execution.
  *
- * This does NOT validate the DPoP Proof JWT nonce. If your server indicates RS-provided nonces to
- * clients you would check these after this function's execution.
+ * DPoP Proof JWT nonces are only validated when
+ * {@link ValidateJWTAccessTokenOptions.dpopNonce `options.dpopNonce`} is configured, DPoP Proof JWT
+ * `jti` claim values are checked not to be replayed using
+ * {@link ValidateJWTAccessTokenOptions.dpopReplayCache `options.dpopReplayCache`}.
+ *
+ * Certificate-bound JWT Access Tokens are validated against the presented
+ * {@link ValidateJWTAccessTokenOptions.clientCertificate `options.clientCertificate`}.
  *
  * This does NOT validate authorization claims such as `scope` either, you would do so after this
  * function's execution.
@@ -5884,30 +11549,9 @@ export async function validateJwtAccessToken(
   }
 
   assertString(expectedAudience, '"expectedAudience"')
+  assertUserAuthenticationOptions(options)
 
-  const authorization = request.headers.get('authorization')
-  if (authorization === null) {
-    throw OPE('"request" is missing an Authorization HTTP Header', INVALID_REQUEST, {
-      headers: request.headers,
-    })
-  }
-  let { 0: scheme, 1: accessToken, length } = authorization.split(' ')
-  scheme = scheme.toLowerCase()
-  switch (scheme) {
-    case 'dpop':
-    case 'bearer':
-      break
-    default:
-      throw new UnsupportedOperationError('unsupported Authorization HTTP Header scheme', {
-        cause: { headers: request.headers },
-      })
-  }
-
-  if (length !== 2) {
-    throw OPE('invalid Authorization HTTP Header format', INVALID_REQUEST, {
-      headers: request.headers,
-    })
-  }
+  const { scheme, accessToken } = parseAuthorizationHeader(request)
 
   const requiredClaims: (keyof typeof jwtClaimNames)[] = [
     'iss',
@@ -5942,6 +11586,243 @@ export async function validateJwtAccessToken(
     }
   }
 
+  checkConfirmationClaims(claims)
+
+  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = accessToken.split('.')
+
+  const signature = b64u(encodedSignature)
+  const key = await getPublicSigKeyFromIssuerJwksUri(as, options, header)
+  await validateJwsSignature(protectedHeader, payload, key, signature)
+
+  if (claims.cnf?.['x5t#S256'] !== undefined) {
+    await validateCertificateBinding(claims, options?.clientCertificate)
+  }
+
+  if (usesDPoP(request, scheme, claims, options)) {
+    await validateDPoP(request, accessToken, claims, options).catch(reassignDPoPCode)
+  }
+
+  checkUserAuthentication(claims, options)
+
+  return claims as JWTAccessTokenClaims
+}
+
+/**
+ * Cache of {@link IntrospectionResponse introspection responses} used by
+ * {@link validateIntrospectedAccessToken}. Entries are keyed by the base64url-encoded SHA-256 hash
+ * of the access token together with the authorization server's issuer identifier and the resource
+ * server's client identifier, so that the access tokens themselves are never stored and one cache
+ * can be shared between authorization servers and resource servers.
+ *
+ * @group Token Introspection
+ */
+export interface IntrospectionCache {
+  /**
+   * Returns the cached introspection response unless it is missing or expired.
+   */
+  get(key: string): Promise<IntrospectionResponse | undefined> | IntrospectionResponse | undefined
+
+  /**
+   * Stores the introspection response until the `expiresAt` unix timestamp (in seconds).
+   */
+  set(key: string, value: IntrospectionResponse, expiresAt: number): Promise<void> | void
+}
+
+let defaultIntrospectionCache: MemoryCache<IntrospectionResponse>
+
+export interface ValidateIntrospectedAccessTokenOptions
+  extends IntrospectionRequestOptions,
+    JWEDecryptOptions,
+    Pick<
+      ValidateJWTAccessTokenOptions,
+      | 'requireDPoP'
+      | 'signingAlgorithms'
+      | 'dpopNonce'
+      | 'dpopReplayCache'
+      | 'clientCertificate'
+      | 'requiredAcrValues'
+      | 'maxAuthAge'
+      | typeof clockSkew
+      | typeof clockTolerance
+    > {
+  /**
+   * Cache of active introspection responses. Default is a per-process in-memory cache.
+   */
+  introspectionCache?: IntrospectionCache
+
+  /**
+   * Maximum number of seconds an active introspection response is cached for, it is never cached
+   * past the access token's expiration. Use `0` to always perform an Introspection Request. Default
+   * is `60`.
+   */
+  introspectionCacheMaxAge?: number
+}
+
+/**
+ * Validates use of an opaque access token presented to a resource server by way of Token
+ * Introspection.
+ *
+ * The access token is taken from the {@link !Request} Authorization HTTP Header and introspected at
+ * the {@link AuthorizationServer.introspection_endpoint `as.introspection_endpoint`}, active
+ * introspection responses are cached as configured by
+ * {@link ValidateIntrospectedAccessTokenOptions.introspectionCache `options.introspectionCache`} and
+ * {@link ValidateIntrospectedAccessTokenOptions.introspectionCacheMaxAge `options.introspectionCacheMaxAge`}.
+ *
+ * This validates the introspection response indicates the access token is active, the presence of
+ * its `exp` and `aud` members as well as their values, and the DPoP or certificate binding of the
+ * access token the same way {@link validateJwtAccessToken} does.
+ *
+ * This does NOT validate authorization claims such as `scope`, you would do so after this
+ * function's execution.
+ *
+ * @param as Authorization Server Metadata.
+ * @param client Client Metadata of the resource server itself.
+ * @param clientAuthentication Client Authentication Method.
+ * @param request
+ * @param expectedAudience Audience identifier the resource server expects for itself.
+ *
+ * @group Token Introspection
+ *
+ * @see [RFC 7662 - OAuth 2.0 Token Introspection](https://www.rfc-editor.org/rfc/rfc7662.html#section-4)
+ */
+export async function validateIntrospectedAccessToken(
+  as: AuthorizationServer,
+  client: Client,
+  clientAuthentication: ClientAuth,
+  request: Request,
+  expectedAudience: string,
+  options?: ValidateIntrospectedAccessTokenOptions,
+): Promise<IntrospectionResponse> {
+  assertAs(as)
+  assertClient(client)
+
+  if (!looseInstanceOf(request, Request)) {
+    throw CodedTypeError('"request" must be an instance of Request', ERR_INVALID_ARG_TYPE)
+  }
+
+  assertString(expectedAudience, '"expectedAudience"')
+  assertUserAuthenticationOptions(options)
+
+  const maxAge = options?.introspectionCacheMaxAge ?? 60
+  if (!Number.isFinite(maxAge) || maxAge < 0) {
+    throw CodedTypeError(
+      '"options.introspectionCacheMaxAge" must be a non-negative number',
+      ERR_INVALID_ARG_VALUE,
+    )
+  }
+
+  const { scheme, accessToken } = parseAuthorizationHeader(request)
+
+  const cache =
+    options?.introspectionCache ??
+    (defaultIntrospectionCache ||= new MemoryCache<IntrospectionResponse>())
+  const key = b64u(
+    await crypto.subtle.digest(
+      'SHA-256',
+      buf(JSON.stringify([as.issuer, client.client_id, accessToken])),
+    ),
+  )
+
+  let claims = maxAge ? await cache.get(key) : undefined
+  if (claims === undefined) {
+    claims = await introspectionRequest(as, client, clientAuthentication, accessToken, options)
+      .then((response) => processIntrospectionResponse(as, client, response, options))
+      .catch(reassignASError)
+
+    if (claims.active === true && maxAge && typeof claims.exp === 'number') {
+      await cache.set(key, claims, Math.min(epochTime() + maxAge, claims.exp))
+    }
+  }
+
+  if (claims.active !== true) {
+    throw OPE('access token is not active', JSON_ATTRIBUTE_COMPARISON, {
+      expected: true,
+      body: claims,
+      attribute: 'active',
+    })
+  }
+
+  if (typeof claims.exp !== 'number') {
+    throw OPE('"response" body "exp" property must be a number', INVALID_RESPONSE, {
+      body: claims,
+    })
+  }
+
+  const now = epochTime() + getClockSkew(options)
+  const tolerance = getClockTolerance(options)
+  if (claims.exp <= now - tolerance) {
+    throw OPE('access token is expired', JWT_TIMESTAMP_CHECK, {
+      claims,
+      now,
+      tolerance,
+      claim: 'exp',
+    })
+  }
+
+  if (
+    Array.isArray(claims.aud)
+      ? !claims.aud.includes(expectedAudience)
+      : claims.aud !== expectedAudience
+  ) {
+    throw OPE('unexpected "response" body "aud" property value', JSON_ATTRIBUTE_COMPARISON, {
+      expected: expectedAudience,
+      body: claims,
+      attribute: 'aud',
+    })
+  }
+
+  checkConfirmationClaims(claims)
+
+  if (claims.cnf?.['x5t#S256'] !== undefined) {
+    await validateCertificateBinding(claims, options?.clientCertificate)
+  }
+
+  if (usesDPoP(request, scheme, claims, options)) {
+    if (claims.cnf?.jkt === undefined) {
+      throw tokenBindingError('access token is not DPoP-bound', INVALID_REQUEST, { body: claims })
+    }
+    await validateDPoP(request, accessToken, claims, options).catch(reassignDPoPCode)
+  }
+
+  checkUserAuthentication(claims, options)
+
+  return claims
+}
+
+function parseAuthorizationHeader(request: Request) {
+  const authorization = request.headers.get('authorization')
+  if (authorization === null) {
+    const err = OPE('"request" is missing an Authorization HTTP Header', INVALID_REQUEST, {
+      headers: request.headers,
+    })
+    missingCredentials.add(err)
+    throw err
+  }
+  let { 0: scheme, 1: accessToken, length } = authorization.split(' ')
+  scheme = scheme.toLowerCase()
+  switch (scheme) {
+    case 'dpop':
+    case 'bearer':
+      break
+    default: {
+      const err = new UnsupportedOperationError('unsupported Authorization HTTP Header scheme', {
+        cause: { headers: request.headers },
+      })
+      missingCredentials.add(err)
+      throw err
+    }
+  }
+
+  if (length !== 2) {
+    throw OPE('invalid Authorization HTTP Header format', INVALID_REQUEST, {
+      headers: request.headers,
+    })
+  }
+
+  return { scheme, accessToken }
+}
+
+function checkConfirmationClaims(claims: JWTPayload | IntrospectionResponse) {
   if ('cnf' in claims) {
     if (!isJsonObject(claims.cnf)) {
       throw OPE('unexpected JWT "cnf" (confirmation) claim value', INVALID_REQUEST, { claims })
@@ -5956,30 +11837,153 @@ export async function validateJwtAccessToken(
         })
       }
 
-      if (cnf !== 'jkt') {
+      if (cnf !== 'jkt' && cnf !== 'x5t#S256') {
         throw new UnsupportedOperationError('unsupported JWT Confirmation method', {
           cause: { claims },
         })
       }
     }
   }
+}
 
-  const { 0: protectedHeader, 1: payload, 2: encodedSignature } = accessToken.split('.')
+function assertUserAuthenticationOptions(
+  options?: Pick<ValidateJWTAccessTokenOptions, 'requiredAcrValues' | 'maxAuthAge'>,
+) {
+  if (options?.requiredAcrValues !== undefined && !isStringArray(options.requiredAcrValues)) {
+    throw CodedTypeError(
+      '"options.requiredAcrValues" must be an array of strings',
+      ERR_INVALID_ARG_TYPE,
+    )
+  }
 
-  const signature = b64u(encodedSignature)
-  const key = await getPublicSigKeyFromIssuerJwksUri(as, options, header)
-  await validateJwsSignature(protectedHeader, payload, key, signature)
+  if (options?.maxAuthAge !== undefined) {
+    assertNumber(options.maxAuthAge, true, '"options.maxAuthAge"')
+  }
+}
 
-  if (
-    options?.requireDPoP ||
+function checkUserAuthentication(
+  claims: JWTPayload | IntrospectionResponse,
+  options?: Pick<
+    ValidateJWTAccessTokenOptions,
+    'requiredAcrValues' | 'maxAuthAge' | typeof clockSkew | typeof clockTolerance
+  >,
+) {
+  const requiredAcrValues = options?.requiredAcrValues
+  if (requiredAcrValues !== undefined) {
+    if (typeof claims.acr !== 'string' || !requiredAcrValues.includes(claims.acr)) {
+      throw OPE(
+        'unexpected JWT "acr" (authentication context class reference) claim value',
+        INSUFFICIENT_USER_AUTHENTICATION,
+        { expected: requiredAcrValues, claims, claim: 'acr' },
+      )
+    }
+  }
+
+  const maxAuthAge = options?.maxAuthAge
+  if (maxAuthAge !== undefined) {
+    if (typeof claims.auth_time !== 'number') {
+      throw OPE(
+        'JWT "auth_time" (authentication time) claim missing',
+        INSUFFICIENT_USER_AUTHENTICATION,
+        { claims, claim: 'auth_time' },
+      )
+    }
+
+    const now = epochTime() + getClockSkew(options)
+    const tolerance = getClockTolerance(options)
+    if (claims.auth_time + maxAuthAge < now - tolerance) {
+      throw OPE(
+        'too much time has elapsed since the last End-User authentication',
+        INSUFFICIENT_USER_AUTHENTICATION,
+        { claims, now, tolerance, claim: 'auth_time' },
+      )
+    }
+  }
+}
+
+function usesDPoP(
+  request: Request,
+  scheme: string,
+  claims: JWTPayload,
+  options?: { requireDPoP?: boolean },
+) {
+  return (
+    options?.requireDPoP === true ||
     scheme === 'dpop' ||
     claims.cnf?.jkt !== undefined ||
     request.headers.has('dpop')
+  )
+}
+
+async function validateCertificateBinding(
+  claims: { cnf?: ConfirmationClaims },
+  certificate: string | Uint8Array | ArrayBuffer | undefined,
+) {
+  if (certificate === undefined) {
+    throw tokenBindingError(
+      'certificate-bound access token used without a client certificate',
+      INVALID_REQUEST,
+      { claims },
+    )
+  }
+
+  let der: Uint8Array | ArrayBuffer
+  if (typeof certificate === 'string') {
+    const match = certificate.match(
+      /-----BEGIN CERTIFICATE-----([\s\S]+?)-----END CERTIFICATE-----/,
+    )
+    if (!match) {
+      throw CodedTypeError(
+        '"options.clientCertificate" must be a PEM-encoded certificate',
+        ERR_INVALID_ARG_VALUE,
+      )
+    }
+    der = b64u(match[1])
+  } else if (
+    looseInstanceOf(certificate, Uint8Array) ||
+    looseInstanceOf(certificate, ArrayBuffer)
   ) {
-    await validateDPoP(request, accessToken, claims, options).catch(reassignRSCode)
+    der = certificate
+  } else {
+    throw CodedTypeError(
+      '"options.clientCertificate" must be a string, Uint8Array, or ArrayBuffer',
+      ERR_INVALID_ARG_TYPE,
+    )
   }
 
-  return claims as JWTAccessTokenClaims
+  const expected = b64u(await crypto.subtle.digest('SHA-256', der))
+  if (claims.cnf!['x5t#S256'] !== expected) {
+    throw tokenBindingError('JWT Access Token confirmation mismatch', JWT_CLAIM_COMPARISON, {
+      expected,
+      claims,
+      claim: 'cnf.x5t#S256',
+    })
+  }
+}
+
+const invalidDPoPProof = new WeakSet<Error>()
+const invalidTokenBinding = new WeakSet<Error>()
+const missingCredentials = new WeakSet<Error>()
+const authorizationServerError = new WeakSet<Error>()
+
+function tokenBindingError(message: string, code: string, cause: unknown) {
+  const err = OPE(message, code, cause)
+  invalidTokenBinding.add(err)
+  return err
+}
+
+function reassignASError(err: unknown): never {
+  if (err instanceof Error) {
+    authorizationServerError.add(err)
+  }
+  throw err
+}
+
+function reassignDPoPCode(err: unknown): never {
+  if (err instanceof Error && !invalidTokenBinding.has(err)) {
+    invalidDPoPProof.add(err)
+  }
+  reassignRSCode(err)
 }
 
 function reassignRSCode(err: unknown): never {
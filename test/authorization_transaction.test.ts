@@ -0,0 +1,175 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, {
+  client,
+  endpoint,
+  issuer,
+  setupJwks,
+  teardown,
+  type ContextWithAlgs,
+} from './_setup.js'
+import * as jose from 'jose'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<ContextWithAlgs>
+
+test.before(setup)
+test.after(teardown)
+test.before(setupJwks)
+
+const tIssuer: lib.AuthorizationServer = {
+  ...issuer,
+  token_endpoint: endpoint('token-transaction'),
+  jwks_uri: endpoint('jwks'),
+}
+
+function encryptionKey() {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+}
+
+function callback(state: string) {
+  return new URL(`https://rp.example.com/cb?code=authorization_code&state=${state}`)
+}
+
+test('AuthorizationTransactions() carries values across the redirect', async (t) => {
+  const transactions = lib.AuthorizationTransactions(await encryptionKey())
+
+  const started = await transactions.start({ nonce: true, max_age: 300 })
+  const other = await transactions.start()
+  const { transaction, parameters, cookie } = started
+
+  t.is(cookie.name, `oauth4webapi.tx.${transaction.state}`)
+  t.is(cookie.maxAge, 600)
+  t.is(transactions.cookieName(transaction.state), cookie.name)
+  t.false(cookie.value.includes(transaction.code_verifier))
+  t.deepEqual(Object.fromEntries(parameters), {
+    state: transaction.state,
+    code_challenge: await lib.calculatePKCECodeChallenge(transaction.code_verifier),
+    code_challenge_method: 'S256',
+    nonce: transaction.nonce,
+    max_age: '300',
+  })
+  t.is(other.transaction.nonce, undefined)
+  t.false(other.parameters.has('nonce'))
+  t.false(other.parameters.has('max_age'))
+
+  // concurrent transactions are told apart by their state
+  const headers = new Headers({
+    cookie: `${other.cookie.name}=${other.cookie.value}; ${cookie.name}=${cookie.value}; foo=bar`,
+  })
+  t.deepEqual(await transactions.restore(callback(transaction.state), headers), transaction)
+  t.deepEqual(
+    await transactions.restore(callback(other.transaction.state), {
+      [other.cookie.name]: other.cookie.value,
+    }),
+    other.transaction,
+  )
+
+  const restored = await transactions.restore(callback(transaction.state), headers)
+  const params = lib.validateAuthResponse(
+    tIssuer,
+    client,
+    callback(transaction.state),
+    restored.state,
+  )
+
+  const id_token = await new jose.SignJWT({
+    nonce: restored.nonce,
+    auth_time: Math.floor(Date.now() / 1000),
+  })
+    .setProtectedHeader({ alg: 'RS256' })
+    .setIssuer(issuer.issuer)
+    .setSubject('urn:example:subject')
+    .setAudience(client.client_id)
+    .setExpirationTime('5m')
+    .setIssuedAt()
+    .sign(t.context.RS256.privateKey)
+
+  t.context
+    .intercept({
+      path: '/token-transaction',
+      method: 'POST',
+      body(body) {
+        return new URLSearchParams(body).get('code_verifier') === transaction.code_verifier
+      },
+    })
+    .reply(
+      200,
+      { access_token: 'at', token_type: 'Bearer', id_token },
+      { headers: { 'content-type': 'application/json' } },
+    )
+
+  const response = await lib.authorizationCodeGrantRequest(
+    tIssuer,
+    client,
+    lib.None(),
+    params,
+    'https://rp.example.com/cb',
+    restored.code_verifier,
+  )
+  const result = await lib.processAuthorizationCodeResponse(tIssuer, client, response, {
+    expectedNonce: restored.nonce,
+    maxAge: restored.max_age,
+  })
+  t.is(lib.getValidatedIdTokenClaims(result)!.nonce, transaction.nonce)
+})
+
+test.serial(
+  'AuthorizationTransactions() rejects missing, foreign, moved, and expired values',
+  async (t) => {
+    const key = await encryptionKey()
+    const transactions = lib.AuthorizationTransactions(key, { maxAge: 60, cookiePrefix: 'tx-' })
+    const { transaction, cookie } = await transactions.start()
+    t.is(cookie.name, `tx-${transaction.state}`)
+
+    await t.throwsAsync(transactions.restore(callback(transaction.state), new Headers()), {
+      code: lib.INVALID_RESPONSE,
+      message: 'no authorization transaction found for the "state" response parameter',
+    })
+    await t.throwsAsync(
+      transactions.restore(new URL('https://rp.example.com/cb?code=foo'), {
+        [cookie.name]: cookie.value,
+      }),
+      { code: lib.INVALID_RESPONSE, message: 'response parameter "state" missing' },
+    )
+
+    // values are bound to their cookie name and sealed with the key
+    const { transaction: other } = await transactions.start()
+    await t.throwsAsync(
+      transactions.restore(callback(other.state), { [`tx-${other.state}`]: cookie.value }),
+      { code: lib.PARSE_ERROR, message: 'failed to decrypt the authorization transaction' },
+    )
+    await t.throwsAsync(
+      lib
+        .AuthorizationTransactions(await encryptionKey(), { cookiePrefix: 'tx-' })
+        .restore(callback(transaction.state), { [cookie.name]: cookie.value }),
+      { message: 'failed to decrypt the authorization transaction' },
+    )
+    await t.throwsAsync(
+      transactions.restore(callback(transaction.state), { [cookie.name]: 'foo' }),
+      { message: 'failed to decrypt the authorization transaction' },
+    )
+
+    const now = Date.now
+    Date.now = () => now() + 61_000
+    try {
+      await t.throwsAsync(
+        transactions.restore(callback(transaction.state), { [cookie.name]: cookie.value }),
+        { code: lib.JWT_TIMESTAMP_CHECK, message: 'authorization transaction has expired' },
+      )
+    } finally {
+      Date.now = now
+    }
+
+    t.throws(() => lib.AuthorizationTransactions(null as any), {
+      message: '"encryptionKey" must be a CryptoKey',
+    })
+    t.throws(() => lib.AuthorizationTransactions(key, { maxAge: 0 }), {
+      code: 'ERR_INVALID_ARG_VALUE',
+      message: '"options.maxAge" must be a positive number',
+    })
+    await t.throwsAsync(transactions.start({ max_age: -1 }), {
+      code: 'ERR_INVALID_ARG_VALUE',
+      message: '"options.max_age" must be a non-negative number',
+    })
+  },
+)
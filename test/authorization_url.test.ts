@@ -0,0 +1,170 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, { client, endpoint, issuer, teardown, type Context } from './_setup.js'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<Context>
+
+test.before(setup)
+test.after(teardown)
+
+const tIssuer: lib.AuthorizationServer = {
+  ...issuer,
+  authorization_endpoint: endpoint('authorize?foo=bar'),
+  response_types_supported: ['code', 'code id_token'],
+  response_modes_supported: ['query', 'form_post'],
+  code_challenge_methods_supported: ['S256'],
+  scopes_supported: ['openid', 'api:read'],
+  prompt_values_supported: ['none', 'login', 'consent'],
+}
+
+test('buildAuthorizationUrl()', async (t) => {
+  await t.throwsAsync(lib.buildAuthorizationUrl(issuer, client, {}), {
+    message: 'authorization server metadata does not contain a valid "as.authorization_endpoint"',
+  })
+
+  const url = await lib.buildAuthorizationUrl(tIssuer, client, {
+    client_id: 'will be overwritten',
+    redirect_uri: 'https://rp.example.com/cb',
+    response_type: 'id_token code',
+    response_mode: 'form_post',
+    code_challenge: 'challenge',
+    code_challenge_method: 'S256',
+    scope: 'openid api:read',
+    prompt: 'login consent',
+    foo: 'baz',
+  })
+  t.is(url.origin + url.pathname, 'https://op.example.com/authorize')
+  t.deepEqual(Object.fromEntries(url.searchParams), {
+    foo: 'baz',
+    client_id: client.client_id,
+    redirect_uri: 'https://rp.example.com/cb',
+    response_type: 'id_token code',
+    response_mode: 'form_post',
+    code_challenge: 'challenge',
+    code_challenge_method: 'S256',
+    scope: 'openid api:read',
+    prompt: 'login consent',
+  })
+
+  t.is(
+    (
+      await lib.buildAuthorizationUrl(
+        { ...issuer, authorization_endpoint: endpoint('authorize') },
+        client,
+        {
+          response_type: 'token',
+          scope: 'anything',
+        },
+      )
+    ).href,
+    'https://op.example.com/authorize?response_type=token&scope=anything&client_id=urn%3Aexample%3Aclient_id',
+  )
+})
+
+test('buildAuthorizationUrl() capability checks', async (t) => {
+  await t.throwsAsync(lib.buildAuthorizationUrl(tIssuer, client, { response_type: 'token' }), {
+    message:
+      '"parameters.response_type" value "token" is not supported by the authorization server',
+    code: 'ERR_INVALID_ARG_VALUE',
+  })
+
+  await t.throwsAsync(lib.buildAuthorizationUrl(tIssuer, client, { response_mode: 'fragment' }), {
+    message:
+      '"parameters.response_mode" value "fragment" is not supported by the authorization server',
+  })
+
+  await t.throwsAsync(
+    lib.buildAuthorizationUrl(tIssuer, client, { code_challenge_method: 'plain' }),
+    {
+      message:
+        '"parameters.code_challenge_method" value "plain" is not supported by the authorization server',
+    },
+  )
+
+  // scopes_supported may be a partial list, it is only enforced when opted in
+  await t.notThrowsAsync(lib.buildAuthorizationUrl(tIssuer, client, { scope: 'openid email' }))
+  await t.throwsAsync(
+    lib.buildAuthorizationUrl(
+      tIssuer,
+      client,
+      { scope: 'openid email' },
+      { checkScopesSupported: true },
+    ),
+    {
+      message: '"parameters.scope" value "email" is not supported by the authorization server',
+    },
+  )
+
+  await t.throwsAsync(lib.buildAuthorizationUrl(tIssuer, client, { prompt: 'create' }), {
+    message: '"parameters.prompt" value "create" is not supported by the authorization server',
+  })
+})
+
+test('buildAuthorizationUrl() with required PAR', async (t) => {
+  const parIssuer: lib.AuthorizationServer = {
+    ...tIssuer,
+    pushed_authorization_request_endpoint: endpoint('par'),
+    require_pushed_authorization_requests: true,
+  }
+
+  await t.throwsAsync(lib.buildAuthorizationUrl(parIssuer, client, { response_type: 'code' }), {
+    message:
+      '"options.clientAuthentication" must be a function when pushed authorization requests are required',
+  })
+
+  await t.throwsAsync(
+    lib.buildAuthorizationUrl(
+      parIssuer,
+      client,
+      { response_type: 'token' },
+      {
+        clientAuthentication: lib.None(),
+      },
+    ),
+    {
+      message:
+        '"parameters.response_type" value "token" is not supported by the authorization server',
+    },
+  )
+
+  t.context
+    .intercept({
+      path: '/par',
+      method: 'POST',
+      body(body) {
+        const params = new URLSearchParams(body)
+        return (
+          params.get('client_id') === client.client_id &&
+          params.get('response_type') === 'code' &&
+          params.get('scope') === 'openid'
+        )
+      },
+    })
+    .reply(
+      201,
+      { request_uri: 'urn:example:request_uri', expires_in: 60 },
+      { headers: { 'content-type': 'application/json' } },
+    )
+    .times(2)
+
+  t.is(
+    (
+      await lib.buildAuthorizationUrl(
+        parIssuer,
+        client,
+        { response_type: 'code', scope: 'openid' },
+        { clientAuthentication: lib.None() },
+      )
+    ).href,
+    'https://op.example.com/authorize?foo=bar&client_id=urn%3Aexample%3Aclient_id&request_uri=urn%3Aexample%3Arequest_uri',
+  )
+
+  await t.notThrowsAsync(
+    lib.buildAuthorizationUrl(
+      { ...parIssuer, require_pushed_authorization_requests: false },
+      { ...client, require_pushed_authorization_requests: true },
+      { response_type: 'code', scope: 'openid' },
+      { clientAuthentication: lib.None() },
+    ),
+  )
+})
@@ -0,0 +1,189 @@
+import anyTest, { type ExecutionContext, type TestFn } from 'ava'
+import setup, {
+  client,
+  endpoint,
+  issuer,
+  setupJwks,
+  teardown,
+  type ContextWithAlgs,
+} from './_setup.js'
+import * as jose from 'jose'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<ContextWithAlgs>
+
+test.before(setup)
+test.after(teardown)
+test.before(setupJwks)
+
+const tIssuer: lib.AuthorizationServer = {
+  ...issuer,
+  jwks_uri: endpoint('jwks'),
+}
+
+const events = { 'http://schemas.openid.net/event/backchannel-logout': {} }
+
+function logoutRequest(body: string | URLSearchParams, init?: RequestInit) {
+  return new Request('https://rp.example.com/backchannel_logout', {
+    method: 'POST',
+    headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    body,
+    ...init,
+  })
+}
+
+async function logoutToken(
+  t: ExecutionContext<ContextWithAlgs>,
+  payload: jose.JWTPayload,
+  header: jose.JWTHeaderParameters = { alg: 'ES256', typ: 'logout+jwt' },
+) {
+  const jwt = await new jose.SignJWT({
+    iss: issuer.issuer,
+    aud: client.client_id,
+    events,
+    ...payload,
+  })
+    .setProtectedHeader(header)
+    .setIssuedAt()
+    .setExpirationTime('2m')
+    .setJti(crypto.randomUUID())
+    .sign(t.context.ES256.privateKey)
+  return new URLSearchParams({ logout_token: jwt })
+}
+
+const es256Client = { ...client, id_token_signed_response_alg: 'ES256' }
+
+test('validateBackchannelLogoutRequest()', async (t) => {
+  const claims = await lib.validateBackchannelLogoutRequest(
+    tIssuer,
+    es256Client,
+    logoutRequest(await logoutToken(t, { sub: 'subject', sid: 'session' })),
+  )
+  t.is(claims.sub, 'subject')
+  t.is(claims.sid, 'session')
+  t.deepEqual(claims.events, events)
+  t.is(typeof claims.jti, 'string')
+
+  await t.notThrowsAsync(
+    lib.validateBackchannelLogoutRequest(
+      tIssuer,
+      es256Client,
+      logoutRequest(
+        await logoutToken(t, { sid: 'session' }, { alg: 'ES256', typ: 'application/logout+jwt' }),
+      ),
+    ),
+  )
+})
+
+test('validateBackchannelLogoutRequest() request checks', async (t) => {
+  await t.throwsAsync(lib.validateBackchannelLogoutRequest(tIssuer, es256Client, null as any), {
+    message: '"request" must be an instance of Request',
+  })
+
+  await t.throwsAsync(
+    lib.validateBackchannelLogoutRequest(
+      tIssuer,
+      es256Client,
+      new Request('https://rp.example.com/backchannel_logout'),
+    ),
+    { message: 'back-channel logout requests are expected to use the POST method' },
+  )
+
+  await t.throwsAsync(
+    lib.validateBackchannelLogoutRequest(
+      tIssuer,
+      es256Client,
+      logoutRequest('{}', { headers: { 'content-type': 'application/json' } }),
+    ),
+    {
+      message:
+        'back-channel logout requests are expected to use the application/x-www-form-urlencoded content-type',
+    },
+  )
+
+  const used = logoutRequest('')
+  await used.text()
+  await t.throwsAsync(lib.validateBackchannelLogoutRequest(tIssuer, es256Client, used), {
+    message: 'back-channel logout Request instances must contain a readable body',
+  })
+
+  await t.throwsAsync(
+    lib.validateBackchannelLogoutRequest(tIssuer, es256Client, logoutRequest('')),
+    {
+      message: '"request" body does not contain a "logout_token" parameter',
+      code: 'OAUTH_INVALID_REQUEST',
+    },
+  )
+})
+
+test('validateBackchannelLogoutRequest() Logout Token checks', async (t) => {
+  const validate = async (payload: jose.JWTPayload, header?: jose.JWTHeaderParameters) =>
+    lib.validateBackchannelLogoutRequest(
+      tIssuer,
+      es256Client,
+      logoutRequest(await logoutToken(t, payload, header)),
+    )
+
+  await t.throwsAsync(validate({ sub: 'subject' }, { alg: 'ES256', typ: 'JWT' }), {
+    message: 'unexpected JWT "typ" header parameter value',
+  })
+
+  await t.throwsAsync(validate({ sub: 'subject' }, { alg: 'ES256' }), {
+    message: 'unexpected JWT "typ" header parameter value',
+  })
+
+  await t.throwsAsync(validate({ sub: 'subject', events: undefined }), {
+    message: 'JWT "events" (events) claim missing',
+  })
+
+  await t.throwsAsync(validate({ sub: 'subject', events: { foo: {} } }), {
+    message:
+      'Logout Token "events" claim must contain a "http://schemas.openid.net/event/backchannel-logout" member object',
+  })
+
+  await t.throwsAsync(validate({ sub: 'subject', nonce: 'nonce' }), {
+    message: 'Logout Token must not contain a "nonce" claim',
+  })
+
+  await t.throwsAsync(validate({}), {
+    message: 'Logout Token must contain either a "sub" (subject) or "sid" (session id) claim',
+  })
+
+  await t.throwsAsync(validate({ sub: 'subject', aud: 'other' }), {
+    message: 'unexpected JWT "aud" (audience) claim value',
+  })
+
+  await t.throwsAsync(validate({ sub: 'subject', iss: 'https://other.example.com' }), {
+    message: 'unexpected JWT "iss" (issuer) claim value',
+  })
+
+  await t.throwsAsync(
+    lib.validateBackchannelLogoutRequest(
+      tIssuer,
+      { ...es256Client, backchannel_logout_session_required: true },
+      logoutRequest(await logoutToken(t, { sub: 'subject' })),
+    ),
+    { message: 'JWT "sid" (session id) claim missing' },
+  )
+
+  await t.throwsAsync(
+    lib.validateBackchannelLogoutRequest(
+      tIssuer,
+      client,
+      logoutRequest(await logoutToken(t, { sub: 'subject' })),
+    ),
+    { message: 'unexpected JWT "alg" header parameter' },
+  )
+
+  const params = await logoutToken(t, { sub: 'subject' })
+  const [header, payload] = params.get('logout_token')!.split('.')
+  const signature = jose.base64url.encode(new Uint8Array(64))
+  await t.throwsAsync(
+    lib.validateBackchannelLogoutRequest(
+      tIssuer,
+      es256Client,
+      logoutRequest(new URLSearchParams({ logout_token: `${header}.${payload}.${signature}` })),
+    ),
+    { message: 'JWT signature verification failed' },
+  )
+})
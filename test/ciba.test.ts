@@ -0,0 +1,465 @@
+import anyTest, { type TestFn } from 'ava'
+import * as crypto from 'crypto'
+import setup, {
+  client,
+  endpoint,
+  getResponse,
+  issuer,
+  setupJwks,
+  teardown,
+  type ContextWithAlgs,
+  UA,
+} from './_setup.js'
+import * as jose from 'jose'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<ContextWithAlgs>
+
+test.before(setup)
+test.after(teardown)
+test.before(setupJwks)
+
+const tClient: lib.Client = { ...client, token_endpoint_auth_method: 'none' }
+
+function halfHash(value: string) {
+  const digest = crypto.createHash('sha256').update(value).digest()
+  return digest.subarray(0, digest.byteLength / 2).toString('base64url')
+}
+
+function callback(body: unknown, token = 'notification-token') {
+  return new Request('https://rp.example.com/cb', {
+    method: 'POST',
+    headers: {
+      authorization: `Bearer ${token}`,
+      'content-type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+}
+
+test('backchannelAuthenticationRequest()', async (t) => {
+  await t.throwsAsync(
+    lib.backchannelAuthenticationRequest(issuer, tClient, lib.None(), new URLSearchParams()),
+    {
+      message:
+        'authorization server metadata does not contain a valid "as.backchannel_authentication_endpoint"',
+    },
+  )
+
+  const tIssuer: lib.AuthorizationServer = {
+    ...issuer,
+    backchannel_authentication_endpoint: endpoint('bc-authorize-1'),
+  }
+
+  t.context
+    .intercept({
+      path: '/bc-authorize-1',
+      method: 'POST',
+      headers: {
+        accept: 'application/json',
+        'user-agent': UA,
+      },
+      body(body) {
+        const params = new URLSearchParams(body)
+        return (
+          params.get('client_id') === client.client_id &&
+          params.get('scope') === 'openid' &&
+          params.get('login_hint') === 'user@example.com'
+        )
+      },
+    })
+    .reply(200, '')
+    .times(3)
+
+  await t.notThrowsAsync(
+    lib.backchannelAuthenticationRequest(
+      tIssuer,
+      tClient,
+      lib.None(),
+      new URLSearchParams({ scope: 'openid', login_hint: 'user@example.com' }),
+    ),
+  )
+  await t.notThrowsAsync(
+    lib.backchannelAuthenticationRequest(tIssuer, tClient, lib.None(), {
+      scope: 'openid',
+      login_hint: 'user@example.com',
+    }),
+  )
+  await t.notThrowsAsync(
+    lib.backchannelAuthenticationRequest(tIssuer, tClient, lib.None(), [
+      ['scope', 'openid'],
+      ['login_hint', 'user@example.com'],
+    ]),
+  )
+})
+
+test('backchannelAuthenticationRequest() w/ a signed request', async (t) => {
+  const tIssuer: lib.AuthorizationServer = {
+    ...issuer,
+    backchannel_authentication_endpoint: endpoint('bc-authorize-2'),
+  }
+
+  const request = await lib.issueRequestObject(
+    tIssuer,
+    tClient,
+    { scope: 'openid', login_hint_token: 'login-hint-token' },
+    t.context.ES256.privateKey,
+  )
+
+  t.context
+    .intercept({
+      path: '/bc-authorize-2',
+      method: 'POST',
+      body(body) {
+        const params = new URLSearchParams(body)
+        return params.get('request') === request && params.get('client_id') === client.client_id
+      },
+    })
+    .reply(200, '')
+
+  await t.notThrowsAsync(
+    lib.backchannelAuthenticationRequest(tIssuer, tClient, lib.None(), { request }),
+  )
+})
+
+test('processBackchannelAuthenticationResponse()', async (t) => {
+  await t.throwsAsync(lib.processBackchannelAuthenticationResponse(issuer, client, null as any), {
+    message: '"response" must be an instance of Response',
+  })
+  await t.throwsAsync(
+    lib.processBackchannelAuthenticationResponse(issuer, client, getResponse('', { status: 404 })),
+    {
+      message:
+        '"response" is not a conform Backchannel Authentication Endpoint response (unexpected HTTP status code)',
+    },
+  )
+  await t.throwsAsync(
+    lib.processBackchannelAuthenticationResponse(issuer, client, getResponse('{"')),
+    {
+      message: 'failed to parse "response" body as JSON',
+    },
+  )
+  await t.throwsAsync(
+    lib.processBackchannelAuthenticationResponse(issuer, client, getResponse('[]')),
+    {
+      message: '"response" body must be a top level object',
+    },
+  )
+
+  const validResponse = {
+    auth_req_id: 'auth_req_id',
+    expires_in: 120,
+    interval: 2,
+  }
+
+  t.deepEqual(
+    await lib.processBackchannelAuthenticationResponse(
+      issuer,
+      client,
+      getResponse(JSON.stringify(validResponse)),
+    ),
+    validResponse,
+  )
+
+  await t.notThrowsAsync(
+    lib.processBackchannelAuthenticationResponse(
+      issuer,
+      client,
+      getResponse(JSON.stringify({ ...validResponse, interval: undefined })),
+    ),
+  )
+
+  await t.throwsAsync(
+    lib.processBackchannelAuthenticationResponse(
+      issuer,
+      client,
+      getResponse(JSON.stringify({ ...validResponse, auth_req_id: undefined })),
+    ),
+    {
+      message: '"response" body "auth_req_id" property must be a string',
+    },
+  )
+
+  await t.throwsAsync(
+    lib.processBackchannelAuthenticationResponse(
+      issuer,
+      client,
+      getResponse(JSON.stringify({ ...validResponse, expires_in: undefined })),
+    ),
+    {
+      message: '"response" body "expires_in" property must be a number',
+    },
+  )
+
+  await t.throwsAsync(
+    lib.processBackchannelAuthenticationResponse(
+      issuer,
+      client,
+      getResponse(JSON.stringify({ ...validResponse, interval: null })),
+    ),
+    {
+      message: '"response" body "interval" property must be a number',
+    },
+  )
+
+  const err = await t.throwsAsync(
+    lib.processBackchannelAuthenticationResponse(
+      issuer,
+      client,
+      getResponse(JSON.stringify({ error: 'unknown_user_id' }), { status: 400 }),
+    ),
+  )
+
+  t.true(err instanceof lib.ResponseBodyError && err.error === 'unknown_user_id')
+})
+
+test('backchannelAuthenticationGrantRequest()', async (t) => {
+  await t.throwsAsync(
+    lib.backchannelAuthenticationGrantRequest(issuer, tClient, lib.None(), 'auth_req_id'),
+    {
+      message: 'authorization server metadata does not contain a valid "as.token_endpoint"',
+    },
+  )
+
+  await t.throwsAsync(
+    lib.backchannelAuthenticationGrantRequest(issuer, tClient, lib.None(), null as any),
+    {
+      message: '"authReqId" must be a string',
+    },
+  )
+
+  const tIssuer: lib.AuthorizationServer = {
+    ...issuer,
+    token_endpoint: endpoint('token-1'),
+  }
+
+  t.context
+    .intercept({
+      path: '/token-1',
+      method: 'POST',
+      headers: {
+        accept: 'application/json',
+      },
+      body(body) {
+        const params = new URLSearchParams(body)
+        return (
+          params.get('grant_type') === 'urn:openid:params:grant-type:ciba' &&
+          params.get('auth_req_id') === 'auth_req_id'
+        )
+      },
+    })
+    .reply(200, { access_token: 'token', token_type: 'Bearer' })
+
+  await t.notThrowsAsync(
+    lib.backchannelAuthenticationGrantRequest(tIssuer, tClient, lib.None(), 'auth_req_id'),
+  )
+})
+
+test('processBackchannelAuthenticationGrantResponse()', async (t) => {
+  t.deepEqual(
+    await lib.processBackchannelAuthenticationGrantResponse(
+      issuer,
+      client,
+      getResponse(JSON.stringify({ access_token: 'token', token_type: 'Bearer' })),
+    ),
+    { access_token: 'token', token_type: 'bearer' },
+  )
+
+  for (const error of ['authorization_pending', 'slow_down']) {
+    const err = await t.throwsAsync(
+      lib.processBackchannelAuthenticationGrantResponse(
+        issuer,
+        client,
+        getResponse(JSON.stringify({ error }), { status: 400 }),
+      ),
+    )
+
+    t.true(err instanceof lib.ResponseBodyError && err.error === error)
+  }
+})
+
+test('validateBackchannelAuthenticationPingCallback()', async (t) => {
+  t.is(
+    await lib.validateBackchannelAuthenticationPingCallback(
+      callback({ auth_req_id: 'auth_req_id' }),
+      'notification-token',
+    ),
+    'auth_req_id',
+  )
+
+  await t.throwsAsync(
+    lib.validateBackchannelAuthenticationPingCallback(
+      callback({ auth_req_id: 'auth_req_id' }, 'foo'),
+      'notification-token',
+    ),
+    { message: 'unexpected client notification token', code: 'OAUTH_INVALID_REQUEST' },
+  )
+
+  await t.throwsAsync(
+    lib.validateBackchannelAuthenticationPingCallback(callback({}), 'notification-token'),
+    { message: '"request" body "auth_req_id" property must be a string' },
+  )
+
+  await t.throwsAsync(
+    lib.validateBackchannelAuthenticationPingCallback(
+      new Request('https://rp.example.com/cb', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: '{}',
+      }),
+      'notification-token',
+    ),
+    { message: '"request" is missing an Authorization HTTP Header' },
+  )
+
+  await t.throwsAsync(
+    lib.validateBackchannelAuthenticationPingCallback(
+      new Request('https://rp.example.com/cb', {
+        method: 'POST',
+        headers: {
+          authorization: 'Bearer notification-token',
+          'content-type': 'application/x-www-form-urlencoded',
+        },
+        body: 'auth_req_id=auth_req_id',
+      }),
+      'notification-token',
+    ),
+    {
+      message:
+        'backchannel authentication callbacks are expected to use the application/json content-type',
+    },
+  )
+})
+
+test('validateBackchannelAuthenticationPushCallback()', async (t) => {
+  const pushed = {
+    auth_req_id: 'auth_req_id',
+    access_token: 'token',
+    token_type: 'Bearer',
+    refresh_token: 'refresh_token',
+  }
+
+  const idToken = (claims: jose.JWTPayload, key = t.context.ES256.privateKey) =>
+    new jose.SignJWT(claims)
+      .setProtectedHeader({ alg: 'ES256' })
+      .setIssuer(issuer.issuer)
+      .setSubject('urn:example:subject')
+      .setAudience(client.client_id)
+      .setExpirationTime('5m')
+      .setIssuedAt()
+      .sign(key)
+
+  const tIssuer = {
+    ...issuer,
+    jwks_uri: endpoint('jwks'),
+    id_token_signing_alg_values_supported: ['ES256'],
+  }
+
+  const result = await lib.validateBackchannelAuthenticationPushCallback(
+    tIssuer,
+    client,
+    callback({
+      ...pushed,
+      id_token: await idToken({
+        'urn:openid:params:jwt:claim:auth_req_id': 'auth_req_id',
+        at_hash: halfHash('token'),
+        rt_hash: halfHash('refresh_token'),
+      }),
+    }),
+    'notification-token',
+  )
+  t.is(result.auth_req_id, 'auth_req_id')
+  t.is(lib.getValidatedIdTokenClaims(result)!.sub, 'urn:example:subject')
+
+  // the pushed ID Token is not received from the token endpoint, its signature is verified
+  const { privateKey: otherKey } = await jose.generateKeyPair('ES256')
+  await t.throwsAsync(
+    lib.validateBackchannelAuthenticationPushCallback(
+      tIssuer,
+      client,
+      callback({
+        ...pushed,
+        id_token: await idToken(
+          {
+            'urn:openid:params:jwt:claim:auth_req_id': 'auth_req_id',
+            at_hash: halfHash('token'),
+            rt_hash: halfHash('refresh_token'),
+          },
+          otherKey as lib.CryptoKey,
+        ),
+      }),
+      'notification-token',
+    ),
+    { message: 'JWT signature verification failed' },
+  )
+
+  await t.throwsAsync(
+    lib.validateBackchannelAuthenticationPushCallback(
+      tIssuer,
+      client,
+      callback({
+        ...pushed,
+        id_token: await idToken({
+          'urn:openid:params:jwt:claim:auth_req_id': 'foo',
+          at_hash: halfHash('token'),
+          rt_hash: halfHash('refresh_token'),
+        }),
+      }),
+      'notification-token',
+    ),
+    { message: 'unexpected ID Token "urn:openid:params:jwt:claim:auth_req_id" claim value' },
+  )
+
+  await t.throwsAsync(
+    lib.validateBackchannelAuthenticationPushCallback(
+      tIssuer,
+      client,
+      callback({
+        ...pushed,
+        id_token: await idToken({
+          'urn:openid:params:jwt:claim:auth_req_id': 'auth_req_id',
+          at_hash: halfHash('foo'),
+          rt_hash: halfHash('refresh_token'),
+        }),
+      }),
+      'notification-token',
+    ),
+    { message: 'invalid ID Token "at_hash" (access token hash) claim value' },
+  )
+
+  await t.throwsAsync(
+    lib.validateBackchannelAuthenticationPushCallback(
+      tIssuer,
+      client,
+      callback({
+        ...pushed,
+        id_token: await idToken({
+          'urn:openid:params:jwt:claim:auth_req_id': 'auth_req_id',
+          at_hash: halfHash('token'),
+        }),
+      }),
+      'notification-token',
+    ),
+    { message: 'JWT "rt_hash" (refresh token hash) claim missing' },
+  )
+
+  await t.throwsAsync(
+    lib.validateBackchannelAuthenticationPushCallback(
+      tIssuer,
+      client,
+      callback({ access_token: 'token', token_type: 'Bearer', auth_req_id: 'auth_req_id' }),
+      'notification-token',
+    ),
+    { message: '"request" body "id_token" property must be a string' },
+  )
+
+  const err = await t.throwsAsync(
+    lib.validateBackchannelAuthenticationPushCallback(
+      tIssuer,
+      client,
+      callback({ auth_req_id: 'auth_req_id', error: 'access_denied' }),
+      'notification-token',
+    ),
+  )
+  t.true(err instanceof lib.AuthorizationResponseError && err.error === 'access_denied')
+})
@@ -1,5 +1,6 @@
 import anyTest, { type TestFn } from 'ava'
 import setup, { type Context, teardown, issuer, getResponse, UA } from './_setup.js'
+import * as jose from 'jose'
 import * as lib from '../src/index.js'
 
 const test = anyTest as TestFn<Context>
@@ -144,3 +145,77 @@ test('processDiscoveryResponse()', async (t) => {
     },
   )
 })
+
+test('validateSignedMetadata()', async (t) => {
+  const { privateKey, publicKey } = await lib.generateKeyPair('ES256')
+  const jwk = { ...(await jose.exportJWK(publicKey)), kid: 'trusted' }
+  const other = await lib.generateKeyPair('ES256')
+
+  const signed_metadata = await new jose.SignJWT({
+    issuer: issuer.issuer,
+    token_endpoint: 'https://op.example.com/signed/token',
+    scopes_supported: ['openid'],
+  })
+    .setProtectedHeader({ alg: 'ES256', kid: 'trusted' })
+    .setIssuer(issuer.issuer)
+    .setIssuedAt()
+    .sign(privateKey)
+
+  const as: lib.AuthorizationServer = {
+    ...issuer,
+    token_endpoint: 'https://op.example.com/token',
+    jwks_uri: 'https://op.example.com/jwks',
+    signed_metadata,
+  }
+
+  const expected = {
+    ...as,
+    token_endpoint: 'https://op.example.com/signed/token',
+    scopes_supported: ['openid'],
+  }
+
+  t.deepEqual(await lib.validateSignedMetadata(as, { keys: [jwk] }), expected)
+  t.deepEqual(await lib.validateSignedMetadata(as, publicKey), expected)
+
+  await t.throwsAsync(lib.validateSignedMetadata(as, other.publicKey), {
+    message: 'JWT signature verification failed',
+  })
+
+  await t.throwsAsync(
+    lib.validateSignedMetadata(as, {
+      keys: [{ ...(await jose.exportJWK(other.publicKey)), kid: 'other' }],
+    }),
+    {
+      code: 'OAUTH_KEY_SELECTION_FAILED',
+      message: 'error when selecting a JWT verification key, no applicable keys found',
+    },
+  )
+
+  await t.throwsAsync(
+    lib.validateSignedMetadata(as, publicKey, { expectedIssuer: 'https://federation.example.com' }),
+    { message: 'unexpected JWT "iss" (issuer) claim value' },
+  )
+
+  await t.throwsAsync(lib.validateSignedMetadata(as, publicKey, { signingAlgorithms: ['PS256'] }), {
+    message: 'unexpected JWT "alg" header parameter',
+  })
+
+  await t.throwsAsync(lib.validateSignedMetadata(issuer, publicKey), {
+    code: 'OAUTH_MISSING_SERVER_METADATA',
+    message: 'authorization server metadata does not contain a valid "as.signed_metadata"',
+  })
+
+  await t.throwsAsync(lib.validateSignedMetadata(as, privateKey), {
+    code: 'ERR_INVALID_ARG_VALUE',
+    message: '"keys" must be a public CryptoKey',
+  })
+
+  const hijack = await new jose.SignJWT({ issuer: 'https://attacker.example.com' })
+    .setProtectedHeader({ alg: 'ES256' })
+    .setIssuer(issuer.issuer)
+    .sign(privateKey)
+
+  await t.throwsAsync(lib.validateSignedMetadata({ ...as, signed_metadata: hijack }, publicKey), {
+    message: 'signed metadata "issuer" value does not match the authorization server metadata',
+  })
+})
@@ -84,3 +84,166 @@ test('dpop() w/ a nonce', async (t) => {
     DPoP: sign,
   })
 })
+
+function nonceChallenge(nonce: string) {
+  return {
+    'DPoP-Nonce': nonce,
+    'WWW-Authenticate': 'DPoP error="use_dpop_nonce", error_description="nonce required"',
+  }
+}
+
+function expectNonce(expected: string | undefined) {
+  return {
+    dpop(dpop: string) {
+      return jose.decodeJwt(dpop).nonce === expected
+    },
+  }
+}
+
+test('dpop() w/ retryOnNonceError at a resource server', async (t) => {
+  const rs = t.context.mock.get('https://rs3.example.com')
+  rs.intercept({ path: '/resource', method: 'POST', headers: expectNonce(undefined) }).reply(
+    401,
+    '',
+    { headers: nonceChallenge('foo') },
+  )
+  rs.intercept({ path: '/resource', method: 'POST', headers: expectNonce('foo') }).reply(200, '')
+
+  const url = new URL('https://rs3.example.com/resource')
+  const DPoP = lib.DPoP(client, await lib.generateKeyPair('ES256'), { retryOnNonceError: true })
+  const response = await lib.protectedResourceRequest('token', 'POST', url, undefined, 'body', {
+    DPoP,
+  })
+  t.is(response.status, 200)
+
+  // non-replayable bodies are not retried
+  rs.intercept({ path: '/resource', method: 'POST', headers: expectNonce('foo') }).reply(401, '', {
+    headers: nonceChallenge('bar'),
+  })
+  const err = await t.throwsAsync(
+    lib.protectedResourceRequest('token', 'POST', url, undefined, new Blob(['body']).stream(), {
+      DPoP,
+      // @ts-expect-error
+      [lib.customFetch]: (url, init) => fetch(url, { ...init, duplex: 'half' }),
+    }),
+  )
+  t.true(lib.isDPoPNonceError(err))
+})
+
+test('dpop() w/o retryOnNonceError does not retry', async (t) => {
+  t.context.mock
+    .get('https://rs4.example.com')
+    .intercept({ path: '/resource', method: 'GET', headers: expectNonce(undefined) })
+    .reply(401, '', { headers: nonceChallenge('foo') })
+
+  const url = new URL('https://rs4.example.com/resource')
+  const DPoP = lib.DPoP(client, await lib.generateKeyPair('ES256'))
+  const err = await t.throwsAsync(
+    lib.protectedResourceRequest('token', 'GET', url, undefined, undefined, { DPoP }),
+  )
+  t.true(lib.isDPoPNonceError(err))
+})
+
+test('dpop() w/ retryOnNonceError at the token endpoint', async (t) => {
+  const as = t.context.mock.get('https://as.example.com')
+  as.intercept({ path: '/token', method: 'POST', headers: expectNonce(undefined) }).reply(
+    400,
+    { error: 'use_dpop_nonce' },
+    { headers: { 'content-type': 'application/json', 'DPoP-Nonce': 'foo' } },
+  )
+  as.intercept({
+    path: '/token',
+    method: 'POST',
+    headers: expectNonce('foo'),
+    body(body) {
+      return new URLSearchParams(body).get('grant_type') === 'client_credentials'
+    },
+  }).reply(
+    200,
+    { access_token: 'token', token_type: 'DPoP' },
+    { headers: { 'content-type': 'application/json' } },
+  )
+
+  const DPoP = lib.DPoP(client, await lib.generateKeyPair('ES256'), { retryOnNonceError: true })
+  const tIssuer = {
+    issuer: 'https://as.example.com',
+    token_endpoint: 'https://as.example.com/token',
+  }
+  const response = await lib.clientCredentialsGrantRequest(
+    tIssuer,
+    client,
+    lib.None(),
+    new URLSearchParams(),
+    { DPoP },
+  )
+  t.deepEqual(await lib.processClientCredentialsResponse(tIssuer, client, response), {
+    access_token: 'token',
+    token_type: 'dpop',
+  })
+})
+
+test('dpop() w/ a shared nonceStore', async (t) => {
+  const map = new Map<string, string>()
+  const nonceStore: lib.DPoPNonceStore = {
+    async get(origin) {
+      return map.get(origin)
+    },
+    async set(origin, nonce) {
+      map.set(origin, nonce)
+    },
+  }
+
+  const rs = t.context.mock.get('https://rs5.example.com')
+  rs.intercept({ path: '/resource', method: 'GET', headers: expectNonce(undefined) }).reply(
+    401,
+    '',
+    { headers: nonceChallenge('foo') },
+  )
+  rs.intercept({ path: '/resource', method: 'GET', headers: expectNonce('foo') }).reply(200, '')
+
+  const url = new URL('https://rs5.example.com/resource')
+  const first = lib.DPoP(client, await lib.generateKeyPair('ES256'), { nonceStore })
+  await t.throwsAsync(
+    lib.protectedResourceRequest('token', 'GET', url, undefined, undefined, { DPoP: first }),
+  )
+  t.is(map.get('https://rs5.example.com'), 'foo')
+
+  const second = lib.DPoP(client, await lib.generateKeyPair('ES256'), { nonceStore })
+  const response = await lib.protectedResourceRequest('token', 'GET', url, undefined, undefined, {
+    DPoP: second,
+  })
+  t.is(response.status, 200)
+
+  const kp = await lib.generateKeyPair('ES256')
+  t.throws(() => lib.DPoP(client, kp, { nonceStore: {} as any }), {
+    message: '"options.nonceStore" must implement the get and set methods',
+  })
+})
+
+test('dpop() ignores nonceStore failures', async (t) => {
+  const nonceStore: lib.DPoPNonceStore = {
+    async get() {
+      throw new Error('unavailable')
+    },
+    async set() {
+      throw new Error('unavailable')
+    },
+  }
+
+  const rs = t.context.mock.get('https://rs6.example.com')
+  rs.intercept({ path: '/resource', method: 'GET', headers: expectNonce(undefined) }).reply(
+    200,
+    '',
+    { headers: { 'dpop-nonce': 'foo' } },
+  )
+
+  const response = await lib.protectedResourceRequest(
+    'token',
+    'GET',
+    new URL('https://rs6.example.com/resource'),
+    undefined,
+    undefined,
+    { DPoP: lib.DPoP(client, await lib.generateKeyPair('ES256'), { nonceStore }) },
+  )
+  t.is(response.status, 200)
+})
@@ -0,0 +1,203 @@
+import test from 'ava'
+import * as jose from 'jose'
+import * as lib from '../src/index.js'
+
+// minimal in-memory stand-in for the parts of IndexedDB the library uses
+class FakeRequest {
+  result: any
+  error: any = null
+  onsuccess?: () => void
+  onerror?: () => void
+  onupgradeneeded?: () => void
+  onblocked?: () => void
+  succeed(result: unknown) {
+    this.result = result
+    queueMicrotask(() => this.onsuccess?.())
+  }
+  fail(error: unknown) {
+    this.error = error
+    queueMicrotask(() => this.onerror?.())
+  }
+}
+
+class FakeDatabase {
+  version = 0
+  stores = new Map<string, Map<string, unknown>>()
+  connections = new Set<FakeConnection>()
+  // an upgrade waiting for the other connections to close
+  waiting?: () => void
+}
+
+class FakeConnection {
+  onversionchange: (() => void) | null = null
+  constructor(private db: FakeDatabase) {}
+  get version() {
+    return this.db.version
+  }
+  get objectStoreNames() {
+    return { contains: (name: string) => this.db.stores.has(name) }
+  }
+  createObjectStore(name: string) {
+    this.db.stores.set(name, new Map())
+  }
+  transaction(name: string) {
+    const store = this.db.stores.get(name)
+    if (!store) {
+      throw new DOMException('One of the specified object stores was not found.', 'NotFoundError')
+    }
+    const transaction: any = {
+      objectStore: () => ({
+        get: (key: string) => request(structuredClone(store.get(key))),
+        put: (value: unknown, key: string) =>
+          request(store.set(key, structuredClone(value)) && key),
+        delete: (key: string) => request(store.delete(key) && undefined),
+      }),
+    }
+    function request(result: unknown) {
+      const req = new FakeRequest()
+      req.succeed(result)
+      queueMicrotask(() => queueMicrotask(() => transaction.oncomplete?.()))
+      return req
+    }
+    return transaction
+  }
+  close() {
+    this.db.connections.delete(this)
+    if (!this.db.connections.size && this.db.waiting) {
+      const waiting = this.db.waiting
+      this.db.waiting = undefined
+      waiting()
+    }
+  }
+}
+
+const databases = new Map<string, FakeDatabase>()
+
+function open(name: string, version?: number) {
+  const request = new FakeRequest()
+  queueMicrotask(() => {
+    const db = databases.get(name) ?? new FakeDatabase()
+    databases.set(name, db)
+    const target = version ?? Math.max(db.version, 1)
+    if (target < db.version) {
+      request.fail(
+        new DOMException(
+          'The requested version is less than the existing version.',
+          'VersionError',
+        ),
+      )
+      return
+    }
+
+    const connect = () => {
+      const connection = new FakeConnection(db)
+      db.connections.add(connection)
+      request.result = connection
+      if (db.version < target) {
+        db.version = target
+        request.onupgradeneeded?.()
+      }
+      request.succeed(connection)
+    }
+
+    if (db.version < target && db.connections.size) {
+      for (const connection of db.connections) {
+        connection.onversionchange?.()
+      }
+      if (db.connections.size) {
+        db.waiting = connect
+        request.onblocked?.()
+        return
+      }
+    }
+    connect()
+  })
+  return request
+}
+
+test.before(() => {
+  ;(globalThis as any).indexedDB = { open }
+})
+
+test.after(() => {
+  delete (globalThis as any).indexedDB
+})
+
+test.serial('DPoP key pairs persist across loads, rotate, and are deleted', async (t) => {
+  t.is(await lib.loadDPoPKeyPair(), undefined)
+
+  const keyPair = await lib.rotateDPoPKeyPair('ES256')
+  t.false(keyPair.privateKey.extractable)
+
+  const loaded = await lib.loadDPoPKeyPair()
+  t.truthy(loaded)
+  t.false(loaded!.privateKey.extractable)
+  t.deepEqual(await jose.exportJWK(loaded!.publicKey), await jose.exportJWK(keyPair.publicKey))
+
+  // the stored private key remains usable for DPoP proofs
+  const headers = new Headers()
+  await lib
+    .DPoP({ client_id: 'client' }, loaded!)
+    .addProof(new URL('https://rs.example.com/resource'), headers, 'GET')
+  await t.notThrowsAsync(jose.jwtVerify(headers.get('dpop')!, keyPair.publicKey))
+
+  const rotated = await lib.rotateDPoPKeyPair('ES256')
+  t.notDeepEqual(
+    await jose.exportJWK((await lib.loadDPoPKeyPair())!.publicKey),
+    await jose.exportJWK(keyPair.publicKey),
+  )
+  t.deepEqual(
+    await jose.exportJWK((await lib.loadDPoPKeyPair())!.publicKey),
+    await jose.exportJWK(rotated.publicKey),
+  )
+
+  // separate keys are kept apart
+  t.is(await lib.loadDPoPKeyPair({ key: 'other' }), undefined)
+
+  await lib.deleteDPoPKeyPair()
+  t.is(await lib.loadDPoPKeyPair(), undefined)
+})
+
+test.serial('storeDPoPKeyPair() argument checks', async (t) => {
+  await t.throwsAsync(
+    lib.storeDPoPKeyPair(await lib.generateKeyPair('ES256', { extractable: true })),
+    { message: '"keyPair.privateKey" must be non-extractable' },
+  )
+  await t.throwsAsync(lib.storeDPoPKeyPair({} as any), {
+    message: '"keyPair.privateKey" must be a CryptoKey',
+  })
+})
+
+test.serial('object stores are added to an existing database one upgrade at a time', async (t) => {
+  const options = { database: 'shared' }
+  const storage = lib.IndexedDBStorage(options)
+  const extra = lib.IndexedDBStorage({ ...options, objectStore: 'extra' })
+
+  await Promise.all([
+    storage.set('session', 'value'),
+    lib.rotateDPoPKeyPair('ES256', options),
+    extra.set('session', 'extra'),
+    lib.loadDPoPKeyPair({ ...options, key: 'other' }),
+    storage.get('other'),
+  ])
+  t.is(await storage.get('session'), 'value')
+  t.is(await extra.get('session'), 'extra')
+  t.truthy(await lib.loadDPoPKeyPair(options))
+  t.is(databases.get('shared')!.connections.size, 0)
+})
+
+test.serial('upgrades blocked by another open connection are rejected', async (t) => {
+  const request = open('blocked')
+  const connection: FakeConnection = await new Promise((resolve) => {
+    request.onsuccess = () => resolve(request.result)
+  })
+
+  await t.throwsAsync(lib.loadDPoPKeyPair({ database: 'blocked' }), {
+    message: 'IndexedDB upgrade is blocked by another open connection',
+  })
+
+  // once unblocked the upgrade completes and its connection is closed
+  connection.close()
+  t.is(await lib.loadDPoPKeyPair({ database: 'blocked' }), undefined)
+  t.is(databases.get('blocked')!.connections.size, 0)
+})
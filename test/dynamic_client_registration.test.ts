@@ -0,0 +1,212 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, { endpoint, getResponse, issuer, teardown, type Context, UA } from './_setup.js'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<Context>
+
+test.before(setup)
+test.after(teardown)
+
+const registration = {
+  client_id: 'urn:example:client_id',
+  client_secret: 'secret',
+  client_secret_expires_at: 0,
+  registration_access_token: 'rat',
+  registration_client_uri: endpoint('register/urn:example:client_id'),
+} satisfies lib.ClientRegistrationResponse
+
+const json = { 'content-type': 'application/json' }
+
+test('dynamicClientRegistrationRequest()', async (t) => {
+  await t.throwsAsync(lib.dynamicClientRegistrationRequest(issuer, {}), {
+    message: 'authorization server metadata does not contain a valid "as.registration_endpoint"',
+  })
+
+  const tIssuer: lib.AuthorizationServer = {
+    ...issuer,
+    registration_endpoint: endpoint('register'),
+  }
+
+  await t.throwsAsync(lib.dynamicClientRegistrationRequest(tIssuer, null as any), {
+    message: '"metadata" must be an object',
+  })
+
+  await t.throwsAsync(lib.dynamicClientRegistrationRequest(tIssuer, { software_statement: '' }), {
+    message: '"metadata.software_statement" must not be empty',
+  })
+
+  t.context
+    .intercept({
+      path: '/register',
+      method: 'POST',
+      headers: {
+        accept: 'application/json',
+        'content-type': 'application/json',
+        authorization: 'Bearer iat',
+        'user-agent': UA,
+      },
+      body(body) {
+        const metadata = JSON.parse(body)
+        return (
+          metadata.redirect_uris[0] === 'https://rp.example.com/cb' &&
+          metadata.software_statement === 'eyJ.eyJ.sig'
+        )
+      },
+    })
+    .reply(201, registration, { headers: json })
+
+  const response = await lib.dynamicClientRegistrationRequest(
+    tIssuer,
+    { redirect_uris: ['https://rp.example.com/cb'], software_statement: 'eyJ.eyJ.sig' },
+    { initialAccessToken: 'iat' },
+  )
+  t.deepEqual(await lib.processDynamicClientRegistrationResponse(response), registration)
+
+  t.context
+    .intercept({
+      path: '/register',
+      method: 'POST',
+      headers(headers) {
+        return !('authorization' in headers)
+      },
+    })
+    .reply(201, { client_id: 'urn:example:client_id' })
+
+  await t.notThrowsAsync(lib.dynamicClientRegistrationRequest(tIssuer, {}))
+})
+
+test('processDynamicClientRegistrationResponse()', async (t) => {
+  await t.throwsAsync(lib.processDynamicClientRegistrationResponse(null as any), {
+    message: '"response" must be an instance of Response',
+  })
+
+  await t.throwsAsync(
+    lib.processDynamicClientRegistrationResponse(getResponse(JSON.stringify(registration))),
+    {
+      message:
+        '"response" is not a conform Client Registration Endpoint response (unexpected HTTP status code)',
+    },
+  )
+
+  await t.throwsAsync(
+    lib.processDynamicClientRegistrationResponse(getResponse('{}', { status: 201 })),
+    { message: '"response" body "client_id" property must be a string' },
+  )
+
+  await t.throwsAsync(
+    lib.processDynamicClientRegistrationResponse(
+      getResponse(JSON.stringify({ client_id: 'foo', client_secret: 'bar' }), { status: 201 }),
+    ),
+    { message: '"response" body "client_secret_expires_at" property must be a number' },
+  )
+
+  await t.throwsAsync(
+    lib.processDynamicClientRegistrationResponse(
+      getResponse(JSON.stringify({ client_id: 'foo', registration_access_token: 'bar' }), {
+        status: 201,
+      }),
+    ),
+    { message: '"response" body "registration_client_uri" property must be a string' },
+  )
+
+  const err = await t.throwsAsync(
+    lib.processDynamicClientRegistrationResponse(
+      getResponse(JSON.stringify({ error: 'invalid_client_metadata' }), { status: 400 }),
+    ),
+  )
+  t.true(err instanceof lib.ResponseBodyError && err.error === 'invalid_client_metadata')
+})
+
+test('readClientConfigurationRequest()', async (t) => {
+  await t.throwsAsync(lib.readClientConfigurationRequest({ client_id: 'urn:example:client_id' }), {
+    message: '"registration.registration_access_token" must be a string',
+  })
+
+  await t.throwsAsync(
+    lib.readClientConfigurationRequest({
+      ...registration,
+      registration_client_uri: 'http://op.example.com/register',
+    }),
+    { message: 'only requests to HTTPS are allowed' },
+  )
+
+  t.context
+    .intercept({
+      path: '/register/urn:example:client_id',
+      method: 'GET',
+      headers: {
+        accept: 'application/json',
+        authorization: 'Bearer rat',
+        'user-agent': UA,
+      },
+    })
+    .reply(200, registration, { headers: json })
+
+  const response = await lib.readClientConfigurationRequest(registration)
+  t.deepEqual(await lib.processClientConfigurationResponse(response), registration)
+
+  t.context
+    .intercept({
+      path: '/register/urn:example:client_id',
+      method: 'GET',
+    })
+    .reply(401, '', { headers: { 'www-authenticate': 'Bearer error="invalid_token"' } })
+
+  const err = await t.throwsAsync(
+    lib.readClientConfigurationRequest(registration).then(lib.processClientConfigurationResponse),
+  )
+  t.true(
+    err instanceof lib.WWWAuthenticateChallengeError &&
+      err.cause[0].parameters.error === 'invalid_token',
+  )
+})
+
+test('updateClientConfigurationRequest()', async (t) => {
+  t.context
+    .intercept({
+      path: '/register/urn:example:client_id',
+      method: 'PUT',
+      headers: {
+        accept: 'application/json',
+        'content-type': 'application/json',
+        authorization: 'Bearer rat',
+      },
+      body(body) {
+        const metadata = JSON.parse(body)
+        t.deepEqual(metadata, {
+          client_id: 'urn:example:client_id',
+          client_secret: 'secret',
+          client_name: 'Updated',
+        })
+        return true
+      },
+    })
+    .reply(200, { ...registration, client_name: 'Updated' }, { headers: json })
+
+  const response = await lib.updateClientConfigurationRequest(registration, {
+    ...registration,
+    client_id: 'will be overwritten',
+    client_name: 'Updated',
+  })
+  t.is((await lib.processClientConfigurationResponse(response)).client_name, 'Updated')
+})
+
+test('deleteClientConfigurationRequest()', async (t) => {
+  t.context
+    .intercept({
+      path: '/register/urn:example:client_id',
+      method: 'DELETE',
+      headers: {
+        authorization: 'Bearer rat',
+      },
+    })
+    .reply(204, '')
+
+  const response = await lib.deleteClientConfigurationRequest(registration)
+  t.is(await lib.processDeleteClientConfigurationResponse(response), undefined)
+
+  await t.throwsAsync(lib.processDeleteClientConfigurationResponse(getResponse('{}')), {
+    message:
+      '"response" is not a conform Client Configuration Endpoint response (unexpected HTTP status code)',
+  })
+})
@@ -0,0 +1,91 @@
+import test from 'ava'
+import { client, endpoint, issuer } from './_setup.js'
+import * as lib from '../src/index.js'
+
+const tIssuer: lib.AuthorizationServer = {
+  ...issuer,
+  end_session_endpoint: endpoint('logout?foo=bar'),
+}
+
+test('buildEndSessionUrl()', (t) => {
+  t.throws(() => lib.buildEndSessionUrl(issuer, client), {
+    message: 'authorization server metadata does not contain a valid "as.end_session_endpoint"',
+  })
+
+  t.throws(
+    () =>
+      lib.buildEndSessionUrl(
+        { ...issuer, end_session_endpoint: 'http://op.example.com/logout' },
+        client,
+      ),
+    { message: 'only requests to HTTPS are allowed' },
+  )
+
+  t.throws(() => lib.buildEndSessionUrl(tIssuer, client, { state: 'state' }), {
+    message: '"parameters.state" must not be used without "parameters.post_logout_redirect_uri"',
+  })
+
+  t.throws(() => lib.buildEndSessionUrl(tIssuer, client, { id_token_hint: 1 as any }), {
+    message: '"parameters.id_token_hint" must be a string',
+  })
+
+  t.is(
+    lib.buildEndSessionUrl(tIssuer, client).href,
+    'https://op.example.com/logout?foo=bar&client_id=urn%3Aexample%3Aclient_id',
+  )
+
+  const url = lib.buildEndSessionUrl(tIssuer, client, {
+    id_token_hint: 'id_token',
+    logout_hint: 'user@example.com',
+    post_logout_redirect_uri: 'https://rp.example.com/logout/cb',
+    ui_locales: 'en-US de',
+    state: 'state',
+    client_id: 'will be overwritten',
+    extra: undefined,
+  })
+  t.is(url.origin + url.pathname, 'https://op.example.com/logout')
+  t.deepEqual(Object.fromEntries(url.searchParams), {
+    foo: 'bar',
+    id_token_hint: 'id_token',
+    logout_hint: 'user@example.com',
+    post_logout_redirect_uri: 'https://rp.example.com/logout/cb',
+    ui_locales: 'en-US de',
+    state: 'state',
+    client_id: client.client_id,
+  })
+})
+
+test('validateEndSessionResponse()', (t) => {
+  const cb = new URL('https://rp.example.com/logout/cb')
+  t.true(lib.validateEndSessionResponse(issuer, client, cb) instanceof URLSearchParams)
+  t.true(
+    lib.validateEndSessionResponse(issuer, client, cb, lib.expectNoState) instanceof
+      URLSearchParams,
+  )
+
+  t.throws(() => lib.validateEndSessionResponse(issuer, client, cb, 'state'), {
+    message: 'response parameter "state" missing',
+  })
+
+  t.throws(() => lib.validateEndSessionResponse(issuer, client, {} as any), {
+    message: '"parameters" must be an instance of URLSearchParams, or URL',
+  })
+
+  const params = new URLSearchParams({ state: 'state' })
+  t.is(lib.validateEndSessionResponse(issuer, client, params, 'state').get('state'), 'state')
+  t.notThrows(() => lib.validateEndSessionResponse(issuer, client, params, lib.skipStateCheck))
+
+  t.throws(() => lib.validateEndSessionResponse(issuer, client, params), {
+    message: 'unexpected "state" response parameter encountered',
+  })
+
+  t.throws(() => lib.validateEndSessionResponse(issuer, client, params, 'other'), {
+    message: 'unexpected "state" response parameter value',
+  })
+
+  t.throws(
+    () =>
+      lib.validateEndSessionResponse(issuer, client, new URLSearchParams('state=a&state=b'), 'a'),
+    { message: '"state" parameter must be provided only once' },
+  )
+})
@@ -0,0 +1,395 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, { type Context, teardown } from './_setup.js'
+import * as jose from 'jose'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<Context>
+
+test.before(setup)
+test.after(teardown)
+
+const ta = 'https://ta.example.com'
+const int = 'https://int.example.com'
+const op = 'https://op.example.com'
+
+async function entity(id: string) {
+  const { privateKey, publicKey } = await jose.generateKeyPair('ES256')
+  const jwk = { ...(await jose.exportJWK(publicKey)), kid: id }
+  return { id, privateKey, jwks: { keys: [jwk] } }
+}
+
+type Entity = Awaited<ReturnType<typeof entity>>
+
+function statement(issuer: Entity, sub: string, claims: jose.JWTPayload) {
+  return new jose.SignJWT(claims)
+    .setProtectedHeader({ alg: 'ES256', kid: issuer.id, typ: 'entity-statement+jwt' })
+    .setIssuer(issuer.id)
+    .setSubject(sub)
+    .setIssuedAt()
+    .setExpirationTime('1h')
+    .sign(issuer.privateKey)
+}
+
+function reply(t: any, origin: string, path: string, jwt: string, query?: Record<string, string>) {
+  t.context.mock
+    .get(origin)
+    .intercept({
+      path,
+      method: 'GET',
+      query,
+      headers: { accept: 'application/entity-statement+jwt' },
+    })
+    .reply(200, jwt, { headers: { 'content-type': 'application/entity-statement+jwt' } })
+}
+
+function federationEntity(id: string) {
+  return { federation_entity: { federation_fetch_endpoint: `${id}/fetch` } }
+}
+
+test.serial('resolveFederatedAuthorizationServer() through an intermediate', async (t) => {
+  const [anchor, intermediate, leaf] = await Promise.all([entity(ta), entity(int), entity(op)])
+
+  reply(
+    t,
+    op,
+    '/.well-known/openid-federation',
+    await statement(leaf, op, {
+      jwks: leaf.jwks,
+      authority_hints: [int],
+      metadata: {
+        openid_provider: {
+          issuer: op,
+          token_endpoint: `${op}/token`,
+          scopes_supported: ['openid', 'profile', 'admin'],
+          grant_types_supported: ['authorization_code'],
+        },
+      },
+    }),
+  )
+  reply(
+    t,
+    int,
+    '/.well-known/openid-federation',
+    await statement(intermediate, int, {
+      jwks: intermediate.jwks,
+      authority_hints: [ta],
+      metadata: federationEntity(int),
+    }),
+  )
+  reply(
+    t,
+    int,
+    '/fetch',
+    await statement(intermediate, op, {
+      jwks: leaf.jwks,
+      metadata_policy: {
+        openid_provider: {
+          grant_types_supported: { add: ['refresh_token'] },
+        },
+      },
+    }),
+    { sub: op },
+  )
+  reply(
+    t,
+    ta,
+    '/.well-known/openid-federation',
+    await statement(anchor, ta, { jwks: anchor.jwks, metadata: federationEntity(ta) }),
+  )
+  reply(
+    t,
+    ta,
+    '/fetch',
+    await statement(anchor, int, {
+      jwks: intermediate.jwks,
+      metadata_policy: {
+        openid_provider: {
+          scopes_supported: { subset_of: ['openid', 'profile', 'email'] },
+          token_endpoint_auth_methods_supported: { default: ['private_key_jwt'] },
+          token_endpoint: { essential: true },
+        },
+      },
+    }),
+    { sub: int },
+  )
+
+  t.deepEqual(
+    await lib.resolveFederatedAuthorizationServer(new URL(op), {
+      trustAnchors: [{ entity_id: ta, jwks: anchor.jwks }],
+    }),
+    {
+      issuer: op,
+      token_endpoint: `${op}/token`,
+      scopes_supported: ['openid', 'profile'],
+      grant_types_supported: ['authorization_code', 'refresh_token'],
+      token_endpoint_auth_methods_supported: ['private_key_jwt'],
+    },
+  )
+})
+
+test.serial('resolveFederatedAuthorizationServer() rejects untrusted chains', async (t) => {
+  const [anchor, leaf, attacker] = await Promise.all([entity(ta), entity(op), entity(op)])
+
+  await t.throwsAsync(lib.resolveFederatedAuthorizationServer(new URL(op), { trustAnchors: [] }), {
+    message: '"options.trustAnchors" must be a non-empty array',
+  })
+
+  // the entity configuration is signed with a key its superior does not vouch for
+  reply(
+    t,
+    op,
+    '/.well-known/openid-federation',
+    await statement(attacker, op, {
+      jwks: attacker.jwks,
+      authority_hints: [ta],
+      metadata: { openid_provider: { issuer: op } },
+    }),
+  )
+  reply(
+    t,
+    ta,
+    '/.well-known/openid-federation',
+    await statement(anchor, ta, { jwks: anchor.jwks, metadata: federationEntity(ta) }),
+  )
+  reply(t, ta, '/fetch', await statement(anchor, op, { jwks: leaf.jwks }), { sub: op })
+
+  const err = await t.throwsAsync(
+    lib.resolveFederatedAuthorizationServer(new URL(op), {
+      trustAnchors: [{ entity_id: ta, jwks: anchor.jwks }],
+    }),
+    { message: 'could not resolve a trust chain to any of the configured trust anchors' },
+  )
+  t.is(
+    ((err as lib.OperationProcessingError).cause as any).errors[0].message,
+    'JWT signature verification failed',
+  )
+
+  // the authority hint is not a configured trust anchor and path length is exhausted
+  reply(
+    t,
+    op,
+    '/.well-known/openid-federation',
+    await statement(leaf, op, {
+      jwks: leaf.jwks,
+      authority_hints: [int],
+      metadata: { openid_provider: { issuer: op } },
+    }),
+  )
+
+  await t.throwsAsync(
+    lib.resolveFederatedAuthorizationServer(new URL(op), {
+      trustAnchors: [{ entity_id: ta, jwks: anchor.jwks }],
+      maxPathLength: -1,
+    }),
+    { message: '"options.maxPathLength" must be a non-negative integer' },
+  )
+
+  const err2 = await t.throwsAsync(
+    lib.resolveFederatedAuthorizationServer(new URL(op), {
+      trustAnchors: [{ entity_id: ta, jwks: anchor.jwks }],
+      maxPathLength: 0,
+    }),
+  )
+  t.is(
+    ((err2 as lib.OperationProcessingError).cause as any).errors[0].message,
+    'maximum trust chain path length exceeded',
+  )
+})
+
+async function intermediateChain(
+  t: any,
+  intermediateClaims: jose.JWTPayload,
+  anchorClaims: jose.JWTPayload,
+) {
+  const [anchor, intermediate, leaf] = await Promise.all([entity(ta), entity(int), entity(op)])
+
+  reply(
+    t,
+    op,
+    '/.well-known/openid-federation',
+    await statement(leaf, op, {
+      jwks: leaf.jwks,
+      authority_hints: [int],
+      metadata: {
+        openid_provider: {
+          issuer: op,
+          scopes_supported: ['openid', 'profile'],
+          token_endpoint_auth_methods_supported: ['private_key_jwt'],
+        },
+      },
+    }),
+  )
+  reply(
+    t,
+    int,
+    '/.well-known/openid-federation',
+    await statement(intermediate, int, {
+      jwks: intermediate.jwks,
+      authority_hints: [ta],
+      metadata: federationEntity(int),
+    }),
+  )
+  reply(
+    t,
+    int,
+    '/fetch',
+    await statement(intermediate, op, { jwks: leaf.jwks, ...intermediateClaims }),
+    {
+      sub: op,
+    },
+  )
+  reply(
+    t,
+    ta,
+    '/.well-known/openid-federation',
+    await statement(anchor, ta, { jwks: anchor.jwks, metadata: federationEntity(ta) }),
+  )
+  reply(
+    t,
+    ta,
+    '/fetch',
+    await statement(anchor, int, { jwks: intermediate.jwks, ...anchorClaims }),
+    { sub: int },
+  )
+
+  return lib.resolveFederatedAuthorizationServer(new URL(op), {
+    trustAnchors: [{ entity_id: ta, jwks: anchor.jwks }],
+  })
+}
+
+test.serial('resolveFederatedAuthorizationServer() merges metadata policies', async (t) => {
+  // subordinate policies may only restrict what their superiors allow
+  t.deepEqual(
+    await intermediateChain(
+      t,
+      { metadata_policy: { openid_provider: { scopes_supported: { subset_of: ['openid'] } } } },
+      {
+        metadata_policy: {
+          openid_provider: { scopes_supported: { subset_of: ['openid', 'profile'] } },
+        },
+      },
+    ),
+    {
+      issuer: op,
+      scopes_supported: ['openid'],
+      token_endpoint_auth_methods_supported: ['private_key_jwt'],
+    },
+  )
+
+  // an intermediate cannot override the trust anchor's restrictions
+  await t.throwsAsync(
+    intermediateChain(
+      t,
+      {
+        metadata_policy: { openid_provider: { scopes_supported: { value: ['openid', 'admin'] } } },
+      },
+      {
+        metadata_policy: {
+          openid_provider: { scopes_supported: { subset_of: ['openid', 'profile'] } },
+        },
+      },
+    ),
+    {
+      code: lib.INVALID_RESPONSE,
+      message: 'metadata policy "subset_of" operator conflict for "scopes_supported"',
+    },
+  )
+
+  await t.throwsAsync(
+    intermediateChain(
+      t,
+      {
+        metadata_policy: {
+          openid_provider: { token_endpoint_auth_methods_supported: { add: ['none'] } },
+        },
+      },
+      {
+        metadata_policy: {
+          openid_provider: {
+            token_endpoint_auth_methods_supported: { subset_of: ['private_key_jwt'] },
+          },
+        },
+      },
+    ),
+    {
+      message:
+        'metadata policy "add" operator conflict for "token_endpoint_auth_methods_supported"',
+    },
+  )
+
+  await t.throwsAsync(
+    intermediateChain(
+      t,
+      { metadata_policy: { openid_provider: { scopes_supported: { one_of: ['admin'] } } } },
+      { metadata_policy: { openid_provider: { scopes_supported: { one_of: ['openid'] } } } },
+    ),
+    { message: 'metadata policy "one_of" operator conflict for "scopes_supported"' },
+  )
+})
+
+test.serial(
+  'resolveFederatedAuthorizationServer() rejects malformed metadata policies',
+  async (t) => {
+    for (const metadata_policy of [
+      'foo',
+      { openid_provider: null },
+      { openid_provider: { scopes_supported: null } },
+      { openid_provider: { scopes_supported: ['openid'] } },
+    ]) {
+      let err = await t.throwsAsync(intermediateChain(t, {}, { metadata_policy }), {
+        message: 'could not resolve a trust chain to any of the configured trust anchors',
+      })
+      // the statement is rejected while resolving the intermediate's own superiors
+      while ((err!.cause as { errors?: Error[] })?.errors) {
+        err = (err!.cause as { errors: Error[] }).errors[0]
+      }
+      t.like(err, {
+        code: lib.INVALID_RESPONSE,
+        message: 'unexpected JWT "metadata_policy" claim type',
+      })
+    }
+  },
+)
+
+test.serial('resolveFederatedAuthorizationServer() enforces constraints', async (t) => {
+  await t.throwsAsync(intermediateChain(t, {}, { constraints: { max_path_length: 0 } }), {
+    code: lib.INVALID_RESPONSE,
+    message: 'trust chain "max_path_length" constraint exceeded',
+  })
+
+  await t.throwsAsync(
+    intermediateChain(
+      t,
+      {},
+      { constraints: { naming_constraints: { permitted: ['.example.org'] } } },
+    ),
+    {
+      message: `entity identifier "${op}" violates the trust chain naming constraints`,
+    },
+  )
+
+  await t.throwsAsync(
+    intermediateChain(
+      t,
+      { constraints: { naming_constraints: { excluded: ['op.example.com'] } } },
+      {},
+    ),
+    {
+      message: `entity identifier "${op}" violates the trust chain naming constraints`,
+    },
+  )
+
+  t.like(
+    await intermediateChain(
+      t,
+      {},
+      {
+        constraints: {
+          max_path_length: 1,
+          naming_constraints: { permitted: ['.example.com'], excluded: ['evil.example.com'] },
+        },
+      },
+    ),
+    { issuer: op },
+  )
+})
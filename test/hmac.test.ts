@@ -0,0 +1,89 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, { client, getResponse, issuer, teardown, type Context } from './_setup.js'
+import * as jose from 'jose'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<Context>
+
+test.before(setup)
+test.after(teardown)
+
+const secret = 'a-sufficiently-long-client-secret-for-hmac-verification'
+const key = new TextEncoder().encode(secret)
+
+const tClient: lib.Client = { ...client, id_token_signed_response_alg: 'HS256' }
+
+for (const alg of ['HS256', 'HS384', 'HS512']) {
+  test(`validateJwtAuthResponse() with ${alg}`, async (t) => {
+    const response = await new jose.SignJWT({ code: 'code' })
+      .setProtectedHeader({ alg })
+      .setIssuer(issuer.issuer)
+      .setAudience(client.client_id)
+      .setExpirationTime('30s')
+      .sign(key)
+
+    const params = new URLSearchParams({ response })
+    const jClient = { ...client, authorization_signed_response_alg: alg }
+
+    const result = await lib.validateJwtAuthResponse(issuer, jClient, params, lib.expectNoState, {
+      [lib.hmacSecret]: secret,
+    })
+    t.deepEqual([...result.keys()], ['code', 'iss'])
+
+    await t.throwsAsync(
+      lib.validateJwtAuthResponse(issuer, jClient, params, lib.expectNoState, {
+        [lib.hmacSecret]: 'wrong-secret',
+      }),
+      { message: 'JWT signature verification failed' },
+    )
+
+    await t.throwsAsync(lib.validateJwtAuthResponse(issuer, jClient, params, lib.expectNoState), {
+      name: 'UnsupportedOperationError',
+      message: 'unsupported JWS "alg" identifier',
+    })
+  })
+}
+
+test('processAuthorizationCodeResponse() with an HS256 ID Token', async (t) => {
+  const id_token = await new jose.SignJWT({ nonce: 'nonce' })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuer(issuer.issuer)
+    .setSubject('urn:example:subject')
+    .setAudience(client.client_id)
+    .setIssuedAt()
+    .setExpirationTime('30s')
+    .sign(key)
+
+  const body = JSON.stringify({ access_token: 'token', token_type: 'Bearer', id_token })
+
+  const response = getResponse(body)
+  const result = await lib.processAuthorizationCodeResponse(issuer, tClient, response, {
+    expectedNonce: 'nonce',
+    [lib.hmacSecret]: secret,
+  })
+  t.is(lib.getValidatedIdTokenClaims(result)!.nonce, 'nonce')
+  await t.notThrowsAsync(
+    lib.validateApplicationLevelSignature(issuer, response, { [lib.hmacSecret]: secret }),
+  )
+
+  await t.throwsAsync(
+    lib.processAuthorizationCodeResponse(issuer, tClient, getResponse(body), {
+      expectedNonce: 'nonce',
+      [lib.hmacSecret]: 'wrong-secret',
+    }),
+    { message: 'JWT signature verification failed' },
+  )
+
+  const unverified = getResponse(body)
+  await lib.processAuthorizationCodeResponse(issuer, tClient, unverified, {
+    expectedNonce: 'nonce',
+  })
+  await t.throwsAsync(lib.validateApplicationLevelSignature(issuer, unverified), {
+    name: 'UnsupportedOperationError',
+    message: 'unsupported JWS algorithm',
+  })
+  await t.throwsAsync(
+    lib.validateApplicationLevelSignature(issuer, unverified, { [lib.hmacSecret]: 'wrong-secret' }),
+    { message: 'JWT signature verification failed' },
+  )
+})
@@ -478,3 +478,166 @@ test('processIntrospectionResponse() - typ w/ application/ prefix', async (t) =>
     ),
   )
 })
+
+test('validateIntrospectedAccessToken()', async (t) => {
+  const tIssuer: lib.AuthorizationServer = {
+    ...issuer,
+    introspection_endpoint: endpoint('introspect-rs'),
+  }
+  const audience = 'https://rs.example.com'
+  const exp = Math.floor(Date.now() / 1000) + 300
+
+  function introspect(token: string, body: Record<string, unknown>, times = 1) {
+    t.context
+      .intercept({
+        path: '/introspect-rs',
+        method: 'POST',
+        body(body) {
+          return new URLSearchParams(body).get('token') === token
+        },
+      })
+      .reply(200, body, { headers: { 'content-type': 'application/json' } })
+      .times(times)
+  }
+
+  function request(token: string, scheme = 'Bearer') {
+    return new Request('https://rs.example.com/resource', {
+      headers: { authorization: `${scheme} ${token}` },
+    })
+  }
+
+  // the second call is served from the default cache
+  introspect('opaque-1', { active: true, aud: audience, exp, client_id: client.client_id })
+  for (let i = 0; i < 2; i++) {
+    t.like(
+      await lib.validateIntrospectedAccessToken(
+        tIssuer,
+        tClient,
+        lib.ClientSecretPost('foo'),
+        request('opaque-1'),
+        audience,
+      ),
+      { active: true, client_id: client.client_id },
+    )
+  }
+
+  // a custom cache that never hits, and a disabled cache
+  const keys: string[] = []
+  const introspectionCache: lib.IntrospectionCache = {
+    get: () => undefined,
+    set(key, _, expiresAt) {
+      t.true(expiresAt <= exp)
+      keys.push(key)
+    },
+  }
+  introspect('opaque-2', { active: true, aud: [audience], exp }, 3)
+  for (let i = 0; i < 2; i++) {
+    await lib.validateIntrospectedAccessToken(
+      tIssuer,
+      tClient,
+      lib.None(),
+      request('opaque-2'),
+      audience,
+      { introspectionCache },
+    )
+  }
+  t.is(keys.length, 2)
+  t.not(keys[0], 'opaque-2')
+  await lib.validateIntrospectedAccessToken(
+    tIssuer,
+    tClient,
+    lib.None(),
+    request('opaque-2'),
+    audience,
+    { introspectionCache, introspectionCacheMaxAge: 0 },
+  )
+  t.is(keys.length, 2)
+
+  // cached responses are not shared between resource servers
+  const cached = new Map<string, lib.IntrospectionResponse>()
+  const sharedCache: lib.IntrospectionCache = {
+    get: (key) => cached.get(key),
+    set: (key, value) => void cached.set(key, value),
+  }
+  introspect('opaque-3', { active: true, aud: audience, exp }, 2)
+  for (const client_id of [tClient.client_id, 'other-rs', tClient.client_id]) {
+    await lib.validateIntrospectedAccessToken(
+      tIssuer,
+      { ...tClient, client_id },
+      lib.None(),
+      request('opaque-3'),
+      audience,
+      { introspectionCache: sharedCache },
+    )
+  }
+  t.is(cached.size, 2)
+
+  introspect('inactive', { active: false })
+  await t.throwsAsync(
+    lib.validateIntrospectedAccessToken(
+      tIssuer,
+      tClient,
+      lib.None(),
+      request('inactive'),
+      audience,
+    ),
+    { code: lib.JSON_ATTRIBUTE_COMPARISON, message: 'access token is not active' },
+  )
+
+  introspect('other-rs', { active: true, aud: 'https://other-rs.example.com', exp })
+  await t.throwsAsync(
+    lib.validateIntrospectedAccessToken(
+      tIssuer,
+      tClient,
+      lib.None(),
+      request('other-rs'),
+      audience,
+    ),
+    {
+      code: lib.JSON_ATTRIBUTE_COMPARISON,
+      message: 'unexpected "response" body "aud" property value',
+    },
+  )
+
+  introspect('no-exp', { active: true, aud: audience })
+  await t.throwsAsync(
+    lib.validateIntrospectedAccessToken(tIssuer, tClient, lib.None(), request('no-exp'), audience),
+    { message: '"response" body "exp" property must be a number' },
+  )
+
+  introspect('dpop-bound', { active: true, aud: audience, exp, cnf: { jkt: 'thumbprint' } })
+  await t.throwsAsync(
+    lib.validateIntrospectedAccessToken(
+      tIssuer,
+      tClient,
+      lib.None(),
+      request('dpop-bound'),
+      audience,
+    ),
+    { message: 'operation indicated DPoP use but the request has no DPoP HTTP Header' },
+  )
+
+  introspect('bearer', { active: true, aud: audience, exp })
+  await t.throwsAsync(
+    lib.validateIntrospectedAccessToken(
+      tIssuer,
+      tClient,
+      lib.None(),
+      request('bearer', 'DPoP'),
+      audience,
+    ),
+    { message: 'access token is not DPoP-bound' },
+  )
+
+  introspect('mtls-bound', { active: true, aud: audience, exp, cnf: { 'x5t#S256': 'thumbprint' } })
+  await t.throwsAsync(
+    lib.validateIntrospectedAccessToken(
+      tIssuer,
+      tClient,
+      lib.None(),
+      request('mtls-bound'),
+      audience,
+    ),
+    { message: 'certificate-bound access token used without a client certificate' },
+  )
+})
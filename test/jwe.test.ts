@@ -0,0 +1,240 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, {
+  client,
+  endpoint,
+  issuer,
+  setupJwks,
+  teardown,
+  type ContextWithAlgs,
+} from './_setup.js'
+import * as jose from 'jose'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<ContextWithAlgs>
+
+test.before(setup)
+test.after(teardown)
+test.before(setupJwks)
+
+const plaintext = 'eyJhbGciOiJub25lIn0.eyJmb28iOiJiYXIifQ.'
+
+async function encrypt(
+  key: CryptoKey,
+  header: jose.CompactJWEHeaderParameters,
+  input: string = plaintext,
+  parameters: jose.JWEKeyManagementHeaderParameters = {},
+) {
+  return new jose.CompactEncrypt(new TextEncoder().encode(input))
+    .setProtectedHeader(header)
+    .setKeyManagementParameters(parameters)
+    .encrypt(key)
+}
+
+function replaceHeader(jwe: string, header: Record<string, unknown>) {
+  return [jose.base64url.encode(JSON.stringify(header)), ...jwe.split('.').slice(1)].join('.')
+}
+
+const rsa = (hash: string) =>
+  crypto.subtle.generateKey(
+    {
+      name: 'RSA-OAEP',
+      hash,
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([0x01, 0x00, 0x01]),
+    },
+    false,
+    ['encrypt', 'decrypt'],
+  ) as Promise<CryptoKeyPair>
+
+const ecdh = (namedCurve: string) =>
+  crypto.subtle.generateKey({ name: 'ECDH', namedCurve }, false, [
+    'deriveBits',
+  ]) as Promise<CryptoKeyPair>
+
+const x25519 = () =>
+  crypto.subtle.generateKey({ name: 'X25519' }, false, ['deriveBits']) as Promise<CryptoKeyPair>
+
+const encs = ['A128GCM', 'A192GCM', 'A256GCM', 'A128CBC-HS256', 'A192CBC-HS384', 'A256CBC-HS512']
+
+for (const [alg, generate] of [
+  ['RSA-OAEP', () => rsa('SHA-1')],
+  ['RSA-OAEP-256', () => rsa('SHA-256')],
+  ['RSA-OAEP-512', () => rsa('SHA-512')],
+  ['ECDH-ES', () => ecdh('P-256')],
+  ['ECDH-ES+A128KW', () => ecdh('P-384')],
+  ['ECDH-ES+A192KW', () => ecdh('P-521')],
+  ['ECDH-ES+A256KW', () => x25519()],
+] as const) {
+  test(`JweDecrypt() ${alg}`, async (t) => {
+    const kp = await generate()
+    const decrypt = lib.JweDecrypt(kp.privateKey)
+    for (const enc of encs) {
+      const jwe = await encrypt(kp.publicKey, { alg, enc }, plaintext, {
+        apu: new TextEncoder().encode('Alice'),
+        apv: new TextEncoder().encode('Bob'),
+      })
+      t.is(await decrypt(jwe), plaintext, enc)
+    }
+  })
+}
+
+test('JweDecrypt() key selection', async (t) => {
+  const [a, b, c] = await Promise.all([ecdh('P-256'), ecdh('P-256'), rsa('SHA-256')])
+  const decrypt = lib.JweDecrypt([
+    { key: a.privateKey, kid: 'a' },
+    { key: b.privateKey, kid: 'b' },
+    c.privateKey,
+  ])
+
+  t.is(
+    await decrypt(await encrypt(b.publicKey, { alg: 'ECDH-ES', enc: 'A128GCM', kid: 'b' })),
+    plaintext,
+  )
+  t.is(await decrypt(await encrypt(b.publicKey, { alg: 'ECDH-ES', enc: 'A128GCM' })), plaintext)
+  t.is(
+    await decrypt(await encrypt(c.publicKey, { alg: 'RSA-OAEP-256', enc: 'A128GCM' })),
+    plaintext,
+  )
+
+  await t.throwsAsync(
+    decrypt(await encrypt(b.publicKey, { alg: 'ECDH-ES', enc: 'A128GCM', kid: 'a' })),
+    { message: 'JWE decryption failed', code: 'OAUTH_INVALID_RESPONSE' },
+  )
+
+  await t.throwsAsync(
+    decrypt(await encrypt(b.publicKey, { alg: 'ECDH-ES', enc: 'A128GCM', kid: 'c' })),
+    {
+      message: 'error when selecting a JWE decryption key, no applicable keys found',
+      code: 'OAUTH_KEY_SELECTION_FAILED',
+    },
+  )
+
+  await t.throwsAsync(
+    decrypt(await encrypt(c.publicKey, { alg: 'RSA-OAEP-256', enc: 'A128GCM', kid: 'a' })),
+    {
+      code: 'OAUTH_KEY_SELECTION_FAILED',
+    },
+  )
+
+  const p384 = await ecdh('P-384')
+  await t.throwsAsync(decrypt(await encrypt(p384.publicKey, { alg: 'ECDH-ES', enc: 'A128GCM' })), {
+    code: 'OAUTH_KEY_SELECTION_FAILED',
+  })
+})
+
+test('JweDecrypt() checks', async (t) => {
+  const kp = await ecdh('P-256')
+  const decrypt = lib.JweDecrypt(kp.privateKey, {
+    keyManagementAlgorithms: ['ECDH-ES'],
+    contentEncryptionAlgorithms: ['A256GCM'],
+  })
+
+  t.throws(() => lib.JweDecrypt(kp.publicKey), { message: '"keys" must be a private CryptoKey' })
+  t.throws(() => lib.JweDecrypt([]), { message: '"keys" must not be empty' })
+
+  await t.throwsAsync(decrypt('foo.bar.baz'), { message: 'Invalid JWE' })
+
+  await t.throwsAsync(
+    decrypt(await encrypt(kp.publicKey, { alg: 'ECDH-ES+A128KW', enc: 'A256GCM' })),
+    {
+      message: 'unexpected JWE "alg" header parameter',
+    },
+  )
+
+  await t.throwsAsync(decrypt(await encrypt(kp.publicKey, { alg: 'ECDH-ES', enc: 'A128GCM' })), {
+    message: 'unexpected JWE "enc" header parameter',
+  })
+
+  const jwe = await encrypt(kp.publicKey, { alg: 'ECDH-ES', enc: 'A256GCM' })
+
+  await t.throwsAsync(decrypt(replaceHeader(jwe, { alg: 'ECDH-ES', enc: 'A256GCM', zip: 'DEF' })), {
+    message: 'JWE "zip" (compression) is not supported',
+  })
+
+  await t.throwsAsync(
+    decrypt(replaceHeader(jwe, { alg: 'ECDH-ES', enc: 'A256GCM', crit: ['foo'], foo: 1 })),
+    { message: 'no JWE "crit" header parameter extensions are supported' },
+  )
+
+  await t.throwsAsync(
+    lib.JweDecrypt(kp.privateKey)(replaceHeader(jwe, { alg: 'dir', enc: 'A256GCM' })),
+    {
+      message: 'unsupported JWE "alg" (algorithm)',
+    },
+  )
+
+  await t.throwsAsync(
+    lib.JweDecrypt(kp.privateKey)(replaceHeader(jwe, { alg: 'ECDH-ES', enc: 'A256CTR' })),
+    {
+      message: 'unsupported JWE "enc" (encryption algorithm)',
+    },
+  )
+
+  const parts = jwe.split('.')
+  parts[4] = jose.base64url.encode(new Uint8Array(16))
+  await t.throwsAsync(decrypt(parts.join('.')), { message: 'JWE decryption failed' })
+
+  const cbc = lib.JweDecrypt(kp.privateKey)
+  const jwe2 = (await encrypt(kp.publicKey, { alg: 'ECDH-ES', enc: 'A128CBC-HS256' })).split('.')
+  jwe2[4] = jose.base64url.encode(new Uint8Array(16))
+  const err = await t.throwsAsync(cbc(jwe2.join('.')), { message: 'JWE decryption failed' })
+  t.is(err!.cause, undefined)
+
+  parts[4] = jose.base64url.encode(new Uint8Array(12))
+  await t.throwsAsync(decrypt(parts.join('.')), {
+    message: 'invalid JWE Authentication Tag length',
+  })
+  parts[2] = jose.base64url.encode(new Uint8Array(16))
+  await t.throwsAsync(decrypt(parts.join('.')), {
+    message: 'invalid JWE Initialization Vector length',
+  })
+})
+
+test('JweDecrypt() with validateJwtAuthResponse()', async (t) => {
+  const tIssuer: lib.AuthorizationServer = {
+    ...issuer,
+    jwks_uri: endpoint('jwks'),
+  }
+  const kp = await rsa('SHA-256')
+
+  const response = await new jose.SignJWT({
+    iss: issuer.issuer,
+    aud: client.client_id,
+    code: 'code',
+  })
+    .setExpirationTime('30s')
+    .setProtectedHeader({ alg: 'RS256' })
+    .sign(t.context.RS256.privateKey)
+    .then((jws) => encrypt(kp.publicKey, { alg: 'RSA-OAEP-256', enc: 'A256GCM', cty: 'JWT' }, jws))
+
+  const params = await lib.validateJwtAuthResponse(
+    tIssuer,
+    client,
+    new URLSearchParams({ response }),
+    lib.expectNoState,
+    { [lib.jweDecrypt]: lib.JweDecrypt(kp.privateKey) },
+  )
+  t.is(params.get('code'), 'code')
+})
+
+test('JweDecrypt() RSA-OAEP unwrap failures are indistinguishable', async (t) => {
+  const kp = await rsa('SHA-256')
+  const decrypt = lib.JweDecrypt(kp.privateKey)
+
+  const jwe = (await encrypt(kp.publicKey, { alg: 'RSA-OAEP-256', enc: 'A128GCM' })).split('.')
+  const tampered = jose.base64url.decode(jwe[1])
+  tampered[0] ^= 1
+  jwe[1] = jose.base64url.encode(tampered)
+  const unwrap = await t.throwsAsync(decrypt(jwe.join('.')), {
+    message: 'JWE decryption failed',
+  })
+
+  const content = (await encrypt(kp.publicKey, { alg: 'RSA-OAEP-256', enc: 'A128GCM' })).split('.')
+  content[3] = jose.base64url.encode(new Uint8Array(8))
+  const decryption = await t.throwsAsync(decrypt(content.join('.')), {
+    message: 'JWE decryption failed',
+  })
+
+  t.is(unwrap!.cause, undefined)
+  t.is(decryption!.cause, undefined)
+})
@@ -0,0 +1,485 @@
+import anyTest, { type ExecutionContext, type TestFn } from 'ava'
+import setup, {
+  client,
+  endpoint,
+  issuer,
+  setupJwks,
+  teardown,
+  type ContextWithAlgs,
+} from './_setup.js'
+import * as jose from 'jose'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<ContextWithAlgs>
+
+test.before(setup)
+test.after(teardown)
+test.before(setupJwks)
+
+const tIssuer: lib.AuthorizationServer = {
+  ...issuer,
+  jwks_uri: endpoint('jwks'),
+}
+
+const audience = 'https://rs.example.com'
+const url = 'https://rs.example.com/resource'
+
+async function dpopBoundRequest(t: ExecutionContext<ContextWithAlgs>, expirationTime = '1m') {
+  const dpopKey = await lib.generateKeyPair('ES256')
+  const jwk = await jose.exportJWK(dpopKey.publicKey)
+
+  const accessToken = await new jose.SignJWT({
+    client_id: client.client_id,
+    cnf: { jkt: await jose.calculateJwkThumbprint(jwk) },
+  })
+    .setProtectedHeader({ alg: 'ES256', typ: 'at+jwt' })
+    .setIssuer(issuer.issuer)
+    .setAudience(audience)
+    .setSubject('urn:example:subject')
+    .setIssuedAt()
+    .setExpirationTime(expirationTime)
+    .setJti(crypto.randomUUID())
+    .sign(t.context.ES256.privateKey)
+
+  const ath = jose.base64url.encode(
+    new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(accessToken))),
+  )
+
+  return async (claims: jose.JWTPayload = {}) => {
+    const proof = await new jose.SignJWT({ htm: 'GET', htu: url, ath, ...claims })
+      .setProtectedHeader({ alg: 'ES256', typ: 'dpop+jwt', jwk })
+      .setIssuedAt()
+      .setJti(crypto.randomUUID())
+      .sign(dpopKey.privateKey)
+
+    return new Request(url, {
+      headers: { authorization: `DPoP ${accessToken}`, dpop: proof },
+    })
+  }
+}
+
+test('validateJwtAccessToken() detects replayed DPoP Proofs', async (t) => {
+  const request = await dpopBoundRequest(t)
+
+  const req = await request()
+  await t.notThrowsAsync(lib.validateJwtAccessToken(tIssuer, req, audience))
+  await t.throwsAsync(lib.validateJwtAccessToken(tIssuer, req, audience), {
+    message: 'DPoP Proof has already been used',
+  })
+  await t.notThrowsAsync(lib.validateJwtAccessToken(tIssuer, await request(), audience))
+
+  const seen = new Set<string>()
+  const dpopReplayCache: lib.DPoPReplayCache = {
+    async add(jti, expiresAt) {
+      t.true(expiresAt > Math.floor(Date.now() / 1000))
+      if (seen.has(jti)) return false
+      seen.add(jti)
+      return true
+    },
+  }
+  const req2 = await request()
+  await t.notThrowsAsync(lib.validateJwtAccessToken(tIssuer, req2, audience, { dpopReplayCache }))
+  t.is(seen.size, 1)
+  await t.throwsAsync(lib.validateJwtAccessToken(tIssuer, req2, audience, { dpopReplayCache }), {
+    message: 'DPoP Proof has already been used',
+  })
+})
+
+test.serial('MemoryReplayCache() keeps entries while their DPoP Proof is acceptable', async (t) => {
+  const request = await dpopBoundRequest(t, '10m')
+  const dpopReplayCache = lib.MemoryReplayCache()
+
+  const req = await request()
+  const { iat } = jose.decodeJwt(req.headers.get('dpop')!)
+  await lib.validateJwtAccessToken(tIssuer, req, audience, { dpopReplayCache })
+
+  const now = Date.now
+  try {
+    // the last second the proof's iat is accepted in
+    Date.now = () => (iat! + 300) * 1000
+    await t.throwsAsync(lib.validateJwtAccessToken(tIssuer, req, audience, { dpopReplayCache }), {
+      message: 'DPoP Proof has already been used',
+    })
+    Date.now = () => (iat! + 301) * 1000
+    await t.throwsAsync(lib.validateJwtAccessToken(tIssuer, req, audience, { dpopReplayCache }), {
+      message: 'DPoP Proof iat is not recent enough',
+    })
+  } finally {
+    Date.now = now
+  }
+})
+
+test('MemoryReplayCache() rejects new DPoP Proofs when full', async (t) => {
+  const request = await dpopBoundRequest(t)
+  const dpopReplayCache = lib.MemoryReplayCache({ maxEntries: 1 })
+
+  await lib.validateJwtAccessToken(tIssuer, await request(), audience, { dpopReplayCache })
+  const err = await t.throwsAsync(
+    lib.validateJwtAccessToken(tIssuer, await request(), audience, { dpopReplayCache }),
+    { code: lib.REPLAY_CACHE_FULL, message: 'DPoP replay cache is full' },
+  )
+  t.throws(() => lib.protectedResourceChallenge(err), { is: err })
+
+  for (const maxEntries of [0, 1.5, Infinity]) {
+    t.throws(() => lib.MemoryReplayCache({ maxEntries }), {
+      code: 'ERR_INVALID_ARG_VALUE',
+      message: '"options.maxEntries" must be a positive integer',
+    })
+  }
+})
+
+test('validateJwtAccessToken() w/ resource server provided DPoP nonces', async (t) => {
+  const request = await dpopBoundRequest(t)
+  const dpopNonce: lib.DPoPNonceProvider = {
+    validate: async (nonce) => nonce === 'current',
+  }
+
+  for (const claims of [{}, { nonce: 'stale' }]) {
+    await t.throwsAsync(
+      lib.validateJwtAccessToken(tIssuer, await request(claims), audience, { dpopNonce }),
+      {
+        code: lib.USE_DPOP_NONCE,
+        message: 'DPoP Proof is missing a valid resource server provided nonce',
+      },
+    )
+  }
+
+  await t.notThrowsAsync(
+    lib.validateJwtAccessToken(tIssuer, await request({ nonce: 'current' }), audience, {
+      dpopNonce,
+    }),
+  )
+})
+
+test('dpopNonceErrorResponse()', async (t) => {
+  const response = lib.dpopNonceErrorResponse('eyJ7S_zG.eyJH0-Z.HX4w-7v', ['ES256', 'EdDSA'])
+  t.is(response.status, 401)
+  t.is(response.headers.get('dpop-nonce'), 'eyJ7S_zG.eyJH0-Z.HX4w-7v')
+  t.is(response.headers.get('cache-control'), 'no-store')
+  t.is(
+    response.headers.get('www-authenticate'),
+    'DPoP error="use_dpop_nonce", error_description="Resource server requires nonce in DPoP proof", algs="ES256 EdDSA"',
+  )
+
+  // the client side recognizes the challenge
+  const err = await t.throwsAsync(
+    lib.processUserInfoResponse(tIssuer, client, lib.skipSubjectCheck, response),
+  )
+  t.true(err instanceof lib.WWWAuthenticateChallengeError)
+  t.is((err as lib.WWWAuthenticateChallengeError).cause[0].parameters.error, 'use_dpop_nonce')
+
+  t.throws(() => lib.dpopNonceErrorResponse(undefined as any), {
+    message: '"nonce" must be a string',
+  })
+})
+
+test('validateJwtAccessToken() w/ certificate-bound access tokens', async (t) => {
+  // the thumbprint is computed over the DER bytes, their ASN.1 structure is irrelevant here
+  const der = crypto.getRandomValues(new Uint8Array(512))
+  const pem = `-----BEGIN CERTIFICATE-----\n${btoa(String.fromCharCode(...der))
+    .match(/.{1,64}/g)!
+    .join('\n')}\n-----END CERTIFICATE-----\n`
+  const thumbprint = jose.base64url.encode(
+    new Uint8Array(await crypto.subtle.digest('SHA-256', der)),
+  )
+
+  const accessToken = await new jose.SignJWT({
+    client_id: client.client_id,
+    cnf: { 'x5t#S256': thumbprint },
+  })
+    .setProtectedHeader({ alg: 'ES256', typ: 'at+jwt' })
+    .setIssuer(issuer.issuer)
+    .setAudience(audience)
+    .setSubject('urn:example:subject')
+    .setIssuedAt()
+    .setExpirationTime('1m')
+    .setJti(crypto.randomUUID())
+    .sign(t.context.ES256.privateKey)
+
+  const request = () => new Request(url, { headers: { authorization: `Bearer ${accessToken}` } })
+
+  for (const clientCertificate of [pem, der, der.buffer]) {
+    const claims = await lib.validateJwtAccessToken(tIssuer, request(), audience, {
+      clientCertificate,
+    })
+    t.is(claims.cnf!['x5t#S256'], thumbprint)
+  }
+
+  const missing = await t.throwsAsync(lib.validateJwtAccessToken(tIssuer, request(), audience), {
+    code: lib.INVALID_REQUEST,
+    message: 'certificate-bound access token used without a client certificate',
+  })
+  const mismatch = await t.throwsAsync(
+    lib.validateJwtAccessToken(tIssuer, request(), audience, {
+      clientCertificate: crypto.getRandomValues(new Uint8Array(512)),
+    }),
+    { code: lib.JWT_CLAIM_COMPARISON, message: 'JWT Access Token confirmation mismatch' },
+  )
+  for (const err of [missing, mismatch]) {
+    const response = lib.protectedResourceChallenge(err, { schemes: ['Bearer'] })
+    t.is(response.status, 401)
+    t.is(
+      response.headers.get('www-authenticate'),
+      'Bearer error="invalid_token", error_description="Invalid access token binding"',
+    )
+  }
+  await t.throwsAsync(
+    lib.validateJwtAccessToken(tIssuer, request(), audience, { clientCertificate: 'foo' }),
+    { message: '"options.clientCertificate" must be a PEM-encoded certificate' },
+  )
+})
+
+test('protectedResourceChallenge()', async (t) => {
+  async function challenge(
+    request: Request | Promise<Request>,
+    options?: lib.ProtectedResourceChallengeOptions,
+    validateOptions?: lib.ValidateJWTAccessTokenOptions,
+  ) {
+    const err = await t.throwsAsync(
+      lib.validateJwtAccessToken(tIssuer, await request, audience, validateOptions),
+    )
+    return lib.protectedResourceChallenge(err, options)
+  }
+
+  function header(response: Response) {
+    return response.headers.get('www-authenticate')
+  }
+
+  let response = await challenge(new Request(url), {
+    realm: 'api',
+    algs: ['ES256'],
+    resource_metadata: 'https://rs.example.com/.well-known/oauth-protected-resource',
+  })
+  t.is(response.status, 401)
+  t.is(response.headers.get('cache-control'), 'no-store')
+  t.is(
+    header(response),
+    'Bearer realm="api", resource_metadata="https://rs.example.com/.well-known/oauth-protected-resource", DPoP realm="api", resource_metadata="https://rs.example.com/.well-known/oauth-protected-resource", algs="ES256"',
+  )
+
+  response = await challenge(new Request(url, { headers: { authorization: 'Basic Zm9vOmJhcg==' } }))
+  t.is(response.status, 401)
+  t.is(header(response), 'Bearer, DPoP')
+
+  response = await challenge(new Request(url, { headers: { authorization: 'Bearer a b' } }), {
+    schemes: ['Bearer'],
+  })
+  t.is(response.status, 400)
+  t.is(header(response), 'Bearer error="invalid_request", error_description="Invalid request"')
+
+  const request = await dpopBoundRequest(t)
+  const replayed = await request()
+  await lib.validateJwtAccessToken(tIssuer, replayed, audience)
+  response = await challenge(replayed, { algs: ['ES256', 'EdDSA'] })
+  t.is(response.status, 401)
+  t.is(
+    header(response),
+    'DPoP error="invalid_dpop_proof", error_description="Invalid DPoP proof", algs="ES256 EdDSA"',
+  )
+
+  const dpopNonce = { validate: () => false }
+  response = await challenge(request(), { dpopNonce: 'nonce' }, { dpopNonce })
+  t.is(response.status, 401)
+  t.is(response.headers.get('dpop-nonce'), 'nonce')
+  t.is(
+    header(response),
+    'DPoP error="use_dpop_nonce", error_description="Resource server requires nonce in DPoP proof"',
+  )
+  await t.throwsAsync(challenge(request(), undefined, { dpopNonce }), {
+    message: '"options.dpopNonce" must be provided to respond to a use_dpop_nonce error',
+  })
+
+  // DPoP-bound access tokens used without their binding are invalid tokens
+  const bound = await request()
+  const token = bound.headers.get('authorization')!.slice(5)
+  response = await challenge(new Request(url, { headers: { authorization: `Bearer ${token}` } }), {
+    schemes: ['Bearer'],
+  })
+  t.is(response.status, 401)
+  t.is(
+    header(response),
+    'Bearer error="invalid_token", error_description="Invalid access token binding"',
+  )
+  const ath = jose.base64url.encode(
+    new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))),
+  )
+  const foreign = await (await dpopBoundRequest(t))({ ath })
+  response = await challenge(
+    new Request(url, {
+      headers: { authorization: `DPoP ${token}`, dpop: foreign.headers.get('dpop')! },
+    }),
+    { schemes: ['DPoP'] },
+  )
+  t.is(response.status, 401)
+  t.is(
+    header(response),
+    'DPoP error="invalid_token", error_description="Invalid access token binding"',
+  )
+
+  // validation error messages, here one containing quotes, are not disclosed
+  const audienceError = await t.throwsAsync(
+    lib.validateJwtAccessToken(tIssuer, await request(), 'https://other-rs.example.com'),
+    { message: 'unexpected JWT "aud" (audience) claim value' },
+  )
+  response = lib.protectedResourceChallenge(audienceError, { scope: 'read write' })
+  t.is(response.status, 401)
+  t.is(
+    header(response),
+    'Bearer error="invalid_token", error_description="Invalid access token", scope="read write", DPoP error="invalid_token", error_description="Invalid access token", scope="read write"',
+  )
+  const err = await t.throwsAsync(
+    lib.processUserInfoResponse(tIssuer, client, lib.skipSubjectCheck, response),
+  )
+  const [bearer, dpop] = (err as lib.WWWAuthenticateChallengeError).cause
+  t.is(bearer.scheme, 'bearer')
+  t.is(dpop.scheme, 'dpop')
+  t.is(bearer.parameters.error, 'invalid_token')
+  t.is(bearer.parameters.error_description, 'Invalid access token')
+  t.is(bearer.parameters.scope, 'read write')
+
+  t.is(lib.protectedResourceChallenge(lib.insufficientScope, { scope: 'admin' }).status, 403)
+  t.is(
+    header(lib.protectedResourceChallenge(lib.insufficientScope, { scope: 'admin' })),
+    'Bearer error="insufficient_scope", scope="admin", DPoP error="insufficient_scope", scope="admin"',
+  )
+
+  const unrelated = new TypeError('fetch failed')
+  t.throws(() => lib.protectedResourceChallenge(unrelated), { is: unrelated })
+
+  // errors communicating with the authorization server are re-thrown
+  t.context
+    .intercept({ path: '/jwks-broken', method: 'GET' })
+    .reply(200, '{', { headers: { 'content-type': 'application/json' } })
+  const broken = await t.throwsAsync(
+    lib.validateJwtAccessToken({ ...tIssuer, jwks_uri: endpoint('jwks-broken') }, bound, audience),
+    { code: lib.PARSE_ERROR },
+  )
+  t.throws(() => lib.protectedResourceChallenge(broken), { is: broken })
+})
+
+test('step-up authentication', async (t) => {
+  async function bearerRequest(claims: jose.JWTPayload) {
+    const accessToken = await new jose.SignJWT({ client_id: client.client_id, ...claims })
+      .setProtectedHeader({ alg: 'ES256', typ: 'at+jwt' })
+      .setIssuer(issuer.issuer)
+      .setAudience(audience)
+      .setSubject('urn:example:subject')
+      .setIssuedAt()
+      .setExpirationTime('1m')
+      .setJti(crypto.randomUUID())
+      .sign(t.context.ES256.privateKey)
+    return new Request(url, { headers: { authorization: `Bearer ${accessToken}` } })
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const options = { requiredAcrValues: ['mfa', 'phr'], maxAuthAge: 300 }
+
+  const claims = await lib.validateJwtAccessToken(
+    tIssuer,
+    await bearerRequest({ acr: 'phr', auth_time: now - 60 }),
+    audience,
+    options,
+  )
+  t.is(claims.acr, 'phr')
+
+  for (const [payload, message] of [
+    [
+      { auth_time: now },
+      'unexpected JWT "acr" (authentication context class reference) claim value',
+    ],
+    [
+      { acr: 'pwd', auth_time: now },
+      'unexpected JWT "acr" (authentication context class reference) claim value',
+    ],
+    [{ acr: 'mfa' }, 'JWT "auth_time" (authentication time) claim missing'],
+    [
+      { acr: 'mfa', auth_time: now - 600 },
+      'too much time has elapsed since the last End-User authentication',
+    ],
+  ] as const) {
+    await t.throwsAsync(
+      lib.validateJwtAccessToken(tIssuer, await bearerRequest(payload), audience, options),
+      { code: lib.INSUFFICIENT_USER_AUTHENTICATION, message },
+    )
+  }
+
+  // invalid options are rejected before the access token is processed
+  for (const [invalid, message] of [
+    [
+      { requiredAcrValues: 'urn:x:loa:1x' },
+      '"options.requiredAcrValues" must be an array of strings',
+    ],
+    [{ requiredAcrValues: [1] }, '"options.requiredAcrValues" must be an array of strings'],
+    [{ maxAuthAge: -1 }, '"options.maxAuthAge" must be a non-negative number'],
+    [{ maxAuthAge: '300' }, '"options.maxAuthAge" must be a number'],
+  ] as const) {
+    await t.throwsAsync(
+      lib.validateJwtAccessToken(tIssuer, new Request(url), audience, invalid as any),
+      { message },
+    )
+    await t.throwsAsync(
+      lib.validateIntrospectedAccessToken(
+        tIssuer,
+        client,
+        lib.None(),
+        new Request(url),
+        audience,
+        invalid as any,
+      ),
+      { message },
+    )
+  }
+
+  const err = await t.throwsAsync(
+    lib.validateJwtAccessToken(
+      tIssuer,
+      await bearerRequest({ acr: 'pwd', auth_time: now }),
+      audience,
+      options,
+    ),
+  )
+  const response = lib.protectedResourceChallenge(err, {
+    schemes: ['Bearer'],
+    acr_values: options.requiredAcrValues,
+    max_age: options.maxAuthAge,
+  })
+  t.is(response.status, 401)
+  t.is(
+    response.headers.get('www-authenticate'),
+    'Bearer error="insufficient_user_authentication", error_description="A different authentication level is required", acr_values="mfa phr", max_age="300"',
+  )
+
+  // the client side turns the challenge into new authorization request parameters
+  const challenge = await t.throwsAsync(
+    lib.processUserInfoResponse(tIssuer, client, lib.skipSubjectCheck, response),
+  )
+  t.is((challenge as lib.WWWAuthenticateChallengeError).cause[0].parameters.acr_values, 'mfa phr')
+  t.is((challenge as lib.WWWAuthenticateChallengeError).cause[0].parameters.max_age, '300')
+
+  const parameters = lib.stepUpAuthorizationParameters(challenge, {
+    client_id: client.client_id,
+    scope: 'openid api',
+    acr_values: 'pwd',
+  })
+  t.deepEqual(Object.fromEntries(parameters!), {
+    client_id: client.client_id,
+    scope: 'openid api',
+    acr_values: 'mfa phr',
+    max_age: '300',
+  })
+
+  t.is(lib.stepUpAuthorizationParameters(err), undefined)
+  t.is(
+    lib.stepUpAuthorizationParameters(
+      await t.throwsAsync(
+        lib.processUserInfoResponse(
+          tIssuer,
+          client,
+          lib.skipSubjectCheck,
+          lib.protectedResourceChallenge(lib.insufficientScope),
+        ),
+      ),
+    ),
+    undefined,
+  )
+})
@@ -0,0 +1,163 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, {
+  client,
+  endpoint,
+  getResponse,
+  issuer,
+  setupContextKeys,
+  teardown,
+  type ContextWithAlgs,
+  UA,
+} from './_setup.js'
+import * as jose from 'jose'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<ContextWithAlgs>
+
+test.before(setup)
+test.after(teardown)
+test.before(setupContextKeys)
+
+const tClient: lib.Client = { ...client, token_endpoint_auth_method: 'none' }
+
+test('jwtBearerGrantRequest() with a pre-built assertion', async (t) => {
+  await t.throwsAsync(lib.jwtBearerGrantRequest(issuer, tClient, lib.None(), 'assertion'), {
+    message: 'authorization server metadata does not contain a valid "as.token_endpoint"',
+  })
+
+  const tIssuer: lib.AuthorizationServer = {
+    ...issuer,
+    token_endpoint: endpoint('token-1'),
+  }
+
+  await t.throwsAsync(lib.jwtBearerGrantRequest(tIssuer, tClient, lib.None(), ''), {
+    message: '"assertion" must not be empty',
+  })
+
+  t.context
+    .intercept({
+      path: '/token-1',
+      method: 'POST',
+      headers: {
+        accept: 'application/json',
+        'user-agent': UA,
+      },
+      body(body) {
+        const params = new URLSearchParams(body)
+        return (
+          params.get('grant_type') === 'urn:ietf:params:oauth:grant-type:jwt-bearer' &&
+          params.get('assertion') === 'assertion' &&
+          params.get('scope') === 'api:read'
+        )
+      },
+    })
+    .reply(200, { access_token: 'token', token_type: 'Bearer' })
+
+  await t.notThrowsAsync(
+    lib.jwtBearerGrantRequest(tIssuer, tClient, lib.None(), 'assertion', {
+      additionalParameters: { scope: 'api:read', assertion: 'will be overwritten' },
+    }),
+  )
+})
+
+test('jwtBearerGrantRequest() signing an assertion', async (t) => {
+  const tIssuer: lib.AuthorizationServer = {
+    ...issuer,
+    token_endpoint: endpoint('token-2'),
+  }
+
+  await t.throwsAsync(
+    lib.jwtBearerGrantRequest(tIssuer, tClient, lib.None(), t.context.ES256.publicKey),
+    { message: '"assertion.key" must be a private CryptoKey' },
+  )
+
+  await t.throwsAsync(
+    lib.jwtBearerGrantRequest(tIssuer, tClient, lib.None(), t.context.ES256.privateKey, {
+      lifetime: 0,
+    }),
+    { message: '"options.lifetime" must be a positive number' },
+  )
+
+  t.context
+    .intercept({
+      path: '/token-2',
+      method: 'POST',
+      body(body) {
+        const params = new URLSearchParams(body)
+        const assertion = jose.decodeJwt(params.get('assertion')!)
+        const header = jose.decodeProtectedHeader(params.get('assertion')!)
+        t.is(params.get('grant_type'), 'urn:ietf:params:oauth:grant-type:jwt-bearer')
+        t.is(header.alg, 'ES256')
+        t.is(header.kid, undefined)
+        t.is(assertion.iss, client.client_id)
+        t.is(assertion.sub, client.client_id)
+        t.is(assertion.aud, tIssuer.issuer)
+        t.is(typeof assertion.jti, 'string')
+        t.is(assertion.exp! - assertion.iat!, 60)
+        t.is(assertion.nbf, assertion.iat)
+        return true
+      },
+    })
+    .reply(200, { access_token: 'token', token_type: 'Bearer' })
+
+  await lib.jwtBearerGrantRequest(tIssuer, tClient, lib.None(), t.context.ES256.privateKey)
+
+  t.context
+    .intercept({
+      path: '/token-2',
+      method: 'POST',
+      body(body) {
+        const params = new URLSearchParams(body)
+        const assertion = jose.decodeJwt(params.get('assertion')!)
+        const header = jose.decodeProtectedHeader(params.get('assertion')!)
+        t.is(header.kid, 'keyId')
+        t.is(header.foo, 'bar')
+        t.is(assertion.iss, client.client_id)
+        t.is(assertion.sub, 'user@example.com')
+        t.deepEqual(assertion.aud, ['urn:example:a', 'urn:example:b'])
+        t.is(assertion.exp! - assertion.iat!, 300)
+        t.is(assertion.iat! - Math.floor(Date.now() / 1000) >= 99, true)
+        t.is(assertion.tenant, 'example')
+        t.is(assertion.modified, true)
+        return true
+      },
+    })
+    .reply(200, { access_token: 'token', token_type: 'Bearer' })
+
+  await lib.jwtBearerGrantRequest(
+    tIssuer,
+    { ...tClient, [lib.clockSkew]: 100 },
+    lib.None(),
+    { key: t.context.ES256.privateKey, kid: 'keyId' },
+    {
+      subject: 'user@example.com',
+      audience: ['urn:example:a', 'urn:example:b'],
+      lifetime: 300,
+      claims: { tenant: 'example', iss: 'will be overwritten' },
+      [lib.modifyAssertion](header, payload) {
+        header.foo = 'bar'
+        payload.modified = true
+      },
+    },
+  )
+})
+
+test('processJwtBearerResponse()', async (t) => {
+  t.deepEqual(
+    await lib.processJwtBearerResponse(
+      issuer,
+      client,
+      getResponse(JSON.stringify({ access_token: 'token', token_type: 'Bearer', expires_in: 60 })),
+    ),
+    { access_token: 'token', token_type: 'bearer', expires_in: 60 },
+  )
+
+  const err = await t.throwsAsync(
+    lib.processJwtBearerResponse(
+      issuer,
+      client,
+      getResponse(JSON.stringify({ error: 'invalid_grant' }), { status: 400 }),
+    ),
+  )
+  t.true(err instanceof lib.ResponseBodyError && err.error === 'invalid_grant')
+})
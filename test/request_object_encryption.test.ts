@@ -0,0 +1,156 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, { client, endpoint, issuer, teardown, type Context } from './_setup.js'
+import * as jose from 'jose'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<Context>
+
+test.before(setup)
+test.after(teardown)
+
+async function setupEncryptionJwks(t: any, path: string, keys: jose.JWK[]) {
+  t.context
+    .intercept({
+      path: `/${path}`,
+      method: 'GET',
+    })
+    .reply(200, { keys }, { headers: { 'content-type': 'application/json' } })
+
+  return {
+    ...issuer,
+    jwks_uri: endpoint(path),
+  } as lib.AuthorizationServer
+}
+
+const algs = [
+  ['RSA-OAEP', 'A128CBC-HS256'],
+  ['RSA-OAEP-256', 'A256GCM'],
+  ['ECDH-ES', 'A256GCM', 'P-256'],
+  ['ECDH-ES+A128KW', 'A128GCM', 'P-384'],
+  ['ECDH-ES+A256KW', 'A256CBC-HS512', 'X25519'],
+] as const
+
+for (const [alg, enc, crv] of algs) {
+  test(`issueRequestObject() with encryption ${alg} + ${enc}`, async (t) => {
+    const sign = await lib.generateKeyPair('ES256')
+    const { privateKey, publicKey } = await jose.generateKeyPair(alg, { crv })
+
+    const tIssuer = await setupEncryptionJwks(t, `jwks-${alg}-${enc}`, [
+      { ...(await jose.exportJWK(sign.publicKey)), use: 'sig' },
+      { ...(await jose.exportJWK(publicKey)), use: 'enc', kid: 'enc-key' },
+    ])
+
+    const jwe = await lib.issueRequestObject(
+      tIssuer,
+      client,
+      new URLSearchParams({ response_type: 'code' }),
+      { key: sign.privateKey },
+      { encryption: { alg, enc } },
+    )
+
+    const { plaintext, protectedHeader } = await jose.compactDecrypt(jwe, privateKey, {
+      keyManagementAlgorithms: [alg],
+      contentEncryptionAlgorithms: [enc],
+    })
+    t.is(protectedHeader.alg, alg)
+    t.is(protectedHeader.enc, enc)
+    t.is(protectedHeader.cty, 'JWT')
+    t.is(protectedHeader.kid, 'enc-key')
+
+    const { payload, protectedHeader: header } = await jose.jwtVerify(
+      new TextDecoder().decode(plaintext),
+      sign.publicKey,
+      { issuer: client.client_id, audience: issuer.issuer },
+    )
+    t.is(header.typ, 'oauth-authz-req+jwt')
+    t.is(payload.response_type, 'code')
+    t.is(payload.client_id, client.client_id)
+  })
+}
+
+test('issueRequestObject() uses the client encryption metadata', async (t) => {
+  const sign = await lib.generateKeyPair('ES256')
+  const { privateKey, publicKey } = await jose.generateKeyPair('RSA-OAEP-256')
+
+  const tIssuer = await setupEncryptionJwks(t, 'jwks-client-metadata', [
+    await jose.exportJWK(publicKey),
+  ])
+
+  const jwe = await lib.issueRequestObject(
+    tIssuer,
+    { ...client, request_object_encryption_alg: 'RSA-OAEP-256' },
+    new URLSearchParams(),
+    { key: sign.privateKey },
+  )
+
+  const { protectedHeader } = await jose.compactDecrypt(jwe, privateKey)
+  t.deepEqual(protectedHeader, { alg: 'RSA-OAEP-256', enc: 'A128CBC-HS256', cty: 'JWT' })
+})
+
+test('issueRequestObject() encryption argument and metadata checks', async (t) => {
+  const sign = await lib.generateKeyPair('ES256')
+  const privateKey = { key: sign.privateKey }
+
+  await t.throwsAsync(
+    lib.issueRequestObject(issuer, client, new URLSearchParams(), privateKey, { encryption: {} }),
+    { message: '"options.encryption.alg" must be a string' },
+  )
+
+  await t.throwsAsync(
+    lib.issueRequestObject(
+      { ...issuer, request_object_encryption_alg_values_supported: ['RSA-OAEP-256'] },
+      client,
+      new URLSearchParams(),
+      privateKey,
+      { encryption: { alg: 'ECDH-ES' } },
+    ),
+    {
+      code: 'ERR_INVALID_ARG_VALUE',
+      message:
+        '"options.encryption.alg" value "ECDH-ES" is not supported by the authorization server',
+    },
+  )
+
+  await t.throwsAsync(
+    lib.issueRequestObject(
+      { ...issuer, request_object_encryption_enc_values_supported: ['A256GCM'] },
+      client,
+      new URLSearchParams(),
+      privateKey,
+      { encryption: { alg: 'RSA-OAEP-256' } },
+    ),
+    {
+      code: 'ERR_INVALID_ARG_VALUE',
+      message:
+        '"options.encryption.enc" value "A128CBC-HS256" is not supported by the authorization server',
+    },
+  )
+
+  await t.throwsAsync(
+    lib.issueRequestObject(issuer, client, new URLSearchParams(), privateKey, {
+      encryption: { alg: 'RSA-OAEP-256', enc: 'A128CTR' },
+    }),
+    { name: 'UnsupportedOperationError', message: 'unsupported JWE "enc" (encryption algorithm)' },
+  )
+
+  const tIssuer = await setupEncryptionJwks(t, 'jwks-no-enc-key', [
+    { ...(await jose.exportJWK(sign.publicKey)), use: 'sig' },
+  ])
+
+  await t.throwsAsync(
+    lib.issueRequestObject(tIssuer, client, new URLSearchParams(), privateKey, {
+      encryption: { alg: 'ECDH-ES' },
+    }),
+    {
+      code: 'OAUTH_KEY_SELECTION_FAILED',
+      message: 'error when selecting a JWE encryption key, no applicable keys found',
+    },
+  )
+
+  await t.throwsAsync(
+    lib.issueRequestObject(tIssuer, client, new URLSearchParams(), privateKey, {
+      encryption: { alg: 'dir' },
+    }),
+    { name: 'UnsupportedOperationError', message: 'unsupported JWE "alg" (algorithm)' },
+  )
+})
@@ -0,0 +1,121 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, { type Context, teardown, getResponse, UA } from './_setup.js'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<Context>
+
+test.before(setup)
+test.after(teardown)
+
+const resource = new URL('https://rs.example.com')
+
+test('resourceDiscoveryRequest()', async (t) => {
+  const rs = t.context.mock.get('https://rs.example.com')
+  rs.intercept({
+    path: '/.well-known/oauth-protected-resource',
+    method: 'GET',
+    headers: {
+      accept: 'application/json',
+      'user-agent': UA,
+    },
+  }).reply(200, { resource: resource.href })
+  rs.intercept({
+    path: '/.well-known/oauth-protected-resource/api/v1',
+    method: 'GET',
+  }).reply(200, { resource: 'https://rs.example.com/api/v1' })
+  rs.intercept({
+    path: '/metadata',
+    method: 'GET',
+  }).reply(200, { resource: resource.href })
+
+  t.true((await lib.resourceDiscoveryRequest(resource)) instanceof Response)
+  t.true(
+    (await lib.resourceDiscoveryRequest(
+      new URL('https://rs.example.com/api/v1?foo=bar'),
+    )) instanceof Response,
+  )
+  t.true(
+    (await lib.resourceDiscoveryRequest(resource, {
+      resourceMetadata: 'https://rs.example.com/metadata',
+    })) instanceof Response,
+  )
+
+  await t.throwsAsync(lib.resourceDiscoveryRequest('https://rs.example.com' as any), {
+    message: '"resourceIdentifier" must be an instance of URL',
+  })
+  await t.throwsAsync(lib.resourceDiscoveryRequest(resource, { resourceMetadata: 'foo' }), {
+    message: '"options.resourceMetadata" must be a valid URL',
+  })
+  await t.throwsAsync(
+    lib.resourceDiscoveryRequest(resource, { resourceMetadata: 'http://rs.example.com/metadata' }),
+    { message: 'only requests to HTTPS are allowed' },
+  )
+})
+
+test('processResourceDiscoveryResponse()', async (t) => {
+  await t.throwsAsync(
+    lib.processResourceDiscoveryResponse(resource, getResponse('', { status: 404 })),
+    {
+      message:
+        '"response" is not a conform Protected Resource Metadata response (unexpected HTTP status code)',
+    },
+  )
+  await t.throwsAsync(lib.processResourceDiscoveryResponse(resource, getResponse('[]')), {
+    message: '"response" body must be a top level object',
+  })
+  await t.throwsAsync(lib.processResourceDiscoveryResponse(resource, getResponse('{}')), {
+    message: '"response" body "resource" property must be a string',
+  })
+  await t.throwsAsync(
+    lib.processResourceDiscoveryResponse(
+      resource,
+      getResponse(JSON.stringify({ resource: 'https://another-rs.example.com' })),
+    ),
+    { message: '"response" body "resource" property does not match the expected value' },
+  )
+  await t.throwsAsync(
+    lib.processResourceDiscoveryResponse(
+      resource,
+      getResponse(JSON.stringify({ resource: resource.href, authorization_servers: [null] })),
+    ),
+    { message: '"response" body "authorization_servers" property must be an array of strings' },
+  )
+
+  t.deepEqual(
+    await lib.processResourceDiscoveryResponse(
+      resource,
+      getResponse(
+        JSON.stringify({
+          resource: 'https://rs.example.com/',
+          authorization_servers: ['https://op.example.com'],
+        }),
+      ),
+    ),
+    {
+      resource: 'https://rs.example.com/',
+      authorization_servers: ['https://op.example.com'],
+    },
+  )
+})
+
+test('WWWAuthenticateChallengeError.resource_metadata', async (t) => {
+  const headers = new Headers({
+    'www-authenticate':
+      'DPoP algs="ES256", Bearer error="invalid_token", resource_metadata="https://rs.example.com/.well-known/oauth-protected-resource"',
+  })
+
+  const err = await t.throwsAsync(
+    lib.processUserInfoResponse(
+      { issuer: 'https://op.example.com', userinfo_endpoint: 'https://op.example.com/userinfo' },
+      { client_id: 'urn:example:client_id' },
+      lib.skipSubjectCheck,
+      getResponse('', { status: 401, headers }),
+    ),
+  )
+
+  t.true(err instanceof lib.WWWAuthenticateChallengeError)
+  t.is(
+    (err as lib.WWWAuthenticateChallengeError).resource_metadata,
+    'https://rs.example.com/.well-known/oauth-protected-resource',
+  )
+})
@@ -0,0 +1,125 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, {
+  client,
+  issuer,
+  setupContextKeys,
+  teardown,
+  type ContextWithAlgs,
+} from './_setup.js'
+import * as jose from 'jose'
+import * as vm from 'node:vm'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<ContextWithAlgs>
+
+test.before(setup)
+test.after(teardown)
+test.before(setupContextKeys)
+
+// local stand-in for a remote / KMS signer, the key material never leaves it
+function signer(privateKey: lib.CryptoKey, kid?: string): lib.Signer & { calls: number } {
+  return {
+    alg: 'ES256',
+    kid,
+    calls: 0,
+    async sign(data) {
+      this.calls++
+      return crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, data)
+    },
+  }
+}
+
+test('PrivateKeyJwt() with a Signer', async (t) => {
+  const remote = signer(t.context.ES256.privateKey, 'kms-key')
+  const body = new URLSearchParams()
+  await lib.PrivateKeyJwt(remote)(issuer, client, body, new Headers())
+
+  t.is(remote.calls, 1)
+  const { payload, protectedHeader } = await jose.jwtVerify(
+    body.get('client_assertion')!,
+    t.context.ES256.publicKey,
+  )
+  t.deepEqual(protectedHeader, { alg: 'ES256', kid: 'kms-key' })
+  t.is(payload.iss, client.client_id)
+  t.is(payload.aud, issuer.issuer)
+})
+
+test('issueRequestObject() with a Signer', async (t) => {
+  const remote = signer(t.context.ES256.privateKey)
+  const request = await lib.issueRequestObject(issuer, client, { scope: 'openid' }, remote)
+
+  const { payload, protectedHeader } = await jose.jwtVerify(request, t.context.ES256.publicKey)
+  t.deepEqual(protectedHeader, { alg: 'ES256', typ: 'oauth-authz-req+jwt' })
+  t.is(payload.scope, 'openid')
+})
+
+test('DPoP() with a Signer private half', async (t) => {
+  const headers = new Headers()
+  await lib
+    .DPoP(client, {
+      privateKey: signer(t.context.ES256.privateKey),
+      publicKey: t.context.ES256.publicKey,
+    })
+    .addProof(new URL('https://rs.example.com/resource'), headers, 'GET', 'token')
+
+  const { payload, protectedHeader } = await jose.jwtVerify(
+    headers.get('dpop')!,
+    jose.EmbeddedJWK,
+    { typ: 'dpop+jwt' },
+  )
+  t.is(protectedHeader.alg, 'ES256')
+  t.deepEqual(protectedHeader.jwk, await jose.exportJWK(t.context.ES256.publicKey))
+  t.is(payload.htu, 'https://rs.example.com/resource')
+})
+
+test('Signer results from another realm', async (t) => {
+  const { privateKey, publicKey } = t.context.ES256
+  for (const type of ['Uint8Array', 'ArrayBuffer']) {
+    const remote: lib.Signer = {
+      alg: 'ES256',
+      async sign(data) {
+        const signature = await crypto.subtle.sign(
+          { name: 'ECDSA', hash: 'SHA-256' },
+          privateKey,
+          data,
+        )
+        // copy the signature into a buffer created in a separate realm
+        return vm.runInNewContext(
+          `type === 'Uint8Array' ? new Uint8Array(bytes) : new Uint8Array(bytes).buffer`,
+          { type, bytes: [...new Uint8Array(signature)] },
+        )
+      },
+    }
+
+    const body = new URLSearchParams()
+    await lib.PrivateKeyJwt(remote)(issuer, client, body, new Headers())
+    await t.notThrowsAsync(jose.jwtVerify(body.get('client_assertion')!, publicKey))
+  }
+})
+
+test('Signer argument checks', async (t) => {
+  t.throws(() => lib.PrivateKeyJwt({ ...signer(t.context.ES256.privateKey), alg: 1 as any }), {
+    message: '"alg" must be a string',
+  })
+  t.throws(() => lib.PrivateKeyJwt(signer(t.context.ES256.privateKey, 1 as any)), {
+    message: '"kid" must be a string',
+  })
+  t.throws(
+    () =>
+      lib.DPoP(client, {
+        privateKey: { ...signer(t.context.ES256.privateKey), alg: undefined as any },
+        publicKey: t.context.ES256.publicKey,
+      }),
+    { message: '"DPoP.privateKey.alg" must be a string' },
+  )
+
+  for (const result of ['foo', {}, [1, 2]]) {
+    const clientAuth = lib.PrivateKeyJwt({ alg: 'ES256', sign: async () => result as any })
+    await t.throwsAsync(
+      async () => clientAuth(issuer, client, new URLSearchParams(), new Headers()),
+      {
+        message: 'Signer "sign" method must resolve with a Uint8Array or an ArrayBuffer',
+      },
+    )
+  }
+})
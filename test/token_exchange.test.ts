@@ -0,0 +1,181 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, {
+  client,
+  endpoint,
+  getResponse,
+  issuer,
+  teardown,
+  type Context,
+  UA,
+} from './_setup.js'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<Context>
+
+test.before(setup)
+test.after(teardown)
+
+const tClient: lib.Client = { ...client, token_endpoint_auth_method: 'none' }
+
+const subject = {
+  subject_token: 'subject_token',
+  subject_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+} satisfies lib.TokenExchangeParameters
+
+test('tokenExchangeGrantRequest()', async (t) => {
+  await t.throwsAsync(lib.tokenExchangeGrantRequest(issuer, tClient, lib.None(), subject), {
+    message: 'authorization server metadata does not contain a valid "as.token_endpoint"',
+  })
+
+  const tIssuer: lib.AuthorizationServer = {
+    ...issuer,
+    token_endpoint: endpoint('token-1'),
+  }
+
+  await t.throwsAsync(
+    lib.tokenExchangeGrantRequest(tIssuer, tClient, lib.None(), {
+      subject_token_type: subject.subject_token_type,
+    } as any),
+    { message: '"parameters.subject_token" must be a string' },
+  )
+
+  await t.throwsAsync(
+    lib.tokenExchangeGrantRequest(tIssuer, tClient, lib.None(), {
+      ...subject,
+      actor_token: 'actor_token',
+    }),
+    { message: '"parameters.actor_token_type" must be a string' },
+  )
+
+  await t.throwsAsync(
+    lib.tokenExchangeGrantRequest(tIssuer, tClient, lib.None(), {
+      ...subject,
+      actor_token_type: 'urn:ietf:params:oauth:token-type:jwt',
+    }),
+    { message: '"parameters.actor_token_type" must not be used without "parameters.actor_token"' },
+  )
+
+  t.context
+    .intercept({
+      path: '/token-1',
+      method: 'POST',
+      headers: {
+        accept: 'application/json',
+        'user-agent': UA,
+      },
+      body(body) {
+        const params = new URLSearchParams(body)
+        return (
+          params.get('grant_type') === 'urn:ietf:params:oauth:grant-type:token-exchange' &&
+          params.get('subject_token') === 'subject_token' &&
+          params.get('subject_token_type') === 'urn:ietf:params:oauth:token-type:access_token' &&
+          params.get('actor_token') === 'actor_token' &&
+          params.get('actor_token_type') === 'urn:ietf:params:oauth:token-type:jwt' &&
+          params.get('requested_token_type') === 'urn:ietf:params:oauth:token-type:id_token' &&
+          params.get('scope') === 'api:read' &&
+          params.getAll('resource').join() === 'urn:example:a,urn:example:b' &&
+          params.getAll('audience').join() === 'urn:example:audience' &&
+          params.get('foo') === 'bar'
+        )
+      },
+    })
+    .reply(200, { access_token: 'token', token_type: 'N_A' })
+
+  await t.notThrowsAsync(
+    lib.tokenExchangeGrantRequest(
+      tIssuer,
+      tClient,
+      lib.None(),
+      {
+        ...subject,
+        actor_token: 'actor_token',
+        actor_token_type: 'urn:ietf:params:oauth:token-type:jwt',
+        requested_token_type: 'urn:ietf:params:oauth:token-type:id_token',
+        scope: 'api:read',
+        resource: ['urn:example:a', 'urn:example:b'],
+        audience: 'urn:example:audience',
+      },
+      { additionalParameters: { foo: 'bar', audience: 'will be overwritten' } },
+    ),
+  )
+})
+
+test('processTokenExchangeResponse()', async (t) => {
+  t.deepEqual(
+    await lib.processTokenExchangeResponse(
+      issuer,
+      client,
+      getResponse(
+        JSON.stringify({
+          access_token: 'token',
+          token_type: 'N_A',
+          issued_token_type: 'urn:ietf:params:oauth:token-type:jwt',
+        }),
+      ),
+    ),
+    {
+      access_token: 'token',
+      token_type: 'n_a',
+      issued_token_type: 'urn:ietf:params:oauth:token-type:jwt',
+    },
+  )
+
+  await t.notThrowsAsync(
+    lib.processTokenExchangeResponse(
+      issuer,
+      client,
+      getResponse(
+        JSON.stringify({
+          access_token: 'token',
+          token_type: 'Bearer',
+          expires_in: 60,
+          issued_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+        }),
+      ),
+    ),
+  )
+
+  await t.throwsAsync(
+    lib.processTokenExchangeResponse(
+      issuer,
+      client,
+      getResponse(JSON.stringify({ access_token: 'token', token_type: 'Bearer' })),
+    ),
+    { message: '"response" body "issued_token_type" property must be a string' },
+  )
+
+  await t.throwsAsync(
+    lib.processTokenExchangeResponse(
+      issuer,
+      client,
+      getResponse(
+        JSON.stringify({
+          access_token: 'token',
+          token_type: 'MAC',
+          issued_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+        }),
+      ),
+    ),
+    { message: 'unsupported `token_type` value' },
+  )
+
+  const err = await t.throwsAsync(
+    lib.processTokenExchangeResponse(
+      issuer,
+      client,
+      getResponse(JSON.stringify({ error: 'invalid_target' }), { status: 400 }),
+    ),
+  )
+  t.true(err instanceof lib.ResponseBodyError && err.error === 'invalid_target')
+})
+
+test('processGenericTokenEndpointResponse() still rejects N_A', async (t) => {
+  await t.throwsAsync(
+    lib.processGenericTokenEndpointResponse(
+      issuer,
+      client,
+      getResponse(JSON.stringify({ access_token: 'token', token_type: 'N_A' })),
+    ),
+    { message: 'unsupported `token_type` value' },
+  )
+})
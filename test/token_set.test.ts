@@ -0,0 +1,151 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, {
+  client,
+  endpoint,
+  getResponse,
+  issuer,
+  setupJwks,
+  teardown,
+  type ContextWithAlgs,
+} from './_setup.js'
+import * as jose from 'jose'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<ContextWithAlgs>
+
+test.before(setup)
+test.after(teardown)
+test.before(setupJwks)
+
+const tIssuer: lib.AuthorizationServer = {
+  ...issuer,
+  token_endpoint: endpoint('token-set'),
+  jwks_uri: endpoint('jwks'),
+}
+
+test('TokenSet()', async (t) => {
+  const id_token = await new jose.SignJWT({})
+    .setProtectedHeader({ alg: 'RS256' })
+    .setIssuer(issuer.issuer)
+    .setSubject('urn:example:subject')
+    .setAudience(client.client_id)
+    .setExpirationTime('5m')
+    .setIssuedAt()
+    .sign(t.context.RS256.privateKey)
+
+  const initial = await lib.processRefreshTokenResponse(
+    tIssuer,
+    client,
+    getResponse(
+      JSON.stringify({
+        access_token: 'at-1',
+        token_type: 'Bearer',
+        expires_in: 10,
+        refresh_token: 'rt-1',
+        scope: 'openid offline_access',
+        id_token,
+      }),
+    ),
+  )
+
+  const tokens = lib.TokenSet(tIssuer, client, lib.None(), initial)
+  t.is(tokens.access_token, 'at-1')
+  t.is(tokens.token_type, 'bearer')
+  t.is(tokens.refresh_token, 'rt-1')
+  t.is(tokens.claims?.sub, 'urn:example:subject')
+  t.true(Math.abs(tokens.expires_at! - (Math.floor(Date.now() / 1000) + 10)) <= 1)
+  t.true(tokens.expired())
+
+  function refresh(refreshToken: string, body: Record<string, unknown>) {
+    t.context
+      .intercept({
+        path: '/token-set',
+        method: 'POST',
+        body(body) {
+          const params = new URLSearchParams(body)
+          return (
+            params.get('grant_type') === 'refresh_token' &&
+            params.get('refresh_token') === refreshToken
+          )
+        },
+      })
+      .reply(200, body, { headers: { 'content-type': 'application/json' } })
+  }
+
+  // concurrent calls share a single refresh, the rotated refresh token is kept
+  refresh('rt-1', {
+    access_token: 'at-2',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'rt-2',
+  })
+  t.deepEqual(
+    await Promise.all([tokens.getAccessToken(), tokens.getAccessToken(), tokens.getAccessToken()]),
+    ['at-2', 'at-2', 'at-2'],
+  )
+  t.is(tokens.refresh_token, 'rt-2')
+  t.is(tokens.id_token, id_token)
+  t.is(tokens.scope, 'openid offline_access')
+  t.is(tokens.claims?.sub, 'urn:example:subject')
+  t.false(tokens.expired())
+  t.is(await tokens.getAccessToken(), 'at-2')
+
+  // refresh tokens that are not rotated remain in use
+  refresh('rt-2', { access_token: 'at-3', token_type: 'Bearer' })
+  await tokens.refresh()
+  t.is(tokens.access_token, 'at-3')
+  t.is(tokens.refresh_token, 'rt-2')
+  t.is(tokens.expires_at, undefined)
+  t.false(tokens.expired())
+
+  // a refreshed ID Token must be about the same End-User
+  refresh('rt-2', {
+    access_token: 'at-4',
+    token_type: 'Bearer',
+    id_token: await new jose.SignJWT({})
+      .setProtectedHeader({ alg: 'RS256' })
+      .setIssuer(issuer.issuer)
+      .setSubject('urn:example:other')
+      .setAudience(client.client_id)
+      .setExpirationTime('5m')
+      .setIssuedAt()
+      .sign(t.context.RS256.privateKey),
+  })
+  await t.throwsAsync(tokens.refresh(), {
+    code: lib.JWT_CLAIM_COMPARISON,
+    message: 'unexpected refreshed ID Token "sub" claim value',
+  })
+  t.is(tokens.access_token, 'at-3')
+  t.is(tokens.id_token, id_token)
+  t.is(tokens.claims?.sub, 'urn:example:subject')
+})
+
+test('TokenSet() clock skew, leeway, and argument checks', async (t) => {
+  const response: lib.TokenEndpointResponse = {
+    access_token: 'at',
+    token_type: 'bearer',
+    expires_in: 60,
+  }
+  const now = Math.floor(Date.now() / 1000)
+
+  const skewed = lib.TokenSet(tIssuer, { ...client, [lib.clockSkew]: 100 }, lib.None(), response)
+  t.true(Math.abs(skewed.expires_at! - (now + 160)) <= 1)
+  t.false(skewed.expired())
+
+  const tokens = lib.TokenSet(tIssuer, client, lib.None(), response, { refreshLeeway: 120 })
+  t.true(tokens.expired())
+  await t.throwsAsync(tokens.getAccessToken(), {
+    name: 'UnsupportedOperationError',
+    message: 'the token set has no refresh token to refresh with',
+  })
+
+  t.throws(() => lib.TokenSet(tIssuer, client, lib.None(), null as any), {
+    message: '"response" must be an object',
+  })
+  t.throws(() => lib.TokenSet(tIssuer, client, lib.None(), { token_type: 'bearer' } as any), {
+    message: '"response.access_token" must be a string',
+  })
+  t.throws(() => lib.TokenSet(tIssuer, client, lib.None(), response, { refreshLeeway: -1 }), {
+    message: '"options.refreshLeeway" must be a non-negative number',
+  })
+})
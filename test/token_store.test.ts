@@ -0,0 +1,205 @@
+import anyTest, { type TestFn } from 'ava'
+import setup, {
+  client,
+  endpoint,
+  getResponse,
+  issuer,
+  setupJwks,
+  teardown,
+  type ContextWithAlgs,
+} from './_setup.js'
+import * as jose from 'jose'
+import * as lib from '../src/index.js'
+
+const test = anyTest as TestFn<ContextWithAlgs>
+
+test.before(setup)
+test.after(teardown)
+test.before(setupJwks)
+
+const tIssuer: lib.AuthorizationServer = {
+  ...issuer,
+  token_endpoint: endpoint('token-store'),
+  jwks_uri: endpoint('jwks'),
+}
+
+function encryptionKey() {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+}
+
+class FakeWebStorage {
+  map = new Map<string, string>()
+  getItem(key: string) {
+    return this.map.get(key) ?? null
+  }
+  setItem(key: string, value: string) {
+    this.map.set(key, value)
+  }
+  removeItem(key: string) {
+    this.map.delete(key)
+  }
+}
+
+test('TokenStore() saves, loads, and deletes encrypted token sets', async (t) => {
+  const id_token = await new jose.SignJWT({})
+    .setProtectedHeader({ alg: 'RS256' })
+    .setIssuer(issuer.issuer)
+    .setSubject('urn:example:subject')
+    .setAudience(client.client_id)
+    .setExpirationTime('5m')
+    .setIssuedAt()
+    .sign(t.context.RS256.privateKey)
+
+  const tokens = lib.TokenSet(
+    tIssuer,
+    client,
+    lib.None(),
+    await lib.processRefreshTokenResponse(
+      tIssuer,
+      client,
+      getResponse(
+        JSON.stringify({
+          access_token: 'at-1',
+          token_type: 'DPoP',
+          expires_in: 3600,
+          refresh_token: 'rt-1',
+          id_token,
+        }),
+      ),
+    ),
+  )
+
+  const storage = new FakeWebStorage()
+  const store = lib.TokenStore(lib.WebStorage(storage as unknown as Storage), await encryptionKey())
+  const dpopKeyPair = await lib.generateKeyPair('ES256')
+
+  await store.save('session', tokens, dpopKeyPair)
+  const [[name, value]] = [...storage.map]
+  t.is(name, 'oauth4webapi:session')
+  t.false(value.includes('at-1'))
+
+  const loaded = await store.load('session', tIssuer, client, lib.None())
+  t.deepEqual(loaded!.dpop, {
+    jkt: await jose.calculateJwkThumbprint(await jose.exportJWK(dpopKeyPair.publicKey)),
+    alg: 'ES256',
+  })
+  t.is(loaded!.tokens.access_token, 'at-1')
+  t.is(loaded!.tokens.token_type, 'dpop')
+  t.is(loaded!.tokens.refresh_token, 'rt-1')
+  t.is(loaded!.tokens.id_token, id_token)
+  t.is(loaded!.tokens.expires_at, tokens.expires_at)
+  t.is(loaded!.tokens.claims?.sub, 'urn:example:subject')
+
+  // refreshes are persisted so that rotated refresh tokens survive a reload
+  t.context
+    .intercept({
+      path: '/token-store',
+      method: 'POST',
+      body(body) {
+        return new URLSearchParams(body).get('refresh_token') === 'rt-1'
+      },
+    })
+    .reply(
+      200,
+      { access_token: 'at-2', token_type: 'DPoP', expires_in: 3600, refresh_token: 'rt-2' },
+      { headers: { 'content-type': 'application/json' } },
+    )
+  await loaded!.tokens.refresh()
+
+  const reloaded = await store.load('session', tIssuer, client, lib.None())
+  t.is(reloaded!.tokens.access_token, 'at-2')
+  t.is(reloaded!.tokens.refresh_token, 'rt-2')
+  t.is(reloaded!.tokens.claims?.sub, 'urn:example:subject')
+  t.is(reloaded!.dpop?.alg, 'ES256')
+
+  await store.delete('session')
+  t.is(storage.map.size, 0)
+  t.is(await store.load('session', tIssuer, client, lib.None()), undefined)
+})
+
+test('TokenStore() save failures after a refresh do not fail it', async (t) => {
+  const storage = lib.MemoryStorage()
+  let failing = false
+  const store = lib.TokenStore(
+    {
+      ...storage,
+      set(key, value) {
+        if (failing) throw new Error('quota exceeded')
+        return storage.set(key, value)
+      },
+    },
+    await encryptionKey(),
+  )
+  const tokens = lib.TokenSet(tIssuer, client, lib.None(), {
+    access_token: 'at-1',
+    token_type: 'bearer',
+    refresh_token: 'rt-failing',
+  })
+  await store.save('failing', tokens)
+
+  // the hooks the store uses are not part of the handle
+  for (const method of ['update', 'restore', 'serialize', 'persistWith']) {
+    t.false(method in tokens)
+  }
+
+  t.context
+    .intercept({
+      path: '/token-store',
+      method: 'POST',
+      body(body) {
+        return new URLSearchParams(body).get('refresh_token') === 'rt-failing'
+      },
+    })
+    .reply(
+      200,
+      { access_token: 'at-2', token_type: 'Bearer' },
+      { headers: { 'content-type': 'application/json' } },
+    )
+  failing = true
+  await t.notThrowsAsync(tokens.refresh())
+  t.is(tokens.access_token, 'at-2')
+  t.is((await store.load('failing', tIssuer, client, lib.None()))!.tokens.access_token, 'at-1')
+})
+
+test('TokenStore() rejects tampered, moved, and foreign values', async (t) => {
+  const storage = lib.MemoryStorage()
+  const key = await encryptionKey()
+  const store = lib.TokenStore(storage, key)
+  const tokens = lib.TokenSet(tIssuer, client, lib.None(), {
+    access_token: 'at',
+    token_type: 'bearer',
+  })
+
+  await store.save('a', tokens)
+  t.is((await store.load('a', tIssuer, client, lib.None()))!.dpop, undefined)
+
+  // values are bound to their storage key
+  await storage.set('b', (await storage.get('a'))!)
+  await t.throwsAsync(store.load('b', tIssuer, client, lib.None()), {
+    code: lib.PARSE_ERROR,
+    message: 'failed to decrypt the stored token set',
+  })
+
+  await t.throwsAsync(
+    lib.TokenStore(storage, await encryptionKey()).load('a', tIssuer, client, lib.None()),
+    { message: 'failed to decrypt the stored token set' },
+  )
+
+  await storage.set('c', 'foo')
+  await t.throwsAsync(store.load('c', tIssuer, client, lib.None()), {
+    message: 'failed to decrypt the stored token set',
+  })
+
+  t.throws(() => lib.TokenStore({} as any, key), {
+    message: '"storage" must implement the get, set, and delete methods',
+  })
+  t.throws(() => lib.TokenStore(storage, null as any), {
+    message: '"encryptionKey" must be a CryptoKey',
+  })
+  t.throws(() => lib.WebStorage({} as any), {
+    message: '"storage" must implement the Web Storage API',
+  })
+  await t.throwsAsync(store.save('a', { ...tokens } as any), {
+    message: '"tokens" must be a TokenSet handle',
+  })
+})